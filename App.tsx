@@ -19,6 +19,7 @@ import { requestStarsPayment } from './services/telegramService';
 import { HookChat } from './views/HookChat';
 import { Paywall } from './views/Paywall';
 import { Synastry } from './views/Synastry';
+import { GroupCompatibility } from './views/GroupCompatibility';
 
 // Get owner ID from environment variables for security
 const OWNER_ID = process.env.NEXT_PUBLIC_OWNER_ID || '';
@@ -332,6 +333,11 @@ const App: React.FC = () => {
             setView('settings');
             return;
         }
+        // Group compatibility is opened from Synastry
+        if (view === 'group') {
+            setView('synastry');
+            return;
+        }
         // Otherwise return to Hub
         setView('dashboard');
     };
@@ -378,7 +384,9 @@ const App: React.FC = () => {
                 ) : view === 'oracle' ? (
                     <OracleChat profile={profile} />
                 ) : view === 'synastry' ? (
-                    <Synastry profile={profile} requestPremium={requestPremium} />
+                    <Synastry profile={profile} requestPremium={requestPremium} onOpenGroup={() => setView('group')} />
+                ) : view === 'group' ? (
+                    <GroupCompatibility profile={profile} />
                 ) : view === 'horoscope' ? (
                     <div className="h-full overflow-y-auto scrollbar-hide">
                         <Horoscope 
@@ -403,6 +411,7 @@ const App: React.FC = () => {
                             onUpdate={handleProfileUpdate} 
                             onShowPremiumPreview={() => setShowPremiumPreview(true)}
                             onOpenAdmin={() => setView('admin')}
+                            onChartUpdate={setChartData}
                         />
                     </div>
                 ) : (
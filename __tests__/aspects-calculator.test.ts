@@ -0,0 +1,60 @@
+/**
+ * Тесты для расчета аспектов
+ */
+
+import { findAspect, calculateAspects } from '../lib/aspects-calculator';
+
+describe('Aspects Calculator', () => {
+  describe('findAspect', () => {
+    it('должен находить мажорные аспекты в пределах орбиса', () => {
+      expect(findAspect({ name: 'Sun', longitude: 10 }, { name: 'Moon', longitude: 15 })?.type).toBe('conjunction');
+      expect(findAspect({ name: 'Sun', longitude: 10 }, { name: 'Mars', longitude: 98 })?.type).toBe('square');
+      expect(findAspect({ name: 'Sun', longitude: 10 }, { name: 'Mars', longitude: 132 })?.type).toBe('trine');
+      expect(findAspect({ name: 'Sun', longitude: 10 }, { name: 'Mars', longitude: 193 })?.type).toBe('opposition');
+    });
+
+    it('должен учитывать переход через 0° Овна', () => {
+      const aspect = findAspect({ name: 'Venus', longitude: 355 }, { name: 'Mars', longitude: 57 });
+      expect(aspect?.type).toBe('sextile');
+      expect(aspect?.orb).toBeCloseTo(2, 5);
+    });
+
+    it('должен использовать орбисы планет', () => {
+      // Солнце и Луна: орбис 10°, Хирон и Лилит: 3°
+      expect(findAspect({ name: 'Sun', longitude: 0 }, { name: 'Moon', longitude: 99 })).not.toBeNull();
+      expect(findAspect({ name: 'Chiron', longitude: 0 }, { name: 'Lilith', longitude: 99 })).toBeNull();
+    });
+
+    it('должен отключать минорные аспекты по опции', () => {
+      const body1 = { name: 'Sun', longitude: 0 };
+      const body2 = { name: 'Moon', longitude: 150 };
+      expect(findAspect(body1, body2)?.type).toBe('quincunx');
+      expect(findAspect(body1, body2, { includeMinor: false })).toBeNull();
+    });
+
+    it('должен определять сходящийся и расходящийся аспект', () => {
+      // Луна догоняет Солнце до соединения — сходящийся
+      expect(findAspect({ name: 'Sun', longitude: 20, speed: 1 }, { name: 'Moon', longitude: 15, speed: 13 })?.applying).toBe(true);
+      // Луна уже обогнала Солнце — расходящийся
+      expect(findAspect({ name: 'Sun', longitude: 20, speed: 1 }, { name: 'Moon', longitude: 25, speed: 13 })?.applying).toBe(false);
+      // Ретроградный Сатурн возвращается к точному квадрату с неподвижным Асцендентом
+      expect(findAspect({ name: 'Ascendant', longitude: 0, speed: 0 }, { name: 'Saturn', longitude: 93, speed: -0.05 })?.applying).toBe(true);
+    });
+  });
+
+  describe('calculateAspects', () => {
+    it('должен сортировать аспекты по орбису и пропускать ось узлов', () => {
+      const aspects = calculateAspects([
+        { name: 'Sun', longitude: 0 },
+        { name: 'Moon', longitude: 121 },
+        { name: 'Mars', longitude: 90.4 },
+        { name: 'North Node', longitude: 200 },
+        { name: 'South Node', longitude: 20 },
+      ]);
+
+      expect(aspects.map(a => a.orb)).toEqual([...aspects.map(a => a.orb)].sort((a, b) => a - b));
+      expect(aspects[0]).toMatchObject({ planet1: 'Sun', planet2: 'Mars', type: 'square' });
+      expect(aspects.some(a => a.planet1 === 'North Node' && a.planet2 === 'South Node')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,108 @@
+/**
+ * Тесты для баланса карты: стихии, кресты, достоинства, управитель и доминанта
+ */
+
+import { calculateChartBalance, getDignity } from '../lib/chart-balance';
+import { calculateNatalChart } from '../lib/swisseph-calculator';
+import type { PlanetPosition } from '../types';
+
+const position = (planet: string, sign: string, house?: number): PlanetPosition => ({
+  planet,
+  sign,
+  house,
+  description: ''
+});
+
+const sun = position('Sun', 'Leo', 10);
+const moon = position('Moon', 'Cancer', 8);
+const chart = {
+  sun,
+  moon,
+  rising: position('Ascendant', 'Scorpio', 1),
+  mc: position('MC', 'Leo', 10),
+  planets: {
+    sun,
+    moon,
+    mercury: position('Mercury', 'Pisces', 4),
+    venus: position('Venus', 'Aries', 5),
+    mars: position('Mars', 'Capricorn', 2),
+    jupiter: position('Jupiter', 'Cancer', 9),
+    saturn: position('Saturn', 'Aries', 5),
+    pluto: position('Pluto', 'Scorpio', 1)
+  },
+  aspects: [
+    { planet1: 'Sun', planet2: 'Moon', type: 'semisextile' as const, angle: 30, orb: 0.5, applying: true },
+    { planet1: 'Pluto', planet2: 'Sun', type: 'square' as const, angle: 90, orb: 3, applying: false }
+  ]
+};
+
+describe('Chart Balance', () => {
+  describe('getDignity', () => {
+    it('должен определять обитель, экзальтацию, изгнание и падение', () => {
+      expect(getDignity('Sun', 'Leo')).toBe('domicile');
+      expect(getDignity('Mars', 'Capricorn')).toBe('exaltation');
+      expect(getDignity('Venus', 'Aries')).toBe('detriment');
+      expect(getDignity('Saturn', 'Aries')).toBe('fall');
+      expect(getDignity('Jupiter', 'Gemini')).toBe('detriment');
+      expect(getDignity('Sun', 'Gemini')).toBeNull();
+    });
+
+    it('должен предпочитать обитель экзальтации и изгнание падению', () => {
+      expect(getDignity('Mercury', 'Virgo')).toBe('domicile');
+      expect(getDignity('Mercury', 'Pisces')).toBe('detriment');
+      // У высших планет экзальтаций нет, обители — современные
+      expect(getDignity('Pluto', 'Scorpio')).toBe('domicile');
+      expect(getDignity('Pluto', 'Taurus')).toBe('detriment');
+      expect(getDignity('Pluto', 'Leo')).toBeNull();
+    });
+  });
+
+  describe('calculateChartBalance', () => {
+    const balance = calculateChartBalance(chart);
+
+    it('должен считать стихии и кресты с весами точек', () => {
+      // Веса: Солнце 3, Луна 3, Меркурий 2, Венера 2, Марс 2, Юпитер 1.5, Сатурн 1.5, Плутон 0.5, ASC 3, MC 1 — всего 19.5
+      expect(balance.elements).toEqual({ Fire: 38.5, Earth: 10.3, Air: 0, Water: 51.3 });
+      expect(balance.modalities).toEqual({ cardinal: 51.3, fixed: 38.5, mutable: 10.3 });
+      expect(balance.dominantElement).toBe('Water');
+      expect(balance.dominantModality).toBe('cardinal');
+    });
+
+    it('должен брать управителя карты по Асценденту, а не по Солнцу', () => {
+      expect(balance.chartRuler).toBe('Pluto');
+      expect(calculateChartBalance({ ...chart, birthTimeUnknown: true }).chartRuler).toBe('Sun');
+    });
+
+    it('должен перечислять достоинства и выбирать доминанту по силе планет', () => {
+      expect(balance.dignities).toEqual([
+        { planet: 'Sun', sign: 'Leo', dignity: 'domicile' },
+        { planet: 'Moon', sign: 'Cancer', dignity: 'domicile' },
+        { planet: 'Mercury', sign: 'Pisces', dignity: 'detriment' },
+        { planet: 'Venus', sign: 'Aries', dignity: 'detriment' },
+        { planet: 'Mars', sign: 'Capricorn', dignity: 'exaltation' },
+        { planet: 'Jupiter', sign: 'Cancer', dignity: 'exaltation' },
+        { planet: 'Saturn', sign: 'Aries', dignity: 'fall' },
+        { planet: 'Pluto', sign: 'Scorpio', dignity: 'domicile' }
+      ]);
+      // Плутон: 0.5 + обитель 5 + управитель 5 + угловой дом 3 + аспект 1
+      expect(balance.planetScores[0]).toEqual({ planet: 'Pluto', score: 14.5 });
+      // Солнце: 3 + обитель 5 + угловой дом 3 + точный аспект 2 + аспект 1
+      expect(balance.planetScores[1]).toEqual({ planet: 'Sun', score: 14 });
+      expect(balance.dominantPlanet).toBe('Pluto');
+      expect(balance.planetScores.map(score => score.planet).slice(-2)).toEqual(['Saturn', 'Venus']);
+    });
+
+    it('должен считать баланс натальной карты вместе с расчетом', async () => {
+      const location = { lat: 55.7558, lon: 37.6173, timezone: 'Europe/Moscow' };
+      const natal = await calculateNatalChart('Test', '1990-06-15', '14:30', location);
+      const total = (values: Record<string, number>) => Object.values(values).reduce((sum, value) => sum + value, 0);
+
+      expect(natal.balance).toEqual(calculateChartBalance(natal));
+      expect(natal.element).toBe(natal.balance.dominantElement);
+      expect(natal.rulingPlanet).toBe(natal.balance.chartRuler);
+      expect(total(natal.balance.elements)).toBeCloseTo(100, 0);
+      expect(total(natal.balance.modalities)).toBeCloseTo(100, 0);
+      expect(natal.balance.planetScores).toHaveLength(10);
+    });
+  });
+});
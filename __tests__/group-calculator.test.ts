@@ -0,0 +1,82 @@
+/**
+ * Тесты для групповой совместимости
+ */
+
+import { calculateGroupCompatibility, type GroupChartInput } from '../lib/group-calculator';
+import { calculateNatalChart } from '../lib/swisseph-calculator';
+import type { NatalChartData } from '../types';
+
+describe('Group Calculator', () => {
+  const moscow = { lat: 55.7558, lon: 37.6173, timezone: 'Europe/Moscow' };
+  let charts: NatalChartData[];
+
+  beforeAll(async () => {
+    charts = await Promise.all([
+      calculateNatalChart('A', '1990-06-15', '14:30', moscow),
+      calculateNatalChart('B', '1992-11-03', '08:15', moscow),
+      calculateNatalChart('C', '1985-02-20', '', moscow),
+      calculateNatalChart('D', '2015-03-10', '09:30', moscow)
+    ]);
+  });
+
+  const toInputs = (count: number): GroupChartInput[] =>
+    charts.slice(0, count).map((chart, index) => ({ id: String(index + 1), name: `Person ${index + 1}`, chart }));
+
+  describe('calculateGroupCompatibility', () => {
+    it('должен строить симметричную матрицу по всем парам', () => {
+      const group = calculateGroupCompatibility(toInputs(4));
+
+      expect(group.members).toHaveLength(4);
+      expect(group.pairs).toHaveLength(6);
+      for (let i = 0; i < 4; i++) {
+        expect(group.matrix[i][i]).toBeNull();
+        for (let j = 0; j < 4; j++) {
+          expect(group.matrix[i][j]).toBe(group.matrix[j][i]);
+        }
+      }
+
+      const pair = group.pairs.find(p => p.member1 === '2' && p.member2 === '4')!;
+      expect(group.matrix[1][3]).toBe(pair.score.total);
+      expect(pair.topAspects.length).toBeLessThanOrEqual(3);
+    });
+
+    it('должен выделять сильные и напряженные пары без пересечения', () => {
+      const group = calculateGroupCompatibility(toInputs(4));
+      const totals = group.pairs.map(pair => pair.score.total);
+
+      expect(group.strongestPairs).toHaveLength(3);
+      expect(group.strainedPairs).toHaveLength(3);
+      expect(group.strongestPairs[0].score.total).toBe(Math.max(...totals));
+      expect(group.strainedPairs[0].score.total).toBe(Math.min(...totals));
+      expect(group.strongestPairs.some(pair => group.strainedPairs.includes(pair))).toBe(false);
+
+      // У трех человек три пары: по одной сильной и напряженной
+      const trio = calculateGroupCompatibility(toInputs(3));
+      expect(trio.strongestPairs).toHaveLength(1);
+      expect(trio.strainedPairs).toHaveLength(1);
+    });
+
+    it('должен усреднять баланс стихий участников', () => {
+      const group = calculateGroupCompatibility(toInputs(3));
+      const { elements } = group.balance;
+      const total = elements.Fire + elements.Earth + elements.Air + elements.Water;
+
+      expect(total).toBeCloseTo(100, 0);
+      expect(elements.Fire).toBeCloseTo(
+        (charts[0].balance!.elements.Fire + charts[1].balance!.elements.Fire + charts[2].balance!.elements.Fire) / 3,
+        1
+      );
+      expect(elements[group.balance.dominantElement]).toBeGreaterThanOrEqual(elements[group.balance.weakestElement]);
+    });
+
+    it('должен проверять размер группы и зодиак', async () => {
+      expect(() => calculateGroupCompatibility(toInputs(2))).toThrow('from 3 to 8');
+
+      const inputs = toInputs(3);
+      expect(() => calculateGroupCompatibility([...inputs.slice(0, 2), { ...inputs[2], id: '1' }])).toThrow('unique');
+
+      const sidereal = await calculateNatalChart('S', '1990-06-15', '14:30', moscow, { zodiacType: 'sidereal' });
+      expect(() => calculateGroupCompatibility([...inputs.slice(0, 2), { ...inputs[2], chart: sidereal }])).toThrow('different zodiacs');
+    });
+  });
+});
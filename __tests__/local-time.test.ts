@@ -0,0 +1,84 @@
+/**
+ * Тесты для перевода местного времени в UTC на переводе часов
+ */
+
+import { formatLocalTime, resolveLocalTime } from '../lib/local-time';
+
+describe('Local Time', () => {
+  describe('resolveLocalTime', () => {
+    it('должен переводить обычное время без предупреждения', () => {
+      const result = resolveLocalTime('1990-06-15T14:30', 'Europe/Moscow');
+
+      expect(result.utc.toISOString()).toBe('1990-06-15T10:30:00.000Z');
+      expect(result.offset).toBe('+04:00');
+      expect(result.warning).toBeUndefined();
+    });
+
+    it('должен находить оба момента, если часы перевели назад', () => {
+      const result = resolveLocalTime('2021-11-07T01:30', 'America/New_York');
+
+      expect(result.warning?.type).toBe('ambiguous');
+      expect(result.warning?.candidates).toEqual([
+        { utc: '2021-11-07T05:30:00.000Z', offset: '-04:00', localTime: '01:30' },
+        { utc: '2021-11-07T06:30:00.000Z', offset: '-05:00', localTime: '01:30' }
+      ]);
+      // По умолчанию — первый раз
+      expect(result.utc.toISOString()).toBe('2021-11-07T05:30:00.000Z');
+      expect(result.warning?.isDefaultChoice).toBe(true);
+    });
+
+    it('должен брать выбранный пользователем момент', () => {
+      const result = resolveLocalTime('2021-11-07T01:30', 'America/New_York', 'later');
+
+      expect(result.utc.toISOString()).toBe('2021-11-07T06:30:00.000Z');
+      expect(result.offset).toBe('-05:00');
+      expect(result.warning?.choice).toBe('later');
+      expect(result.warning?.isDefaultChoice).toBe(false);
+    });
+
+    it('должен сообщать о несуществующем времени, если часы перевели вперед', () => {
+      // 1 апреля 1981 — первое летнее время в СССР: в 00:00 часы переведены на 01:00
+      const result = resolveLocalTime('1981-04-01T00:30', 'Europe/Moscow');
+
+      expect(result.warning?.type).toBe('nonexistent');
+      expect(result.warning?.candidates).toEqual([
+        { utc: '1981-03-31T20:30:00.000Z', offset: '+03:00', localTime: '23:30' },
+        { utc: '1981-03-31T21:30:00.000Z', offset: '+04:00', localTime: '01:30' }
+      ]);
+      // По умолчанию время сдвигается вперед на величину перевода
+      expect(result.utc.toISOString()).toBe('1981-03-31T21:30:00.000Z');
+    });
+
+    it('должен учитывать историю пояса, а не текущее смещение', () => {
+      // Москва: летнее время 1991 (UTC+3 после зимнего UTC+2), постоянное UTC+4 в 2011–2014 и UTC+3 сейчас
+      expect(resolveLocalTime('1991-06-01T12:00', 'Europe/Moscow').offset).toBe('+03:00');
+      expect(resolveLocalTime('2012-01-15T12:00', 'Europe/Moscow').offset).toBe('+04:00');
+      expect(resolveLocalTime('2020-01-15T12:00', 'Europe/Moscow').offset).toBe('+03:00');
+      // 26 октября 2014 в 02:00 часы переведены на 01:00 — последний перевод в Москве
+      expect(resolveLocalTime('2014-10-26T01:30', 'Europe/Moscow').warning?.type).toBe('ambiguous');
+    });
+
+    it('должен принимать смещение от UTC вместо пояса', () => {
+      const result = resolveLocalTime('1981-04-01T00:30', '+03:00');
+
+      expect(result.utc.toISOString()).toBe('1981-03-31T21:30:00.000Z');
+      expect(result.warning).toBeUndefined();
+    });
+
+    it('должен выбрасывать ошибку для неизвестного пояса и неверного формата', () => {
+      expect(() => resolveLocalTime('1990-06-15T14:30', 'Mars/Olympus')).toThrow('Unknown timezone');
+      expect(() => resolveLocalTime('1990-06-15 14:30', 'UTC')).toThrow('Invalid local time');
+    });
+  });
+
+  describe('formatLocalTime', () => {
+    it('должен показывать момент в поясе с учетом летнего времени', () => {
+      expect(formatLocalTime(new Date('2026-02-17T12:12:00Z'), 'Europe/Moscow')).toEqual({ localTime: '2026-02-17T15:12', offset: '+03:00' });
+      expect(formatLocalTime(new Date('2026-07-01T00:30:00Z'), 'America/New_York')).toEqual({ localTime: '2026-06-30T20:30', offset: '-04:00' });
+    });
+
+    it('должен принимать смещение от UTC вместо пояса', () => {
+      expect(formatLocalTime(new Date('2026-01-01T00:30:00Z'), '-05:00')).toEqual({ localTime: '2025-12-31T19:30', offset: '-05:00' });
+    });
+  });
+});
@@ -0,0 +1,78 @@
+/**
+ * Тесты для фазы Луны и лунного календаря
+ */
+
+import { findNextLunation, getLunarCalendar, getMoonIllumination, getMoonPhaseInfo, getMoonPhaseName } from '../lib/lunar-calculator';
+
+const MINUTE = 60 * 1000;
+
+describe('Lunar Calculator', () => {
+  describe('getMoonPhaseName / getMoonIllumination', () => {
+    it('должен определять фазу по элонгации Луны от Солнца', () => {
+      expect(getMoonPhaseName(0)).toBe('new_moon');
+      expect(getMoonPhaseName(350)).toBe('new_moon');
+      expect(getMoonPhaseName(45)).toBe('waxing_crescent');
+      expect(getMoonPhaseName(90)).toBe('first_quarter');
+      expect(getMoonPhaseName(180)).toBe('full_moon');
+      expect(getMoonPhaseName(225)).toBe('waning_gibbous');
+      expect(getMoonPhaseName(270)).toBe('last_quarter');
+      expect(getMoonPhaseName(320)).toBe('waning_crescent');
+    });
+
+    it('должен считать освещенность диска', () => {
+      expect(getMoonIllumination(0)).toBeCloseTo(0, 6);
+      expect(getMoonIllumination(90)).toBeCloseTo(50, 6);
+      expect(getMoonIllumination(180)).toBeCloseTo(100, 6);
+    });
+  });
+
+  describe('findNextLunation', () => {
+    it('должен находить полнолуние и новолуние с точностью до минут', () => {
+      const start = new Date('2025-03-10T00:00:00Z');
+      const fullMoon = findNextLunation(start, 'full_moon');
+      const newMoon = findNextLunation(start, 'new_moon');
+
+      // Полнолуние 14.03.2025 06:55 UTC, новолуние 29.03.2025 10:58 UTC
+      expect(Math.abs(new Date(fullMoon.date).getTime() - Date.parse('2025-03-14T06:55:00Z'))).toBeLessThan(2 * MINUTE);
+      expect(fullMoon.sign).toBe('Virgo');
+      expect(Math.abs(new Date(newMoon.date).getTime() - Date.parse('2025-03-29T10:58:00Z'))).toBeLessThan(2 * MINUTE);
+      expect(newMoon.sign).toBe('Aries');
+    });
+
+    it('должен возвращать лунацию строго после указанного момента', () => {
+      const fullMoon = findNextLunation(new Date('2025-03-10T00:00:00Z'), 'full_moon');
+      const next = findNextLunation(new Date(fullMoon.date), 'full_moon');
+      expect(new Date(next.date).getTime() - new Date(fullMoon.date).getTime()).toBeGreaterThan(25 * 24 * 60 * MINUTE);
+    });
+  });
+
+  describe('getMoonPhaseInfo', () => {
+    it('должен возвращать фазу, освещенность и ближайшие лунации', () => {
+      const info = getMoonPhaseInfo(new Date('2025-03-14T06:55:00Z'));
+      expect(info.phase).toBe('full_moon');
+      expect(info.illumination).toBeGreaterThan(99);
+      expect(new Date(info.nextNewMoon.date) < new Date(info.nextFirstQuarter.date)).toBe(true);
+      expect(info.nextLastQuarter.date.startsWith('2025-03-22')).toBe(true);
+    });
+
+    it('должен выбрасывать ошибку для некорректной даты', () => {
+      expect(() => getMoonPhaseInfo(new Date('invalid'))).toThrow('Invalid date');
+    });
+  });
+
+  describe('getLunarCalendar', () => {
+    it('должен возвращать все дни месяца и лунации', () => {
+      const calendar = getLunarCalendar(2025, 3);
+      expect(calendar.days).toHaveLength(31);
+      expect(calendar.lunations.map(event => event.type)).toEqual(['first_quarter', 'full_moon', 'last_quarter', 'new_moon']);
+
+      const fullMoonDay = calendar.days.find(day => day.date === '2025-03-14');
+      expect(fullMoonDay?.phase).toBe('full_moon');
+      expect(fullMoonDay?.lunation?.type).toBe('full_moon');
+    });
+
+    it('должен отклонять некорректный месяц', () => {
+      expect(() => getLunarCalendar(2025, 13)).toThrow('Invalid month');
+    });
+  });
+});
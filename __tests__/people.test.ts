@@ -0,0 +1,75 @@
+/**
+ * Тесты для сохраненных людей: координаты и карта при сохранении
+ */
+
+import { buildPersonRecord, getPersonChart } from '../lib/people';
+
+describe('People', () => {
+  describe('buildPersonRecord', () => {
+    it('должен рассчитывать карту по введенным координатам', async () => {
+      const record = await buildPersonRecord({
+        name: ' Anna ',
+        relationship: 'child',
+        birthDate: '2015-03-10',
+        birthTime: '09:30',
+        birthPlace: 'Moscow',
+        birthLat: 55.7558,
+        birthLon: 37.6173,
+        birthTimezone: 'Europe/Moscow'
+      });
+
+      expect(record.name).toBe('Anna');
+      expect(record.birthLat).toBe(55.7558);
+      expect(record.birthTimezone).toBe('Europe/Moscow');
+      expect(record.chart.sun.sign).toBe('Pisces');
+      expect(record.chart.birthTimeUnknown).toBeFalsy();
+      expect(record.chart.houses).toHaveLength(12);
+    });
+
+    it('должен брать сохраненные координаты, если место не менялось', async () => {
+      const previous = await buildPersonRecord({
+        name: 'Anna',
+        relationship: 'child',
+        birthDate: '2015-03-10',
+        birthPlace: 'Somewhere',
+        birthLat: -33.8688,
+        birthLon: 151.2093,
+        birthTimezone: 'Australia/Sydney'
+      });
+
+      const record = await buildPersonRecord(
+        { name: 'Anna', relationship: 'child', birthDate: '2015-03-11', birthPlace: 'Somewhere' },
+        { zodiacType: 'sidereal', ayanamsa: 'lahiri' },
+        { ...previous, id: '1' }
+      );
+
+      expect(record.birthLat).toBe(-33.8688);
+      expect(record.birthTimezone).toBe('Australia/Sydney');
+      expect(record.birthTime).toBeUndefined();
+      expect(record.chart.birthTimeUnknown).toBe(true);
+      expect(record.chart.zodiacType).toBe('sidereal');
+    });
+  });
+
+  describe('getPersonChart', () => {
+    it('должен пересчитывать карту, если пользователь сменил систему домов', async () => {
+      const record = await buildPersonRecord({
+        name: 'Anna',
+        relationship: 'child',
+        birthDate: '2015-03-10',
+        birthTime: '09:30',
+        birthPlace: 'Moscow',
+        birthLat: 55.7558,
+        birthLon: 37.6173,
+        birthTimezone: 'Europe/Moscow'
+      });
+      const person = { ...record, id: '1' };
+
+      expect(await getPersonChart(person)).toBe(record.chart);
+
+      const chart = await getPersonChart(person, { houseSystem: 'whole_sign' });
+      expect(chart.houseSystem).toBe('whole_sign');
+      expect(chart.houses![0].degree).toBe(0);
+    });
+  });
+});
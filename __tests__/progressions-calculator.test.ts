@@ -0,0 +1,100 @@
+/**
+ * Тесты для вторичных прогрессий и дирекций солнечной дуги
+ */
+
+import { calculateProgressions, findProgressedMoonIngresses, getProgressedJulianDay } from '../lib/progressions-calculator';
+import { calculateEphemeris, dateToJulianDay } from '../lib/swisseph-calculator';
+import { ZODIAC_SIGNS } from '../lib/zodiac-utils';
+import type { NatalChartData } from '../types';
+
+const birth = new Date('1990-06-15T10:30:00Z');
+const ephemeris = calculateEphemeris(birth);
+
+const natalChart = {
+  sun: ephemeris.planets.sun!,
+  moon: ephemeris.planets.moon!,
+  rising: { planet: 'Ascendant', sign: 'Libra', degree: 5, longitude: 185, description: '' },
+  mc: { planet: 'MC', sign: 'Cancer', degree: 10, longitude: 100, description: '' },
+  mercury: ephemeris.planets.mercury!,
+  venus: ephemeris.planets.venus!,
+  mars: ephemeris.planets.mars!,
+  planets: ephemeris.planets,
+  julianDay: ephemeris.julianDay,
+  element: 'Air',
+  rulingPlanet: 'Mercury',
+  summary: ''
+} as NatalChartData;
+
+describe('Progressions Calculator', () => {
+  describe('getProgressedJulianDay', () => {
+    it('должен сопоставлять году жизни одни сутки эфемериды', () => {
+      const progressed = getProgressedJulianDay(ephemeris.julianDay, new Date('2020-06-15T10:30:00Z'));
+      expect(progressed - ephemeris.julianDay).toBeCloseTo(30, 1);
+    });
+  });
+
+  describe('calculateProgressions', () => {
+    const result = calculateProgressions(natalChart, new Date('2025-06-15T12:00:00Z'));
+
+    it('должен считать солнечную дугу как смещение прогрессивного Солнца', () => {
+      const progressedSun = result.secondary.planets.sun!.longitude!;
+      const expectedArc = (progressedSun - natalChart.sun.longitude! + 360) % 360;
+      expect(result.age).toBeCloseTo(35, 1);
+      expect(result.secondary.solarArc).toBeCloseTo(expectedArc, 2);
+      // Солнце проходит около градуса в сутки, значит дуга за 35 лет — около 33-35°
+      expect(result.secondary.solarArc).toBeGreaterThan(30);
+      expect(result.secondary.solarArc).toBeLessThan(37);
+    });
+
+    it('должен сдвигать все натальные точки на солнечную дугу в дирекциях', () => {
+      const directedMoon = result.solarArc.planets.moon!.longitude!;
+      expect(directedMoon).toBeCloseTo((natalChart.moon.longitude! + result.solarArc.solarArc) % 360, 2);
+      expect(result.solarArc.mc.longitude).toBeCloseTo((100 + result.solarArc.solarArc) % 360, 2);
+      expect(result.solarArc.rising.planet).toBe('Ascendant');
+    });
+
+    it('должен находить аспекты к натальным точкам в орбисе 1°', () => {
+      for (const aspect of [...result.secondary.aspectsToNatal, ...result.solarArc.aspectsToNatal]) {
+        expect(aspect.orb).toBeLessThanOrEqual(1);
+      }
+    });
+
+    it('не должен искать аспекты осей, если время рождения неизвестно', () => {
+      const unknownTime = calculateProgressions({ ...natalChart, birthTimeUnknown: true }, new Date('2025-06-15T12:00:00Z'));
+      const isAngle = (name: string) => name === 'Ascendant' || name === 'MC';
+
+      for (const aspect of [...unknownTime.secondary.aspectsToNatal, ...unknownTime.solarArc.aspectsToNatal]) {
+        expect(isAngle(aspect.planet1) || isAngle(aspect.planet2)).toBe(false);
+      }
+      expect(unknownTime.solarArc.solarArc).toBe(result.solarArc.solarArc);
+    });
+
+    it('должен требовать момент рождения в карте', () => {
+      expect(() => calculateProgressions({ ...natalChart, julianDay: undefined }, new Date()))
+        .toThrow('julianDay');
+    });
+
+    it('должен отклонять дату раньше рождения', () => {
+      expect(() => calculateProgressions(natalChart, new Date('1980-01-01T00:00:00Z'))).toThrow('after birth');
+    });
+  });
+
+  describe('findProgressedMoonIngresses', () => {
+    it('должен находить последовательные смены знака прогрессивной Луны', () => {
+      const ingresses = findProgressedMoonIngresses(
+        ephemeris.julianDay,
+        new Date('2015-01-01T00:00:00Z'),
+        new Date('2025-01-01T00:00:00Z')
+      );
+
+      // Прогрессивная Луна меняет знак примерно раз в 2,5 года
+      expect(ingresses.length).toBeGreaterThanOrEqual(3);
+      expect(ingresses.length).toBeLessThanOrEqual(5);
+      for (const ingress of ingresses) {
+        const previousIndex = ZODIAC_SIGNS.indexOf(ingress.previousSign as typeof ZODIAC_SIGNS[number]);
+        expect(ingress.sign).toBe(ZODIAC_SIGNS[(previousIndex + 1) % 12]);
+        expect(dateToJulianDay(new Date(ingress.date))).toBeGreaterThan(ephemeris.julianDay);
+      }
+    });
+  });
+});
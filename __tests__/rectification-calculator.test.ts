@@ -0,0 +1,87 @@
+/**
+ * Тесты для ректификации времени рождения по событиям жизни
+ */
+
+import { rectifyBirthTime } from '../lib/rectification-calculator';
+import { validateRectificationInput } from '../lib/validation';
+
+const location = { lat: 55.7558, lon: 37.6173, timezone: 'Europe/Moscow' };
+
+// Даты, когда Юпитер, Сатурн, Уран или Плутон точно проходили оси карты 1985-03-10 09:20 (Москва)
+const events = [
+  '1986-01-31', '1986-10-28', '1987-09-18', '1991-01-25', '1991-10-22', '1992-06-18',
+  '1994-09-16', '1995-06-23', '1998-02-07', '1998-11-29', '1999-07-17', '2000-08-15'
+].map(date => ({ date }));
+
+describe('Rectification Calculator', () => {
+  describe('rectifyBirthTime', () => {
+    const result = rectifyBirthTime({ birthDate: '1985-03-10', timeFrom: '07:00', timeTo: '11:00', location, events });
+
+    it('должен находить время, при котором события совпадают с осями карты', () => {
+      const [best] = result.candidates;
+      expect(best.time).toBe('09:20');
+      expect(best.ascendant.sign).toBe('Gemini');
+      expect(best.ascendant.degree).toBeCloseTo(7.89, 1);
+      expect(best.matchedEvents).toBe(events.length);
+    });
+
+    it('должен возвращать разные Асценденты по убыванию score с уверенностью 0–1', () => {
+      expect(result.checkedTimes).toBe(61);
+      expect(result.candidates.length).toBeGreaterThan(1);
+      for (let i = 1; i < result.candidates.length; i++) {
+        expect(result.candidates[i].score).toBeLessThanOrEqual(result.candidates[i - 1].score);
+        expect(result.candidates[i].ascendant.longitude).not.toBeCloseTo(result.candidates[0].ascendant.longitude!, 0);
+      }
+      for (const candidate of result.candidates) {
+        expect(candidate.confidence).toBeGreaterThan(0);
+        expect(candidate.confidence).toBeLessThanOrEqual(1);
+      }
+      expect(result.candidates[0].confidence).toBeGreaterThan(result.candidates[1].confidence);
+    });
+
+    it('должен объяснять оценку списком аспектов к осям', () => {
+      const transitHits = result.candidates[0].hits.filter(hit => hit.technique === 'transit');
+      expect(transitHits.length).toBeGreaterThan(0);
+      for (const hit of transitHits) {
+        expect(['Ascendant', 'MC']).toContain(hit.target);
+        expect(['conjunction', 'opposition', 'square']).toContain(hit.type);
+        expect(hit.orb).toBeLessThanOrEqual(2);
+      }
+    });
+
+    it('должен отклонять некорректное окно и события до рождения', () => {
+      expect(() => rectifyBirthTime({ birthDate: '1985-03-10', timeFrom: '11:00', timeTo: '07:00', location, events }))
+        .toThrow('time window');
+      expect(() => rectifyBirthTime({ birthDate: '1985-03-10', timeFrom: '07:00', timeTo: '11:00', location, events: [{ date: '1980-01-01' }] }))
+        .toThrow('Invalid event date');
+    });
+  });
+
+  describe('validateRectificationInput', () => {
+    it('должен принимать окно времени и список событий', () => {
+      const validation = validateRectificationInput({
+        birthDate: '1985-03-10',
+        timeFrom: '06:00',
+        timeTo: '12:00',
+        events: [{ date: '2010-05-20', type: 'relationship', description: 'Свадьба' }],
+        stepMinutes: 2
+      });
+      expect(validation.isValid).toBe(true);
+    });
+
+    it('должен отклонять пустой список, неизвестный тип и событие до рождения', () => {
+      const fields = (data: Parameters<typeof validateRectificationInput>[0]) =>
+        validateRectificationInput(data).errors.map(error => error.field);
+
+      expect(fields({ birthDate: '1985-03-10', timeFrom: '06:00', timeTo: '12:00', events: [] })).toEqual(['events']);
+      expect(fields({ birthDate: '1985-03-10', timeFrom: '12:00', timeTo: '06:00', events: [{ date: '2010-05-20' }] })).toEqual(['timeTo']);
+      expect(fields({
+        birthDate: '1985-03-10',
+        timeFrom: '06:00',
+        timeTo: '12:00',
+        events: [{ date: '1984-01-01' }, { date: '2010-05-20', type: 'wedding' }],
+        stepMinutes: 0
+      })).toEqual(['stepMinutes', 'events[0].date', 'events[1].type']);
+    });
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * Тесты для карт отношений: композит и Дависон
+ */
+
+import { calculateCompositeChart, calculateDavisonChart, getGeographicMidpoint, getMidpoint } from '../lib/relationship-calculator';
+import { calculateNatalChart } from '../lib/swisseph-calculator';
+
+describe('Relationship Calculator', () => {
+  const moscow = { lat: 55.7558, lon: 37.6173, timezone: 'Europe/Moscow' };
+  const newYork = { lat: 40.7128, lon: -74.006, timezone: 'America/New_York' };
+
+  describe('getMidpoint', () => {
+    it('должен брать середину по короткой дуге', () => {
+      expect(getMidpoint(10, 50)).toBe(30);
+      expect(getMidpoint(350, 20)).toBe(5);
+      expect(getMidpoint(20, 350)).toBe(5);
+      expect(getMidpoint(100, 300)).toBe(20);
+    });
+  });
+
+  describe('getGeographicMidpoint', () => {
+    it('должен находить середину по дуге большого круга', () => {
+      const equator = getGeographicMidpoint({ lat: 0, lon: 170 }, { lat: 0, lon: -170 });
+      expect(equator.lat).toBeCloseTo(0, 6);
+      expect(Math.abs(equator.lon)).toBeCloseTo(180, 6);
+
+      // Середина Москва — Нью-Йорк проходит севернее обеих точек
+      const midpoint = getGeographicMidpoint(moscow, newYork);
+      expect(midpoint.lat).toBeGreaterThan(moscow.lat);
+      expect(midpoint.lon).toBeGreaterThan(newYork.lon);
+      expect(midpoint.lon).toBeLessThan(moscow.lon);
+    });
+  });
+
+  describe('calculateCompositeChart', () => {
+    it('должен ставить планеты в середины, а Асцендент — восточнее MC', async () => {
+      const chart1 = await calculateNatalChart('A', '1990-06-15', '14:30', moscow);
+      const chart2 = await calculateNatalChart('B', '1992-11-03', '08:15', newYork);
+      const { type, chart } = calculateCompositeChart(chart1, chart2);
+
+      expect(type).toBe('composite');
+      expect(chart.sun.longitude).toBeCloseTo(getMidpoint(chart1.sun.longitude, chart2.sun.longitude), 10);
+      expect(chart.planets?.venus?.longitude).toBeCloseTo(getMidpoint(chart1.planets.venus!.longitude, chart2.planets.venus!.longitude), 10);
+      expect(chart.birthTimeUnknown).toBeUndefined();
+      expect(chart.houses).toHaveLength(12);
+      expect(chart.sun.house).toBeGreaterThanOrEqual(1);
+
+      const ascendantFromMc = ((chart.rising.longitude! - chart.mc!.longitude!) % 360 + 360) % 360;
+      expect(ascendantFromMc).toBeGreaterThan(0);
+      expect(ascendantFromMc).toBeLessThan(180);
+      expect(chart.balance?.chartRuler).toBe(chart.rulingPlanet);
+    });
+
+    it('не должен строить дома, если у кого-то неизвестно время рождения', async () => {
+      const chart1 = await calculateNatalChart('A', '1990-06-15', '14:30', moscow);
+      const chart2 = await calculateNatalChart('B', '1992-11-03', '', newYork);
+      const { chart } = calculateCompositeChart(chart1, chart2);
+
+      expect(chart.birthTimeUnknown).toBe(true);
+      expect(chart.houses).toEqual([]);
+      expect(chart.sun.house).toBeUndefined();
+      expect(chart.aspects?.some(aspect => aspect.planet1 === 'Ascendant' || aspect.planet2 === 'Ascendant')).toBe(false);
+    });
+
+    it('должен отклонять карты в разных зодиаках', async () => {
+      const tropical = await calculateNatalChart('A', '1990-06-15', '14:30', moscow);
+      const sidereal = await calculateNatalChart('B', '1992-11-03', '08:15', newYork, { zodiacType: 'sidereal' });
+
+      expect(() => calculateCompositeChart(tropical, sidereal)).toThrow('different zodiacs');
+    });
+  });
+
+  describe('calculateDavisonChart', () => {
+    it('должен строить карту на середину по времени и месту', async () => {
+      const chart1 = await calculateNatalChart('A', '1990-06-15', '14:30', moscow);
+      const chart2 = await calculateNatalChart('B', '1992-11-03', '08:15', newYork);
+      const davison = await calculateDavisonChart(chart1, chart2, moscow, newYork);
+
+      const midpointMs = (Date.parse(chart1.birthDateUtc) + Date.parse(chart2.birthDateUtc)) / 2;
+      expect(Math.abs(Date.parse(davison.date!) - midpointMs)).toBeLessThan(1000);
+      expect(davison.location).toEqual(getGeographicMidpoint(moscow, newYork));
+      expect(davison.chart.houses).toHaveLength(12);
+      expect(davison.chart.birthTimeUnknown).toBeUndefined();
+    });
+
+    it('должен убирать дома и оси, если момент середины неточен', async () => {
+      const chart1 = await calculateNatalChart('A', '1990-06-15', '', moscow);
+      const chart2 = await calculateNatalChart('B', '1992-11-03', '08:15', newYork);
+      const davison = await calculateDavisonChart(chart1, chart2, moscow, newYork);
+
+      expect(davison.chart.birthTimeUnknown).toBe(true);
+      expect(davison.chart.houses).toEqual([]);
+      expect(davison.chart.sun.house).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,66 @@
+/**
+ * Тесты для поиска момента соляра и лунара
+ */
+
+import { findReturnMoment, calculateSolarReturn } from '../lib/returns-calculator';
+import { calculateBodyState, calculateEphemeris, calculateNatalChart, dateToJulianDay } from '../lib/swisseph-calculator';
+
+const DAY = 86400000;
+const natal = calculateEphemeris(new Date('1990-06-15T10:30:00Z')).planets;
+
+describe('Returns Calculator', () => {
+  describe('findReturnMoment', () => {
+    it('должен находить возвращение Солнца к натальной долготе около дня рождения', () => {
+      const returnDate = findReturnMoment('solar', natal.sun!.longitude!, new Date('2025-06-12T00:00:00Z'));
+      const sun = calculateBodyState(dateToJulianDay(returnDate), 'sun');
+
+      expect(returnDate.toISOString().startsWith('2025-06-1')).toBe(true);
+      expect(sun.longitude).toBeCloseTo(natal.sun!.longitude!, 4);
+    });
+
+    it('должен находить лунары с интервалом в сидерический месяц', () => {
+      const first = findReturnMoment('lunar', natal.moon!.longitude!, new Date('2025-01-01T00:00:00Z'));
+      const second = findReturnMoment('lunar', natal.moon!.longitude!, new Date(first.getTime() + DAY));
+      const interval = (second.getTime() - first.getTime()) / DAY;
+
+      expect(calculateBodyState(dateToJulianDay(first), 'moon').longitude).toBeCloseTo(natal.moon!.longitude!, 4);
+      expect(interval).toBeGreaterThan(27);
+      expect(interval).toBeLessThan(27.7);
+    });
+
+    it('должен возвращать момент не раньше стартовой даты', () => {
+      const start = new Date('2025-03-01T00:00:00Z');
+      const returnDate = findReturnMoment('lunar', natal.moon!.longitude!, start);
+      expect(returnDate.getTime()).toBeGreaterThanOrEqual(start.getTime());
+      expect(returnDate.getTime() - start.getTime()).toBeLessThan(28 * DAY);
+    });
+
+    it('должен находить сидерический соляр позже тропического на прецессию', () => {
+      const zodiac = { zodiacType: 'sidereal' as const, ayanamsa: 'lahiri' as const };
+      const natalSidereal = calculateBodyState(dateToJulianDay(new Date('1990-06-15T10:30:00Z')), 'sun', zodiac);
+      const tropical = findReturnMoment('solar', natal.sun!.longitude!, new Date('2020-06-12T00:00:00Z'));
+      const sidereal = findReturnMoment('solar', natalSidereal.longitude, new Date('2020-06-12T00:00:00Z'), zodiac);
+      const delayMinutes = (sidereal.getTime() - tropical.getTime()) / 60000;
+
+      expect(calculateBodyState(dateToJulianDay(sidereal), 'sun', zodiac).longitude).toBeCloseTo(natalSidereal.longitude, 4);
+      // ~20 минут за каждый из 30 лет
+      expect(delayMinutes).toBeGreaterThan(560);
+      expect(delayMinutes).toBeLessThan(660);
+    });
+
+    it('должен выбрасывать ошибку для некорректной даты', () => {
+      expect(() => findReturnMoment('solar', 0, new Date('invalid'))).toThrow('Invalid start date');
+    });
+  });
+
+  describe('calculateSolarReturn', () => {
+    it('должен строить соляр на переданных координатах без геокодинга', async () => {
+      const moscow = { lat: 55.7558, lon: 37.6173, timezone: 'Europe/Moscow' };
+      const natalChart = await calculateNatalChart('Test', '1990-06-15', '14:30', moscow);
+      const solarReturn = await calculateSolarReturn(natalChart, 2025, { ...moscow, name: 'Moscow' });
+
+      expect(solarReturn.location).toBe('Moscow');
+      expect(solarReturn.returnDate.startsWith('2025-06-1')).toBe(true);
+    });
+  });
+});
@@ -4,7 +4,7 @@
  * Тестирует ключевые функции расчета натальной карты
  */
 
-import { getZodiacSign, getDegreeInSign } from '../lib/swisseph-calculator';
+import { getZodiacSign, getDegreeInSign, getHouseForLongitude, isStationarySpeed, calculateNatalChart, resolveBirthLocation } from '../lib/swisseph-calculator';
 
 // Экспортируем внутренние функции для тестирования
 // В реальности эти функции могут быть приватными, но для тестов мы их тестируем
@@ -44,6 +44,12 @@ describe('Swiss Ephemeris Calculator', () => {
       expect(getZodiacSign(375)).toBe('Aries');    // 375° нормализуется до 15°
       expect(getZodiacSign(720)).toBe('Aries');    // 720° нормализуется до 0°
     });
+
+    it('должен переводить тропическую долготу в сидерический знак по аянамсе', () => {
+      expect(getZodiacSign(45, 23.72)).toBe('Aries');    // 21.28° сидерического Овна
+      expect(getZodiacSign(10, 23.72)).toBe('Pisces');   // 346.28° — переход через 0°
+      expect(getZodiacSign(84.3, 23.72)).toBe('Gemini');
+    });
   });
 
   describe('getDegreeInSign', () => {
@@ -61,4 +67,174 @@ describe('Swiss Ephemeris Calculator', () => {
       expect(degree).toBeLessThan(30);
     });
   });
+
+  describe('getHouseForLongitude', () => {
+    // Равнодомная сетка от 0° Овна: дом N начинается на (N-1)*30°
+    const equalCusps = Array.from({ length: 12 }, (_, i) => i * 30);
+    // Куспиды Плацидуса с переходом через 0° (Асцендент в Деве)
+    const placidusCusps = [160.38, 180.36, 207.18, 242.54, 282.18, 315.01, 340.38, 0.36, 27.18, 62.54, 102.18, 135.01];
+
+    it('должен определять дом по равным куспидам', () => {
+      expect(getHouseForLongitude(15, equalCusps)).toBe(1);
+      expect(getHouseForLongitude(45, equalCusps)).toBe(2);
+      expect(getHouseForLongitude(345, equalCusps)).toBe(12);
+    });
+
+    it('должен относить точку на куспиде к начинающемуся дому', () => {
+      expect(getHouseForLongitude(30, equalCusps)).toBe(2);
+      expect(getHouseForLongitude(0, equalCusps)).toBe(1);
+    });
+
+    it('должен корректно обрабатывать дом, пересекающий 0° Овна', () => {
+      expect(getHouseForLongitude(350, placidusCusps)).toBe(7);
+      expect(getHouseForLongitude(0.1, placidusCusps)).toBe(7);
+      expect(getHouseForLongitude(0.5, placidusCusps)).toBe(8);
+      expect(getHouseForLongitude(170, placidusCusps)).toBe(1);
+      expect(getHouseForLongitude(150, placidusCusps)).toBe(12);
+    });
+
+    it('должен нормализовать долготу вне диапазона 0-360', () => {
+      expect(getHouseForLongitude(375, equalCusps)).toBe(1);
+      expect(getHouseForLongitude(-15, equalCusps)).toBe(12);
+    });
+  });
+
+  describe('isStationarySpeed', () => {
+    it('должен считать планету стационарной при скорости около нуля', () => {
+      expect(isStationarySpeed('Mercury', 0.02)).toBe(true);
+      expect(isStationarySpeed('Mercury', -0.05)).toBe(true);
+      expect(isStationarySpeed('Saturn', 0.001)).toBe(true);
+    });
+
+    it('не должен считать стационарной планету в обычном движении', () => {
+      expect(isStationarySpeed('Mercury', 1.2)).toBe(false);
+      expect(isStationarySpeed('Mars', -0.3)).toBe(false);
+    });
+
+    it('не должен отмечать станции у Солнца, Луны и узлов', () => {
+      expect(isStationarySpeed('Sun', 0)).toBe(false);
+      expect(isStationarySpeed('Moon', 0)).toBe(false);
+      expect(isStationarySpeed('North Node', 0)).toBe(false);
+    });
+  });
+
+  describe('resolveBirthLocation', () => {
+    it('должен приводить смещение от UTC к виду +HH:MM', () => {
+      expect(resolveBirthLocation({ lat: 58.85, lon: 32.22, timezone: 'UTC+3' }))
+        .toEqual({ lat: 58.85, lon: 32.22, timezone: '+03:00' });
+    });
+
+    it('должен определять часовой пояс по координатам, если он не задан', () => {
+      expect(resolveBirthLocation({ lat: 58.85, lon: 32.22 }).timezone).toBe('Europe/Moscow');
+    });
+
+    it('должен отклонять координаты вне диапазона', () => {
+      expect(() => resolveBirthLocation({ lat: 91, lon: 0 })).toThrow('Latitude must be between -90 and 90');
+      expect(() => resolveBirthLocation({ lat: 0, lon: 0, timezone: 'UTC+20' })).toThrow('Invalid birth location');
+    });
+  });
+
+  describe('calculateNatalChart с координатами вместо названия', () => {
+    it('должен считать карту по координатам и смещению так же, как по IANA-поясу', async () => {
+      // Москва, лето 1990 — летнее время UTC+4
+      const byOffset = await calculateNatalChart('Test', '1990-06-15', '14:30', { lat: 55.7558, lon: 37.6173, timezone: 'UTC+4', name: 'Деревня' });
+      const byZone = await calculateNatalChart('Test', '1990-06-15', '14:30', { lat: 55.7558, lon: 37.6173, timezone: 'Europe/Moscow' });
+
+      expect(byOffset.birthDateUtc).toBe('1990-06-15T10:30:00.000Z');
+      expect(byOffset.birthDateUtc).toBe(byZone.birthDateUtc);
+      expect(byOffset.rising.sign).toBe(byZone.rising.sign);
+      expect(byOffset.summary).toContain('in Деревня');
+    });
+
+    it('должен возвращать предупреждение о переводе часов и учитывать выбор момента', async () => {
+      const location = { lat: 40.7128, lon: -74.006, timezone: 'America/New_York' };
+      const byDefault = await calculateNatalChart('Test', '2021-11-07', '01:30', location);
+      const later = await calculateNatalChart('Test', '2021-11-07', '01:30', location, { localTimeChoice: 'later' });
+
+      expect(byDefault.timeWarning?.type).toBe('ambiguous');
+      expect(byDefault.birthDateUtc).toBe('2021-11-07T05:30:00.000Z');
+      expect(later.birthDateUtc).toBe('2021-11-07T06:30:00.000Z');
+      expect(later.timeWarning?.isDefaultChoice).toBe(false);
+    });
+  });
+
+  describe('calculateNatalChart без времени рождения', () => {
+    const location = { lat: 55.7558, lon: 37.6173, timezone: 'Europe/Moscow' };
+    const isAngle = (name: string) => name === 'Ascendant' || name === 'MC';
+
+    it('должен строить карту на полдень без домов и аспектов к осям', async () => {
+      const chart = await calculateNatalChart('Test', '1990-06-15', '', location);
+
+      expect(chart.birthTimeUnknown).toBe(true);
+      expect(chart.birthDateUtc).toBe('1990-06-15T08:00:00.000Z');
+      expect(chart.houses).toEqual([]);
+      expect(Object.values(chart.planets).every(position => position?.house === undefined)).toBe(true);
+      expect(chart.aspects.some(aspect => isAngle(aspect.planet1) || isAngle(aspect.planet2))).toBe(false);
+      expect(chart.summary).toContain('time unknown');
+      expect(chart.summary).not.toContain('Rising.');
+    });
+
+    it('должен сообщать о смене знака Луны в течение дня', async () => {
+      const sameSign = await calculateNatalChart('Test', '1990-06-15', '', location);
+      const changesSign = await calculateNatalChart('Test', '1990-06-14', '', location);
+
+      expect(sameSign.moonRange).toEqual(expect.objectContaining({ signs: ['Pisces'], changesSign: false }));
+      expect(sameSign.moonRange!.start.longitude!).toBeLessThan(sameSign.moonRange!.end.longitude!);
+      expect(changesSign.moonRange).toEqual(expect.objectContaining({ signs: ['Aquarius', 'Pisces'], changesSign: true }));
+      expect(changesSign.summary).toContain('Aquarius or Pisces Moon');
+    });
+
+    it('не должен отмечать карту с известным временем', async () => {
+      const chart = await calculateNatalChart('Test', '1990-06-15', '12:00', location);
+
+      expect(chart.birthTimeUnknown).toBeUndefined();
+      expect(chart.moonRange).toBeUndefined();
+      expect(chart.houses).toHaveLength(12);
+    });
+  });
+
+  describe('calculateNatalChart в сидерическом зодиаке', () => {
+    const location = { lat: 55.7558, lon: 37.6173, timezone: 'Europe/Moscow' };
+
+    it('должен сдвигать планеты, дома и оси на аянамсу Лахири', async () => {
+      const tropical = await calculateNatalChart('Test', '1990-06-15', '14:30', location);
+      const sidereal = await calculateNatalChart('Test', '1990-06-15', '14:30', location, { zodiacType: 'sidereal' });
+      const shift = (from: number, to: number) => ((from - to) % 360 + 360) % 360;
+
+      expect(tropical.zodiacType).toBe('tropical');
+      expect(tropical.ayanamsa).toBeUndefined();
+      expect(sidereal.zodiacType).toBe('sidereal');
+      expect(sidereal.ayanamsa).toBe('lahiri');
+      expect(sidereal.ayanamsaValue).toBeCloseTo(23.72, 1);
+
+      const ayanamsa = sidereal.ayanamsaValue!;
+      expect(shift(tropical.sun.longitude, sidereal.sun.longitude)).toBeCloseTo(ayanamsa, 3);
+      expect(shift(tropical.moon.longitude, sidereal.moon.longitude)).toBeCloseTo(ayanamsa, 3);
+      expect(shift(tropical.rising.longitude, sidereal.rising.longitude)).toBeCloseTo(ayanamsa, 3);
+      expect(shift(tropical.houses[3].longitude, sidereal.houses[3].longitude)).toBeCloseTo(ayanamsa, 3);
+      expect(sidereal.sun.sign).toBe(getZodiacSign(tropical.sun.longitude, ayanamsa));
+      // Дома и аспекты от зодиака не зависят
+      expect(sidereal.planets.mars?.house).toBe(tropical.planets.mars?.house);
+      expect(sidereal.aspects).toHaveLength(tropical.aspects.length);
+      expect(sidereal.summary).toContain('Sidereal zodiac, Lahiri ayanamsa 23.7');
+      // Накшатра Луны всегда сидерическая: в тропической карте — по Лахири
+      expect(tropical.moonNakshatra.name).toBe(sidereal.moonNakshatra.name);
+      expect(tropical.moonNakshatra.degreeInNakshatra).toBeCloseTo(sidereal.moonNakshatra.degreeInNakshatra, 6);
+    });
+
+    it('должен учитывать выбранную аянамсу', async () => {
+      const lahiri = await calculateNatalChart('Test', '1990-06-15', '14:30', location, { zodiacType: 'sidereal', ayanamsa: 'lahiri' });
+      const faganBradley = await calculateNatalChart('Test', '1990-06-15', '14:30', location, { zodiacType: 'sidereal', ayanamsa: 'fagan_bradley' });
+      const raman = await calculateNatalChart('Test', '1990-06-15', '14:30', location, { zodiacType: 'sidereal', ayanamsa: 'raman' });
+
+      expect(faganBradley.ayanamsaValue! - lahiri.ayanamsaValue!).toBeCloseTo(0.88, 1);
+      expect(lahiri.ayanamsaValue! - raman.ayanamsaValue!).toBeCloseTo(1.45, 1);
+      expect(lahiri.sun.longitude - faganBradley.sun.longitude).toBeCloseTo(faganBradley.ayanamsaValue! - lahiri.ayanamsaValue!, 3);
+    });
+
+    it('должен отклонять неизвестную аянамсу', async () => {
+      await expect(calculateNatalChart('Test', '1990-06-15', '14:30', location, { zodiacType: 'sidereal', ayanamsa: 'krishnamurti' as any }))
+        .rejects.toThrow('Unsupported ayanamsa');
+    });
+  });
 });
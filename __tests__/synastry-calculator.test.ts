@@ -0,0 +1,111 @@
+/**
+ * Тесты для синастрии: аспекты между картами, наложения домов, счет совместимости
+ */
+
+import { calculateSynastry, calculateSynastryAspects, calculateSynastryScore } from '../lib/synastry-calculator';
+import { calculateNatalChart, getHouseForLongitude } from '../lib/swisseph-calculator';
+import type { NatalChartData, PlanetPosition } from '../types';
+
+const point = (planet: string, longitude: number): PlanetPosition => ({
+  planet,
+  sign: 'Aries',
+  longitude,
+  description: ''
+});
+
+const createChart = (positions: Record<string, PlanetPosition>, birthTimeUnknown = true): NatalChartData => ({
+  sun: positions.sun,
+  moon: positions.moon,
+  rising: point('Ascendant', 0),
+  mercury: null,
+  venus: null,
+  mars: null,
+  planets: positions,
+  birthTimeUnknown,
+  element: 'Fire',
+  rulingPlanet: 'Mars',
+  summary: ''
+});
+
+describe('Synastry Calculator', () => {
+  describe('calculateSynastryAspects', () => {
+    it('должен находить мажорные аспекты между картами с орбисом', () => {
+      const chart1 = createChart({ sun: point('Sun', 10), moon: point('Moon', 100), venus: point('Venus', 200) });
+      const chart2 = createChart({ sun: point('Sun', 130), moon: point('Moon', 102), mars: point('Mars', 203) });
+      const aspects = calculateSynastryAspects(chart1, chart2);
+
+      expect(aspects[0]).toEqual({ planet1: 'Sun', planet2: 'Sun', type: 'trine', angle: 120, orb: 0 });
+      expect(aspects).toContainEqual({ planet1: 'Moon', planet2: 'Moon', type: 'conjunction', angle: 0, orb: 2 });
+      expect(aspects).toContainEqual({ planet1: 'Venus', planet2: 'Mars', type: 'conjunction', angle: 0, orb: 3 });
+      expect(aspects.every(aspect => ['conjunction', 'sextile', 'square', 'trine', 'opposition'].includes(aspect.type))).toBe(true);
+      for (let i = 1; i < aspects.length; i++) {
+        expect(aspects[i].orb).toBeGreaterThanOrEqual(aspects[i - 1].orb);
+      }
+    });
+
+    it('не должен учитывать оси карты при неизвестном времени рождения', () => {
+      const partner = createChart({ sun: point('Sun', 180), moon: point('Moon', 60) });
+      const withTime = createChart({ sun: point('Sun', 30), moon: point('Moon', 150) }, false);
+      withTime.mc = point('MC', 270);
+      const withoutTime = { ...withTime, birthTimeUnknown: true };
+
+      const axes = (chart: NatalChartData) => calculateSynastryAspects(chart, partner)
+        .filter(aspect => aspect.planet1 === 'Ascendant' || aspect.planet1 === 'MC')
+        .map(aspect => `${aspect.planet1} ${aspect.type} ${aspect.planet2}`);
+
+      expect(axes(withTime)).toEqual(['Ascendant opposition Sun', 'Ascendant sextile Moon', 'MC square Sun']);
+      expect(axes(withoutTime)).toEqual([]);
+    });
+  });
+
+  describe('calculateSynastryScore', () => {
+    it('должен давать 50 без аспектов и сдвигать категории к гармонии или напряжению', () => {
+      expect(calculateSynastryScore([])).toEqual({
+        total: 50,
+        categories: { emotional: 50, attraction: 50, communication: 50, stability: 50, core: 50 }
+      });
+
+      const score = calculateSynastryScore([
+        { planet1: 'Moon', planet2: 'Venus', type: 'trine', angle: 120, orb: 0 },
+        { planet1: 'Mercury', planet2: 'Saturn', type: 'square', angle: 90, orb: 0 },
+        { planet1: 'Sun', planet2: 'Pluto', type: 'conjunction', angle: 0, orb: 5 }
+      ]);
+      // Трин Луна–Венера: +1 → 50 + 50 × 1/4
+      expect(score.categories.emotional).toBe(63);
+      expect(score.categories.attraction).toBe(63);
+      // Квадрат Меркурий–Сатурн: −0.8 → 50 − 50 × 0.8/3.8
+      expect(score.categories.communication).toBe(39);
+      expect(score.categories.stability).toBe(39);
+      // Соединение с Плутоном напряженное: −0.4 × 0.5
+      expect(score.categories.core).toBe(47);
+      expect(score.total).toBe(Math.round(63 * 0.3 + 63 * 0.25 + 39 * 0.15 + 39 * 0.15 + 47 * 0.15));
+    });
+  });
+
+  describe('calculateSynastry', () => {
+    const location = { lat: 55.7558, lon: 37.6173, timezone: 'Europe/Moscow' };
+
+    it('должен раскладывать планеты каждого по домам другого и быть воспроизводимым', async () => {
+      const chart1 = await calculateNatalChart('A', '1990-06-15', '14:30', location);
+      const chart2 = await calculateNatalChart('B', '1992-11-03', '08:15', location);
+      const synastry = calculateSynastry(chart1, chart2);
+
+      expect(synastry).toEqual(calculateSynastry(chart1, chart2));
+      expect(synastry.aspects.length).toBeGreaterThan(0);
+      expect(synastry.houseOverlays.person1InPerson2).toHaveLength(11);
+      const venus = synastry.houseOverlays.person1InPerson2.find(overlay => overlay.planet === 'Venus');
+      expect(venus?.house).toBe(getHouseForLongitude(chart1.planets.venus!.longitude, chart2.houses.map(house => house.longitude)));
+      expect(synastry.score.total).toBeGreaterThanOrEqual(0);
+      expect(synastry.score.total).toBeLessThanOrEqual(100);
+    });
+
+    it('не должен накладывать дома карты без времени рождения', async () => {
+      const chart1 = await calculateNatalChart('A', '1990-06-15', '14:30', location);
+      const noon = await calculateNatalChart('B', '1992-11-03', '', location);
+      const synastry = calculateSynastry(chart1, noon);
+
+      expect(synastry.houseOverlays.person1InPerson2).toEqual([]);
+      expect(synastry.houseOverlays.person2InPerson1.length).toBeGreaterThan(0);
+    });
+  });
+});
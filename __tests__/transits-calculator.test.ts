@@ -0,0 +1,94 @@
+/**
+ * Тесты для поиска транзитов к натальной карте
+ */
+
+import { findTransitAspects, getCurrentTransits, getNatalPoints } from '../lib/transits-calculator';
+import { calculateEphemeris } from '../lib/swisseph-calculator';
+import type { NatalChartData } from '../types';
+
+const natalChart = {
+  sun: { planet: 'Sun', sign: 'Aries', degree: 0, description: '' },
+  moon: { planet: 'Moon', sign: 'Cancer', degree: 0, description: '' },
+  rising: { planet: 'Ascendant', sign: 'Libra', degree: 0, description: '' },
+  mercury: null,
+  venus: null,
+  mars: null,
+  element: 'Fire',
+  rulingPlanet: 'Mars',
+  summary: ''
+} as NatalChartData;
+
+describe('Transits Calculator', () => {
+  describe('getCurrentTransits', () => {
+    it('должен считать транзиты на момент UTC без геокодинга', async () => {
+      const transits = await getCurrentTransits(new Date('2024-04-10T12:00:00Z'));
+      expect(transits.sun.sign).toBe('Aries');
+      expect(transits.isMercuryRetrograde).toBe(true);
+      expect(transits.retrogradePlanets).toContain('Mercury');
+    });
+  });
+
+  describe('calculateEphemeris', () => {
+    it('должен возвращать все точки карты', () => {
+      const ephemeris = calculateEphemeris(new Date('2024-04-10T12:00:00Z'));
+      expect(Object.keys(ephemeris.planets)).toHaveLength(14);
+      expect(ephemeris.planets.southNode!.longitude).toBeCloseTo((ephemeris.planets.northNode!.longitude! + 180) % 360, 6);
+    });
+
+    it('должен выбрасывать ошибку для некорректной даты', () => {
+      expect(() => calculateEphemeris(new Date('invalid'))).toThrow('Invalid date');
+    });
+  });
+
+  describe('findTransitAspects', () => {
+    it('должен находить время входа, точного аспекта и выхода из орбиса', () => {
+      const aspects = findTransitAspects(natalChart, new Date('2025-03-15T00:00:00Z'), new Date('2025-03-25T00:00:00Z'));
+      const conjunction = aspects.find(a => a.transitPlanet === 'Sun' && a.natalPoint === 'Sun' && a.type === 'conjunction');
+
+      expect(conjunction).toBeDefined();
+      // Солнце входит в Овен 20 марта 2025 около 09:01 UTC
+      const exact = new Date(conjunction!.exact!).getTime();
+      expect(Math.abs(exact - Date.parse('2025-03-20T09:01:00Z'))).toBeLessThan(10 * 60 * 1000);
+      expect(Date.parse(conjunction!.start)).toBeLessThan(exact);
+      expect(Date.parse(conjunction!.end)).toBeGreaterThan(exact);
+      expect(conjunction!.isRetrograde).toBe(false);
+    });
+
+    it('должен использовать натальные точки без поля longitude и оба направления аспекта', () => {
+      const aspects = findTransitAspects(natalChart, new Date('2025-03-15T00:00:00Z'), new Date('2025-03-25T00:00:00Z'));
+      // Солнце в 0° Овна одновременно в квадрате к Луне в 0° Рака и в оппозиции к Асценденту в 0° Весов
+      expect(aspects.some(a => a.transitPlanet === 'Sun' && a.natalPoint === 'Moon' && a.type === 'square')).toBe(true);
+      expect(aspects.some(a => a.transitPlanet === 'Sun' && a.natalPoint === 'Ascendant' && a.type === 'opposition')).toBe(true);
+    });
+
+    it('должен находить каждое точное касание, если планета разворачивается в орбисе', () => {
+      // Плутон становится ретроградным 6 мая 2026 около 5°31′ Водолея, Солнце — на полградуса раньше
+      const chart = {
+        ...natalChart,
+        sun: { planet: 'Sun', sign: 'Aquarius', degree: 5.01, longitude: 305.01, description: '' },
+        birthTimeUnknown: true
+      } as NatalChartData;
+      const conjunctions = findTransitAspects(chart, new Date('2026-01-01T00:00:00Z'), new Date('2026-10-01T00:00:00Z'))
+        .filter(a => a.transitPlanet === 'Pluto' && a.natalPoint === 'Sun' && a.type === 'conjunction');
+
+      expect(conjunctions).toHaveLength(2);
+      expect(conjunctions.map(a => a.isRetrograde)).toEqual([false, true]);
+      expect(conjunctions[0].exact!.slice(0, 7)).toBe('2026-03');
+      expect(conjunctions[1].exact!.slice(0, 7)).toBe('2026-06');
+      // Касания одного участка орбиса делят даты входа и выхода
+      expect(conjunctions[1].start).toBe(conjunctions[0].start);
+      expect(conjunctions[1].end).toBe(conjunctions[0].end);
+    });
+
+    it('должен отклонять пустой период', () => {
+      expect(() => findTransitAspects(natalChart, new Date('2025-03-25'), new Date('2025-03-15'))).toThrow();
+    });
+  });
+
+  describe('getNatalPoints', () => {
+    it('не должен включать оси карты, если время рождения неизвестно', () => {
+      expect(getNatalPoints(natalChart).map(point => point.name)).toContain('Ascendant');
+      expect(getNatalPoints({ ...natalChart, birthTimeUnknown: true }).map(point => point.name)).toEqual(['Sun', 'Moon']);
+    });
+  });
+});
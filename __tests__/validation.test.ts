@@ -8,8 +8,17 @@ import {
   validateName,
   validateBirthPlace,
   validateLanguage,
+  validateHouseSystem,
+  validateZodiacType,
+  validateAyanamsa,
+  validateLatitude,
+  validateLongitude,
+  validateTimezone,
+  normalizeUtcOffset,
   validateNatalChartInput,
-  validateSynastryInput
+  validateSynastryInput,
+  validatePersonInput,
+  validateGroupInput
 } from '../lib/validation';
 
 describe('Validation', () => {
@@ -123,6 +132,81 @@ describe('Validation', () => {
     });
   });
 
+  describe('validateHouseSystem', () => {
+    it('должен принимать поддерживаемые системы домов', () => {
+      expect(validateHouseSystem('placidus').isValid).toBe(true);
+      expect(validateHouseSystem('whole_sign').isValid).toBe(true);
+      expect(validateHouseSystem('regiomontanus').isValid).toBe(true);
+    });
+
+    it('должен отклонять неизвестные системы домов', () => {
+      expect(validateHouseSystem('campanus').isValid).toBe(false);
+      expect(validateHouseSystem('').isValid).toBe(false);
+    });
+  });
+
+  describe('validateZodiacType / validateAyanamsa', () => {
+    it('должен принимать тропический и сидерический зодиак с поддерживаемыми аянамсами', () => {
+      expect(validateZodiacType('tropical').isValid).toBe(true);
+      expect(validateZodiacType('sidereal').isValid).toBe(true);
+      expect(validateAyanamsa('lahiri').isValid).toBe(true);
+      expect(validateAyanamsa('raman').isValid).toBe(true);
+      expect(validateAyanamsa('fagan_bradley').isValid).toBe(true);
+    });
+
+    it('должен отклонять неизвестный зодиак и аянамсу', () => {
+      expect(validateZodiacType('draconic').isValid).toBe(false);
+      expect(validateAyanamsa('krishnamurti').isValid).toBe(false);
+
+      const result = validateNatalChartInput({
+        name: 'John Doe',
+        birthDate: '1990-05-15',
+        birthPlace: 'Moscow',
+        zodiacType: 'vedic',
+        ayanamsa: 'krishnamurti'
+      });
+      expect(result.errors.map(error => error.field)).toEqual(['zodiacType', 'ayanamsa']);
+    });
+  });
+
+  describe('validateLatitude / validateLongitude', () => {
+    it('должен принимать координаты в допустимых диапазонах', () => {
+      expect(validateLatitude(55.75).isValid).toBe(true);
+      expect(validateLatitude(-90).isValid).toBe(true);
+      expect(validateLongitude(180).isValid).toBe(true);
+      expect(validateLongitude(-122.42).isValid).toBe(true);
+    });
+
+    it('должен отклонять координаты вне диапазона и не числа', () => {
+      expect(validateLatitude(90.5).isValid).toBe(false);
+      expect(validateLatitude('55.75').isValid).toBe(false);
+      expect(validateLatitude(NaN).isValid).toBe(false);
+      expect(validateLongitude(-181).isValid).toBe(false);
+    });
+  });
+
+  describe('validateTimezone / normalizeUtcOffset', () => {
+    it('должен принимать IANA и смещения от UTC', () => {
+      expect(validateTimezone('Europe/Moscow').isValid).toBe(true);
+      expect(validateTimezone('UTC+3').isValid).toBe(true);
+      expect(validateTimezone('-05:30').isValid).toBe(true);
+    });
+
+    it('должен отклонять неизвестные пояса и смещения вне -12..+14', () => {
+      expect(validateTimezone('Mars/Olympus').isValid).toBe(false);
+      expect(validateTimezone('UTC+15').isValid).toBe(false);
+      expect(validateTimezone('').isValid).toBe(false);
+    });
+
+    it('должен приводить смещение к виду +HH:MM', () => {
+      expect(normalizeUtcOffset('UTC+3')).toBe('+03:00');
+      expect(normalizeUtcOffset('gmt-5:30')).toBe('-05:30');
+      expect(normalizeUtcOffset('+0545')).toBe('+05:45');
+      expect(normalizeUtcOffset('Europe/Moscow')).toBeNull();
+      expect(normalizeUtcOffset('+03:75')).toBeNull();
+    });
+  });
+
   describe('validateNatalChartInput', () => {
     it('должен принимать валидные данные для натальной карты', () => {
       const result = validateNatalChartInput({
@@ -147,6 +231,44 @@ describe('Validation', () => {
       expect(result.errors.length).toBeGreaterThan(0);
     });
 
+    it('должен проверять систему домов, если она передана', () => {
+      const result = validateNatalChartInput({
+        name: 'John Doe',
+        birthDate: '1990-05-15',
+        birthPlace: 'Moscow',
+        houseSystem: 'unknown'
+      });
+      expect(result.isValid).toBe(false);
+      expect(result.errors[0].field).toBe('houseSystem');
+    });
+
+    it('должен проверять координаты, введенные вручную', () => {
+      const valid = validateNatalChartInput({
+        name: 'John Doe',
+        birthDate: '1990-05-15',
+        birthPlace: 'Малые Вишеры',
+        birthLat: 58.85,
+        birthLon: 32.22,
+        birthTimezone: 'UTC+3'
+      });
+      expect(valid.isValid).toBe(true);
+
+      const invalid = validateNatalChartInput({
+        name: 'John Doe',
+        birthDate: '1990-05-15',
+        birthPlace: 'Малые Вишеры',
+        birthLat: 95,
+        birthTimezone: 'Mars/Olympus'
+      });
+      expect(invalid.errors.map(error => error.field)).toEqual(['birthLat', 'birthLon', 'birthTimezone']);
+    });
+
+    it('должен проверять выбор момента при переводе часов', () => {
+      const base = { name: 'John Doe', birthDate: '1990-05-15', birthPlace: 'Moscow' };
+      expect(validateNatalChartInput({ ...base, birthTimeChoice: 'later' }).isValid).toBe(true);
+      expect(validateNatalChartInput({ ...base, birthTimeChoice: 'first' }).errors[0].field).toBe('birthTimeChoice');
+    });
+
     it('должен обрабатывать отсутствующие обязательные поля', () => {
       const result = validateNatalChartInput({
         name: undefined,
@@ -173,6 +295,22 @@ describe('Validation', () => {
       expect(result.isValid).toBe(true);
     });
 
+    it('должен проверять координаты партнера', () => {
+      const result = validateSynastryInput({
+        profile: {
+          name: 'John',
+          birthDate: '1990-05-15',
+          birthPlace: 'Moscow'
+        },
+        partnerName: 'Jane',
+        partnerDate: '1992-08-20',
+        partnerLat: 40.7,
+        partnerLon: 200
+      });
+      expect(result.isValid).toBe(false);
+      expect(result.errors[0].field).toBe('partnerLon');
+    });
+
     it('должен возвращать ошибки для невалидных данных', () => {
       const result = validateSynastryInput({
         profile: null,
@@ -183,4 +321,47 @@ describe('Validation', () => {
       expect(result.errors.length).toBeGreaterThan(0);
     });
   });
+
+  describe('validatePersonInput', () => {
+    it('должен принимать человека без времени и координат', () => {
+      const result = validatePersonInput({
+        name: 'Anna',
+        relationship: 'child',
+        birthDate: '2015-03-10',
+        birthPlace: 'Moscow'
+      });
+      expect(result.isValid).toBe(true);
+    });
+
+    it('должен проверять тип отношений и координаты', () => {
+      const result = validatePersonInput({
+        name: 'Anna',
+        relationship: 'neighbour',
+        birthDate: '2015-03-10',
+        birthPlace: 'Moscow',
+        birthLat: 95,
+        birthLon: 37.6
+      });
+      expect(result.isValid).toBe(false);
+      expect(result.errors.map(error => error.field)).toEqual(['relationship', 'birthLat']);
+    });
+  });
+
+  describe('validateGroupInput', () => {
+    const profile = { id: '1', name: 'John', birthDate: '1990-05-15', birthPlace: 'Moscow' };
+
+    it('должен учитывать пользователя в размере группы', () => {
+      expect(validateGroupInput({ profile, personIds: ['1', '2'], includeSelf: true }).isValid).toBe(true);
+      expect(validateGroupInput({ profile, personIds: ['1', '2'] }).isValid).toBe(false);
+      expect(validateGroupInput({ profile, personIds: ['1', '2', '3', '4', '5', '6', '7', '8'], includeSelf: true }).isValid).toBe(false);
+    });
+
+    it('должен отклонять повторы и неверные id', () => {
+      const duplicates = validateGroupInput({ profile, personIds: ['1', '1', '2'] });
+      expect(duplicates.isValid).toBe(false);
+      expect(duplicates.errors[0].message).toContain('duplicates');
+
+      expect(validateGroupInput({ profile, personIds: ['1', 'abc', '3'] }).isValid).toBe(false);
+    });
+  });
 });
@@ -0,0 +1,112 @@
+/**
+ * Тесты для ведического модуля: накшатры, Вимшоттари-даша, навамша
+ */
+
+import { calculateVedicChart, calculateVimshottariDasha, getNavamsaLongitude, VIMSHOTTARI_YEARS } from '../lib/vedic-calculator';
+import { calculateNatalChart } from '../lib/swisseph-calculator';
+import { getNakshatra } from '../lib/zodiac-utils';
+
+const YEAR = 365.25 * 86400000;
+const location = { lat: 55.7558, lon: 37.6173, timezone: 'Europe/Moscow' };
+
+describe('Vedic Calculator', () => {
+  describe('getNakshatra', () => {
+    it('должен определять накшатру, управителя и паду по сидерической долготе', () => {
+      expect(getNakshatra(0)).toMatchObject({ index: 1, name: 'Ashwini', lord: 'Ketu', pada: 1 });
+      expect(getNakshatra(45)).toMatchObject({ index: 4, name: 'Rohini', lord: 'Moon', pada: 2 });
+      expect(getNakshatra(45).degreeInNakshatra).toBeCloseTo(5, 6);
+      expect(getNakshatra(359.99)).toMatchObject({ index: 27, name: 'Revati', lord: 'Mercury', pada: 4 });
+      expect(getNakshatra(-1).name).toBe('Revati');
+    });
+  });
+
+  describe('getNavamsaLongitude', () => {
+    it('должен начинать навамшу огненных знаков с Овна, земных с Козерога, воздушных с Весов, водных с Рака', () => {
+      expect(getNavamsaLongitude(0)).toBeCloseTo(0, 6);
+      expect(getNavamsaLongitude(30)).toBeCloseTo(270, 6);
+      expect(getNavamsaLongitude(60)).toBeCloseTo(180, 6);
+      expect(getNavamsaLongitude(90)).toBeCloseTo(90, 6);
+      // Последняя навамша Рыб — снова Рыбы
+      expect(Math.floor(getNavamsaLongitude(359) / 30)).toBe(11);
+    });
+  });
+
+  describe('calculateVimshottariDasha', () => {
+    const birth = new Date('1990-06-15T10:30:00Z');
+
+    it('должен отсчитывать первую махадашу от управителя накшатры Луны с учетом пройденной доли', () => {
+      // Середина Рохини: половина 10-летней даши Луны прожита до рождения
+      const dasha = calculateVimshottariDasha(40 + 20 / 3, birth);
+      const [first, second] = dasha.mahadashas;
+
+      expect(first.planet).toBe('Moon');
+      expect(second.planet).toBe('Mars');
+      expect(dasha.balanceAtBirth).toBeCloseTo(5, 6);
+      expect((birth.getTime() - Date.parse(first.start)) / YEAR).toBeCloseTo(5, 3);
+      expect((Date.parse(first.end) - birth.getTime()) / YEAR).toBeCloseTo(5, 3);
+    });
+
+    it('должен строить непрерывный цикл на 120 лет с антардашами внутри каждой махадаши', () => {
+      const dasha = calculateVimshottariDasha(123.4, birth);
+      const { mahadashas } = dasha;
+
+      expect(mahadashas).toHaveLength(9);
+      expect(mahadashas.reduce((sum, period) => sum + period.years, 0)).toBe(120);
+      expect((Date.parse(mahadashas[8].end) - Date.parse(mahadashas[0].start)) / YEAR).toBeCloseTo(120, 3);
+
+      for (let i = 0; i < mahadashas.length; i++) {
+        const mahadasha = mahadashas[i];
+        const { antardashas } = mahadasha;
+        if (i > 0) {
+          expect(mahadasha.start).toBe(mahadashas[i - 1].end);
+        }
+        expect(mahadasha.years).toBe(VIMSHOTTARI_YEARS[mahadasha.planet]);
+        expect(antardashas).toHaveLength(9);
+        expect(antardashas[0].planet).toBe(mahadasha.planet);
+        expect(antardashas[0].start).toBe(mahadasha.start);
+        expect(Math.abs(Date.parse(antardashas[8].end) - Date.parse(mahadasha.end))).toBeLessThanOrEqual(1);
+        expect(antardashas.reduce((sum, period) => sum + period.years, 0)).toBeCloseTo(mahadasha.years, 9);
+      }
+    });
+
+    it('должен находить текущие махадашу и антардашу на дату', () => {
+      const date = new Date('2026-01-01T00:00:00Z');
+      const { current } = calculateVimshottariDasha(123.4, birth, date);
+
+      expect(current).toBeDefined();
+      for (const period of [current!.mahadasha, current!.antardasha]) {
+        expect(Date.parse(period.start)).toBeLessThanOrEqual(date.getTime());
+        expect(Date.parse(period.end)).toBeGreaterThan(date.getTime());
+      }
+      expect(calculateVimshottariDasha(123.4, birth, new Date('2200-01-01T00:00:00Z')).current).toBeUndefined();
+    });
+  });
+
+  describe('calculateVedicChart', () => {
+    it('должен давать одну и ту же ведическую карту для тропической и сидерической (Лахири) карты', async () => {
+      const tropical = await calculateNatalChart('Test', '1990-06-15', '14:30', location);
+      const sidereal = await calculateNatalChart('Test', '1990-06-15', '14:30', location, { zodiacType: 'sidereal' });
+      const fromTropical = calculateVedicChart(tropical);
+      const fromSidereal = calculateVedicChart(sidereal);
+
+      expect(fromTropical.ayanamsa).toBe('lahiri');
+      expect(fromTropical.moonNakshatra.name).toBe(tropical.moonNakshatra.name);
+      expect(fromTropical.planets.map(planet => planet.planet))
+        .toEqual(['Sun', 'Moon', 'Mars', 'Mercury', 'Jupiter', 'Venus', 'Saturn', 'Rahu', 'Ketu', 'Ascendant']);
+      fromTropical.planets.forEach((planet, i) => {
+        expect(planet.longitude).toBeCloseTo(fromSidereal.planets[i].longitude, 6);
+        expect(planet.sign).toBe(fromSidereal.planets[i].sign);
+        expect(planet.navamsaSign).toBe(fromSidereal.planets[i].navamsaSign);
+      });
+      expect(fromTropical.dasha.mahadashas[0].start).toBe(fromSidereal.dasha.mahadashas[0].start);
+    });
+
+    it('должен пропускать Лагну при неизвестном времени и требовать момент рождения', async () => {
+      const noon = await calculateNatalChart('Test', '1990-06-15', '', location);
+      const vedic = calculateVedicChart(noon);
+
+      expect(vedic.planets.find(planet => planet.planet === 'Ascendant')).toBeUndefined();
+      expect(() => calculateVedicChart({ ...noon, julianDay: undefined })).toThrow('julianDay');
+    });
+  });
+});
@@ -6,6 +6,8 @@ import {
   getApproximateSunSignByDate,
   getRulingPlanet,
   getElementForSign,
+  getApproximateAyanamsa,
+  getZodiacLabel,
   ZODIAC_SIGNS,
   RULING_PLANETS,
   SIGN_ELEMENTS
@@ -110,6 +112,28 @@ describe('Zodiac Utils', () => {
     });
   });
 
+  describe('Сидерический зодиак', () => {
+    it('должен сдвигать знак Солнца по дате на аянамсу', () => {
+      expect(getApproximateSunSignByDate(1990, 5, 5, 23.72)).toBe('Aries');
+      expect(getApproximateSunSignByDate(1990, 5, 15, 23.72)).toBe('Taurus');
+      expect(getApproximateSunSignByDate(1990, 4, 14, 23.72)).toBe('Aries');   // ~14 апреля — вход в сидерический Овен
+      expect(getApproximateSunSignByDate(1990, 4, 12, 23.72)).toBe('Pisces');
+      expect(getApproximateSunSignByDate(1990, 1, 10, 23.72)).toBe('Sagittarius'); // сдвиг через границу года
+    });
+
+    it('должен приближенно считать аянамсу по году', () => {
+      expect(getApproximateAyanamsa(2000, 'lahiri')).toBeCloseTo(23.857, 3);
+      expect(getApproximateAyanamsa(1990, 'lahiri')).toBeCloseTo(23.72, 2);
+      expect(getApproximateAyanamsa(2020, 'fagan_bradley') - getApproximateAyanamsa(2020, 'lahiri')).toBeCloseTo(0.88, 2);
+    });
+
+    it('должен подписывать зодиак с аянамсой', () => {
+      expect(getZodiacLabel('tropical', undefined, 'ru')).toBe('тропический');
+      expect(getZodiacLabel('sidereal', 'lahiri', 'ru')).toBe('сидерический (Лахири)');
+      expect(getZodiacLabel('sidereal', 'fagan_bradley', 'en')).toBe('sidereal (Fagan-Bradley)');
+    });
+  });
+
   describe('Константы', () => {
     it('должен содержать все 12 знаков зодиака', () => {
       expect(ZODIAC_SIGNS.length).toBe(12);
@@ -1,7 +1,8 @@
 import React, { memo } from 'react';
 import Image from 'next/image';
 import { UserProfile, NatalChartData, UserContext } from '../../types';
-import { getText, getZodiacSign, getElement } from '../../constants';
+import { getText, getZodiacSign, getElement, getPlanetName } from '../../constants';
+import { calculateChartBalance } from '../../lib/chart-balance';
 
 interface CosmicPassportProps {
   profile: UserProfile;
@@ -106,6 +107,10 @@ export const CosmicPassport = memo<CosmicPassportProps>(({
   onOpenSettings,
   weatherData
 }) => {
+  // Карты, сохраненные до появления баланса, считаются на лету
+  const balance = chartData.balance || calculateChartBalance(chartData);
+  const dominantElement = balance.dominantElement;
+
   return (
     <div className="bg-astro-card rounded-2xl p-6 border border-astro-border shadow-soft relative overflow-hidden">
       <div className="absolute -top-10 -right-10 w-48 h-48 bg-astro-highlight rounded-full blur-3xl opacity-20"></div>
@@ -182,7 +187,13 @@ export const CosmicPassport = memo<CosmicPassportProps>(({
               {getText(profile.language, 'dashboard.element')}
             </p>
             <p className="font-serif text-base text-astro-text">
-              {getElement(profile.language, chartData.element)}
+              {getElement(profile.language, dominantElement)} {Math.round(balance.elements[dominantElement])}%
+            </p>
+            <p className="text-[10px] text-astro-subtext mt-1">
+              {getText(profile.language, 'dashboard.ruler')}: {getPlanetName(profile.language, balance.chartRuler)}
+            </p>
+            <p className="text-[10px] text-astro-subtext">
+              {getText(profile.language, 'dashboard.dominant')}: {getPlanetName(profile.language, balance.dominantPlanet)}
             </p>
           </div>
         </div>
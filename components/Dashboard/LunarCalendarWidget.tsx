@@ -0,0 +1,141 @@
+import React, { memo, useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { Language, LunarCalendar, LunationEvent, MoonPhaseName } from '../../types';
+import { getZodiacSign } from '../../constants';
+import { getLunarCalendar } from '../../services/astrologyService';
+
+interface LunarCalendarWidgetProps {
+  language: Language;
+}
+
+const PHASE_LABELS: Record<Language, Record<MoonPhaseName, string>> = {
+  ru: {
+    new_moon: 'Новолуние',
+    waxing_crescent: 'Растущий серп',
+    first_quarter: 'Первая четверть',
+    waxing_gibbous: 'Растущая Луна',
+    full_moon: 'Полнолуние',
+    waning_gibbous: 'Убывающая Луна',
+    last_quarter: 'Последняя четверть',
+    waning_crescent: 'Убывающий серп'
+  },
+  en: {
+    new_moon: 'New Moon',
+    waxing_crescent: 'Waxing Crescent',
+    first_quarter: 'First Quarter',
+    waxing_gibbous: 'Waxing Gibbous',
+    full_moon: 'Full Moon',
+    waning_gibbous: 'Waning Gibbous',
+    last_quarter: 'Last Quarter',
+    waning_crescent: 'Waning Crescent'
+  }
+};
+
+const PHASE_SYMBOLS: Record<MoonPhaseName, string> = {
+  new_moon: '●',
+  waxing_crescent: '◔',
+  first_quarter: '◑',
+  waxing_gibbous: '◕',
+  full_moon: '○',
+  waning_gibbous: '◕',
+  last_quarter: '◐',
+  waning_crescent: '◔'
+};
+
+// Форматирует момент лунации в локальном времени пользователя
+const formatLunationDate = (event: LunationEvent, language: Language): string => {
+  return new Date(event.date).toLocaleString(language === 'ru' ? 'ru-RU' : 'en-US', {
+    day: 'numeric',
+    month: 'short',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+};
+
+export const LunarCalendarWidget = memo<LunarCalendarWidgetProps>(({ language }) => {
+  const [calendar, setCalendar] = useState<LunarCalendar | null>(null);
+  const [hasError, setHasError] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    getLunarCalendar()
+      .then(data => {
+        if (!cancelled) setCalendar(data);
+      })
+      .catch(() => {
+        // При ошибке просто не показываем календарь
+        if (!cancelled) setHasError(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  if (hasError || !calendar?.today) return null;
+
+  const { today } = calendar;
+  const todayDate = today.date.split('T')[0];
+  const upcoming = [today.nextNewMoon, today.nextFirstQuarter, today.nextFullMoon, today.nextLastQuarter]
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 10 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="bg-gradient-to-br from-indigo-900/20 to-astro-card p-5 rounded-xl border border-astro-border space-y-4"
+    >
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-[10px] uppercase tracking-widest text-astro-subtext mb-1">
+            {language === 'ru' ? 'Лунный календарь' : 'Lunar Calendar'}
+          </h3>
+          <p className="text-sm font-serif text-astro-text">
+            <span className="text-astro-highlight mr-1">{PHASE_SYMBOLS[today.phase]}</span>
+            {PHASE_LABELS[language][today.phase]}
+            <span className="text-astro-subtext">
+              {' • '}{language === 'ru' ? 'Луна в знаке' : 'Moon in'} {getZodiacSign(language, today.moonSign)}
+            </span>
+          </p>
+        </div>
+        <div className="text-right">
+          <p className="text-sm font-semibold text-astro-text">{Math.round(today.illumination)}%</p>
+          <p className="text-[9px] text-astro-subtext/70 mt-1">
+            {language === 'ru' ? 'освещенность' : 'illumination'}
+          </p>
+        </div>
+      </div>
+
+      {/* Фазы по дням месяца */}
+      <div className="grid grid-cols-7 gap-1">
+        {calendar.days.map(day => (
+          <div
+            key={day.date}
+            title={`${day.date}: ${PHASE_LABELS[language][day.phase]}, ${Math.round(day.illumination)}%`}
+            className={`flex flex-col items-center rounded-md py-1 text-[9px] ${
+              day.date === todayDate ? 'bg-astro-highlight/20 text-astro-text' : 'text-astro-subtext'
+            } ${day.lunation ? 'font-bold' : ''}`}
+          >
+            <span>{Number(day.date.split('-')[2])}</span>
+            <span className={day.lunation ? 'text-astro-highlight' : 'opacity-60'}>{PHASE_SYMBOLS[day.phase]}</span>
+          </div>
+        ))}
+      </div>
+
+      {/* Ближайшие лунации */}
+      <div className="pt-3 border-t border-astro-border/30 space-y-1">
+        {upcoming.map(event => (
+          <div key={event.type} className="flex justify-between text-xs">
+            <span className="text-astro-text">
+              <span className="text-astro-highlight mr-1">{PHASE_SYMBOLS[event.type]}</span>
+              {PHASE_LABELS[language][event.type]}
+              <span className="text-astro-subtext"> • {getZodiacSign(language, event.sign)}</span>
+            </span>
+            <span className="text-astro-subtext">{formatLunationDate(event, language)}</span>
+          </div>
+        ))}
+      </div>
+    </motion.div>
+  );
+});
+
+LunarCalendarWidget.displayName = 'LunarCalendarWidget';
@@ -0,0 +1,218 @@
+import React, { memo, useEffect, useMemo, useState } from 'react';
+import { UserProfile, NatalChartData, TransitTimeline as TransitTimelineData, TimelineEvent, TimelineEventInterpretation } from '../../types';
+import { getTransitTimeline, getTimelineEventInterpretation } from '../../services/astrologyService';
+import { getText, getZodiacSign, getPlanetName } from '../../constants';
+
+interface TransitTimelineProps {
+  profile: UserProfile;
+  chartData: NatalChartData;
+}
+
+/**
+ * Название точки: планеты переводятся, оси — из словаря шкалы
+ */
+const getPointName = (profile: UserProfile, point: string): string => {
+  const label = getText(profile.language, `timeline.points.${point}`);
+  return label === `timeline.points.${point}` ? getPlanetName(profile.language, point) : label;
+};
+
+/**
+ * Подпись события на шкале
+ */
+const getEventLabel = (profile: UserProfile, event: TimelineEvent): string => {
+  const lang = profile.language;
+  const planet = getPlanetName(lang, event.planet);
+
+  switch (event.type) {
+    case 'transit':
+      return `${planet} ${getText(lang, `timeline.aspects.${event.aspect}`)} ${getPointName(profile, event.natalPoint || '')}`;
+    case 'ingress':
+      return `${planet} → ${getZodiacSign(lang, event.sign)}${event.isRetrograde ? ` (${getText(lang, 'timeline.retrograde')})` : ''}`;
+    case 'station':
+      return `${planet} ${getText(lang, `timeline.${event.direction}`)}`;
+    case 'eclipse':
+      return `${getText(lang, `timeline.${event.eclipseKind}`)} (${getText(lang, `timeline.eclipse_types.${event.eclipseType}`)})` +
+        (event.natalPoint ? ` · ${getPointName(profile, event.natalPoint)}` : '');
+  }
+};
+
+/**
+ * Месяц "YYYY-MM" в виде «февраль 2026»
+ *
+ * Местное время события уже в поясе пользователя, поэтому формат — в UTC,
+ * чтобы браузер не сдвигал дату еще раз.
+ */
+const formatMonth = (month: string, locale: string): string => {
+  const [year, monthNumber] = month.split('-').map(Number);
+  return new Date(Date.UTC(year, monthNumber - 1, 1)).toLocaleDateString(locale, {
+    month: 'long',
+    year: 'numeric',
+    timeZone: 'UTC'
+  });
+};
+
+export const TransitTimeline = memo<TransitTimelineProps>(({ profile, chartData }) => {
+  const [timeline, setTimeline] = useState<TransitTimelineData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState(false);
+  const [openEventId, setOpenEventId] = useState<string | null>(null);
+  // Загруженные трактовки по id события: повторное открытие не ходит на сервер
+  const [interpretations, setInterpretations] = useState<Record<string, TimelineEventInterpretation | null>>({});
+  const [interpretationLoading, setInterpretationLoading] = useState<string | null>(null);
+  const [interpretationError, setInterpretationError] = useState<string | null>(null);
+
+  const language = profile.language;
+  const locale = language === 'ru' ? 'ru-RU' : 'en-US';
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setError(false);
+    // Трактовки написаны для прежней карты
+    setInterpretations({});
+    setOpenEventId(null);
+
+    getTransitTimeline(profile, chartData)
+      .then(data => {
+        if (!cancelled) setTimeline(data);
+      })
+      .catch(e => {
+        console.error('[TransitTimeline] Error loading transit timeline:', e);
+        if (!cancelled) setError(true);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [chartData]);
+
+  // События по месяцам местного времени
+  const months = useMemo(() => {
+    const groups: { month: string; events: TimelineEvent[] }[] = [];
+    timeline?.events.forEach(event => {
+      const month = event.localTime.slice(0, 7);
+      const last = groups[groups.length - 1];
+      if (last?.month === month) {
+        last.events.push(event);
+      } else {
+        groups.push({ month, events: [event] });
+      }
+    });
+    return groups;
+  }, [timeline]);
+
+  const handleEventClick = async (event: TimelineEvent) => {
+    if (openEventId === event.id) {
+      setOpenEventId(null);
+      return;
+    }
+
+    setOpenEventId(event.id);
+    setInterpretationError(null);
+    if (event.id in interpretations) return;
+
+    setInterpretationLoading(event.id);
+    try {
+      const interpretation = await getTimelineEventInterpretation(profile, chartData, event);
+      setInterpretations(prev => ({ ...prev, [event.id]: interpretation }));
+    } catch (e) {
+      console.error('[TransitTimeline] Error loading event interpretation:', e);
+      setInterpretationError(event.id);
+    } finally {
+      setInterpretationLoading(prev => (prev === event.id ? null : prev));
+    }
+  };
+
+  const renderInterpretation = (event: TimelineEvent) => {
+    if (interpretationLoading === event.id) {
+      return <p className="text-sm text-astro-subtext">{getText(language, 'timeline.interpretation_loading')}</p>;
+    }
+    if (interpretationError === event.id) {
+      return <p className="text-sm text-red-400">{getText(language, 'timeline.interpretation_error')}</p>;
+    }
+
+    const interpretation = interpretations[event.id];
+    if (!interpretation) {
+      return <p className="text-sm text-astro-subtext">{getText(language, 'timeline.interpretation_unavailable')}</p>;
+    }
+
+    return (
+      <div className="space-y-3">
+        {interpretation.title && (
+          <p className="text-base font-semibold text-astro-text">{interpretation.title}</p>
+        )}
+        <p className="font-serif text-[15px] md:text-base text-astro-text whitespace-pre-wrap" style={{ lineHeight: '1.7' }}>
+          {interpretation.interpretation}
+        </p>
+        {interpretation.advice.length > 0 && (
+          <ul className="space-y-1 text-sm text-astro-text/80 list-disc pl-5">
+            {interpretation.advice.map((tip, index) => (
+              <li key={index}>{tip}</li>
+            ))}
+          </ul>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="bg-astro-card rounded-2xl p-6 md:p-8 border border-astro-border shadow-sm mt-6">
+      <h2 className="text-base md:text-lg font-semibold text-astro-text mb-2">
+        {getText(language, 'timeline.title')}
+      </h2>
+      <p className="text-xs md:text-sm text-astro-subtext mb-5">
+        {getText(language, 'timeline.desc')}
+      </p>
+
+      {loading ? (
+        <p className="text-sm text-astro-subtext text-center">{getText(language, 'timeline.loading')}</p>
+      ) : error ? (
+        <p className="text-sm text-astro-subtext text-center">{getText(language, 'timeline.error')}</p>
+      ) : months.length === 0 ? (
+        <p className="text-sm text-astro-subtext text-center">{getText(language, 'timeline.empty')}</p>
+      ) : (
+        /* Прокручиваемая шкала по месяцам */
+        <div className="max-h-[480px] overflow-y-auto pr-1 space-y-6">
+          {months.map(({ month, events }) => (
+            <div key={month}>
+              <h3 className="text-xs md:text-sm text-astro-subtext mb-3 uppercase tracking-wide">
+                {formatMonth(month, locale)}
+              </h3>
+              <div className="space-y-2 border-l border-astro-border/60 pl-4">
+                {events.map(event => (
+                  <div key={event.id}>
+                    <button
+                      onClick={() => handleEventClick(event)}
+                      className="w-full text-left flex items-baseline gap-3 py-1 hover:opacity-80 transition-opacity"
+                    >
+                      <span className="text-sm text-astro-subtext tabular-nums shrink-0">
+                        {event.localTime.slice(8, 10)} · {event.localTime.slice(11, 16)}
+                      </span>
+                      <span className="text-[15px] text-astro-text">
+                        <span className="text-astro-subtext">{getText(language, `timeline.types.${event.type}`)}: </span>
+                        {getEventLabel(profile, event)}
+                      </span>
+                    </button>
+                    {openEventId === event.id && (
+                      <div className="mt-2 mb-3 pt-3 border-t border-astro-border/40">
+                        <p className="text-xs text-astro-subtext mb-2">
+                          {getZodiacSign(language, event.sign)} {Math.floor(event.degree)}° · UTC{event.offset}
+                        </p>
+                        {renderInterpretation(event)}
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+});
+
+TransitTimeline.displayName = 'TransitTimeline';
@@ -0,0 +1,278 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { motion } from 'framer-motion';
+import { PlaceCandidate } from '../types';
+import { searchBirthPlaces } from '../services/astrologyService';
+import { validateLatitude, validateLongitude, validateTimezone } from '../lib/validation';
+
+interface PlacePickerProps {
+  value: string;
+  onChange: (value: string) => void;
+  selected: PlaceCandidate | null;
+  // null — выбор сброшен (пользователь изменил название или координаты)
+  onSelect: (candidate: PlaceCandidate | null) => void;
+  // true — место еще не определено: найдено несколько кандидатов или координаты введены не полностью
+  onNeedsChoiceChange?: (needsChoice: boolean) => void;
+  language: 'ru' | 'en';
+  placeholder?: string;
+  inputClassName?: string;
+}
+
+// Пауза после ввода перед запросом к /api/geocode/search
+const SEARCH_DEBOUNCE_MS = 500;
+const MIN_QUERY_LENGTH = 2;
+
+/**
+ * Поле места рождения с выбором из найденных мест
+ *
+ * Одно найденное место выбирается автоматически, из нескольких пользователь
+ * выбирает сам. Выбранное место подставляется в поле полным названием.
+ * Для мест, которых нет в справочниках, координаты и часовой пояс
+ * (IANA или смещение от UTC) можно ввести вручную.
+ */
+export const PlacePicker: React.FC<PlacePickerProps> = ({
+  value,
+  onChange,
+  selected,
+  onSelect,
+  onNeedsChoiceChange,
+  language,
+  placeholder,
+  inputClassName = ''
+}) => {
+  const [candidates, setCandidates] = useState<PlaceCandidate[]>([]);
+  const [searching, setSearching] = useState(false);
+  const [searchFailed, setSearchFailed] = useState(false);
+  const [manual, setManual] = useState(false);
+  const [manualLat, setManualLat] = useState('');
+  const [manualLon, setManualLon] = useState('');
+  const [manualTimezone, setManualTimezone] = useState('');
+  const requestIdRef = useRef(0);
+  // Последние выбор и обработчики: поиск перезапускается только при изменении запроса
+  const latestRef = useRef({ selected, onSelect, onNeedsChoiceChange });
+
+  const lang = language === 'ru';
+
+  useEffect(() => {
+    latestRef.current = { selected, onSelect, onNeedsChoiceChange };
+  });
+
+  useEffect(() => {
+    const query = value.trim();
+    const { selected, onSelect, onNeedsChoiceChange } = latestRef.current;
+
+    // Координаты введены вручную или поле содержит выбранное место — искать не нужно
+    if (manual || (selected && query === selected.displayName)) return;
+
+    if (query.length < MIN_QUERY_LENGTH) {
+      setCandidates([]);
+      onNeedsChoiceChange?.(false);
+      return;
+    }
+
+    const requestId = ++requestIdRef.current;
+    const timer = setTimeout(async () => {
+      setSearching(true);
+      setSearchFailed(false);
+      try {
+        const found = await searchBirthPlaces(query, language);
+        // Ответ на устаревший запрос игнорируем
+        if (requestId !== requestIdRef.current) return;
+        setCandidates(found);
+        onNeedsChoiceChange?.(found.length > 1);
+        if (found.length === 1) {
+          onSelect(found[0]);
+        }
+      } catch (error) {
+        console.error('[PlacePicker] Place search failed:', error);
+        if (requestId !== requestIdRef.current) return;
+        setCandidates([]);
+        setSearchFailed(true);
+        onNeedsChoiceChange?.(false);
+      } finally {
+        if (requestId === requestIdRef.current) setSearching(false);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => clearTimeout(timer);
+  }, [value, language, manual]);
+
+  /**
+   * Место из введенных вручную полей: выбирается, только если все поля корректны
+   */
+  const applyManual = (name: string, latText: string, lonText: string, timezone: string) => {
+    const lat = parseFloat(latText.replace(',', '.'));
+    const lon = parseFloat(lonText.replace(',', '.'));
+    const isComplete = validateLatitude(lat).isValid
+      && validateLongitude(lon).isValid
+      && validateTimezone(timezone.trim()).isValid;
+
+    onNeedsChoiceChange?.(!isComplete);
+    if (!isComplete) {
+      onSelect(null);
+      return;
+    }
+
+    const label = name.trim() || `${lat.toFixed(4)}, ${lon.toFixed(4)}`;
+    onSelect({
+      name: label,
+      displayName: label,
+      country: '',
+      countryCode: '',
+      lat,
+      lon,
+      timezone: timezone.trim(),
+      source: 'manual'
+    });
+  };
+
+  const handleInput = (text: string) => {
+    onChange(text);
+    if (manual) {
+      applyManual(text, manualLat, manualLon, manualTimezone);
+    } else if (selected) {
+      onSelect(null);
+    }
+  };
+
+  const handlePick = (candidate: PlaceCandidate) => {
+    onSelect(candidate);
+    onChange(candidate.displayName);
+    onNeedsChoiceChange?.(false);
+  };
+
+  const toggleManual = () => {
+    requestIdRef.current++;
+    setCandidates([]);
+    setSearching(false);
+    if (manual) {
+      setManual(false);
+      onSelect(null);
+      return;
+    }
+    setManual(true);
+    // Начинаем с координат выбранного места, если оно было
+    const lat = selected ? String(selected.lat) : '';
+    const lon = selected ? String(selected.lon) : '';
+    const timezone = selected ? selected.timezone : '';
+    setManualLat(lat);
+    setManualLon(lon);
+    setManualTimezone(timezone);
+    applyManual(value, lat, lon, timezone);
+  };
+
+  const showChoice = !manual && !selected && candidates.length > 1;
+  const manualInputClassName = 'w-full bg-transparent border-b border-astro-border py-2 text-sm text-astro-text focus:border-astro-highlight outline-none placeholder-astro-subtext/40';
+
+  return (
+    <div>
+      <input
+        type="text"
+        value={value}
+        onChange={(e) => handleInput(e.target.value)}
+        placeholder={placeholder}
+        className={inputClassName}
+      />
+
+      {searching && (
+        <p className="mt-2 text-xs text-astro-subtext">
+          {lang ? 'Ищем место...' : 'Searching...'}
+        </p>
+      )}
+
+      {selected && !manual && (
+        <p className="mt-2 text-xs text-astro-highlight">
+          {selected.lat.toFixed(4)}, {selected.lon.toFixed(4)} · {selected.timezone}
+        </p>
+      )}
+
+      {searchFailed && !selected && !manual && (
+        <p className="mt-2 text-xs text-astro-subtext">
+          {lang ? 'Не удалось проверить место, карта будет рассчитана по названию' : 'Could not check the place, the chart will use the name as entered'}
+        </p>
+      )}
+
+      {showChoice && (
+        <motion.div
+          initial={{ opacity: 0, y: -5 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="mt-3 space-y-2"
+        >
+          <p className="text-xs text-astro-subtext">
+            {lang ? 'Найдено несколько мест, выберите нужное:' : 'Several places found, choose one:'}
+          </p>
+          {candidates.map(candidate => (
+            <button
+              key={`${candidate.lat},${candidate.lon}`}
+              type="button"
+              onClick={() => handlePick(candidate)}
+              className="w-full text-left p-3 rounded-xl border border-astro-border hover:border-astro-highlight transition-colors"
+            >
+              <div className="text-sm text-astro-text">{candidate.displayName}</div>
+              <div className="text-xs text-astro-subtext">
+                {candidate.lat.toFixed(2)}, {candidate.lon.toFixed(2)} · {candidate.timezone}
+              </div>
+            </button>
+          ))}
+        </motion.div>
+      )}
+
+      {manual && (
+        <motion.div
+          initial={{ opacity: 0, y: -5 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="mt-3 space-y-3"
+        >
+          <div className="grid grid-cols-2 gap-3">
+            <input
+              type="text"
+              inputMode="decimal"
+              value={manualLat}
+              onChange={(e) => {
+                setManualLat(e.target.value);
+                applyManual(value, e.target.value, manualLon, manualTimezone);
+              }}
+              placeholder={lang ? 'Широта, напр. 58.85' : 'Latitude, e.g. 58.85'}
+              className={manualInputClassName}
+            />
+            <input
+              type="text"
+              inputMode="decimal"
+              value={manualLon}
+              onChange={(e) => {
+                setManualLon(e.target.value);
+                applyManual(value, manualLat, e.target.value, manualTimezone);
+              }}
+              placeholder={lang ? 'Долгота, напр. 32.22' : 'Longitude, e.g. 32.22'}
+              className={manualInputClassName}
+            />
+          </div>
+          <input
+            type="text"
+            value={manualTimezone}
+            onChange={(e) => {
+              setManualTimezone(e.target.value);
+              applyManual(value, manualLat, manualLon, e.target.value);
+            }}
+            placeholder={lang ? 'Часовой пояс: Europe/Moscow или UTC+3' : 'Timezone: Europe/Moscow or UTC+3'}
+            className={manualInputClassName}
+          />
+          <p className="text-xs text-astro-subtext">
+            {selected
+              ? (lang ? 'Карта будет рассчитана по этим координатам' : 'The chart will use these coordinates')
+              : (lang ? 'Широта −90…90, долгота −180…180 (восток — плюс)' : 'Latitude −90…90, longitude −180…180 (east is positive)')}
+          </p>
+        </motion.div>
+      )}
+
+      <button
+        type="button"
+        onClick={toggleManual}
+        className="mt-3 text-xs text-astro-subtext underline hover:text-astro-highlight transition-colors"
+      >
+        {manual
+          ? (lang ? 'Искать место по названию' : 'Search place by name')
+          : (lang ? 'Нет в списке? Ввести координаты вручную' : 'Not listed? Enter coordinates manually')}
+      </button>
+    </div>
+  );
+};
@@ -63,6 +63,7 @@ export const TRANSLATIONS = {
       passport: "Космический паспорт",
       element: "Стихия",
       ruler: "Управитель",
+      dominant: "Доминанта",
       menu_analysis: "Натальная карта",
       menu_forecast: "Мой Прогноз",
       menu_synastry: "Совместимость",
@@ -91,6 +92,7 @@ export const TRANSLATIONS = {
       section_career: "Карьера и Самореализация",
       section_weakness: "Зоны Роста и Вызовы",
       section_karma: "Кармическая Задача",
+      section_vedic: "Ведическая Карта",
       forecast_title: "Персональный Прогноз",
       forecast_day: "На Сегодня",
       forecast_week: "На Неделю",
@@ -109,7 +111,74 @@ export const TRANSLATIONS = {
       input_title: "Данные Партнера",
       brief_btn: "Краткий обзор (Бесплатно)",
       full_btn: "Глубокий разбор (Премиум)",
-      loading: "Считываем звездную совместимость..."
+      loading: "Считываем звездную совместимость...",
+      relationship_title: "Карта ваших отношений",
+      relationship_desc: "Композит и карта Дависона — карты самой пары, а не каждого из вас.",
+      relationship_btn: "Построить карту отношений",
+      composite: "Композит",
+      davison: "Карта Дависона",
+      relationship_advice: "Советы паре",
+      people_title: "Мои люди",
+      save_person: "Сохранить в мои люди",
+      delete_person: "Удалить"
+    },
+    group: {
+      title: "Совместимость группы",
+      desc: "Семья, команда или компания друзей: как вы подходите друг другу все вместе.",
+      open_btn: "Совместимость группы",
+      need_people: "Сохраните хотя бы двух человек в синастрии, чтобы сравнить группу.",
+      select: "Выберите от 3 до 8 человек",
+      include_self: "Включить меня",
+      calc_btn: "Рассчитать совместимость группы",
+      loading: "Сравниваем карты группы...",
+      average: "Средняя совместимость",
+      matrix: "Совместимость пар",
+      strongest: "Сильные связи",
+      strained: "Напряжения",
+      balance: "Стихии группы",
+      dominant: "Ведущая стихия",
+      weakest: "Не хватает",
+      dynamics: "Динамика группы",
+      advice: "Советы группе",
+      new_calc: "Новый расчет"
+    },
+    timeline: {
+      title: "Шкала транзитов на год",
+      desc: "Ключевые события ближайших 12 месяцев с точным временем. Нажми на событие, чтобы узнать, что оно значит для тебя.",
+      loading: "Считаем события года...",
+      error: "Не удалось построить шкалу транзитов",
+      empty: "В ближайший год нет заметных событий",
+      interpretation_loading: "Читаем событие...",
+      interpretation_error: "Не удалось получить трактовку. Попробуй позже.",
+      interpretation_unavailable: "Трактовка пока недоступна",
+      types: {
+        transit: "Транзит",
+        ingress: "Вход в знак",
+        station: "Станция",
+        eclipse: "Затмение"
+      },
+      aspects: {
+        conjunction: "соединение",
+        sextile: "секстиль",
+        square: "квадрат",
+        trine: "трин",
+        opposition: "оппозиция"
+      },
+      retrograde: "ретроградный",
+      direct: "директный",
+      solar: "Солнечное затмение",
+      lunar: "Лунное затмение",
+      eclipse_types: {
+        total: "полное",
+        annular: "кольцеобразное",
+        hybrid: "гибридное",
+        partial: "частное",
+        penumbral: "полутеневое"
+      },
+      points: {
+        Ascendant: "Асцендент",
+        MC: "MC"
+      }
     },
     settings: {
       title: "Настройки",
@@ -131,7 +200,8 @@ export const TRANSLATIONS = {
     },
     planets: {
       sun: "Солнце", moon: "Луна", mercury: "Меркурий", venus: "Венера", 
-      mars: "Марс", jupiter: "Юпитер", saturn: "Сатурн", earth: "Земля"
+      mars: "Марс", jupiter: "Юпитер", saturn: "Сатурн", earth: "Земля",
+      uranus: "Уран", neptune: "Нептун", pluto: "Плутон"
     },
     zodiac: {
       Aries: "Овен",
@@ -185,6 +255,7 @@ export const TRANSLATIONS = {
       passport: "Cosmic Passport",
       element: "Element",
       ruler: "Ruler",
+      dominant: "Dominant",
       menu_analysis: "Natal Chart",
       menu_forecast: "My Forecast",
       menu_synastry: "Compatibility",
@@ -213,6 +284,7 @@ export const TRANSLATIONS = {
       section_career: "Career & Self-Realization",
       section_weakness: "Growth Areas & Challenges",
       section_karma: "Karmic Mission",
+      section_vedic: "Vedic Chart",
       forecast_title: "Personal Forecast",
       forecast_day: "Today",
       forecast_week: "This Week",
@@ -231,7 +303,74 @@ export const TRANSLATIONS = {
       input_title: "Partner Details",
       brief_btn: "Brief Overview (Free)",
       full_btn: "Deep Analysis (Premium)",
-      loading: "Reading star compatibility..."
+      loading: "Reading star compatibility...",
+      relationship_title: "Your Relationship Chart",
+      relationship_desc: "Composite and Davison charts describe the couple itself, not each of you.",
+      relationship_btn: "Build Relationship Chart",
+      composite: "Composite",
+      davison: "Davison Chart",
+      relationship_advice: "Advice for the Couple",
+      people_title: "My People",
+      save_person: "Save to my people",
+      delete_person: "Delete"
+    },
+    group: {
+      title: "Group Compatibility",
+      desc: "Family, team or friends: how you all fit together.",
+      open_btn: "Group Compatibility",
+      need_people: "Save at least two people in synastry to compare a group.",
+      select: "Choose 3 to 8 people",
+      include_self: "Include me",
+      calc_btn: "Analyze Group",
+      loading: "Comparing the group's charts...",
+      average: "Average compatibility",
+      matrix: "Pair Compatibility",
+      strongest: "Strongest Bonds",
+      strained: "Tensions",
+      balance: "Group Elements",
+      dominant: "Leading element",
+      weakest: "Missing",
+      dynamics: "Group Dynamics",
+      advice: "Advice for the Group",
+      new_calc: "New Calculation"
+    },
+    timeline: {
+      title: "Transit Timeline for the Year",
+      desc: "Key events of the next 12 months with exact times. Tap an event to see what it means for you.",
+      loading: "Calculating the year's events...",
+      error: "Failed to build the transit timeline",
+      empty: "No notable events in the coming year",
+      interpretation_loading: "Reading the event...",
+      interpretation_error: "Failed to get the interpretation. Please try again later.",
+      interpretation_unavailable: "Interpretation is not available yet",
+      types: {
+        transit: "Transit",
+        ingress: "Sign ingress",
+        station: "Station",
+        eclipse: "Eclipse"
+      },
+      aspects: {
+        conjunction: "conjunct",
+        sextile: "sextile",
+        square: "square",
+        trine: "trine",
+        opposition: "opposite"
+      },
+      retrograde: "retrograde",
+      direct: "direct",
+      solar: "Solar eclipse",
+      lunar: "Lunar eclipse",
+      eclipse_types: {
+        total: "total",
+        annular: "annular",
+        hybrid: "hybrid",
+        partial: "partial",
+        penumbral: "penumbral"
+      },
+      points: {
+        Ascendant: "Ascendant",
+        MC: "MC"
+      }
     },
     settings: {
       title: "Settings",
@@ -253,7 +392,8 @@ export const TRANSLATIONS = {
     },
     planets: {
       sun: "Sun", moon: "Moon", mercury: "Mercury", venus: "Venus", 
-      mars: "Mars", jupiter: "Jupiter", saturn: "Saturn", earth: "Earth"
+      mars: "Mars", jupiter: "Jupiter", saturn: "Saturn", earth: "Earth",
+      uranus: "Uranus", neptune: "Neptune", pluto: "Pluto"
     },
     zodiac: {
       Aries: "Aries",
@@ -297,3 +437,8 @@ export const getElement = (lang: Language, element: string): string => {
   const elementTranslations = TRANSLATIONS[lang].elements as Record<string, string>;
   return elementTranslations[element] || element;
 };
+
+export const getPlanetName = (lang: Language, planet: string): string => {
+  const planetTranslations = TRANSLATIONS[lang].planets as Record<string, string>;
+  return planetTranslations[planet.toLowerCase()] || planet;
+};
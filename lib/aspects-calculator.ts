@@ -0,0 +1,160 @@
+/**
+ * Расчет аспектов между точками карты
+ *
+ * Работает поверх эклиптических долгот и скоростей из swe_calc_ut.
+ * Не зависит от Swiss Ephemeris, поэтому используется и для натальной карты,
+ * и для транзитов/синастрии.
+ */
+
+import type { Aspect, AspectType } from '../types';
+
+/**
+ * Точка карты для расчета аспектов
+ */
+export interface AspectBody {
+  name: string;
+  longitude: number; // Абсолютная долгота 0-360
+  speed?: number; // Скорость по долготе, градусов в сутки (для углов карты — 0)
+}
+
+export interface AspectDefinition {
+  type: AspectType;
+  angle: number;
+  orbFactor: number; // Доля от орбиса планеты
+  major: boolean;
+}
+
+/**
+ * Аспекты: мажорные используют полный орбис планеты, минорные — его долю
+ */
+export const ASPECT_DEFINITIONS: AspectDefinition[] = [
+  { type: 'conjunction', angle: 0, orbFactor: 1, major: true },
+  { type: 'sextile', angle: 60, orbFactor: 0.6, major: true },
+  { type: 'square', angle: 90, orbFactor: 1, major: true },
+  { type: 'trine', angle: 120, orbFactor: 1, major: true },
+  { type: 'opposition', angle: 180, orbFactor: 1, major: true },
+  { type: 'semisextile', angle: 30, orbFactor: 0.3, major: false },
+  { type: 'semisquare', angle: 45, orbFactor: 0.3, major: false },
+  { type: 'sesquiquadrate', angle: 135, orbFactor: 0.3, major: false },
+  { type: 'quincunx', angle: 150, orbFactor: 0.4, major: false },
+  { type: 'quintile', angle: 72, orbFactor: 0.25, major: false },
+  { type: 'biquintile', angle: 144, orbFactor: 0.25, major: false },
+];
+
+/**
+ * Орбисы планет для мажорных аспектов (в градусах)
+ */
+export const DEFAULT_PLANET_ORBS: Record<string, number> = {
+  'Sun': 10,
+  'Moon': 10,
+  'Mercury': 7,
+  'Venus': 7,
+  'Mars': 7,
+  'Jupiter': 6,
+  'Saturn': 6,
+  'Uranus': 5,
+  'Neptune': 5,
+  'Pluto': 5,
+  'North Node': 4,
+  'South Node': 4,
+  'Chiron': 3,
+  'Lilith': 3,
+  'Ascendant': 6,
+  'MC': 6,
+};
+
+const DEFAULT_ORB = 3;
+
+/**
+ * Пары, аспект между которыми всегда один и тот же и ничего не сообщает
+ */
+const EXCLUDED_PAIRS: [string, string][] = [
+  ['North Node', 'South Node'],
+];
+
+export interface AspectOptions {
+  planetOrbs?: Partial<Record<string, number>>; // Переопределение орбисов
+  includeMinor?: boolean; // По умолчанию минорные аспекты включены
+}
+
+/**
+ * Нормализует разницу долгот в диапазон (-180, 180]
+ */
+function normalizeDelta(delta: number): number {
+  let normalized = delta % 360;
+  if (normalized > 180) normalized -= 360;
+  if (normalized <= -180) normalized += 360;
+  return normalized;
+}
+
+function isExcludedPair(name1: string, name2: string): boolean {
+  return EXCLUDED_PAIRS.some(([a, b]) => (a === name1 && b === name2) || (a === name2 && b === name1));
+}
+
+/**
+ * Определяет, сходится ли аспект: орбис уменьшается со временем
+ *
+ * Угловое расстояние |delta| меняется со скоростью sign(delta) * (v2 - v1),
+ * орбис ||delta| - angle| уменьшается, если эта скорость направлена к точному углу.
+ */
+function isApplying(delta: number, aspectAngle: number, speed1: number, speed2: number): boolean {
+  const distance = Math.abs(delta);
+  const distanceRate = Math.sign(delta) * (speed2 - speed1);
+  const orbRate = Math.sign(distance - aspectAngle) * distanceRate;
+  return orbRate < 0;
+}
+
+/**
+ * Находит аспект между двумя точками (наиболее точный из подходящих) или null
+ */
+export function findAspect(body1: AspectBody, body2: AspectBody, options: AspectOptions = {}): Aspect | null {
+  const orbs = { ...DEFAULT_PLANET_ORBS, ...options.planetOrbs };
+  const baseOrb = ((orbs[body1.name] ?? DEFAULT_ORB) + (orbs[body2.name] ?? DEFAULT_ORB)) / 2;
+  const includeMinor = options.includeMinor !== false;
+
+  const delta = normalizeDelta(body2.longitude - body1.longitude);
+  const distance = Math.abs(delta);
+
+  let best: Aspect | null = null;
+  let bestOrb = Infinity;
+  for (const definition of ASPECT_DEFINITIONS) {
+    if (!definition.major && !includeMinor) continue;
+
+    const orb = Math.abs(distance - definition.angle);
+    if (orb > baseOrb * definition.orbFactor) continue;
+
+    if (orb < bestOrb) {
+      bestOrb = orb;
+      best = {
+        planet1: body1.name,
+        planet2: body2.name,
+        type: definition.type,
+        angle: definition.angle,
+        orb: Math.round(orb * 100) / 100,
+        applying: isApplying(delta, definition.angle, body1.speed || 0, body2.speed || 0)
+      };
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Рассчитывает все аспекты между точками карты, от самых точных к менее точным
+ */
+export function calculateAspects(bodies: AspectBody[], options: AspectOptions = {}): Aspect[] {
+  const aspects: Aspect[] = [];
+
+  for (let i = 0; i < bodies.length; i++) {
+    for (let j = i + 1; j < bodies.length; j++) {
+      if (isExcludedPair(bodies[i].name, bodies[j].name)) continue;
+
+      const aspect = findAspect(bodies[i], bodies[j], options);
+      if (aspect) {
+        aspects.push(aspect);
+      }
+    }
+  }
+
+  return aspects.sort((a, b) => a.orb - b.orb);
+}
@@ -163,7 +163,7 @@ export function shouldLoadNatalIntro(generatedContent?: any): boolean {
  */
 export function shouldLoadDeepDive(
   generatedContent: any,
-  topic: 'personality' | 'love' | 'career' | 'weakness' | 'karma'
+  topic: 'personality' | 'love' | 'career' | 'weakness' | 'karma' | 'vedic'
 ): boolean {
   const analyses = generatedContent?.deepDiveAnalyses || {};
   return !analyses[topic] || analyses[topic].length === 0;
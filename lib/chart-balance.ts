@@ -0,0 +1,196 @@
+/**
+ * Chart Balance
+ *
+ * Баланс натальной карты: стихии и кресты с весами точек, эссенциальные
+ * достоинства планет, управитель карты (по Асценденту) и доминирующая планета.
+ * Модуль без Swiss Ephemeris: считается и на сервере при расчете карты,
+ * и на клиенте для карт, сохраненных до появления баланса.
+ */
+
+import { ZODIAC_SIGNS, getElementForSign, getModalityForSign, getRulingPlanet, type ZodiacSign } from './zodiac-utils';
+import type { ChartBalance, ChartPlanetKey, DignityType, Modality, NatalChartData, PlanetDignity, PlanetPosition, PlanetScore } from '../types';
+
+type ElementName = ChartBalance['dominantElement'];
+
+export type ChartBalanceInput = Pick<NatalChartData, 'sun' | 'moon' | 'rising' | 'mc' | 'planets' | 'aspects' | 'birthTimeUnknown'>;
+
+// Вес точки в балансе стихий и крестов и базовая сила планеты:
+// светила и Асцендент важнее всего, высшие планеты — поколенческие
+const PLANET_WEIGHTS: { key: ChartPlanetKey; weight: number }[] = [
+  { key: 'sun', weight: 3 },
+  { key: 'moon', weight: 3 },
+  { key: 'mercury', weight: 2 },
+  { key: 'venus', weight: 2 },
+  { key: 'mars', weight: 2 },
+  { key: 'jupiter', weight: 1.5 },
+  { key: 'saturn', weight: 1.5 },
+  { key: 'uranus', weight: 0.5 },
+  { key: 'neptune', weight: 0.5 },
+  { key: 'pluto', weight: 0.5 }
+];
+const ASCENDANT_WEIGHT = 3;
+const MC_WEIGHT = 1;
+
+// Обители с современными управителями высших планет
+const DOMICILES: Record<string, ZodiacSign[]> = {
+  Sun: ['Leo'],
+  Moon: ['Cancer'],
+  Mercury: ['Gemini', 'Virgo'],
+  Venus: ['Taurus', 'Libra'],
+  Mars: ['Aries', 'Scorpio'],
+  Jupiter: ['Sagittarius', 'Pisces'],
+  Saturn: ['Capricorn', 'Aquarius'],
+  Uranus: ['Aquarius'],
+  Neptune: ['Pisces'],
+  Pluto: ['Scorpio']
+};
+
+// Экзальтации только у семи классических планет: для высших они спорны
+const EXALTATIONS: Record<string, ZodiacSign> = {
+  Sun: 'Aries',
+  Moon: 'Taurus',
+  Mercury: 'Virgo',
+  Venus: 'Pisces',
+  Mars: 'Capricorn',
+  Jupiter: 'Cancer',
+  Saturn: 'Libra'
+};
+
+// Баллы силы планеты (эссенциальные достоинства — по шкале Лилли)
+const DIGNITY_SCORES: Record<DignityType, number> = {
+  domicile: 5,
+  exaltation: 4,
+  detriment: -5,
+  fall: -4
+};
+const CHART_RULER_SCORE = 5;
+const ANGULAR_HOUSE_SCORE = 3;
+const ANGULAR_HOUSES = [1, 4, 7, 10];
+const ASPECT_SCORE = 1;
+const TIGHT_ASPECT_ORB = 1; // Аспект с орбисом до 1° дает еще балл
+
+const ELEMENTS: ElementName[] = ['Fire', 'Earth', 'Air', 'Water'];
+const MODALITIES: Modality[] = ['cardinal', 'fixed', 'mutable'];
+
+function getOppositeSign(sign: ZodiacSign): ZodiacSign {
+  return ZODIAC_SIGNS[(ZODIAC_SIGNS.indexOf(sign) + 6) % 12];
+}
+
+function roundScore(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+/**
+ * Эссенциальное достоинство планеты в знаке
+ *
+ * Изгнание и падение — знаки, противоположные обители и экзальтации.
+ * Если совпадают два состояния (Меркурий в Деве), обитель важнее экзальтации,
+ * а изгнание — падения.
+ *
+ * @example
+ * getDignity('Mars', 'Capricorn') // 'exaltation'
+ * getDignity('Venus', 'Aries') // 'detriment'
+ */
+export function getDignity(planet: string, sign: string): DignityType | null {
+  const domiciles = DOMICILES[planet];
+  if (!domiciles || !ZODIAC_SIGNS.includes(sign as ZodiacSign)) {
+    return null;
+  }
+  const exaltation = EXALTATIONS[planet];
+
+  if (domiciles.includes(sign as ZodiacSign)) return 'domicile';
+  if (exaltation === sign) return 'exaltation';
+  if (domiciles.some(domicile => getOppositeSign(domicile) === sign)) return 'detriment';
+  if (exaltation && getOppositeSign(exaltation) === sign) return 'fall';
+  return null;
+}
+
+/**
+ * Веса в проценты с одним знаком после запятой
+ */
+function toPercentages<K extends string>(weights: Record<K, number>): Record<K, number> {
+  const total = Object.values<number>(weights).reduce((sum, weight) => sum + weight, 0);
+  const result = {} as Record<K, number>;
+  for (const key of Object.keys(weights) as K[]) {
+    result[key] = total > 0 ? Math.round(weights[key] / total * 1000) / 10 : 0;
+  }
+  return result;
+}
+
+/**
+ * Ключ с наибольшим значением (при равенстве — первый по порядку keys)
+ */
+function findDominant<K extends string>(values: Record<K, number>, keys: K[]): K {
+  return keys.reduce((best, key) => values[key] > values[best] ? key : best, keys[0]);
+}
+
+/**
+ * Баланс карты
+ *
+ * Стихии и кресты считаются по знакам планет от Солнца до Плутона, Асцендента
+ * и MC с весами точек. Сила планеты — её вес, достоинство, управление картой,
+ * угловой дом и аспекты. Если время рождения неизвестно, Асцендент, MC и дома
+ * не учитываются, а управителем карты считается управитель знака Солнца.
+ */
+export function calculateChartBalance(chart: ChartBalanceInput): ChartBalance {
+  const timeKnown = !chart.birthTimeUnknown;
+  const planets: Partial<Record<ChartPlanetKey, PlanetPosition | null>> = chart.planets || {
+    sun: chart.sun,
+    moon: chart.moon
+  };
+
+  // 1. Точки с весами
+  const weighted: { position: PlanetPosition; weight: number }[] = PLANET_WEIGHTS
+    .filter(({ key }) => planets[key])
+    .map(({ key, weight }) => ({ position: planets[key]!, weight }));
+  const points = [...weighted];
+  if (timeKnown && chart.rising) points.push({ position: chart.rising, weight: ASCENDANT_WEIGHT });
+  if (timeKnown && chart.mc) points.push({ position: chart.mc, weight: MC_WEIGHT });
+
+  // 2. Стихии и кресты
+  const elementWeights: Record<ElementName, number> = { Fire: 0, Earth: 0, Air: 0, Water: 0 };
+  const modalityWeights: Record<Modality, number> = { cardinal: 0, fixed: 0, mutable: 0 };
+  for (const { position, weight } of points) {
+    if (!ZODIAC_SIGNS.includes(position.sign as ZodiacSign)) continue;
+    elementWeights[getElementForSign(position.sign as ZodiacSign)] += weight;
+    modalityWeights[getModalityForSign(position.sign as ZodiacSign)] += weight;
+  }
+  const elements = toPercentages(elementWeights);
+  const modalities = toPercentages(modalityWeights);
+
+  // 3. Управитель карты и достоинства
+  const rulerSign = timeKnown && chart.rising ? chart.rising.sign : chart.sun.sign;
+  const chartRuler = getRulingPlanet(rulerSign as ZodiacSign);
+
+  const dignities: PlanetDignity[] = [];
+  for (const { position } of weighted) {
+    const dignity = getDignity(position.planet, position.sign);
+    if (dignity) dignities.push({ planet: position.planet, sign: position.sign, dignity });
+  }
+
+  // 4. Сила планет и доминанта
+  const aspects = chart.aspects || [];
+  const planetScores: PlanetScore[] = weighted.map(({ position, weight }) => {
+    const dignity = getDignity(position.planet, position.sign);
+    let score = weight;
+    if (dignity) score += DIGNITY_SCORES[dignity];
+    if (position.planet === chartRuler) score += CHART_RULER_SCORE;
+    if (timeKnown && position.house && ANGULAR_HOUSES.includes(position.house)) score += ANGULAR_HOUSE_SCORE;
+    for (const aspect of aspects) {
+      if (aspect.planet1 !== position.planet && aspect.planet2 !== position.planet) continue;
+      score += ASPECT_SCORE + (aspect.orb <= TIGHT_ASPECT_ORB ? ASPECT_SCORE : 0);
+    }
+    return { planet: position.planet, score: roundScore(score) };
+  }).sort((a, b) => b.score - a.score);
+
+  return {
+    elements,
+    modalities,
+    dominantElement: findDominant(elements, ELEMENTS),
+    dominantModality: findDominant(modalities, MODALITIES),
+    dignities,
+    chartRuler,
+    planetScores,
+    dominantPlanet: planetScores[0]?.planet || chartRuler
+  };
+}
@@ -0,0 +1,417 @@
+/**
+ * Gazetteer - офлайн-справочник населенных пунктов
+ *
+ * Координаты и часовые пояса городов из встроенного набора данных
+ * (формат по мотивам GeoNames, файл gazetteer-places.json). Поиск нечеткий:
+ * русские и английские названия, исторические имена (Ленинград, Alma-Ata),
+ * опечатки и уточнения вида «Город, Страна» или «Город, Регион».
+ */
+
+import placesData from './gazetteer-places.json';
+
+// Logging utility
+const log = {
+  info: (message: string, data?: any) => {
+    console.log(`[Gazetteer] ${message}`, data || '');
+  },
+  error: (message: string, error?: any) => {
+    console.error(`[Gazetteer] ERROR: ${message}`, error || '');
+  },
+};
+
+export interface GazetteerPlace {
+  name: string;
+  nameRu: string;
+  alternateNames: string[];
+  countryCode: string;
+  region: string;
+  lat: number;
+  lon: number;
+  timezone: string;
+  population: number;
+}
+
+export interface GazetteerMatch {
+  place: GazetteerPlace;
+  // Оценка совпадения: 1 — точное совпадение названия, бонусы за совпавшую страну/регион
+  score: number;
+  // Название (в нормализованном виде), по которому найдено совпадение
+  matchedName: string;
+  // Каждое уточнение после запятой совпало со страной или регионом места
+  qualifiersMatched: boolean;
+}
+
+/**
+ * Названия стран по ISO-коду: английское, русское и распространенные варианты
+ */
+export const COUNTRY_NAMES: Record<string, { en: string; ru: string; aliases?: string[] }> = {
+  RU: { en: 'Russia', ru: 'Россия', aliases: ['Russian Federation', 'РФ', 'Российская Федерация', 'USSR', 'СССР'] },
+  UA: { en: 'Ukraine', ru: 'Украина', aliases: ['Україна'] },
+  BY: { en: 'Belarus', ru: 'Беларусь', aliases: ['Byelorussia', 'Belorussia', 'Белоруссия'] },
+  KZ: { en: 'Kazakhstan', ru: 'Казахстан', aliases: ['Qazaqstan'] },
+  UZ: { en: 'Uzbekistan', ru: 'Узбекистан' },
+  KG: { en: 'Kyrgyzstan', ru: 'Киргизия', aliases: ['Kirghizia', 'Кыргызстан'] },
+  TJ: { en: 'Tajikistan', ru: 'Таджикистан' },
+  TM: { en: 'Turkmenistan', ru: 'Туркмения', aliases: ['Туркменистан'] },
+  AZ: { en: 'Azerbaijan', ru: 'Азербайджан' },
+  AM: { en: 'Armenia', ru: 'Армения' },
+  GE: { en: 'Georgia', ru: 'Грузия', aliases: ['Sakartvelo'] },
+  MD: { en: 'Moldova', ru: 'Молдова', aliases: ['Moldavia', 'Молдавия'] },
+  LV: { en: 'Latvia', ru: 'Латвия' },
+  LT: { en: 'Lithuania', ru: 'Литва' },
+  EE: { en: 'Estonia', ru: 'Эстония' },
+  GB: { en: 'United Kingdom', ru: 'Великобритания', aliases: ['UK', 'Great Britain', 'Britain', 'England', 'Scotland', 'Англия', 'Шотландия'] },
+  IE: { en: 'Ireland', ru: 'Ирландия' },
+  FR: { en: 'France', ru: 'Франция' },
+  DE: { en: 'Germany', ru: 'Германия', aliases: ['Deutschland'] },
+  AT: { en: 'Austria', ru: 'Австрия' },
+  CH: { en: 'Switzerland', ru: 'Швейцария' },
+  NL: { en: 'Netherlands', ru: 'Нидерланды', aliases: ['Holland', 'Голландия'] },
+  BE: { en: 'Belgium', ru: 'Бельгия' },
+  LU: { en: 'Luxembourg', ru: 'Люксембург' },
+  ES: { en: 'Spain', ru: 'Испания' },
+  PT: { en: 'Portugal', ru: 'Португалия' },
+  IT: { en: 'Italy', ru: 'Италия' },
+  GR: { en: 'Greece', ru: 'Греция' },
+  TR: { en: 'Turkey', ru: 'Турция', aliases: ['Türkiye'] },
+  PL: { en: 'Poland', ru: 'Польша' },
+  CZ: { en: 'Czechia', ru: 'Чехия', aliases: ['Czech Republic'] },
+  SK: { en: 'Slovakia', ru: 'Словакия' },
+  HU: { en: 'Hungary', ru: 'Венгрия' },
+  RO: { en: 'Romania', ru: 'Румыния' },
+  BG: { en: 'Bulgaria', ru: 'Болгария' },
+  RS: { en: 'Serbia', ru: 'Сербия' },
+  HR: { en: 'Croatia', ru: 'Хорватия' },
+  SI: { en: 'Slovenia', ru: 'Словения' },
+  BA: { en: 'Bosnia and Herzegovina', ru: 'Босния и Герцеговина', aliases: ['Bosnia', 'Босния'] },
+  MK: { en: 'North Macedonia', ru: 'Северная Македония', aliases: ['Macedonia', 'Македония'] },
+  ME: { en: 'Montenegro', ru: 'Черногория' },
+  AL: { en: 'Albania', ru: 'Албания' },
+  SE: { en: 'Sweden', ru: 'Швеция' },
+  NO: { en: 'Norway', ru: 'Норвегия' },
+  DK: { en: 'Denmark', ru: 'Дания' },
+  FI: { en: 'Finland', ru: 'Финляндия' },
+  IS: { en: 'Iceland', ru: 'Исландия' },
+  IL: { en: 'Israel', ru: 'Израиль' },
+  AE: { en: 'United Arab Emirates', ru: 'ОАЭ', aliases: ['UAE', 'Объединенные Арабские Эмираты'] },
+  IR: { en: 'Iran', ru: 'Иран' },
+  IQ: { en: 'Iraq', ru: 'Ирак' },
+  SA: { en: 'Saudi Arabia', ru: 'Саудовская Аравия' },
+  LB: { en: 'Lebanon', ru: 'Ливан' },
+  JO: { en: 'Jordan', ru: 'Иордания' },
+  SY: { en: 'Syria', ru: 'Сирия' },
+  EG: { en: 'Egypt', ru: 'Египет' },
+  CN: { en: 'China', ru: 'Китай' },
+  HK: { en: 'Hong Kong', ru: 'Гонконг' },
+  JP: { en: 'Japan', ru: 'Япония' },
+  KR: { en: 'South Korea', ru: 'Южная Корея', aliases: ['Korea', 'Корея'] },
+  KP: { en: 'North Korea', ru: 'КНДР', aliases: ['Северная Корея'] },
+  MN: { en: 'Mongolia', ru: 'Монголия' },
+  IN: { en: 'India', ru: 'Индия' },
+  PK: { en: 'Pakistan', ru: 'Пакистан' },
+  AF: { en: 'Afghanistan', ru: 'Афганистан' },
+  BD: { en: 'Bangladesh', ru: 'Бангладеш' },
+  NP: { en: 'Nepal', ru: 'Непал' },
+  LK: { en: 'Sri Lanka', ru: 'Шри-Ланка' },
+  TH: { en: 'Thailand', ru: 'Таиланд', aliases: ['Тайланд'] },
+  VN: { en: 'Vietnam', ru: 'Вьетнам' },
+  SG: { en: 'Singapore', ru: 'Сингапур' },
+  MY: { en: 'Malaysia', ru: 'Малайзия' },
+  ID: { en: 'Indonesia', ru: 'Индонезия' },
+  PH: { en: 'Philippines', ru: 'Филиппины' },
+  TW: { en: 'Taiwan', ru: 'Тайвань' },
+  US: { en: 'United States', ru: 'США', aliases: ['USA', 'US', 'United States of America', 'America', 'Америка', 'Соединенные Штаты'] },
+  CA: { en: 'Canada', ru: 'Канада' },
+  MX: { en: 'Mexico', ru: 'Мексика' },
+  CU: { en: 'Cuba', ru: 'Куба' },
+  CO: { en: 'Colombia', ru: 'Колумбия' },
+  PE: { en: 'Peru', ru: 'Перу' },
+  CL: { en: 'Chile', ru: 'Чили' },
+  AR: { en: 'Argentina', ru: 'Аргентина' },
+  BR: { en: 'Brazil', ru: 'Бразилия', aliases: ['Brasil'] },
+  VE: { en: 'Venezuela', ru: 'Венесуэла' },
+  UY: { en: 'Uruguay', ru: 'Уругвай' },
+  EC: { en: 'Ecuador', ru: 'Эквадор' },
+  NG: { en: 'Nigeria', ru: 'Нигерия' },
+  KE: { en: 'Kenya', ru: 'Кения' },
+  ZA: { en: 'South Africa', ru: 'ЮАР', aliases: ['Южная Африка'] },
+  MA: { en: 'Morocco', ru: 'Марокко' },
+  TN: { en: 'Tunisia', ru: 'Тунис' },
+  DZ: { en: 'Algeria', ru: 'Алжир' },
+  ET: { en: 'Ethiopia', ru: 'Эфиопия' },
+  GH: { en: 'Ghana', ru: 'Гана' },
+  AU: { en: 'Australia', ru: 'Австралия' },
+  NZ: { en: 'New Zealand', ru: 'Новая Зеландия' },
+};
+
+// Минимальная оценка, при которой место считается найденным
+export const MIN_MATCH_SCORE = 0.75;
+
+// Поправки за уточнение после запятой: совпала страна/регион или указана другая страна
+const QUALIFIER_BONUS = 0.1;
+const QUALIFIER_PENALTY = 0.3;
+
+// Служебные слова перед названием: «г. Москва», «city of London»
+const PLACE_PREFIXES = new Set(['г', 'гор', 'город', 'пгт', 'пос', 'поселок', 'с', 'село', 'ст', 'станица', 'д', 'деревня', 'city', 'of', 'town']);
+
+// Служебные слова в названиях регионов: «Свердловская обл.», «Altai Krai»
+const REGION_WORDS = new Set(['oblast', 'obl', 'region', 'krai', 'kray', 'republic', 'okrug', 'autonomous', 'county', 'state', 'province', 'district', 'city', 'область', 'обл', 'край', 'республика', 'респ', 'округ', 'автономный', 'ао', 'район', 'штат', 'провинция']);
+
+const CYRILLIC_TO_LATIN: Record<string, string> = {
+  а: 'a', б: 'b', в: 'v', г: 'g', д: 'd', е: 'e', ж: 'zh', з: 'z', и: 'i', й: 'y',
+  к: 'k', л: 'l', м: 'm', н: 'n', о: 'o', п: 'p', р: 'r', с: 's', т: 't', у: 'u',
+  ф: 'f', х: 'kh', ц: 'ts', ч: 'ch', ш: 'sh', щ: 'shch', ъ: '', ы: 'y', ь: '', э: 'e',
+  ю: 'yu', я: 'ya', і: 'i', ї: 'yi', є: 'ye', ґ: 'g'
+};
+
+const CYRILLIC_PATTERN = /[а-яёіїєґ]/;
+
+/**
+ * Нормализует название: регистр, ё → е, диакритика латиницы, пунктуация и пробелы
+ */
+export function normalizePlaceName(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/ё/g, 'е')
+    // Диакритику снимаем только у латиницы, чтобы «й» не превращалась в «и»
+    .normalize('NFD')
+    .replace(/([a-z])[\u0300-\u036f]+/g, '$1')
+    .normalize('NFC')
+    .replace(/['’`ʼ]/g, '')
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+}
+
+/**
+ * Транслитерация кириллицы в латиницу (для сравнения «Екатеринбург» и «Ekaterinburg»)
+ */
+export function transliterate(value: string): string {
+  return Array.from(value).map(char => CYRILLIC_TO_LATIN[char] ?? char).join('');
+}
+
+/**
+ * Варианты написания для сравнения: нормализованная строка и её транслитерация
+ */
+function getNameVariants(value: string): string[] {
+  const normalized = normalizePlaceName(value);
+  if (!normalized) return [];
+  return CYRILLIC_PATTERN.test(normalized) ? [normalized, transliterate(normalized)] : [normalized];
+}
+
+/**
+ * Расстояние Дамерау-Левенштейна (с перестановкой соседних символов)
+ */
+function editDistance(a: string, b: string): number {
+  const rows = a.length + 1;
+  const cols = b.length + 1;
+  const distances: number[][] = Array.from({ length: rows }, (_, i) => {
+    const row = new Array<number>(cols).fill(0);
+    row[0] = i;
+    return row;
+  });
+  for (let j = 0; j < cols; j++) distances[0][j] = j;
+
+  for (let i = 1; i < rows; i++) {
+    for (let j = 1; j < cols; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      distances[i][j] = Math.min(
+        distances[i - 1][j] + 1,
+        distances[i][j - 1] + 1,
+        distances[i - 1][j - 1] + cost
+      );
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        distances[i][j] = Math.min(distances[i][j], distances[i - 2][j - 2] + 1);
+      }
+    }
+  }
+
+  return distances[a.length][b.length];
+}
+
+/**
+ * Похожесть строк от 0 до 1
+ */
+function similarity(a: string, b: string): number {
+  if (a === b) return 1;
+  const maxLength = Math.max(a.length, b.length);
+  if (maxLength === 0) return 0;
+  return 1 - editDistance(a, b) / maxLength;
+}
+
+function bestSimilarity(queryVariants: string[], candidates: string[]): { score: number; matchedName: string } {
+  let best = { score: 0, matchedName: '' };
+  for (const candidate of candidates) {
+    for (const query of queryVariants) {
+      const score = similarity(query, candidate);
+      if (score > best.score) {
+        best = { score, matchedName: candidate };
+      }
+    }
+  }
+  return best;
+}
+
+interface IndexedPlace {
+  place: GazetteerPlace;
+  names: string[];
+  region: string[];
+}
+
+let placeIndex: IndexedPlace[] | null = null;
+let countryIndex: { code: string; names: string[] }[] | null = null;
+
+function getPlaceIndex(): IndexedPlace[] {
+  if (!placeIndex) {
+    placeIndex = (placesData as GazetteerPlace[]).map(place => ({
+      place,
+      names: Array.from(new Set([place.name, place.nameRu, ...place.alternateNames].flatMap(getNameVariants))),
+      region: getNameVariants(stripRegionWords(place.region))
+    }));
+    log.info('Gazetteer index built', { places: placeIndex.length });
+  }
+  return placeIndex;
+}
+
+function getCountryIndex(): { code: string; names: string[] }[] {
+  if (!countryIndex) {
+    countryIndex = Object.entries(COUNTRY_NAMES).map(([code, country]) => ({
+      code,
+      names: Array.from(new Set([code, country.en, country.ru, ...(country.aliases || [])].flatMap(getNameVariants)))
+    }));
+  }
+  return countryIndex;
+}
+
+function stripRegionWords(value: string): string {
+  return normalizePlaceName(value)
+    .split(' ')
+    .filter(word => !REGION_WORDS.has(word))
+    .join(' ');
+}
+
+/**
+ * Коды стран, которым соответствует уточнение (точное совпадение названия)
+ */
+function findCountryCodes(qualifier: string): string[] {
+  const variants = getNameVariants(qualifier);
+  return getCountryIndex()
+    .filter(country => country.names.some(name => variants.includes(name)))
+    .map(country => country.code);
+}
+
+/**
+ * Разбирает запрос на название места и уточнения
+ *
+ * «Брест, Беларусь» → ['брест'], ['беларусь'].
+ * Без запятых страна может стоять последним словом: «Paris France».
+ */
+function parseQuery(query: string): { place: string; qualifiers: string[] } {
+  const parts = query.split(/[,;]/).map(part => part.trim()).filter(Boolean);
+  const placeWords = normalizePlaceName(parts[0] || '').split(' ').filter(Boolean);
+  while (placeWords.length > 1 && PLACE_PREFIXES.has(placeWords[0])) {
+    placeWords.shift();
+  }
+
+  const qualifiers = parts.slice(1);
+  if (qualifiers.length === 0 && placeWords.length > 1) {
+    for (const tailLength of [2, 1]) {
+      if (placeWords.length <= tailLength) continue;
+      const tail = placeWords.slice(-tailLength).join(' ');
+      if (findCountryCodes(tail).length > 0) {
+        return { place: placeWords.slice(0, -tailLength).join(' '), qualifiers: [tail] };
+      }
+    }
+  }
+
+  return { place: placeWords.join(' '), qualifiers };
+}
+
+/**
+ * Ключ места для кэша геокодинга: нормализованное название в латинице
+ *
+ * «г. Москва, Россия» и «Moskva, Rossiya» дают один ключ «moskva, rossiya».
+ */
+export function getPlaceCacheKey(query: string): string {
+  const { place, qualifiers } = parseQuery(query);
+  return [place, ...qualifiers.map(normalizePlaceName)]
+    .filter(Boolean)
+    .map(transliterate)
+    .join(', ')
+    .slice(0, 255);
+}
+
+/**
+ * Нечеткий поиск места в справочнике
+ *
+ * Возвращает до limit кандидатов с оценкой не ниже MIN_MATCH_SCORE,
+ * отсортированных по оценке, а при равенстве — по населению.
+ */
+export function searchPlaces(query: string, limit: number = 5): GazetteerMatch[] {
+  const { place, qualifiers } = parseQuery(query);
+  const queryVariants = getNameVariants(place);
+  if (queryVariants.length === 0) return [];
+
+  const parsedQualifiers = qualifiers.map(qualifier => ({
+    countryCodes: findCountryCodes(qualifier),
+    regionVariants: getNameVariants(stripRegionWords(qualifier))
+  }));
+
+  const matches: GazetteerMatch[] = [];
+  for (const indexed of getPlaceIndex()) {
+    const { score: nameScore, matchedName } = bestSimilarity(queryVariants, indexed.names);
+    // Уточнения дают не больше двух бонусов, поэтому заведомо слабые совпадения отбрасываем сразу
+    if (nameScore < MIN_MATCH_SCORE - 2 * QUALIFIER_BONUS) continue;
+
+    let score = nameScore;
+    let qualifiersMatched = true;
+    for (const qualifier of parsedQualifiers) {
+      if (qualifier.countryCodes.includes(indexed.place.countryCode)) {
+        score += QUALIFIER_BONUS;
+      } else if (indexed.region.length > 0 && bestSimilarity(qualifier.regionVariants, indexed.region).score >= 0.8) {
+        score += QUALIFIER_BONUS;
+      } else {
+        qualifiersMatched = false;
+        if (qualifier.countryCodes.length > 0) {
+          // Явно указана другая страна
+          score -= QUALIFIER_PENALTY;
+        }
+      }
+    }
+
+    if (score >= MIN_MATCH_SCORE) {
+      matches.push({ place: indexed.place, score: Math.round(score * 1000) / 1000, matchedName, qualifiersMatched });
+    }
+  }
+
+  return matches
+    .sort((a, b) => b.score - a.score || b.place.population - a.place.population)
+    .slice(0, limit);
+}
+
+/**
+ * Место, название или алиас которого точно совпадает с запросом, или null
+ *
+ * Нечеткие совпадения здесь не принимаются: реального города может не быть
+ * в справочнике, и похожее название привело бы к чужим координатам. То же
+ * с уточнениями: «Moscow, Idaho» — не Москва, если Айдахо не её регион.
+ * Опечатки прощает только searchPlaces, где место выбирает сам пользователь.
+ */
+export function findPlace(query: string): GazetteerMatch | null {
+  const queryVariants = getNameVariants(parseQuery(query).place);
+  const exact = searchPlaces(query, Infinity)
+    .find(match => match.qualifiersMatched && queryVariants.includes(match.matchedName));
+  return exact || null;
+}
+
+/**
+ * Отображаемое название: «Город, Регион, Страна» на нужном языке
+ */
+export function formatPlaceName(place: GazetteerPlace, language: 'ru' | 'en' = 'en'): string {
+  const country = COUNTRY_NAMES[place.countryCode];
+  const name = language === 'ru' && place.nameRu ? place.nameRu : place.name;
+  const countryName = country ? (language === 'ru' ? country.ru : country.en) : place.countryCode;
+  const parts = [name];
+  if (place.region && place.region !== place.name) parts.push(place.region);
+  parts.push(countryName);
+  return parts.join(', ');
+}
@@ -0,0 +1,135 @@
+/**
+ * Group Calculator
+ *
+ * Групповая совместимость: синастрия каждой пары участников (от 3 до 8 человек),
+ * матрица счетов, самые гармоничные и самые напряженные пары и общий баланс
+ * стихий группы. Как и синастрия пары, все считается детерминированно,
+ * модель только трактует готовые факты.
+ */
+
+import { calculateChartBalance } from './chart-balance';
+import { calculateSynastry } from './synastry-calculator';
+import { MAX_GROUP_SIZE, MIN_GROUP_SIZE } from './validation';
+import type { ChartBalance, GroupCompatibility, GroupMember, GroupPair, Modality, NatalChartData, PersonRelationship } from '../types';
+
+type ElementName = ChartBalance['dominantElement'];
+
+// Logging utility
+const log = {
+  info: (message: string, data?: any) => {
+    console.log(`[GroupCalculator] ${message}`, data || '');
+  },
+  error: (message: string, error?: any) => {
+    console.error(`[GroupCalculator] ERROR: ${message}`, error || '');
+  },
+};
+
+// Сколько самых точных аспектов пары передается для трактовки
+const PAIR_ASPECTS_LIMIT = 3;
+// Сколько пар в списках сильных и напряженных (не больше половины пар, чтобы списки не пересекались)
+const HIGHLIGHT_PAIRS_LIMIT = 3;
+
+const ELEMENTS: ElementName[] = ['Fire', 'Earth', 'Air', 'Water'];
+const MODALITIES: Modality[] = ['cardinal', 'fixed', 'mutable'];
+
+export interface GroupChartInput {
+  id: string;
+  name: string;
+  relationship?: PersonRelationship;
+  chart: NatalChartData;
+}
+
+/**
+ * Все карты группы должны быть в одном зодиаке, иначе синастрия пар бессмысленна
+ */
+function assertSameZodiac(inputs: GroupChartInput[]): void {
+  const zodiacs = new Set(inputs.map(({ chart }) => `${chart.zodiacType || 'tropical'}/${chart.ayanamsa || ''}`));
+  if (zodiacs.size > 1) {
+    throw new Error(`Group charts are calculated in different zodiacs (${[...zodiacs].join(', ')})`);
+  }
+}
+
+/**
+ * Средние проценты участников с одним знаком после запятой
+ */
+function averagePercentages<K extends string>(values: Record<K, number>[], keys: K[]): Record<K, number> {
+  const result = {} as Record<K, number>;
+  for (const key of keys) {
+    const sum = values.reduce((acc, value) => acc + value[key], 0);
+    result[key] = Math.round(sum / values.length * 10) / 10;
+  }
+  return result;
+}
+
+/**
+ * Групповая совместимость
+ *
+ * Пары перебираются в порядке участников; баланс стихий группы — среднее
+ * балансов участников, чтобы каждый весил одинаково.
+ */
+export function calculateGroupCompatibility(inputs: GroupChartInput[]): GroupCompatibility {
+  if (inputs.length < MIN_GROUP_SIZE || inputs.length > MAX_GROUP_SIZE) {
+    throw new Error(`Group must have from ${MIN_GROUP_SIZE} to ${MAX_GROUP_SIZE} people, got ${inputs.length}`);
+  }
+  if (new Set(inputs.map(input => input.id)).size !== inputs.length) {
+    throw new Error('Group members must be unique');
+  }
+  assertSameZodiac(inputs);
+
+  // 1. Участники и их балансы (у старых карт баланс считается на лету)
+  const balances = inputs.map(({ chart }) => chart.balance || calculateChartBalance(chart));
+  const members: GroupMember[] = inputs.map(({ id, name, relationship, chart }, index) => ({
+    id,
+    name,
+    ...(relationship ? { relationship } : {}),
+    sunSign: chart.sun.sign,
+    dominantElement: balances[index].dominantElement
+  }));
+
+  // 2. Синастрия каждой пары и матрица счетов
+  const matrix: (number | null)[][] = inputs.map(() => inputs.map(() => null));
+  const pairs: GroupPair[] = [];
+  for (let i = 0; i < inputs.length; i++) {
+    for (let j = i + 1; j < inputs.length; j++) {
+      const { aspects, score } = calculateSynastry(inputs[i].chart, inputs[j].chart);
+      matrix[i][j] = score.total;
+      matrix[j][i] = score.total;
+      pairs.push({
+        member1: inputs[i].id,
+        member2: inputs[j].id,
+        score,
+        topAspects: aspects.slice(0, PAIR_ASPECTS_LIMIT)
+      });
+    }
+  }
+
+  // 3. Сильные и напряженные пары
+  const highlightLimit = Math.min(HIGHLIGHT_PAIRS_LIMIT, Math.floor(pairs.length / 2));
+  const byScore = [...pairs].sort((a, b) => b.score.total - a.score.total);
+  const strongestPairs = byScore.slice(0, highlightLimit);
+  const strainedPairs = byScore.reverse().slice(0, highlightLimit);
+  const averageScore = Math.round(pairs.reduce((sum, pair) => sum + pair.score.total, 0) / pairs.length);
+
+  // 4. Баланс стихий и крестов группы
+  const elements = averagePercentages(balances.map(balance => balance.elements), ELEMENTS);
+  const modalities = averagePercentages(balances.map(balance => balance.modalities), MODALITIES);
+  const dominantElement = ELEMENTS.reduce((best, element) => elements[element] > elements[best] ? element : best, ELEMENTS[0]);
+  const weakestElement = ELEMENTS.reduce((worst, element) => elements[element] < elements[worst] ? element : worst, ELEMENTS[0]);
+
+  log.info('Group compatibility calculated', {
+    members: members.length,
+    pairs: pairs.length,
+    averageScore,
+    dominantElement
+  });
+
+  return {
+    members,
+    matrix,
+    pairs,
+    strongestPairs,
+    strainedPairs,
+    averageScore,
+    balance: { elements, modalities, dominantElement, weakestElement }
+  };
+}
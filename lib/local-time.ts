@@ -0,0 +1,142 @@
+/**
+ * Local Time Resolver
+ *
+ * Перевод местного времени рождения в UTC с учетом перевода часов.
+ * Смещения берутся из базы часовых поясов IANA (включая исторические:
+ * декретное время, советское летнее время, отмены перевода), поэтому
+ * одно и то же время рождения всегда дает один и тот же момент.
+ *
+ * На переводе часов назад местное время бывает дважды (ambiguous),
+ * на переводе вперед его не бывает вовсе (nonexistent) — в обоих случаях
+ * возвращается предупреждение со списком возможных моментов UTC.
+ */
+
+import { formatInTimeZone, getTimezoneOffset } from 'date-fns-tz';
+import type { LocalTimeCandidate, LocalTimeChoice, LocalTimeWarning } from '../types';
+
+// Logging utility
+const log = {
+  info: (message: string, data?: any) => {
+    console.log(`[LocalTime] ${message}`, data || '');
+  },
+  error: (message: string, error?: any) => {
+    console.error(`[LocalTime] ERROR: ${message}`, error || '');
+  },
+};
+
+const HOUR = 3600000;
+
+// Смещения ищутся в окне ±2 суток вокруг введенного времени (шаг 6 часов):
+// этого хватает и на летнее время, и на смену пояса целиком (сдвиг до суток)
+const OFFSET_PROBE_STEP = 6 * HOUR;
+const OFFSET_PROBE_COUNT = 8;
+
+// Выбор по умолчанию, как в большинстве календарей: повторившийся час —
+// первый раз, пропущенный час — время сдвигается вперед на величину перевода
+const DEFAULT_CHOICE: Record<LocalTimeWarning['type'], LocalTimeChoice> = {
+  ambiguous: 'earlier',
+  nonexistent: 'later'
+};
+
+export interface LocalTimeResolution {
+  utc: Date;
+  offset: string; // Смещение от UTC в момент рождения, "+04:00"
+  warning?: LocalTimeWarning;
+}
+
+/**
+ * Смещение пояса в момент instant в виде "+04:00"
+ */
+function formatOffset(timezone: string, instant: number): string {
+  return formatInTimeZone(new Date(instant), timezone, 'xxx');
+}
+
+/**
+ * Смещение пояса около момента instant в миллисекундах
+ *
+ * getTimezoneOffset может ошибаться на час в самый момент перевода, поэтому
+ * используется только для сбора смещений, а точное смещение — formatOffset.
+ */
+function getOffset(timezone: string, instant: number): number {
+  const offset = getTimezoneOffset(timezone, new Date(instant));
+  if (isNaN(offset)) {
+    throw new Error(`Unknown timezone: ${timezone}`);
+  }
+  return offset;
+}
+
+function createCandidate(instant: number, timezone: string): LocalTimeCandidate {
+  return {
+    utc: new Date(instant).toISOString(),
+    offset: formatOffset(timezone, instant),
+    localTime: formatInTimeZone(new Date(instant), timezone, 'HH:mm')
+  };
+}
+
+/**
+ * Переводит местное время в UTC
+ *
+ * localTime — "YYYY-MM-DDTHH:MM", timezone — IANA или смещение ("+03:00").
+ * choice выбирает момент, если их несколько или ни одного (см. LocalTimeChoice);
+ * без него берется момент по умолчанию и это отмечается в предупреждении.
+ */
+export function resolveLocalTime(localTime: string, timezone: string, choice?: LocalTimeChoice): LocalTimeResolution {
+  const match = localTime.match(/^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})$/);
+  if (!match) {
+    throw new Error(`Invalid local time: ${localTime}. Expected YYYY-MM-DDTHH:MM`);
+  }
+
+  // 1. Введенное время как будто в UTC — от него отсчитываются смещения
+  const [, year, month, day, hour, minute] = match.map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+
+  // 2. Все смещения пояса вокруг этого времени
+  const offsets = new Set<number>();
+  for (let k = -OFFSET_PROBE_COUNT; k <= OFFSET_PROBE_COUNT; k++) {
+    offsets.add(getOffset(timezone, wallClock + k * OFFSET_PROBE_STEP));
+  }
+
+  // 3. Моменты, в которые часы действительно показывали введенное время
+  const instants = Array.from(offsets, offset => wallClock - offset).sort((a, b) => a - b);
+  const exact = instants.filter(instant => formatInTimeZone(new Date(instant), timezone, "yyyy-MM-dd'T'HH:mm") === localTime);
+
+  if (exact.length === 1) {
+    return { utc: new Date(exact[0]), offset: formatOffset(timezone, exact[0]) };
+  }
+
+  // 4. Перевод часов: дважды (ambiguous) или ни разу (nonexistent — тогда варианты по смещениям до и после)
+  const type: LocalTimeWarning['type'] = exact.length > 1 ? 'ambiguous' : 'nonexistent';
+  const possible = type === 'ambiguous' ? exact : instants;
+  const appliedChoice = choice || DEFAULT_CHOICE[type];
+  const chosen = appliedChoice === 'earlier' ? possible[0] : possible[possible.length - 1];
+
+  const warning: LocalTimeWarning = {
+    type,
+    localTime,
+    timezone,
+    candidates: possible.map(instant => createCandidate(instant, timezone)),
+    choice: appliedChoice,
+    isDefaultChoice: !choice
+  };
+
+  log.info(`Local time is ${type} at a clock change`, {
+    localTime,
+    timezone,
+    candidates: warning.candidates.map(candidate => candidate.utc),
+    choice: appliedChoice
+  });
+
+  return { utc: new Date(chosen), offset: formatOffset(timezone, chosen), warning };
+}
+
+/**
+ * Момент UTC как местное время пояса: "YYYY-MM-DDTHH:MM" и смещение "+03:00"
+ *
+ * timezone — IANA или смещение ("+03:00").
+ */
+export function formatLocalTime(date: Date, timezone: string): { localTime: string; offset: string } {
+  return {
+    localTime: formatInTimeZone(date, timezone, "yyyy-MM-dd'T'HH:mm"),
+    offset: formatOffset(timezone, date.getTime())
+  };
+}
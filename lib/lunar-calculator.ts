@@ -0,0 +1,247 @@
+/**
+ * Lunar Calculator
+ *
+ * Фаза Луны, освещенность и моменты лунаций по элонгации Луны от Солнца.
+ * Все расчеты выполняются по Swiss Ephemeris в UTC, без геокодинга и внешних API.
+ */
+
+import { calculateBodyState, dateToJulianDay, julianDayToDate } from './swisseph-calculator';
+import { ZODIAC_SIGNS } from './zodiac-utils';
+import type { LunarCalendar, LunarCalendarDay, LunationEvent, LunationType, MoonPhaseInfo, MoonPhaseName } from '../types';
+
+// Logging utility
+const log = {
+  info: (message: string, data?: any) => {
+    console.log(`[LunarCalculator] ${message}`, data || '');
+  },
+  error: (message: string, error?: any) => {
+    console.error(`[LunarCalculator] ERROR: ${message}`, error || '');
+  },
+};
+
+/**
+ * Фазы по порядку, каждая занимает сектор 45° с центром на угле главной фазы
+ * (новолуние — 0°, первая четверть — 90°, полнолуние — 180°, последняя четверть — 270°)
+ */
+const MOON_PHASES: MoonPhaseName[] = [
+  'new_moon',
+  'waxing_crescent',
+  'first_quarter',
+  'waxing_gibbous',
+  'full_moon',
+  'waning_gibbous',
+  'last_quarter',
+  'waning_crescent'
+];
+
+/**
+ * Элонгация Луны от Солнца в момент лунации
+ */
+export const LUNATION_ANGLES: Record<LunationType, number> = {
+  new_moon: 0,
+  first_quarter: 90,
+  full_moon: 180,
+  last_quarter: 270
+};
+
+// Русские названия фаз для промптов и текстовых описаний
+export const MOON_PHASE_NAMES_RU: Record<MoonPhaseName, string> = {
+  new_moon: 'Новолуние',
+  waxing_crescent: 'Растущий серп',
+  first_quarter: 'Первая четверть',
+  waxing_gibbous: 'Растущая Луна',
+  full_moon: 'Полнолуние',
+  waning_gibbous: 'Убывающая Луна',
+  last_quarter: 'Последняя четверть',
+  waning_crescent: 'Убывающий серп'
+};
+
+export const MOON_PHASE_NAMES_EN: Record<MoonPhaseName, string> = {
+  new_moon: 'New Moon',
+  waxing_crescent: 'Waxing Crescent',
+  first_quarter: 'First Quarter',
+  waxing_gibbous: 'Waxing Gibbous',
+  full_moon: 'Full Moon',
+  waning_gibbous: 'Waning Gibbous',
+  last_quarter: 'Last Quarter',
+  waning_crescent: 'Waning Crescent'
+};
+
+// Средняя скорость роста элонгации, градусов в сутки (360° / синодический месяц)
+const MEAN_ELONGATION_SPEED = 360 / 29.530588853;
+
+// Точность поиска лунации в градусах элонгации (~0.2 секунды времени)
+const LUNATION_PRECISION = 1e-6;
+const MAX_LUNATION_ITERATIONS = 20;
+
+function normalizeAngle(angle: number): number {
+  const normalized = angle % 360;
+  return normalized < 0 ? normalized + 360 : normalized;
+}
+
+function normalizeDelta(delta: number): number {
+  let normalized = normalizeAngle(delta);
+  if (normalized > 180) normalized -= 360;
+  return normalized;
+}
+
+function roundTo(value: number, digits: number): number {
+  const factor = Math.pow(10, digits);
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Элонгация Луны от Солнца и скорость её изменения на юлианский день UT
+ */
+function calculateElongation(julianDay: number): { angle: number; speed: number; moonLongitude: number } {
+  const sun = calculateBodyState(julianDay, 'sun');
+  const moon = calculateBodyState(julianDay, 'moon');
+  return {
+    angle: normalizeAngle(moon.longitude - sun.longitude),
+    speed: moon.speed - sun.speed,
+    moonLongitude: moon.longitude
+  };
+}
+
+/**
+ * Определяет фазу Луны по элонгации
+ */
+export function getMoonPhaseName(phaseAngle: number): MoonPhaseName {
+  const index = Math.floor(normalizeAngle(phaseAngle + 22.5) / 45) % 8;
+  return MOON_PHASES[index];
+}
+
+/**
+ * Освещенная доля диска Луны в процентах по элонгации
+ *
+ * Формула k = (1 − cos E) / 2 — стандартное приближение, погрешность
+ * из-за параллакса и наклона орбиты меньше 0.5%.
+ */
+export function getMoonIllumination(phaseAngle: number): number {
+  const radians = (phaseAngle * Math.PI) / 180;
+  return ((1 - Math.cos(radians)) / 2) * 100;
+}
+
+function createLunationEvent(type: LunationType, julianDay: number, moonLongitude: number): LunationEvent {
+  const longitude = normalizeAngle(moonLongitude);
+  return {
+    type,
+    date: julianDayToDate(julianDay).toISOString(),
+    sign: ZODIAC_SIGNS[Math.floor(longitude / 30) % 12],
+    degree: roundTo(longitude % 30, 2)
+  };
+}
+
+/**
+ * Находит ближайшую лунацию заданного типа строго после указанного момента
+ *
+ * Начальное приближение — по средней синодической скорости, затем уточнение
+ * методом Ньютона по реальной скорости элонгации из эфемериды.
+ */
+export function findNextLunation(date: Date, type: LunationType): LunationEvent {
+  if (!(date instanceof Date) || isNaN(date.getTime())) {
+    throw new Error('Invalid date for lunation search');
+  }
+
+  const targetAngle = LUNATION_ANGLES[type];
+  const startJulianDay = dateToJulianDay(date);
+
+  // 1. Грубая оценка: сколько градусов элонгации осталось до целевого угла
+  let delta = normalizeAngle(targetAngle - calculateElongation(startJulianDay).angle);
+  if (delta < LUNATION_PRECISION) {
+    delta += 360;
+  }
+  let julianDay = startJulianDay + delta / MEAN_ELONGATION_SPEED;
+
+  // 2. Уточнение методом Ньютона
+  let elongation = calculateElongation(julianDay);
+  for (let i = 0; i < MAX_LUNATION_ITERATIONS; i++) {
+    const diff = normalizeDelta(targetAngle - elongation.angle);
+    if (Math.abs(diff) < LUNATION_PRECISION) {
+      break;
+    }
+    julianDay += diff / elongation.speed;
+    elongation = calculateElongation(julianDay);
+  }
+
+  // 3. Если уточнение увело момент назад за стартовую дату — берем следующий цикл
+  if (julianDay <= startJulianDay) {
+    return findNextLunation(julianDayToDate(startJulianDay + 1), type);
+  }
+
+  return createLunationEvent(type, julianDay, elongation.moonLongitude);
+}
+
+/**
+ * Рассчитывает фазу Луны, освещенность и ближайшие лунации на момент времени (UTC)
+ */
+export function getMoonPhaseInfo(date: Date = new Date()): MoonPhaseInfo {
+  if (!(date instanceof Date) || isNaN(date.getTime())) {
+    throw new Error('Invalid date for moon phase calculation');
+  }
+
+  const elongation = calculateElongation(dateToJulianDay(date));
+  const moonLongitude = normalizeAngle(elongation.moonLongitude);
+
+  return {
+    date: date.toISOString(),
+    phase: getMoonPhaseName(elongation.angle),
+    phaseAngle: roundTo(elongation.angle, 2),
+    illumination: roundTo(getMoonIllumination(elongation.angle), 1),
+    isWaxing: elongation.angle < 180,
+    moonSign: ZODIAC_SIGNS[Math.floor(moonLongitude / 30) % 12],
+    nextNewMoon: findNextLunation(date, 'new_moon'),
+    nextFirstQuarter: findNextLunation(date, 'first_quarter'),
+    nextFullMoon: findNextLunation(date, 'full_moon'),
+    nextLastQuarter: findNextLunation(date, 'last_quarter')
+  };
+}
+
+/**
+ * Лунный календарь на месяц (месяц 1-12, даты в UTC)
+ *
+ * Для каждого дня фаза и освещенность берутся на полдень UTC,
+ * а лунации указываются с точным моментом.
+ */
+export function getLunarCalendar(year: number, month: number): LunarCalendar {
+  if (!Number.isInteger(year) || !Number.isInteger(month) || month < 1 || month > 12) {
+    throw new Error(`Invalid month for lunar calendar: ${year}-${month}`);
+  }
+
+  const monthStart = new Date(Date.UTC(year, month - 1, 1));
+  const monthEnd = new Date(Date.UTC(year, month, 1));
+
+  // 1. Все лунации, попадающие в месяц
+  const lunations: LunationEvent[] = [];
+  for (const type of Object.keys(LUNATION_ANGLES) as LunationType[]) {
+    let event = findNextLunation(new Date(monthStart.getTime() - 1), type);
+    while (new Date(event.date) < monthEnd) {
+      lunations.push(event);
+      // Следующая лунация того же типа не раньше чем через ~29 дней, шагаем на сутки вперед
+      event = findNextLunation(new Date(new Date(event.date).getTime() + 86400000), type);
+    }
+  }
+  lunations.sort((a, b) => a.date.localeCompare(b.date));
+
+  // 2. Фаза на каждый день месяца
+  const days: LunarCalendarDay[] = [];
+  for (let day = new Date(monthStart); day < monthEnd; day = new Date(day.getTime() + 86400000)) {
+    const dateString = day.toISOString().split('T')[0];
+    const elongation = calculateElongation(dateToJulianDay(new Date(day.getTime() + 43200000)));
+    const moonLongitude = normalizeAngle(elongation.moonLongitude);
+    const lunation = lunations.find(event => event.date.startsWith(dateString));
+
+    days.push({
+      date: dateString,
+      phase: lunation ? lunation.type : getMoonPhaseName(elongation.angle),
+      phaseAngle: roundTo(elongation.angle, 2),
+      illumination: roundTo(getMoonIllumination(elongation.angle), 1),
+      moonSign: ZODIAC_SIGNS[Math.floor(moonLongitude / 30) % 12],
+      ...(lunation && { lunation })
+    });
+  }
+
+  log.info('Lunar calendar calculated', { year, month, lunations: lunations.length });
+
+  return { year, month, days, lunations };
+}
@@ -558,11 +558,281 @@ async function migration012(pool: Pool): Promise<void> {
   log.info(`Migration ${migrationName} applied successfully`);
 }
 
+/**
+ * Migration 013: Add house_system field to users table
+ */
+async function migration013(pool: Pool): Promise<void> {
+  const migrationName = '013_add_house_system';
+  
+  if (await isMigrationApplied(pool, migrationName)) {
+    log.info(`Migration ${migrationName} already applied, skipping`);
+    return;
+  }
+
+  log.info(`Applying migration ${migrationName}...`);
+
+  // Add house_system field for storing user's preferred house system (NULL = placidus)
+  const addColumn = `
+    ALTER TABLE users
+    ADD COLUMN IF NOT EXISTS house_system VARCHAR(20);
+  `;
+
+  await pool.query(addColumn);
+  
+  await markMigrationApplied(pool, migrationName);
+  log.info(`Migration ${migrationName} applied successfully`);
+}
+
+/**
+ * Migration 014: Create geocode_cache table (resolved birth places, correctable by admins)
+ */
+async function migration014(pool: Pool): Promise<void> {
+  const migrationName = '014_create_geocode_cache_table';
+  
+  if (await isMigrationApplied(pool, migrationName)) {
+    log.info(`Migration ${migrationName} already applied, skipping`);
+    return;
+  }
+
+  log.info(`Applying migration ${migrationName}...`);
+
+  // place_key - normalized place name (lowercase, transliterated to Latin)
+  // is_manual - entry was corrected by an admin and must not be overwritten by geocoding
+  const createTable = `
+    CREATE TABLE IF NOT EXISTS geocode_cache (
+      id SERIAL PRIMARY KEY,
+      place_key VARCHAR(255) NOT NULL UNIQUE,
+      query TEXT NOT NULL,
+      lat DOUBLE PRECISION NOT NULL,
+      lon DOUBLE PRECISION NOT NULL,
+      timezone VARCHAR(64) NOT NULL,
+      display_name TEXT,
+      source VARCHAR(20) NOT NULL,
+      is_manual BOOLEAN DEFAULT false,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    );
+    
+    CREATE INDEX IF NOT EXISTS idx_geocode_cache_updated_at ON geocode_cache(updated_at DESC);
+  `;
+
+  await pool.query(createTable);
+  
+  // Verify table was created
+  const exists = await tableExists(pool, 'geocode_cache');
+  if (!exists) {
+    throw new Error(`Failed to create table 'geocode_cache' - table does not exist after CREATE TABLE`);
+  }
+  
+  await markMigrationApplied(pool, migrationName);
+  log.info(`Migration ${migrationName} applied successfully`);
+}
+
+/**
+ * Migration 015: Add birth place coordinates to users table
+ */
+async function migration015(pool: Pool): Promise<void> {
+  const migrationName = '015_add_birth_coordinates';
+  
+  if (await isMigrationApplied(pool, migrationName)) {
+    log.info(`Migration ${migrationName} already applied, skipping`);
+    return;
+  }
+
+  log.info(`Applying migration ${migrationName}...`);
+
+  // Coordinates of the birth place chosen by the user (NULL = geocode birth_place by name)
+  const addColumns = `
+    ALTER TABLE users
+    ADD COLUMN IF NOT EXISTS birth_lat DOUBLE PRECISION,
+    ADD COLUMN IF NOT EXISTS birth_lon DOUBLE PRECISION,
+    ADD COLUMN IF NOT EXISTS birth_timezone VARCHAR(64);
+  `;
+
+  await pool.query(addColumns);
+  
+  await markMigrationApplied(pool, migrationName);
+  log.info(`Migration ${migrationName} applied successfully`);
+}
+
+/**
+ * Migration 016: Add birth_time_choice field to users table
+ */
+async function migration016(pool: Pool): Promise<void> {
+  const migrationName = '016_add_birth_time_choice';
+  
+  if (await isMigrationApplied(pool, migrationName)) {
+    log.info(`Migration ${migrationName} already applied, skipping`);
+    return;
+  }
+
+  log.info(`Applying migration ${migrationName}...`);
+
+  // Which UTC instant to use when the birth time falls on a clock change: 'earlier' | 'later' (NULL = default)
+  const addColumn = `
+    ALTER TABLE users
+    ADD COLUMN IF NOT EXISTS birth_time_choice VARCHAR(10);
+  `;
+
+  await pool.query(addColumn);
+  
+  await markMigrationApplied(pool, migrationName);
+  log.info(`Migration ${migrationName} applied successfully`);
+}
+
+/**
+ * Migration 017: Add zodiac settings to users table
+ */
+async function migration017(pool: Pool): Promise<void> {
+  const migrationName = '017_add_zodiac_settings';
+  
+  if (await isMigrationApplied(pool, migrationName)) {
+    log.info(`Migration ${migrationName} already applied, skipping`);
+    return;
+  }
+
+  log.info(`Applying migration ${migrationName}...`);
+
+  // Zodiac for chart calculations: 'tropical' | 'sidereal' (NULL = tropical), ayanamsa for sidereal (NULL = lahiri)
+  const addColumns = `
+    ALTER TABLE users
+    ADD COLUMN IF NOT EXISTS zodiac_type VARCHAR(20),
+    ADD COLUMN IF NOT EXISTS ayanamsa VARCHAR(20);
+  `;
+
+  await pool.query(addColumns);
+  
+  await markMigrationApplied(pool, migrationName);
+  log.info(`Migration ${migrationName} applied successfully`);
+}
+
+/**
+ * Migration 018: Add relationship charts to synastry_cache table
+ */
+async function migration018(pool: Pool): Promise<void> {
+  const migrationName = '018_add_synastry_relationship_charts';
+  
+  if (await isMigrationApplied(pool, migrationName)) {
+    log.info(`Migration ${migrationName} already applied, skipping`);
+    return;
+  }
+
+  log.info(`Applying migration ${migrationName}...`);
+
+  // Composite and Davison charts with their interpretation, cached per partner (NULL = not calculated yet)
+  const addColumn = `
+    ALTER TABLE synastry_cache
+    ADD COLUMN IF NOT EXISTS relationship_charts JSONB;
+  `;
+
+  await pool.query(addColumn);
+
+  // One row per user and partner: upserts go through ON CONFLICT (user_id, partner_data)
+  await pool.query(`
+    DELETE FROM synastry_cache a
+    USING synastry_cache b
+    WHERE a.user_id = b.user_id AND a.partner_data = b.partner_data AND a.id < b.id
+  `);
+  await pool.query('CREATE UNIQUE INDEX IF NOT EXISTS idx_synastry_cache_user_partner ON synastry_cache(user_id, partner_data)');
+  
+  await markMigrationApplied(pool, migrationName);
+  log.info(`Migration ${migrationName} applied successfully`);
+}
+
+/**
+ * Migration 019: Create people table
+ */
+async function migration019(pool: Pool): Promise<void> {
+  const migrationName = '019_create_people_table';
+  
+  if (await isMigrationApplied(pool, migrationName)) {
+    log.info(`Migration ${migrationName} already applied, skipping`);
+    return;
+  }
+
+  log.info(`Applying migration ${migrationName}...`);
+
+  // Saved people of a user (partner, children, friends) with resolved birth place and calculated chart
+  const createTable = `
+    CREATE TABLE IF NOT EXISTS people (
+      id SERIAL PRIMARY KEY,
+      user_id VARCHAR(255) NOT NULL,
+      name VARCHAR(255) NOT NULL,
+      relationship VARCHAR(20) NOT NULL DEFAULT 'other',
+      birth_date VARCHAR(50) NOT NULL,
+      birth_time VARCHAR(50),
+      birth_place VARCHAR(255) NOT NULL,
+      birth_lat DOUBLE PRECISION NOT NULL,
+      birth_lon DOUBLE PRECISION NOT NULL,
+      birth_timezone VARCHAR(64) NOT NULL,
+      chart_data JSONB NOT NULL,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      CONSTRAINT fk_people_user FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+    );
+    
+    CREATE INDEX IF NOT EXISTS idx_people_user_id ON people(user_id);
+  `;
+
+  await pool.query(createTable);
+  
+  // Verify table was created
+  const exists = await tableExists(pool, 'people');
+  if (!exists) {
+    throw new Error(`Failed to create table 'people' - table does not exist after CREATE TABLE`);
+  }
+  
+  await markMigrationApplied(pool, migrationName);
+  log.info(`Migration ${migrationName} applied successfully`);
+}
+
+/**
+ * Migration 020: Create timeline_interpretations table
+ */
+async function migration020(pool: Pool): Promise<void> {
+  const migrationName = '020_create_timeline_interpretations_table';
+  
+  if (await isMigrationApplied(pool, migrationName)) {
+    log.info(`Migration ${migrationName} already applied, skipping`);
+    return;
+  }
+
+  log.info(`Applying migration ${migrationName}...`);
+
+  // AI interpretations of transit timeline events, cached per user, event, language and natal chart (chart_key: birth data, zodiac and house system as JSON)
+  const createTable = `
+    CREATE TABLE IF NOT EXISTS timeline_interpretations (
+      id SERIAL PRIMARY KEY,
+      user_id VARCHAR(255) NOT NULL,
+      event_id VARCHAR(255) NOT NULL,
+      language VARCHAR(10) NOT NULL,
+      chart_key TEXT NOT NULL,
+      interpretation JSONB NOT NULL,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      CONSTRAINT fk_timeline_interpretations_user FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+      UNIQUE(user_id, event_id, language, chart_key)
+    );
+    
+    CREATE INDEX IF NOT EXISTS idx_timeline_interpretations_user_id ON timeline_interpretations(user_id);
+  `;
+
+  await pool.query(createTable);
+  
+  // Verify table was created
+  const exists = await tableExists(pool, 'timeline_interpretations');
+  if (!exists) {
+    throw new Error(`Failed to create table 'timeline_interpretations' - table does not exist after CREATE TABLE`);
+  }
+  
+  await markMigrationApplied(pool, migrationName);
+  log.info(`Migration ${migrationName} applied successfully`);
+}
+
 /**
  * Verify that all required tables exist
  */
 async function verifyTablesExist(pool: Pool): Promise<void> {
-  const requiredTables = ['migrations', 'users', 'charts', 'synastry_cache', 'forecasts_cache', 'regenerations', 'daily_horoscopes_cache', 'deep_dive_analyses'];
+  const requiredTables = ['migrations', 'users', 'charts', 'synastry_cache', 'forecasts_cache', 'regenerations', 'daily_horoscopes_cache', 'deep_dive_analyses', 'geocode_cache', 'people', 'timeline_interpretations'];
   const missingTables: string[] = [];
 
   for (const tableName of requiredTables) {
@@ -664,6 +934,14 @@ export async function runMigrations(): Promise<void> {
     await migration010(pool);
     await migration011(pool);
     await migration012(pool);
+    await migration013(pool);
+    await migration014(pool);
+    await migration015(pool);
+    await migration016(pool);
+    await migration017(pool);
+    await migration018(pool);
+    await migration019(pool);
+    await migration020(pool);
 
     // Verify that all tables were created successfully
     log.info('Verifying tables were created...');
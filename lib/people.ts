@@ -0,0 +1,111 @@
+/**
+ * People
+ *
+ * Сохраненные люди пользователя (партнер, дети, друзья): место рождения
+ * разрешается в координаты один раз, карта рассчитывается при сохранении
+ * и хранится вместе с данными рождения, чтобы переиспользовать ее везде.
+ */
+
+import { DEFAULT_AYANAMSA, DEFAULT_HOUSE_SYSTEM, calculateNatalChart, getCoordinates, resolveBirthLocation, type Coordinates, type NatalChartOptions } from './swisseph-calculator';
+import type { NatalChartData, Person, PersonInput } from '../types';
+
+// Logging utility
+const log = {
+  info: (message: string, data?: any) => {
+    console.log(`[People] ${message}`, data || '');
+  },
+  error: (message: string, error?: any) => {
+    console.error(`[People] ERROR: ${message}`, error || '');
+  },
+};
+
+export type PersonRecord = Omit<Person, 'id' | 'createdAt' | 'updatedAt'>;
+
+/**
+ * Координаты места рождения человека
+ *
+ * Введенные вручную координаты важнее всего; если место не менялось,
+ * берутся сохраненные, иначе место геокодируется по названию.
+ */
+async function resolvePersonLocation(input: PersonInput, previous?: Person): Promise<Coordinates> {
+  if (input.birthLat !== undefined && input.birthLat !== null && input.birthLon !== undefined && input.birthLon !== null) {
+    return resolveBirthLocation({
+      lat: input.birthLat,
+      lon: input.birthLon,
+      timezone: input.birthTimezone || undefined,
+      name: input.birthPlace
+    });
+  }
+
+  if (previous && previous.birthPlace === input.birthPlace) {
+    return { lat: previous.birthLat, lon: previous.birthLon, timezone: previous.birthTimezone };
+  }
+
+  return getCoordinates(input.birthPlace);
+}
+
+/**
+ * Запись человека для сохранения: данные рождения, координаты и карта
+ *
+ * options — зодиак и система домов пользователя, в которых строится карта.
+ * previous — сохраненная запись при изменении (чтобы не геокодировать место заново).
+ */
+export async function buildPersonRecord(input: PersonInput, options: NatalChartOptions = {}, previous?: Person): Promise<PersonRecord> {
+  const coords = await resolvePersonLocation(input, previous);
+  const birthTime = input.birthTime?.trim() || '';
+
+  const chart = await calculateNatalChart(
+    input.name,
+    input.birthDate,
+    birthTime,
+    { ...coords, name: input.birthPlace },
+    options
+  );
+
+  log.info('Person chart calculated', {
+    relationship: input.relationship,
+    sun: chart.sun.sign,
+    birthTimeUnknown: !!chart.birthTimeUnknown
+  });
+
+  return {
+    name: input.name.trim(),
+    relationship: input.relationship,
+    birthDate: input.birthDate,
+    ...(birthTime ? { birthTime } : {}),
+    birthPlace: input.birthPlace.trim(),
+    birthLat: coords.lat,
+    birthLon: coords.lon,
+    birthTimezone: coords.timezone,
+    chart
+  };
+}
+
+/**
+ * Карта человека в зодиаке и системе домов пользователя
+ *
+ * Карта хранится в настройках на момент сохранения; если пользователь с тех пор
+ * сменил зодиак или систему домов, она пересчитывается по сохраненным координатам
+ * (без геокодинга).
+ */
+export async function getPersonChart(person: Person, options: NatalChartOptions = {}): Promise<NatalChartData> {
+  const zodiacType = options.zodiacType || 'tropical';
+  const ayanamsa = zodiacType === 'sidereal' ? options.ayanamsa || DEFAULT_AYANAMSA : undefined;
+  const houseSystem = options.houseSystem || DEFAULT_HOUSE_SYSTEM;
+  const sameZodiac = (person.chart.zodiacType || 'tropical') === zodiacType && person.chart.ayanamsa === ayanamsa;
+  // Без времени рождения домов нет; при запасной системе сравнивается запрошенная
+  const sameHouses = person.chart.birthTimeUnknown ||
+    (person.chart.requestedHouseSystem || person.chart.houseSystem || DEFAULT_HOUSE_SYSTEM) === houseSystem;
+  if (sameZodiac && sameHouses) {
+    return person.chart;
+  }
+
+  log.info('Recalculating person chart for current settings', { personId: person.id, zodiacType, ayanamsa, houseSystem });
+  return calculateNatalChart(
+    person.name,
+    person.birthDate,
+    person.birthTime || '',
+    { lat: person.birthLat, lon: person.birthLon, timezone: person.birthTimezone, name: person.birthPlace },
+    options
+  );
+}
@@ -0,0 +1,282 @@
+/**
+ * Progressions Calculator
+ *
+ * Вторичные прогрессии («день за год») и дирекции солнечной дуги
+ * для натальной карты на любую целевую дату.
+ */
+
+import { calculateBodyState, calculateEphemeris, dateToJulianDay, getHouseForLongitude, julianDayToDate, type ZodiacOptions } from './swisseph-calculator';
+import { getNatalPoints, getPointLongitude, NatalPoint } from './transits-calculator';
+import { findAspect } from './aspects-calculator';
+import { ZODIAC_SIGNS } from './zodiac-utils';
+import type { Aspect, NatalChartData, PlanetPosition, PlanetsMap, ProgressedChart, ProgressedMoonIngress, ProgressionsResult } from '../types';
+
+// Logging utility
+const log = {
+  info: (message: string, data?: any) => {
+    console.log(`[ProgressionsCalculator] ${message}`, data || '');
+  },
+  error: (message: string, error?: any) => {
+    console.error(`[ProgressionsCalculator] ERROR: ${message}`, error || '');
+  },
+};
+
+// Тропический год в сутках: одни сутки после рождения соответствуют году жизни
+const TROPICAL_YEAR_DAYS = 365.24219;
+
+// Орбис аспектов прогрессивных и дирекционных точек к натальным, в градусах
+const PROGRESSION_ORB = 1;
+
+// Окно поиска смены знака прогрессивной Луной вокруг целевой даты (в днях календаря)
+const MOON_INGRESS_WINDOW_DAYS = 30 * 30;
+const MOON_INGRESS_STEP_DAYS = 30;
+const MOON_INGRESS_PRECISION_DAYS = 1 / 24;
+
+// Во вторичных прогрессиях медленные планеты почти стоят на месте и лишь повторяют
+// натальные аспекты, поэтому к натальной карте считаются только личные планеты и углы
+const SECONDARY_ASPECT_PLANETS = ['sun', 'moon', 'mercury', 'venus', 'mars'];
+
+function normalizeAngle(angle: number): number {
+  const normalized = angle % 360;
+  return normalized < 0 ? normalized + 360 : normalized;
+}
+
+function getSignIndex(longitude: number): number {
+  return Math.floor(normalizeAngle(longitude) / 30) % 12;
+}
+
+/**
+ * Юлианский день эфемериды, соответствующий целевой дате по схеме «день за год»
+ */
+export function getProgressedJulianDay(natalJulianDay: number, targetDate: Date): number {
+  return natalJulianDay + (dateToJulianDay(targetDate) - natalJulianDay) / TROPICAL_YEAR_DAYS;
+}
+
+/**
+ * Положение, сдвинутое на новую долготу (для дирекций и прогрессивных углов)
+ */
+function movePosition(position: PlanetPosition, longitude: number, speed: number, cusps: number[]): PlanetPosition {
+  const normalized = normalizeAngle(longitude);
+  return {
+    ...position,
+    sign: ZODIAC_SIGNS[getSignIndex(normalized)],
+    degree: normalized % 30,
+    longitude: normalized,
+    speed,
+    isRetrograde: speed < 0,
+    isStationary: false,
+    ...(cusps.length === 12 ? { house: getHouseForLongitude(normalized, cusps) } : {})
+  };
+}
+
+/**
+ * Аспекты прогрессивных точек к натальным с орбисом 1°
+ *
+ * Пары «точка к самой себе» пропускаются: медленные планеты за жизнь почти
+ * не смещаются и всегда давали бы соединение. Исключение — Луна, её
+ * возвращение к натальному положению (~27 лет) значимо.
+ */
+function findAspectsToNatal(planets: PlanetsMap, angles: PlanetPosition[], natalPoints: NatalPoint[]): Aspect[] {
+  const positions = Object.entries(planets)
+    // Южный узел всегда напротив Северного и дублировал бы его аспекты
+    .filter(([key]) => key !== 'southNode')
+    .map(([, position]) => position)
+    .concat(angles);
+  const bodies = positions
+    .filter((position): position is PlanetPosition => !!position && typeof position.longitude === 'number')
+    .map(position => ({ name: position.planet, longitude: position.longitude!, speed: position.speed || 0 }));
+
+  const planetOrbs: Record<string, number> = {};
+  for (const { name } of [...bodies, ...natalPoints]) {
+    planetOrbs[name] = PROGRESSION_ORB;
+  }
+
+  const aspects: Aspect[] = [];
+  for (const body of bodies) {
+    for (const natalPoint of natalPoints) {
+      if (body.name === natalPoint.name && body.name !== 'Moon') continue;
+
+      const aspect = findAspect(body, { ...natalPoint, speed: 0 }, { planetOrbs, includeMinor: false });
+      if (aspect) {
+        aspects.push(aspect);
+      }
+    }
+  }
+
+  return aspects.sort((a, b) => a.orb - b.orb);
+}
+
+/**
+ * Находит смены знака прогрессивной Луной между двумя календарными датами
+ *
+ * Знаки считаются в зодиаке zodiac (по умолчанию тропическом), как у натальной карты.
+ */
+export function findProgressedMoonIngresses(
+  natalJulianDay: number,
+  startDate: Date,
+  endDate: Date,
+  zodiac: ZodiacOptions = {}
+): ProgressedMoonIngress[] {
+  const startJd = dateToJulianDay(startDate);
+  const endJd = dateToJulianDay(endDate);
+  const moonSignAt = (jd: number): number =>
+    getSignIndex(calculateBodyState(natalJulianDay + (jd - natalJulianDay) / TROPICAL_YEAR_DAYS, 'moon', zodiac).longitude);
+
+  const ingresses: ProgressedMoonIngress[] = [];
+  let previousJd = startJd;
+  let previousSign = moonSignAt(startJd);
+
+  while (previousJd < endJd) {
+    const nextJd = Math.min(previousJd + MOON_INGRESS_STEP_DAYS, endJd);
+    const nextSign = moonSignAt(nextJd);
+
+    // Прогрессивная Луна проходит ~1° в месяц, поэтому за шаг меняет знак не больше одного раза
+    if (nextSign !== previousSign) {
+      let low = previousJd;
+      let high = nextJd;
+      while (high - low > MOON_INGRESS_PRECISION_DAYS) {
+        const mid = (low + high) / 2;
+        if (moonSignAt(mid) === previousSign) {
+          low = mid;
+        } else {
+          high = mid;
+        }
+      }
+      ingresses.push({
+        date: julianDayToDate(high).toISOString(),
+        sign: ZODIAC_SIGNS[nextSign],
+        previousSign: ZODIAC_SIGNS[previousSign]
+      });
+    }
+
+    previousJd = nextJd;
+    previousSign = nextSign;
+  }
+
+  return ingresses;
+}
+
+/**
+ * Рассчитывает вторичные прогрессии и дирекции солнечной дуги на целевую дату
+ *
+ * Вторичные прогрессии: планеты берутся из эфемериды на момент
+ * «рождение + N суток», где N — возраст в годах. Углы карты (ASC, MC)
+ * смещаются на солнечную дугу. Дирекции: все натальные точки сдвигаются
+ * на солнечную дугу — разницу прогрессивного и натального Солнца.
+ * Номера домов указываются по натальным куспидам.
+ */
+export function calculateProgressions(natalChart: NatalChartData, targetDate: Date): ProgressionsResult {
+  if (!(targetDate instanceof Date) || isNaN(targetDate.getTime())) {
+    throw new Error('Invalid target date for progressions');
+  }
+  if (typeof natalChart.julianDay !== 'number') {
+    throw new Error('Natal chart has no birth moment (julianDay); recalculate the chart');
+  }
+
+  const natalJulianDay = natalChart.julianDay;
+  const targetJulianDay = dateToJulianDay(targetDate);
+  if (targetJulianDay < natalJulianDay) {
+    throw new Error('Target date must be after birth');
+  }
+
+  const natalPoints = getNatalPoints(natalChart);
+  const natalSun = natalPoints.find(point => point.name === 'Sun');
+  // Оси берутся из карты напрямую: при неизвестном времени рождения их нет среди натальных точек
+  const natalAscendant = getPointLongitude(natalChart.rising);
+  const natalMc = getPointLongitude(natalChart.mc);
+  if (!natalSun || natalAscendant === null || natalMc === null) {
+    throw new Error('Natal chart must contain Sun, Ascendant and MC longitudes');
+  }
+
+  const cusps = (natalChart.houses || []).map(cusp => cusp.longitude);
+  const zodiac: ZodiacOptions = { zodiacType: natalChart.zodiacType, ayanamsa: natalChart.ayanamsa };
+
+  // 1. Вторичные прогрессии: эфемерида на момент «день за год»
+  const progressedJulianDay = getProgressedJulianDay(natalJulianDay, targetDate);
+  const progressedDate = julianDayToDate(progressedJulianDay).toISOString();
+  const ephemeris = calculateEphemeris(julianDayToDate(progressedJulianDay), { nodeType: natalChart.nodeType, ...zodiac });
+  const progressedSun = ephemeris.planets.sun!;
+  const solarArc = normalizeAngle(progressedSun.longitude - natalSun.longitude);
+
+  const secondaryPlanets: PlanetsMap = {};
+  for (const [key, position] of Object.entries(ephemeris.planets)) {
+    if (!position) continue;
+    secondaryPlanets[key as keyof PlanetsMap] = cusps.length === 12
+      ? { ...position, house: getHouseForLongitude(position.longitude, cusps) }
+      : position;
+  }
+
+  // Углы смещаются на солнечную дугу со скоростью прогрессивного Солнца
+  const arcSpeed = progressedSun.speed ?? 0;
+  const rising = movePosition({ ...natalChart.rising, planet: 'Ascendant' }, natalAscendant + solarArc, arcSpeed, cusps);
+  const mc = movePosition(natalChart.mc || { planet: 'MC', sign: '', description: '' }, natalMc + solarArc, arcSpeed, cusps);
+  // Без времени рождения оси недостоверны и аспектов не образуют
+  const progressedAngles = natalChart.birthTimeUnknown ? [] : [rising, mc];
+
+  const secondary: ProgressedChart = {
+    method: 'secondary',
+    progressedDate,
+    solarArc: Math.round(solarArc * 1000) / 1000,
+    planets: secondaryPlanets,
+    rising,
+    mc,
+    aspectsToNatal: findAspectsToNatal(
+      Object.fromEntries(Object.entries(secondaryPlanets).filter(([key]) => SECONDARY_ASPECT_PLANETS.includes(key))),
+      progressedAngles,
+      natalPoints
+    )
+  };
+
+  // 2. Дирекции солнечной дуги: все натальные точки + дуга
+  const natalPlanets: PlanetsMap = natalChart.planets || {
+    sun: natalChart.sun,
+    moon: natalChart.moon,
+    ...(natalChart.mercury ? { mercury: natalChart.mercury } : {}),
+    ...(natalChart.venus ? { venus: natalChart.venus } : {}),
+    ...(natalChart.mars ? { mars: natalChart.mars } : {})
+  };
+  const directedPlanets: PlanetsMap = {};
+  for (const [key, position] of Object.entries(natalPlanets)) {
+    const natalPoint = position && natalPoints.find(point => point.name === position.planet);
+    if (!position || !natalPoint) continue;
+    directedPlanets[key as keyof PlanetsMap] = movePosition(position, natalPoint.longitude + solarArc, arcSpeed, cusps);
+  }
+
+  const solarArcChart: ProgressedChart = {
+    method: 'solar_arc',
+    progressedDate,
+    solarArc: secondary.solarArc,
+    planets: directedPlanets,
+    rising,
+    mc,
+    aspectsToNatal: findAspectsToNatal(directedPlanets, progressedAngles, natalPoints)
+  };
+
+  // 3. Смены знака прогрессивной Луной вокруг целевой даты
+  const windowStart = Math.max(natalJulianDay, targetJulianDay - MOON_INGRESS_WINDOW_DAYS);
+  const progressedMoonIngresses = findProgressedMoonIngresses(
+    natalJulianDay,
+    julianDayToDate(windowStart),
+    julianDayToDate(targetJulianDay + MOON_INGRESS_WINDOW_DAYS),
+    zodiac
+  );
+
+  const age = (targetJulianDay - natalJulianDay) / TROPICAL_YEAR_DAYS;
+
+  log.info('Progressions calculated', {
+    targetDate: targetDate.toISOString(),
+    age: age.toFixed(2),
+    solarArc: solarArc.toFixed(3),
+    secondaryAspects: secondary.aspectsToNatal.length,
+    solarArcAspects: solarArcChart.aspectsToNatal.length,
+    moonIngresses: progressedMoonIngresses.length
+  });
+
+  return {
+    targetDate: targetDate.toISOString(),
+    age: Math.round(age * 100) / 100,
+    secondary,
+    solarArc: solarArcChart,
+    progressedMoonIngresses
+  };
+}
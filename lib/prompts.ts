@@ -5,7 +5,8 @@
  * через AI (OpenAI, Gemini, Claude и т.д.)
  */
 
-import { NatalChartData, UserProfile } from "../types";
+import { GroupCompatibility, NatalChartData, ProgressionsResult, RelationshipChart, ReturnChart, SynastryFacts, TimelineEvent, TransitAspect, UserProfile, VedicChart } from "../types";
+import { AYANAMSA_NAMES } from "./zodiac-utils";
 
 /**
  * Базовый SYSTEM-промпт для Астры (используется везде)
@@ -30,16 +31,58 @@ export const SYSTEM_PROMPT_ASTRA = `Ты — профессиональный а
 – Быть проводником, который не нянчится, а дает "волшебный пендель" для развития.
 – Переводить астрологические термины на язык реальной жизни (психология, карьера, отношения), но так, чтобы чувствовалась глубина анализа.
 
+Данные карты:
+– Дома рассчитаны по точному времени и месту рождения: поле "house" у каждой планеты — номер дома (1–12), "houses" — куспиды всех 12 домов, "mc"/"ic"/"dc" — углы карты. Опирайся только на эти значения и никогда не придумывай дома, которых нет в данных.
+– Поле "planets" содержит все точки карты: планеты от Солнца до Плутона, лунные узлы ("northNode"/"southNode"), Хирон ("chiron") и Черную Луну Лилит ("lilith"). Высшие планеты (Уран, Нептун, Плутон) — поколенческие, трактуй их через дома и связи с личными планетами.
+– У каждой планеты есть "longitude" (абсолютная долгота), "speed" (градусов в сутки), "isRetrograde" и "isStationary". Ретроградность и станции упоминай только если они отмечены в данных.
+– Поле "aspects" — точные аспекты карты: "planet1"/"planet2", тип ("conjunction", "square", "trine" и т.д.), орбис в градусах и "applying" (true — сходящийся, набирает силу; false — расходящийся). Чем меньше орбис, тем сильнее аспект. Называй только аспекты из этого списка.
+– Поле "houseSystem" — система домов, в которой рассчитана карта. Если есть "requestedHouseSystem", выбранная пользователем система не работает на его широте и была заменена.
+– Поле "balance" — рассчитанный баланс карты: доли стихий ("elements") и крестов ("modalities") в процентах с учетом веса точек, достоинства планет ("dignities": обитель, экзальтация, изгнание, падение), управитель карты по Асценденту ("chartRuler", он же "rulingPlanet") и сила планет ("planetScores", "dominantPlanet"). Говоря о преобладающей стихии, достоинствах или доминанте, опирайся на эти числа.
+– Если в карте "birthTimeUnknown": true — время рождения неизвестно и карта рассчитана на полдень. Не трактуй Асцендент (восходящий знак), MC/IC/DC и дома: их нет или они недостоверны. Луну описывай по "moonRange": если "changesSign" — true, знак Луны точно не известен, говори о нем как о варианте из "moonRange.signs".
+– Поле "zodiacType" — зодиак карты: "tropical" (западная астрология) или "sidereal" (ведическая, джйотиш). В сидерическом зодиаке все долготы уже сдвинуты на аянамсу ("ayanamsa", величина "ayanamsaValue" в градусах), поэтому знаки планет обычно на один знак раньше привычных тропических. Называй знаки только так, как они указаны в данных, и не пересчитывай их в другой зодиак. Поле "moonNakshatra" — накшатра Луны, она всегда сидерическая (для тропической карты — по Лахири).
+
 Во всех ответах:
 – Будь конкретен. Ссылайся на положения в карте (например: "Твой Марс в Овне делает тебя вспыльчивым, потому что...").
 – Используй 1–2 иконки для акцентов, но не спамь ими.
 – Не используй слащавый "подлизный" тон. Будь объективным и немного дерзким.`;
 
+/**
+ * Данные натальной карты для промпта: JSON, зодиак, в котором рассчитана карта,
+ * и, если время рождения неизвестно, явный запрет трактовать восходящий знак и дома
+ *
+ * owner — чья карта (для синастрии), например «партнёра».
+ */
+const formatNatalData = (natalData: NatalChartData, owner?: string): string => {
+  const json = JSON.stringify(natalData, null, 2);
+  const whose = owner ? ` ${owner}` : '';
+
+  const zodiacNote = natalData.zodiacType === 'sidereal' && natalData.ayanamsa
+    ? `Зодиак карты${whose}: сидерический (ведический), аянамса ${AYANAMSA_NAMES[natalData.ayanamsa].ru}${natalData.ayanamsaValue !== undefined ? ` ${natalData.ayanamsaValue.toFixed(2)}°` : ''}. Знаки в данных уже сидерические — называй их так, как указано.`
+    : `Зодиак карты${whose}: тропический (западная астрология).`;
+
+  if (!natalData.birthTimeUnknown) {
+    return `${json}
+
+${zodiacNote}`;
+  }
+
+  const moonRange = natalData.moonRange;
+  const moonNote = moonRange?.changesSign
+    ? `Луна в день рождения перешла из знака ${moonRange.signs[0]} в ${moonRange.signs[1]}, поэтому знак Луны неизвестен: опиши оба варианта и не выбирай один из них.`
+    : `Знак Луны известен (${natalData.moon.sign}), но её градус и аспекты Луны приблизительны.`;
+
+  return `${json}
+
+${zodiacNote}
+
+ВНИМАНИЕ: время рождения${whose} неизвестно, карта рассчитана на полдень. Не трактуй восходящий знак (Асцендент), MC/IC/DC и дома — не упоминай их вовсе и не делай по ним выводов. ${moonNote}`;
+};
+
 export const createFullNatalChartIntroPrompt = (
   natalData: NatalChartData,
   profile: UserProfile
 ): string => {
-  const natalDataJson = JSON.stringify(natalData, null, 2);
+  const natalDataJson = formatNatalData(natalData);
   const name = profile.name || 'друг';
   
   return `Привет! Я твой астролог-приятель, и я тщательно изучил твою натальную карту.
@@ -89,7 +132,7 @@ export const createSoulPassportPrompt = (
   natalData: NatalChartData,
   profile: UserProfile
 ): string => {
-  const natalDataJson = JSON.stringify(natalData, null, 2);
+  const natalDataJson = formatNatalData(natalData);
   const userProfileJson = JSON.stringify({
     name: profile.name,
     language: profile.language,
@@ -141,7 +184,7 @@ export const createDailyForecastPrompt = (
   currentDate: string,
   transits?: any
 ): string => {
-  const natalDataJson = JSON.stringify(natalData, null, 2);
+  const natalDataJson = formatNatalData(natalData);
   const transitsJson = transits ? JSON.stringify(transits, null, 2) : "Нет данных о транзитах";
   
   return `Сегодня ${currentDate}.
@@ -181,22 +224,41 @@ ${transitsJson}
 }`;
 };
 
+/**
+ * Блок с персональными транзитами к натальной карте для промптов прогнозов
+ */
+const createTransitAspectsSection = (transitAspects?: TransitAspect[]): string => {
+  if (!transitAspects || transitAspects.length === 0) {
+    return '';
+  }
+
+  return `
+Персональные транзиты к натальной карте за период (рассчитаны по эфемеридам).
+"start" — вход в орбис, "exact" — точный аспект (null — аспект не становится точным), "end" — выход из орбиса, время в UTC:
+
+${JSON.stringify(transitAspects, null, 2)}
+
+Строй прогноз в первую очередь на этих транзитах: самые важные — с медленными планетами (Юпитер, Сатурн, Уран, Нептун, Плутон) и к Солнцу, Луне, Асценденту и MC. Привязывай события к датам точных аспектов. Не придумывай транзиты, которых нет в списке.
+`;
+};
+
 /**
  * Промпт для недельного прогноза
  */
 export const createWeeklyForecastPrompt = (
   natalData: NatalChartData,
   profile: UserProfile,
-  weekRange: string
+  weekRange: string,
+  transitAspects?: TransitAspect[]
 ): string => {
-  const natalDataJson = JSON.stringify(natalData, null, 2);
+  const natalDataJson = formatNatalData(natalData);
   
   return `Период: ${weekRange}
 
 Вот натальная карта человека:
 
 ${natalDataJson}
-
+${createTransitAspectsSection(transitAspects)}
 Задача: создай персональный прогноз на неделю для этого человека.
 
 Учитывай:
@@ -229,16 +291,17 @@ ${natalDataJson}
 export const createMonthlyForecastPrompt = (
   natalData: NatalChartData,
   profile: UserProfile,
-  month: string
+  month: string,
+  transitAspects?: TransitAspect[]
 ): string => {
-  const natalDataJson = JSON.stringify(natalData, null, 2);
+  const natalDataJson = formatNatalData(natalData);
   
   return `Месяц: ${month}
 
 Вот натальная карта человека:
 
 ${natalDataJson}
-
+${createTransitAspectsSection(transitAspects)}
 Задача: создай персональный прогноз на месяц для этого человека.
 
 Учитывай:
@@ -263,6 +326,62 @@ ${natalDataJson}
 }`;
 };
 
+/**
+ * Промпт для прогноза на год по соляру (премиум)
+ * 
+ * Соляр передаётся полной картой, лунары — кратко: момент, Асцендент и дома Солнца и Луны
+ */
+export const createSolarReturnForecastPrompt = (
+  natalData: NatalChartData,
+  profile: UserProfile,
+  solarReturn: ReturnChart,
+  lunarReturns: ReturnChart[] = []
+): string => {
+  const natalDataJson = formatNatalData(natalData);
+  const solarReturnJson = JSON.stringify(solarReturn.chart, null, 2);
+  const lunarReturnsJson = JSON.stringify(lunarReturns.map(lunarReturn => ({
+    date: lunarReturn.returnDate,
+    rising: lunarReturn.chart.rising.sign,
+    sunHouse: lunarReturn.chart.sun.house,
+    moonHouse: lunarReturn.chart.moon.house
+  })), null, 2);
+
+  return `Вот натальная карта человека (${profile.name}):
+
+${natalDataJson}
+
+Соляр — карта на момент возвращения Солнца к натальному положению (${solarReturn.returnDate}, место: ${solarReturn.location}):
+
+${solarReturnJson}
+${lunarReturns.length > 0 ? `
+Лунары этого года (момент возвращения Луны, Асцендент, дома Солнца и Луны в карте лунара):
+
+${lunarReturnsJson}
+` : ''}
+Задача: создай персональный прогноз на год — от этого дня рождения до следующего.
+
+Учитывай:
+– Асцендент соляра и дом, в который попадает Солнце соляра, — главная тема года;
+– положение Луны соляра — эмоциональный фон;
+– самые точные аспекты соляра;
+– для каждого лунара — тему месяца по дому Луны и Асценденту.
+
+Формат ответа:
+– Тема года (2-5 слов)
+– Развёрнутый прогноз (5-7 абзацев): главная тема, отношения, работа и деньги, внутренний рост, на что обратить внимание
+– Для каждого лунара — одна фраза о фокусе месяца с той же датой "date"
+
+Стиль: глубокий, вдохновляющий, с конкретными рекомендациями. Говори на «ты». Не придумывай положения, которых нет в данных.
+
+Выведи результат в формате JSON:
+
+{
+  "theme": "...",
+  "content": "...",
+  "lunarReturns": [{ "date": "...", "focus": "..." }]
+}`;
+};
+
 /**
  * Промпты для ПОЛНОЙ натальной карты - каждая секция отдельно
  * 
@@ -276,7 +395,7 @@ export const createPersonalityAnalysisPrompt = (
   natalData: NatalChartData,
   profile: UserProfile
 ): string => {
-  const natalDataJson = JSON.stringify(natalData, null, 2);
+  const natalDataJson = formatNatalData(natalData);
   const name = profile.name || 'друг';
   
   return `Натальная карта:
@@ -325,7 +444,7 @@ export const createLoveAnalysisPrompt = (
   natalData: NatalChartData,
   profile: UserProfile
 ): string => {
-  const natalDataJson = JSON.stringify(natalData, null, 2);
+  const natalDataJson = formatNatalData(natalData);
   const name = profile.name || 'друг';
   
   return `Натальная карта:
@@ -376,7 +495,7 @@ export const createCareerAnalysisPrompt = (
   natalData: NatalChartData,
   profile: UserProfile
 ): string => {
-  const natalDataJson = JSON.stringify(natalData, null, 2);
+  const natalDataJson = formatNatalData(natalData);
   const name = profile.name || 'друг';
   
   return `Натальная карта:
@@ -426,7 +545,7 @@ export const createChallengesAnalysisPrompt = (
   natalData: NatalChartData,
   profile: UserProfile
 ): string => {
-  const natalDataJson = JSON.stringify(natalData, null, 2);
+  const natalDataJson = formatNatalData(natalData);
   const name = profile.name || 'друг';
   
   return `Натальная карта:
@@ -478,7 +597,7 @@ export const createKarmaAnalysisPrompt = (
   natalData: NatalChartData,
   profile: UserProfile
 ): string => {
-  const natalDataJson = JSON.stringify(natalData, null, 2);
+  const natalDataJson = formatNatalData(natalData);
   const name = profile.name || 'друг';
   
   return `Натальная карта:
@@ -498,6 +617,7 @@ ${natalDataJson}
 
 **Твои кармические узлы**
 [2 абзаца - что тянет из прошлого (привычное) и куда нужно идти (новое)]
+Опирайся на знаки и дома Южного узла (planets.southNode — прошлое) и Северного узла (planets.northNode — направление роста), а также на Сатурн и Хирон
 Интересно и вдохновляюще
 
 **Твой вклад в мир**
@@ -521,6 +641,83 @@ ${natalDataJson}
 ✓ 900-1200 символов`;
 };
 
+/**
+ * Названия ведической темы Deep Dive, как их присылает клиент
+ */
+export const VEDIC_DEEP_DIVE_TOPICS = ['Ведическая карта', 'Vedic Chart'];
+
+/**
+ * Промпт для ведического анализа (Deep Dive, премиум)
+ *
+ * Накшатры, даши и навамша рассчитаны заранее (vedic-calculator), модель
+ * только трактует их. Из антардаш передаются лишь текущие — полный список
+ * из 81 периода не нужен для текста и раздувает промпт.
+ */
+export const createVedicAnalysisPrompt = (
+  natalData: NatalChartData,
+  profile: UserProfile,
+  vedicChart: VedicChart
+): string => {
+  const natalDataJson = formatNatalData(natalData);
+  const name = profile.name || 'друг';
+  const currentMahadasha = vedicChart.dasha.mahadashas.find(
+    mahadasha => mahadasha.start === vedicChart.dasha.current?.mahadasha.start
+  );
+  const vedicJson = JSON.stringify({
+    ayanamsa: `${AYANAMSA_NAMES[vedicChart.ayanamsa].ru} ${vedicChart.ayanamsaValue.toFixed(2)}°`,
+    planets: vedicChart.planets,
+    moonNakshatra: vedicChart.moonNakshatra,
+    dasha: {
+      balanceAtBirth: Number(vedicChart.dasha.balanceAtBirth.toFixed(2)),
+      mahadashas: vedicChart.dasha.mahadashas.map(({ planet, start, end }) => ({ planet, start: start.split('T')[0], end: end.split('T')[0] })),
+      current: vedicChart.dasha.current,
+      currentAntardashas: currentMahadasha?.antardashas.map(({ planet, start, end }) => ({ planet, start: start.split('T')[0], end: end.split('T')[0] }))
+    }
+  }, null, 2);
+
+  return `Натальная карта:
+
+${natalDataJson}
+
+Ведическая карта (джйотиш), рассчитанная по эфемеридам:
+
+${vedicJson}
+
+Пояснения к данным:
+– "planets" — девять грах (Раху и Кету — лунные узлы) и Лагна ("Ascendant", если время рождения известно) в сидерическом зодиаке: знак (раши), накшатра с падой и знак в навамше (D9, "navamsaSign");
+– "moonNakshatra" — накшатра Луны (джанма-накшатра), её управитель открывает цикл даш;
+– "dasha" — Вимшоттари-даша: махадаши по порядку, "current" — текущие махадаша и антардаша, "currentAntardashas" — все подпериоды текущей махадаши.
+
+Создай ВЕДИЧЕСКИЙ АНАЛИЗ для ${name}.
+
+Структура (обычный текст):
+
+**Твоя джанма-накшатра**
+[2 абзаца - накшатра и пада Луны: природа, мотивация, эмоциональный склад]
+
+**Лагна и ключевые грахи**
+[2 абзаца - сидерические знаки Лагны, Солнца и Луны, самые сильные грахи и их накшатры]
+Если Лагны нет в данных — пропусти её и не выдумывай
+
+**Навамша (D9)**
+[1-2 абзаца - что навамша добавляет к карте: партнерство, внутренняя зрелость, дхарма]
+
+**Твой период сейчас**
+[2 абзаца - текущие махадаша и антардаша с датами окончания: темы, возможности, риски]
+
+**Следующие периоды:**
+• [2-3 ближайшие антардаши с датами и одной фразой о каждой]
+
+**Что поможет в этот период:**
+• [3 практичных совета]
+
+Стиль:
+✓ Опирайся только на данные выше, не пересчитывай знаки и даты
+✓ Термины джйотиша поясняй одной фразой
+✓ Конкретный и живой язык, без фатализма
+✓ 1000-1400 символов`;
+};
+
 /**
  * Устаревший промпт Deep Dive - теперь используем секционные промпты выше
  */
@@ -549,7 +746,7 @@ export const createDeepDivePrompt = (
   }
   
   // Fallback для неизвестной темы
-  const natalDataJson = JSON.stringify(natalData, null, 2);
+  const natalDataJson = formatNatalData(natalData);
   
   return `Натальная карта человека:
 
@@ -571,6 +768,28 @@ ${natalDataJson}
 Выведи результат в виде текста (не JSON).`;
 };
 
+/**
+ * Рассчитанная синастрия для промпта: аспекты между картами, наложения домов и счет
+ *
+ * Пустая строка, если синастрия не рассчитана — тогда модель работает только по картам.
+ */
+const formatSynastryFacts = (synastry?: SynastryFacts): string => {
+  if (!synastry) {
+    return '';
+  }
+
+  return `
+
+Рассчитанная по эфемеридам синастрия (JSON):
+
+${JSON.stringify(synastry, null, 2)}
+
+Пояснения к синастрии:
+– "aspects" — аспекты между картами: planet1 — точка первого человека, planet2 — второго, орбис в градусах (чем меньше, тем сильнее); опирайся в первую очередь на самые точные;
+– "houseOverlays" — в какие дома партнера попадают планеты каждого (person1InPerson2 — планеты первого в домах второго); пусто, если время рождения неизвестно;
+– "score" — счет совместимости 0–100 по категориям (emotional — эмоции, attraction — притяжение, communication — общение, stability — устойчивость, core — суть личностей), 50 — нейтрально. Счет уже рассчитан: не придумывай свой и не противоречь ему — сильные категории описывай как опору, слабые как зону работы.`;
+};
+
 /**
  * Промпт для совместимости (Синастрия) - КРАТКИЙ РЕЖИМ (бесплатный/тизер)
  * 
@@ -581,10 +800,12 @@ export const createBriefSynastryPrompt = (
   profile1: UserProfile,
   natalData2: NatalChartData,
   partnerName: string,
-  relationshipType: string = 'романтика'
+  relationshipType: string = 'романтика',
+  synastry?: SynastryFacts
 ): string => {
-  const natalData1Json = JSON.stringify(natalData1, null, 2);
-  const natalData2Json = JSON.stringify(natalData2, null, 2);
+  const natalData1Json = formatNatalData(natalData1);
+  const natalData2Json = formatNatalData(natalData2, 'партнёра');
+  const synastryFacts = formatSynastryFacts(synastry);
   
   return `Вот натальная карта первого человека в JSON:
 
@@ -592,7 +813,7 @@ ${natalData1Json}
 
 Вот натальная карта второго человека в JSON:
 
-${natalData2Json}
+${natalData2Json}${synastryFacts}
 
 Дополнительные данные (если есть):
 
@@ -641,10 +862,12 @@ export const createFullSynastryPrompt = (
   profile1: UserProfile,
   natalData2: NatalChartData,
   partnerName: string,
-  relationshipType: string = 'романтические отношения'
+  relationshipType: string = 'романтические отношения',
+  synastry?: SynastryFacts
 ): string => {
-  const natalData1Json = JSON.stringify(natalData1, null, 2);
-  const natalData2Json = JSON.stringify(natalData2, null, 2);
+  const natalData1Json = formatNatalData(natalData1);
+  const natalData2Json = formatNatalData(natalData2, 'партнёра');
+  const synastryFacts = formatSynastryFacts(synastry);
   
   return `Вот полные данные натальной карты первого человека (A) в формате JSON:
 
@@ -652,7 +875,7 @@ ${natalData1Json}
 
 Вот полные данные натальной карты второго человека (B) в формате JSON:
 
-${natalData2Json}
+${natalData2Json}${synastryFacts}
 
 Дополнительные данные о типе связи:
 
@@ -711,6 +934,112 @@ ${natalData2Json}
 }`;
 };
 
+/**
+ * Промпт для карт отношений (премиум): композит и Дависон
+ * 
+ * Обе карты — карты самой пары, а не партнеров, поэтому трактуются как характер связи
+ */
+export const createRelationshipChartsPrompt = (
+  profile1: UserProfile,
+  partnerName: string,
+  composite: RelationshipChart,
+  davison: RelationshipChart,
+  relationshipType: string = 'романтические отношения'
+): string => {
+  const compositeJson = formatNatalData(composite.chart, 'композита');
+  const davisonJson = formatNatalData(davison.chart, 'Дависона');
+
+  return `Вот композитная карта пары ${profile1.name} и ${partnerName} — каждая планета стоит в середине между планетами партнеров:
+
+${compositeJson}
+
+Вот карта Дависона этой пары — карта на момент посередине между их рождениями (${davison.date}) и на место посередине между местами рождения:
+
+${davisonJson}
+
+Тип связи: "${relationshipType}".
+
+Задача: опиши, какими получаются сами отношения — как отдельное живое существо со своим характером, целью и уроками.
+
+Учитывай:
+– композит показывает, как пара действует и ощущается вместе: Солнце — смысл союза, Луна — эмоциональный климат, Венера и Марс — нежность и страсть, Сатурн — обязательства и испытания;
+– Дависон показывает судьбу и развитие связи во времени; где он совпадает с композитом — это главная тема пары;
+– самые точные аспекты внутри каждой карты.
+
+Формат ответа:
+– Тема пары (2-5 слов)
+– Композит: 3-4 КОРОТКИХ абзаца о характере связи
+– Дависон: 2-3 КОРОТКИХ абзаца о том, куда ведёт эта связь
+– 3-5 советов паре
+
+Стиль: тёплый, честный, без фатализма, без технических терминов («аспект», «дом», «квадратура»). Говори с парой на «вы». Не придумывай положения, которых нет в данных.
+
+Выведи результат в формате JSON:
+
+{
+  "theme": "...",
+  "composite": "...",
+  "davison": "...",
+  "advice": ["...", "...", "..."]
+}`;
+};
+
+/**
+ * Промпт для групповой совместимости (семья, команда, компания друзей)
+ *
+ * Все факты уже рассчитаны: счета пар, сильные и напряженные пары, баланс стихий.
+ * Участники в фактах указаны по id, имена подставляются из members.
+ */
+export const createGroupCompatibilityPrompt = (
+  group: GroupCompatibility,
+  groupType: string = 'семья'
+): string => {
+  const names = Object.fromEntries(group.members.map(member => [member.id, member.name]));
+  const formatPairs = (pairs: GroupCompatibility['pairs']) => pairs
+    .map(pair => `– ${names[pair.member1]} и ${names[pair.member2]}: ${pair.score.total}/100`)
+    .join('\n');
+
+  return `Вот рассчитанная по эфемеридам совместимость группы из ${group.members.length} человек (JSON):
+
+${JSON.stringify(group, null, 2)}
+
+Самые гармоничные пары:
+${formatPairs(group.strongestPairs)}
+
+Самые напряженные пары:
+${formatPairs(group.strainedPairs)}
+
+Тип группы: "${groupType}".
+
+Пояснения к данным:
+– "members" — участники (id 'self' — сам пользователь, он говорит с тобой), знак Солнца и ведущая стихия каждого;
+– "matrix" — счет совместимости каждой пары 0–100 по порядку members, 50 — нейтрально;
+– "pairs" — синастрия каждой пары: счет по категориям (emotional — эмоции, attraction — притяжение, communication — общение, stability — устойчивость, core — суть личностей) и самые точные аспекты между картами;
+– "balance" — средний баланс стихий и крестов группы: ведущая стихия задает общий тон, самая слабая — то, чего группе не хватает.
+Счета уже рассчитаны: не придумывай свои и не противоречь им.
+
+Задача: опиши, как эта группа работает как целое — кто кого поддерживает, где искрит и как группе договариваться.
+
+Формат ответа:
+– Тема группы (2-5 слов)
+– Динамика: 2-3 КОРОТКИХ абзаца об общем климате группы с опорой на баланс стихий
+– Сильные связи: 1-2 абзаца о самых гармоничных парах и на что группа может на них опираться
+– Напряжения: 1-2 абзаца о самых напряженных парах и как смягчить трения
+– 3-5 советов группе
+
+Стиль: тёплый, честный, без фатализма, без технических терминов («аспект», «дом», «квадратура»). Называй участников по именам. Не придумывай положения, которых нет в данных.
+
+Выведи результат в формате JSON:
+
+{
+  "theme": "...",
+  "dynamics": "...",
+  "strongest": "...",
+  "strained": "...",
+  "advice": ["...", "...", "..."]
+}`;
+};
+
 /**
  * Промпт для совместимости (Синастрия) - СТАРЫЙ ФОРМАТ
  * Оставлен для обратной совместимости
@@ -721,8 +1050,8 @@ export const createSynastryPrompt = (
   natalData2: NatalChartData,
   partnerName: string
 ): string => {
-  const natalData1Json = JSON.stringify(natalData1, null, 2);
-  const natalData2Json = JSON.stringify(natalData2, null, 2);
+  const natalData1Json = formatNatalData(natalData1);
+  const natalData2Json = formatNatalData(natalData2, 'партнёра');
   
   return `Натальная карта ${profile1.name}:
 
@@ -779,7 +1108,7 @@ export const createFullNatalChartPrompt = (
   natalData: NatalChartData,
   profile: UserProfile
 ): string => {
-  const natalDataJson = JSON.stringify(natalData, null, 2);
+  const natalDataJson = formatNatalData(natalData);
   
   return `Вот полные данные натальной карты человека в JSON:
 
@@ -824,9 +1153,10 @@ export const createTransitForecastPrompt = (
   natalData: NatalChartData,
   profile: UserProfile,
   transits: any,
-  period: 'day' | 'week' | 'month'
+  period: 'day' | 'week' | 'month',
+  transitAspects?: TransitAspect[]
 ): string => {
-  const natalDataJson = JSON.stringify(natalData, null, 2);
+  const natalDataJson = formatNatalData(natalData);
   const transitsJson = JSON.stringify(transits, null, 2);
   
   return `Вот данные натальной карты человека:
@@ -836,7 +1166,7 @@ ${natalDataJson}
 А вот текущие астрологические влияния (транзиты) в JSON:
 
 ${transitsJson}
-
+${createTransitAspectsSection(transitAspects)}
 Тип прогноза: ${period}
 (day = день, week = неделя, month = месяц).
 
@@ -857,6 +1187,102 @@ ${transitsJson}
 Выведи результат в формате Markdown с подзаголовками и списками.`;
 };
 
+// Что означает каждый тип события шкалы — подсказка модели, на чем строить трактовку
+const TIMELINE_EVENT_NOTES: Record<TimelineEvent['type'], string> = {
+  transit: 'личный транзит: транзитная планета (planet) образует точный аспект (aspect) к натальной точке (natalPoint); влияние ощущается весь период от start до end, сильнее всего — около date',
+  ingress: 'вход планеты (planet) в знак (sign): меняется фон, который эта планета задает для всех; isRetrograde — планета возвращается в знак попятным движением',
+  station: 'станция: планета (planet) останавливается и меняет направление (direction: retrograde — становится попятной, direct — прямой); темы планеты обостряются в дни около станции',
+  eclipse: 'затмение (eclipseKind: solar — солнечное, lunar — лунное; eclipseType — вид) в знаке sign; если указан natalPoint, затмение падает на эту точку карты и становится личным'
+};
+
+/**
+ * Промпт для трактовки одного события шкалы транзитов
+ *
+ * Трактовка кэшируется по событию, поэтому в ней не должно быть «сегодня»
+ * и других привязок ко времени запроса — только к дате самого события.
+ */
+export const createTimelineEventPrompt = (
+  natalData: NatalChartData,
+  profile: UserProfile,
+  event: TimelineEvent
+): string => {
+  const natalDataJson = formatNatalData(natalData);
+
+  return `Вот данные натальной карты человека (${profile.name}):
+
+${natalDataJson}
+
+Вот событие из его шкалы транзитов на ближайший год (JSON, время date — UTC, localTime — местное время человека):
+
+${JSON.stringify(event, null, 2)}
+
+Тип события: ${TIMELINE_EVENT_NOTES[event.type]}.
+
+Задача: объясни, что это событие значит лично для этого человека с учетом его натальной карты — какие сферы жизни затронет, как это может ощущаться и как лучше прожить этот период.
+
+Требования:
+– без сложных терминов («транзит», «аспект», «квадрат», «оппозиция»);
+– привязывай текст к дате события, а не к «сегодня»;
+– 2–3 КОРОТКИХ абзаца и 2–4 практических совета;
+– не придумывай положения, которых нет в данных.
+
+Выведи результат в формате JSON:
+
+{
+  "title": "Короткий заголовок события (2-6 слов)",
+  "interpretation": "...",
+  "advice": ["...", "..."]
+}`;
+};
+
+/**
+ * Промпт для прогноза по прогрессиям и дирекциям
+ * 
+ * Используется для премиум-разбора того, как карта «развивается» со временем:
+ * вторичные прогрессии, дирекции солнечной дуги и смена знака прогрессивной Луны
+ */
+export const createProgressionsPrompt = (
+  natalData: NatalChartData,
+  profile: UserProfile,
+  progressions: ProgressionsResult
+): string => {
+  const natalDataJson = formatNatalData(natalData);
+  const progressionsJson = JSON.stringify(progressions, null, 2);
+
+  return `Вот данные натальной карты человека (${profile.name}):
+
+${natalDataJson}
+
+А вот рассчитанные по эфемеридам прогрессии на дату ${progressions.targetDate.split('T')[0]} (возраст ${progressions.age} лет):
+
+${progressionsJson}
+
+Пояснения к данным:
+– "secondary" — вторичные прогрессии (день после рождения = год жизни), "solarArc" — дирекции солнечной дуги;
+– "aspectsToNatal": planet1 — прогрессивная/дирекционная точка, planet2 — натальная, орбис до 1°; "applying": true — аспект ещё набирает силу;
+– "house" у прогрессивных точек — номер натального дома;
+– "progressedMoonIngresses" — даты смены знака прогрессивной Луной: это смена эмоционального фона примерно на 2,5 года.
+
+Задача: опиши, как карта человека раскрывается в текущий период жизни.
+
+Структура:
+## Главная тема периода
+1–2 абзаца: прогрессивное Солнце (знак и дом) и солнечная дуга — куда смещается фокус личности.
+
+## Эмоциональный цикл
+1–2 абзаца: прогрессивная Луна, её знак и дом, ближайшая смена знака с датой.
+
+## Ключевые события
+2–3 абзаца по самым точным аспектам к натальной карте (сначала с наименьшим орбисом). Не придумывай аспекты, которых нет в данных.
+
+## Рекомендации
+Список из 3–5 практических советов на этот период.
+
+Требования к стилю: говори простым языком, астрологические термины поясняй одной фразой, сохраняй тёплый, поддерживающий тон.
+
+Выведи результат в формате Markdown.`;
+};
+
 /**
  * Промпт для описания эволюции пользователя
  * 
@@ -868,7 +1294,7 @@ export const createEvolutionPrompt = (
   profile: UserProfile,
   evolution: any
 ): string => {
-  const natalDataJson = JSON.stringify(natalData, null, 2);
+  const natalDataJson = formatNatalData(natalData);
   const evolutionJson = JSON.stringify(evolution, null, 2);
   
   return `Вот натальная карта человека:
@@ -935,6 +1361,12 @@ export interface MonthlyForecastAIResponse {
   content: string;
 }
 
+export interface SolarReturnForecastAIResponse {
+  theme: string;
+  content: string;
+  lunarReturns?: { date: string; focus: string }[];
+}
+
 export interface SynastryAIResponse {
   compatibilityScore: number;
   emotionalConnection: string;
@@ -957,3 +1389,24 @@ export interface FullSynastryAIResponse {
   recommendations: string[];
   potential: string;
 }
+
+export interface RelationshipChartsAIResponse {
+  theme: string;
+  composite: string;
+  davison: string;
+  advice: string[];
+}
+
+export interface TimelineEventAIResponse {
+  title: string;
+  interpretation: string;
+  advice: string[];
+}
+
+export interface GroupCompatibilityAIResponse {
+  theme: string;
+  dynamics: string;
+  strongest: string;
+  strained: string;
+  advice: string[];
+}
@@ -0,0 +1,337 @@
+/**
+ * Rectification Calculator
+ *
+ * Ректификация времени рождения по событиям жизни: перебирает моменты
+ * в заданном окне и для каждого считает, насколько транзиты, дирекции
+ * солнечной дуги и прогрессивная Луна в даты событий попадают на оси
+ * карты (Асцендент и MC). Лучшие варианты возвращаются с градусом
+ * Асцендента и оценкой уверенности.
+ */
+
+import {
+  calculateAngles,
+  calculateBodyState,
+  calculateEphemeris,
+  dateToJulianDay,
+  getDegreeInSign,
+  getZodiacSign,
+  Coordinates,
+  ZodiacOptions
+} from './swisseph-calculator';
+import { getProgressedJulianDay } from './progressions-calculator';
+import { findAspect } from './aspects-calculator';
+import { resolveLocalTime } from './local-time';
+import { MAX_RECTIFICATION_EVENTS, MAX_RECTIFICATION_STEP, MIN_RECTIFICATION_STEP } from './validation';
+import type {
+  Aspect,
+  AspectType,
+  ChartPlanetKey,
+  PlanetPosition,
+  PlanetsMap,
+  RectificationCandidate,
+  RectificationEvent,
+  RectificationEventType,
+  RectificationHit,
+  RectificationResult,
+  RectificationTechnique
+} from '../types';
+
+// Logging utility
+const log = {
+  info: (message: string, data?: any) => {
+    console.log(`[RectificationCalculator] ${message}`, data || '');
+  },
+  error: (message: string, error?: any) => {
+    console.error(`[RectificationCalculator] ERROR: ${message}`, error || '');
+  },
+};
+
+// Асцендент проходит около градуса за 4 минуты — шаг перебора по умолчанию
+const DEFAULT_STEP_MINUTES = 4;
+const DEFAULT_CANDIDATES_LIMIT = 3;
+
+// Варианты ближе этого расстояния по Асценденту считаются одним и тем же
+const MIN_ASCENDANT_SEPARATION = 5;
+
+// Медленные транзитные планеты: их проход через оси растягивается на месяцы и совпадает с событиями
+const TRANSIT_PLANETS: ChartPlanetKey[] = ['jupiter', 'saturn', 'uranus', 'neptune', 'pluto'];
+
+// Натальные планеты для дирекций солнечной дуги
+const DIRECTED_PLANETS: ChartPlanetKey[] = ['sun', 'moon', 'mercury', 'venus', 'mars', 'jupiter', 'saturn', 'uranus', 'neptune', 'pluto'];
+
+// В ректификации учитываются только соединения и напряженные аспекты к осям
+const RECTIFICATION_ASPECTS: AspectType[] = ['conjunction', 'opposition', 'square'];
+
+const TECHNIQUE_ORBS: Record<RectificationTechnique, number> = {
+  transit: 2,
+  solar_arc: 1,
+  progressed_moon: 1
+};
+
+const TECHNIQUE_WEIGHTS: Record<RectificationTechnique, number> = {
+  transit: 1,
+  solar_arc: 1.5,
+  progressed_moon: 1
+};
+
+type Axis = 'Ascendant' | 'MC';
+
+// Вес оси для типа события: ось ASC/DC — личность и партнерство, ось MC/IC — карьера, дом и семья
+const EVENT_AXIS_WEIGHTS: Record<RectificationEventType, Record<Axis, number>> = {
+  relationship: { Ascendant: 1.5, MC: 1 },
+  career: { Ascendant: 1, MC: 1.5 },
+  home: { Ascendant: 1, MC: 1.5 },
+  move: { Ascendant: 1, MC: 1.5 },
+  child: { Ascendant: 1, MC: 1 },
+  loss: { Ascendant: 1, MC: 1 },
+  health: { Ascendant: 1.5, MC: 1 },
+  other: { Ascendant: 1, MC: 1 }
+};
+
+export interface RectificationInput {
+  birthDate: string; // YYYY-MM-DD
+  timeFrom: string; // "HH:MM", местное время
+  timeTo: string; // "HH:MM", местное время
+  location: Coordinates;
+  events: RectificationEvent[];
+  stepMinutes?: number;
+  limit?: number; // Сколько лучших вариантов вернуть
+  zodiac?: ZodiacOptions; // Зодиак карты (по умолчанию тропический)
+}
+
+interface PreparedEvent {
+  event: RectificationEvent;
+  axisWeights: Record<Axis, number>;
+  date: Date;
+  transits: PlanetsMap;
+}
+
+function normalizeAngle(angle: number): number {
+  const normalized = angle % 360;
+  return normalized < 0 ? normalized + 360 : normalized;
+}
+
+function angularDistance(a: number, b: number): number {
+  const delta = normalizeAngle(a - b);
+  return delta > 180 ? 360 - delta : delta;
+}
+
+function parseMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+function formatMinutes(total: number): string {
+  return `${String(Math.floor(total / 60)).padStart(2, '0')}:${String(total % 60).padStart(2, '0')}`;
+}
+
+function createAnglePoint(name: Axis, longitude: number): PlanetPosition {
+  return {
+    planet: name,
+    sign: getZodiacSign(longitude),
+    degree: Math.round(getDegreeInSign(longitude) * 100) / 100,
+    longitude: Math.round(longitude * 1000) / 1000,
+    description: ''
+  };
+}
+
+/**
+ * Соединение, оппозиция или квадрат между точками в пределах орбиса техники
+ */
+function findRectificationAspect(point: string, longitude: number, target: string, targetLongitude: number, orb: number): Aspect | null {
+  const aspect = findAspect(
+    { name: point, longitude },
+    { name: target, longitude: targetLongitude },
+    { planetOrbs: { [point]: orb, [target]: orb }, includeMinor: false }
+  );
+  return aspect && RECTIFICATION_ASPECTS.includes(aspect.type) ? aspect : null;
+}
+
+/**
+ * Совпадения одного события с осями одного варианта времени
+ */
+function findEventHits(
+  prepared: PreparedEvent,
+  julianDay: number,
+  angles: Record<Axis, number>,
+  natal: PlanetsMap,
+  zodiac: ZodiacOptions
+): RectificationHit[] {
+  const hits: RectificationHit[] = [];
+  const addHit = (technique: RectificationTechnique, axis: Axis, point: string, longitude: number, target: string, targetLongitude: number) => {
+    const orb = TECHNIQUE_ORBS[technique];
+    const aspect = findRectificationAspect(point, longitude, target, targetLongitude, orb);
+    if (!aspect) return;
+
+    // Точный аспект — полный вес, на границе орбиса — половина
+    const tightness = 1 - aspect.orb / (2 * orb);
+    hits.push({
+      eventDate: prepared.event.date,
+      technique,
+      point,
+      target,
+      type: aspect.type,
+      orb: aspect.orb,
+      score: Math.round(TECHNIQUE_WEIGHTS[technique] * prepared.axisWeights[axis] * tightness * 100) / 100
+    });
+  };
+
+  // 1. Транзиты медленных планет к осям
+  for (const key of TRANSIT_PLANETS) {
+    const transit = prepared.transits[key];
+    if (!transit || typeof transit.longitude !== 'number') continue;
+    for (const axis of ['Ascendant', 'MC'] as Axis[]) {
+      addHit('transit', axis, transit.planet, transit.longitude, axis, angles[axis]);
+    }
+  }
+
+  // 2. Дирекции солнечной дуги: оси к натальным планетам и планеты к осям
+  const progressedJulianDay = getProgressedJulianDay(julianDay, prepared.date);
+  const natalSun = natal.sun!.longitude!;
+  const solarArc = normalizeAngle(calculateBodyState(progressedJulianDay, 'sun', zodiac).longitude - natalSun);
+
+  for (const axis of ['Ascendant', 'MC'] as Axis[]) {
+    const directedAxis = normalizeAngle(angles[axis] + solarArc);
+    for (const key of DIRECTED_PLANETS) {
+      const planet = natal[key];
+      if (!planet || typeof planet.longitude !== 'number') continue;
+      addHit('solar_arc', axis, axis, directedAxis, planet.planet, planet.longitude);
+      addHit('solar_arc', axis, planet.planet, normalizeAngle(planet.longitude + solarArc), axis, angles[axis]);
+    }
+  }
+
+  // 3. Прогрессивная Луна к осям
+  const progressedMoon = calculateBodyState(progressedJulianDay, 'moon', zodiac).longitude;
+  for (const axis of ['Ascendant', 'MC'] as Axis[]) {
+    addHit('progressed_moon', axis, 'Moon', progressedMoon, axis, angles[axis]);
+  }
+
+  return hits;
+}
+
+/**
+ * Подбирает вероятное время рождения по событиям жизни
+ *
+ * Перебирает местное время от timeFrom до timeTo с шагом stepMinutes и
+ * возвращает до limit лучших вариантов, различающихся Асцендентом хотя бы
+ * на MIN_ASCENDANT_SEPARATION градусов. confidence — доля score варианта
+ * среди возвращенных, умноженная на долю событий, которые он объясняет.
+ */
+export function rectifyBirthTime(input: RectificationInput): RectificationResult {
+  const startTime = Date.now();
+  const { birthDate, timeFrom, timeTo, location, events } = input;
+  const stepMinutes = input.stepMinutes ?? DEFAULT_STEP_MINUTES;
+  const limit = input.limit ?? DEFAULT_CANDIDATES_LIMIT;
+  const zodiac = input.zodiac || {};
+
+  // 1. Проверка входных данных
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(birthDate)) {
+    throw new Error('Invalid birth date format. Expected YYYY-MM-DD');
+  }
+  const fromMinutes = parseMinutes(timeFrom);
+  const toMinutes = parseMinutes(timeTo);
+  if (isNaN(fromMinutes) || isNaN(toMinutes) || fromMinutes > toMinutes) {
+    throw new Error('Invalid time window');
+  }
+  if (!Number.isInteger(stepMinutes) || stepMinutes < MIN_RECTIFICATION_STEP || stepMinutes > MAX_RECTIFICATION_STEP) {
+    throw new Error(`Step must be between ${MIN_RECTIFICATION_STEP} and ${MAX_RECTIFICATION_STEP} minutes`);
+  }
+  if (events.length === 0 || events.length > MAX_RECTIFICATION_EVENTS) {
+    throw new Error(`Between 1 and ${MAX_RECTIFICATION_EVENTS} events are required`);
+  }
+
+  log.info('Starting rectification', {
+    birthDate,
+    timeFrom,
+    timeTo,
+    timezone: location.timezone,
+    stepMinutes,
+    events: events.length
+  });
+
+  // 2. Транзиты на даты событий не зависят от времени рождения — считаются один раз
+  const preparedEvents: PreparedEvent[] = events.map(event => {
+    const date = new Date(`${event.date}T12:00:00Z`);
+    if (isNaN(date.getTime()) || event.date <= birthDate) {
+      throw new Error(`Invalid event date: ${event.date}`);
+    }
+    return {
+      event,
+      axisWeights: EVENT_AXIS_WEIGHTS[event.type || 'other'],
+      date,
+      transits: calculateEphemeris(date, zodiac).planets
+    };
+  });
+
+  // 3. Перебор моментов в окне
+  const scored: RectificationCandidate[] = [];
+  let checkedTimes = 0;
+  for (let minutes = fromMinutes; minutes <= toMinutes; minutes += stepMinutes) {
+    const time = formatMinutes(minutes);
+    const { utc, warning } = resolveLocalTime(`${birthDate}T${time}`, location.timezone);
+    // Пропущенного при переводе часов времени не было — такой момент уже есть среди соседних
+    if (warning?.type === 'nonexistent') continue;
+    checkedTimes++;
+
+    const julianDay = dateToJulianDay(utc);
+    const { ascendant, mc } = calculateAngles(julianDay, location.lat, location.lon, zodiac);
+    const natal = calculateEphemeris(utc, zodiac).planets;
+
+    const hits: RectificationHit[] = [];
+    let matchedEvents = 0;
+    for (const prepared of preparedEvents) {
+      const eventHits = findEventHits(prepared, julianDay, { Ascendant: ascendant, MC: mc }, natal, zodiac);
+      if (eventHits.length > 0) matchedEvents++;
+      hits.push(...eventHits);
+    }
+
+    scored.push({
+      time,
+      birthDateUtc: utc.toISOString(),
+      ascendant: createAnglePoint('Ascendant', ascendant),
+      mc: createAnglePoint('MC', mc),
+      score: Math.round(hits.reduce((sum, hit) => sum + hit.score, 0) * 100) / 100,
+      confidence: 0,
+      matchedEvents,
+      hits: hits.sort((a, b) => b.score - a.score)
+    });
+  }
+
+  // 4. Лучшие варианты с разными Асцендентами
+  const best: RectificationCandidate[] = [];
+  for (const candidate of scored.filter(c => c.score > 0).sort((a, b) => b.score - a.score)) {
+    if (best.length >= limit) break;
+    const isDuplicate = best.some(chosen =>
+      angularDistance(chosen.ascendant.longitude!, candidate.ascendant.longitude!) < MIN_ASCENDANT_SEPARATION
+    );
+    if (!isDuplicate) best.push(candidate);
+  }
+
+  const totalScore = best.reduce((sum, candidate) => sum + candidate.score, 0);
+  const candidates = best.map(candidate => ({
+    ...candidate,
+    confidence: Math.round((candidate.score / totalScore) * (candidate.matchedEvents / events.length) * 100) / 100
+  }));
+
+  log.info('Rectification completed', {
+    duration: `${Date.now() - startTime}ms`,
+    checkedTimes,
+    best: candidates.map(candidate => ({
+      time: candidate.time,
+      ascendant: `${candidate.ascendant.sign} ${candidate.ascendant.degree}`,
+      score: candidate.score,
+      confidence: candidate.confidence
+    }))
+  });
+
+  return {
+    birthDate,
+    timeFrom,
+    timeTo,
+    timezone: location.timezone,
+    stepMinutes,
+    checkedTimes,
+    eventsCount: events.length,
+    candidates
+  };
+}
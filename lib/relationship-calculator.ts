@@ -0,0 +1,293 @@
+/**
+ * Relationship Calculator
+ *
+ * Карты самих отношений пары, построенные из двух натальных карт:
+ * – композит — каждая точка берется в середине между точками партнеров
+ *   (по короткой дуге), у карты нет своего момента и места;
+ * – Дависон — обычная карта на момент посередине между рождениями
+ *   и на место посередине между местами рождения.
+ * Обе карты детерминированы: зависят только от натальных карт и мест рождения.
+ */
+
+import { calculateAspects, type AspectBody } from './aspects-calculator';
+import { calculateChartBalance } from './chart-balance';
+import {
+  calculateChartForMoment,
+  getDegreeInSign,
+  getHouseForLongitude,
+  getZodiacSign,
+  julianDayToDate,
+  removeTimeSensitivePoints,
+  type Coordinates
+} from './swisseph-calculator';
+import type { ChartPlanetKey, HouseCusp, NatalChartData, PlanetPosition, PlanetsMap, RelationshipChart } from '../types';
+
+// Logging utility
+const log = {
+  info: (message: string, data?: any) => {
+    console.log(`[RelationshipCalculator] ${message}`, data || '');
+  },
+  error: (message: string, error?: any) => {
+    console.error(`[RelationshipCalculator] ERROR: ${message}`, error || '');
+  },
+};
+
+function normalizeAngle(angle: number): number {
+  const normalized = angle % 360;
+  return normalized < 0 ? normalized + 360 : normalized;
+}
+
+function angularDistance(longitude1: number, longitude2: number): number {
+  const distance = normalizeAngle(longitude1 - longitude2);
+  return distance > 180 ? 360 - distance : distance;
+}
+
+/**
+ * Середина между двумя долготами по короткой дуге
+ *
+ * @example
+ * getMidpoint(350, 20) // 5
+ */
+export function getMidpoint(longitude1: number, longitude2: number): number {
+  const arc = normalizeAngle(longitude2 - longitude1);
+  return normalizeAngle(longitude1 + (arc > 180 ? arc - 360 : arc) / 2);
+}
+
+/**
+ * Середина между двумя местами по дуге большого круга
+ *
+ * Для диаметрально противоположных мест середина не определена —
+ * тогда берется простое среднее координат.
+ */
+export function getGeographicMidpoint(
+  place1: { lat: number; lon: number },
+  place2: { lat: number; lon: number }
+): { lat: number; lon: number } {
+  const toRadians = Math.PI / 180;
+  const toVector = ({ lat, lon }: { lat: number; lon: number }) => [
+    Math.cos(lat * toRadians) * Math.cos(lon * toRadians),
+    Math.cos(lat * toRadians) * Math.sin(lon * toRadians),
+    Math.sin(lat * toRadians)
+  ];
+
+  const [x1, y1, z1] = toVector(place1);
+  const [x2, y2, z2] = toVector(place2);
+  const x = (x1 + x2) / 2;
+  const y = (y1 + y2) / 2;
+  const z = (z1 + z2) / 2;
+
+  if (Math.hypot(x, y, z) < 1e-9) {
+    return { lat: (place1.lat + place2.lat) / 2, lon: (place1.lon + place2.lon) / 2 };
+  }
+
+  return {
+    lat: Math.atan2(z, Math.hypot(x, y)) / toRadians,
+    lon: Math.atan2(y, x) / toRadians
+  };
+}
+
+/**
+ * Карты пары должны быть в одном зодиаке, иначе середины долгот бессмысленны
+ */
+function assertSameZodiac(chart1: NatalChartData, chart2: NatalChartData): void {
+  const zodiac1 = `${chart1.zodiacType || 'tropical'}/${chart1.ayanamsa || ''}`;
+  const zodiac2 = `${chart2.zodiacType || 'tropical'}/${chart2.ayanamsa || ''}`;
+  if (zodiac1 !== zodiac2) {
+    throw new Error(`Charts are calculated in different zodiacs (${zodiac1} vs ${zodiac2})`);
+  }
+}
+
+function createCompositePoint(planet: string, description: string, longitude: number, cusps: number[] | null): PlanetPosition {
+  return {
+    planet,
+    sign: getZodiacSign(longitude),
+    degree: getDegreeInSign(longitude),
+    longitude,
+    ...(cusps ? { house: getHouseForLongitude(longitude, cusps) } : {}),
+    description
+  };
+}
+
+/**
+ * Куспиды композита: середины соответствующих куспидов партнеров
+ *
+ * Середина по короткой дуге может оказаться напротив нужной точки, поэтому
+ * Асцендент держится на восточной половине от MC, а каждый куспид — в той же
+ * четверти, что и Асцендент плюс 30° на дом.
+ */
+function calculateCompositeCusps(chart1: NatalChartData, chart2: NatalChartData): { cusps: number[]; ascendant: number; mc: number } {
+  const mc = getMidpoint(chart1.mc!.longitude!, chart2.mc!.longitude!);
+  let ascendant = getMidpoint(chart1.rising.longitude!, chart2.rising.longitude!);
+  if (normalizeAngle(ascendant - mc) > 180) {
+    ascendant = normalizeAngle(ascendant + 180);
+  }
+
+  const cusps = chart1.houses!.map((house, index) => {
+    const cusp = getMidpoint(house.longitude, chart2.houses![index].longitude);
+    return angularDistance(cusp, ascendant + index * 30) > 90 ? normalizeAngle(cusp + 180) : cusp;
+  });
+
+  return { cusps, ascendant, mc };
+}
+
+function hasTimedHouses(chart: NatalChartData): boolean {
+  return !chart.birthTimeUnknown && chart.houses?.length === 12 && typeof chart.mc?.longitude === 'number' &&
+    typeof chart.rising.longitude === 'number';
+}
+
+/**
+ * Композитная карта пары
+ *
+ * Планеты и узлы — середины между точками партнеров. Дома и оси строятся,
+ * только если время рождения известно у обоих; иначе карта помечается
+ * birthTimeUnknown, как натальная карта на полдень.
+ */
+export function calculateCompositeChart(chart1: NatalChartData, chart2: NatalChartData): RelationshipChart {
+  assertSameZodiac(chart1, chart2);
+  if (!chart1.planets || !chart2.planets) {
+    throw new Error('Natal chart has no planet positions, recalculate the chart');
+  }
+
+  // 1. Дома и оси (только при известном времени рождения у обоих)
+  const timeKnown = hasTimedHouses(chart1) && hasTimedHouses(chart2);
+  const houses = timeKnown ? calculateCompositeCusps(chart1, chart2) : null;
+  const cusps = houses?.cusps || null;
+
+  // 2. Планеты в серединах
+  const planets: PlanetsMap = {};
+  const aspectBodies: AspectBody[] = [];
+  for (const key of Object.keys(chart1.planets) as ChartPlanetKey[]) {
+    const position1 = chart1.planets[key];
+    const position2 = chart2.planets[key];
+    if (typeof position1?.longitude !== 'number' || typeof position2?.longitude !== 'number') continue;
+
+    const position = createCompositePoint(position1.planet, position1.description, getMidpoint(position1.longitude, position2.longitude), cusps);
+    planets[key] = position;
+    aspectBodies.push({ name: position.planet, longitude: position.longitude! });
+  }
+
+  const { sun, moon, mercury, venus, mars } = planets;
+  if (!sun || !moon) {
+    throw new Error('Failed to calculate composite Sun and Moon');
+  }
+
+  // 3. Оси: при неизвестном времени — середины осей для формы карты, без домов и аспектов
+  const ascendantLongitude = houses?.ascendant ?? getMidpoint(chart1.rising.longitude ?? 0, chart2.rising.longitude ?? 0);
+  const mcLongitude = houses?.mc ?? getMidpoint(chart1.mc?.longitude ?? 0, chart2.mc?.longitude ?? 0);
+  const createAxis = (source: PlanetPosition | undefined, planet: string, longitude: number, house: number | undefined) => ({
+    ...createCompositePoint(planet, source?.description || '', longitude, null),
+    ...(cusps ? { house } : {})
+  });
+  const rising = createAxis(chart1.rising, 'Ascendant', ascendantLongitude, 1);
+  const mc = createAxis(chart1.mc, 'MC', mcLongitude, cusps ? getHouseForLongitude(mcLongitude, cusps) : undefined);
+  const ic = createAxis(chart1.ic, 'IC', normalizeAngle(mcLongitude + 180), cusps ? getHouseForLongitude(mcLongitude + 180, cusps) : undefined);
+  const dc = createAxis(chart1.dc, 'DC', normalizeAngle(ascendantLongitude + 180), 7);
+  if (cusps) {
+    aspectBodies.push({ name: 'Ascendant', longitude: ascendantLongitude }, { name: 'MC', longitude: mcLongitude });
+  }
+
+  // 4. Аспекты и баланс композита
+  const aspects = calculateAspects(aspectBodies);
+  const balance = calculateChartBalance({ sun, moon, rising, mc, planets, aspects, birthTimeUnknown: !timeKnown });
+  const houseCusps: HouseCusp[] = (cusps || []).map((cusp, index) => ({
+    house: index + 1,
+    sign: getZodiacSign(cusp),
+    degree: getDegreeInSign(cusp),
+    longitude: cusp
+  }));
+
+  log.info('Composite chart calculated', {
+    sun: sun.sign,
+    moon: moon.sign,
+    rising: timeKnown ? rising.sign : null,
+    aspects: aspects.length
+  });
+
+  return {
+    type: 'composite',
+    chart: {
+      sun,
+      moon,
+      rising,
+      mercury: mercury || null,
+      venus: venus || null,
+      mars: mars || null,
+      planets,
+      ...(timeKnown ? {} : { birthTimeUnknown: true }),
+      mc,
+      ic,
+      dc,
+      houses: houseCusps,
+      aspects,
+      ...(timeKnown && chart1.houseSystem ? { houseSystem: chart1.houseSystem } : {}),
+      zodiacType: chart1.zodiacType,
+      ...(chart1.ayanamsa ? { ayanamsa: chart1.ayanamsa } : {}),
+      element: balance.dominantElement,
+      rulingPlanet: balance.chartRuler,
+      balance,
+      summary: `Composite chart: ${sun.sign} Sun, ${moon.sign} Moon${timeKnown ? `, ${rising.sign} Rising` : ', Rising and houses require both birth times'}.`
+    }
+  };
+}
+
+/**
+ * Карта Дависона: момент посередине между рождениями, место посередине между местами рождения
+ *
+ * Если у кого-то неизвестно время рождения, момент середины известен
+ * с точностью до полусуток: дома и оси убираются, как у карты на полдень.
+ */
+export async function calculateDavisonChart(
+  chart1: NatalChartData,
+  chart2: NatalChartData,
+  place1: Coordinates,
+  place2: Coordinates
+): Promise<RelationshipChart> {
+  assertSameZodiac(chart1, chart2);
+  if (!chart1.julianDay || !chart2.julianDay) {
+    throw new Error('Natal chart has no birth moment (julianDay), recalculate the chart');
+  }
+
+  // 1. Середина по времени и месту
+  const date = julianDayToDate((chart1.julianDay + chart2.julianDay) / 2);
+  const location = getGeographicMidpoint(place1, place2);
+
+  // 2. Обычная карта на этот момент в зодиаке и системе домов пары
+  const chart = await calculateChartForMoment(date, { ...location, timezone: 'UTC' }, {
+    houseSystem: chart1.requestedHouseSystem || chart1.houseSystem,
+    nodeType: chart1.nodeType,
+    zodiacType: chart1.zodiacType,
+    ayanamsa: chart1.ayanamsa
+  });
+  const timeKnown = !chart1.birthTimeUnknown && !chart2.birthTimeUnknown;
+  const davisonChart = timeKnown ? chart : { ...removeTimeSensitivePoints(chart), birthTimeUnknown: true };
+
+  log.info('Davison chart calculated', {
+    date: date.toISOString(),
+    location: `${location.lat.toFixed(2)}, ${location.lon.toFixed(2)}`,
+    timeKnown
+  });
+
+  return {
+    type: 'davison',
+    date: date.toISOString(),
+    location,
+    chart: {
+      ...davisonChart,
+      summary: `Davison chart for ${date.toISOString()} at ${location.lat.toFixed(2)}, ${location.lon.toFixed(2)}: ${davisonChart.sun.sign} Sun, ${davisonChart.moon.sign} Moon${timeKnown ? `, ${davisonChart.rising.sign} Rising` : ', Rising and houses require both birth times'}.`
+    }
+  };
+}
+
+/**
+ * Композит и Дависон для пары
+ */
+export async function calculateRelationshipCharts(
+  chart1: NatalChartData,
+  chart2: NatalChartData,
+  place1: Coordinates,
+  place2: Coordinates
+): Promise<{ composite: RelationshipChart; davison: RelationshipChart }> {
+  const composite = calculateCompositeChart(chart1, chart2);
+  const davison = await calculateDavisonChart(chart1, chart2, place1, place2);
+  return { composite, davison };
+}
@@ -0,0 +1,256 @@
+/**
+ * Returns Calculator
+ *
+ * Карты возвращений: соляр (Солнце возвращается к натальной долготе)
+ * и лунар (то же для Луны, раз в ~27,3 суток). Момент возвращения ищется
+ * по swe_calc_ut, карта строится на выбранное место в форме натальной.
+ * Долготы и карта возвращения берутся в зодиаке натальной карты: в сидерическом
+ * зодиаке соляр наступает позже тропического на ~20 минут за каждый год жизни.
+ */
+
+import {
+  calculateBodyState,
+  calculateChartForMoment,
+  dateToJulianDay,
+  getCoordinates,
+  julianDayToDate,
+  Coordinates,
+  NatalChartOptions,
+  ZodiacOptions
+} from './swisseph-calculator';
+import type { NatalChartData, ReturnChart, ReturnChartType } from '../types';
+
+// Logging utility
+const log = {
+  info: (message: string, data?: any) => {
+    console.log(`[ReturnsCalculator] ${message}`, data || '');
+  },
+  error: (message: string, error?: any) => {
+    console.error(`[ReturnsCalculator] ERROR: ${message}`, error || '');
+  },
+};
+
+// Средние скорости по долготе, градусов в сутки — для начального приближения
+const MEAN_SPEEDS: Record<ReturnChartType, number> = {
+  solar: 0.985647,
+  lunar: 13.176358
+};
+
+const RETURN_BODIES: Record<ReturnChartType, 'sun' | 'moon'> = {
+  solar: 'sun',
+  lunar: 'moon'
+};
+
+// Точность поиска в градусах долготы (~0.1 с для Солнца)
+const RETURN_PRECISION = 1e-6;
+const MAX_RETURN_ITERATIONS = 20;
+
+// Сколько лунаров в солярном году (иногда 14)
+const MAX_LUNAR_RETURNS_PER_YEAR = 14;
+
+function normalizeAngle(angle: number): number {
+  const normalized = angle % 360;
+  return normalized < 0 ? normalized + 360 : normalized;
+}
+
+function normalizeDelta(delta: number): number {
+  let normalized = normalizeAngle(delta);
+  if (normalized > 180) normalized -= 360;
+  return normalized;
+}
+
+/**
+ * Находит ближайший момент после startDate, когда Солнце или Луна
+ * проходит заданную долготу
+ *
+ * Начальное приближение — по средней скорости, затем метод Ньютона по
+ * скорости из swe_calc_ut. Солнце и Луна не бывают ретроградными,
+ * поэтому долгота проходится ровно один раз за цикл.
+ */
+export function findReturnMoment(
+  type: ReturnChartType,
+  targetLongitude: number,
+  startDate: Date,
+  zodiac: ZodiacOptions = {}
+): Date {
+  if (!(startDate instanceof Date) || isNaN(startDate.getTime())) {
+    throw new Error('Invalid start date for return search');
+  }
+
+  const body = RETURN_BODIES[type];
+  const startJulianDay = dateToJulianDay(startDate);
+
+  // 1. Грубая оценка по средней скорости
+  const delta = normalizeAngle(targetLongitude - calculateBodyState(startJulianDay, body, zodiac).longitude);
+  let julianDay = startJulianDay + delta / MEAN_SPEEDS[type];
+
+  // 2. Уточнение методом Ньютона
+  for (let i = 0; i < MAX_RETURN_ITERATIONS; i++) {
+    const state = calculateBodyState(julianDay, body, zodiac);
+    const diff = normalizeDelta(targetLongitude - state.longitude);
+    if (Math.abs(diff) < RETURN_PRECISION) {
+      break;
+    }
+    julianDay += diff / state.speed;
+  }
+
+  // 3. Уточнение могло уйти за стартовую дату — тогда берем следующий цикл
+  if (julianDay < startJulianDay) {
+    return findReturnMoment(type, targetLongitude, julianDayToDate(startJulianDay + 1), zodiac);
+  }
+
+  return julianDayToDate(julianDay);
+}
+
+function getNatalLongitude(natalChart: NatalChartData, type: ReturnChartType): number {
+  const position = type === 'solar' ? natalChart.sun : natalChart.moon;
+  if (typeof position?.longitude !== 'number') {
+    throw new Error(`Natal chart has no ${type === 'solar' ? 'Sun' : 'Moon'} longitude; recalculate the chart`);
+  }
+  return position.longitude;
+}
+
+/**
+ * Параметры карты возвращения: зодиак всегда натальный, иначе долготы не сравнимы
+ */
+function getReturnOptions(natalChart: NatalChartData, options: NatalChartOptions): NatalChartOptions {
+  return { ...options, zodiacType: natalChart.zodiacType, ayanamsa: natalChart.ayanamsa };
+}
+
+// Место карты возвращения: название для геокодинга или готовые координаты (с подписью)
+export type ReturnLocation = string | (Coordinates & { name?: string });
+
+/**
+ * Координаты места и его подпись: название геокодируется, координаты берутся как есть
+ */
+async function resolveReturnLocation(location: ReturnLocation): Promise<{ coords: Coordinates; label: string }> {
+  if (typeof location === 'string') {
+    return { coords: await getCoordinates(location), label: location };
+  }
+  const { name, ...coords } = location;
+  return { coords, label: name || `${coords.lat.toFixed(4)}, ${coords.lon.toFixed(4)}` };
+}
+
+async function createReturnChart(
+  type: ReturnChartType,
+  returnDate: Date,
+  coords: Coordinates,
+  location: string,
+  options: NatalChartOptions
+): Promise<ReturnChart> {
+  const chart = await calculateChartForMoment(returnDate, coords, options);
+  return {
+    type,
+    returnDate: returnDate.toISOString(),
+    location,
+    chart: {
+      ...chart,
+      summary: `${type === 'solar' ? 'Solar' : 'Lunar'} return for ${returnDate.toISOString()} in ${location}: ${chart.rising.sign} Rising, Sun in house ${chart.sun.house}, Moon in ${chart.moon.sign} (house ${chart.moon.house}).`
+    }
+  };
+}
+
+/**
+ * Соляр на указанный год: карта на момент возвращения Солнца к натальной долготе
+ *
+ * Поиск начинается за 3 дня до дня рождения в этом году, чтобы не пропустить
+ * возвращение, выпадающее на соседнюю календарную дату.
+ */
+export async function calculateSolarReturn(
+  natalChart: NatalChartData,
+  year: number,
+  location: ReturnLocation,
+  options: NatalChartOptions = {}
+): Promise<ReturnChart> {
+  if (!natalChart.birthDateUtc) {
+    throw new Error('Natal chart has no birth moment (birthDateUtc); recalculate the chart');
+  }
+  if (!Number.isInteger(year)) {
+    throw new Error(`Invalid year for solar return: ${year}`);
+  }
+
+  const birth = new Date(natalChart.birthDateUtc);
+  const searchStart = new Date(Date.UTC(year, birth.getUTCMonth(), birth.getUTCDate()) - 3 * 86400000);
+  if (searchStart.getTime() < birth.getTime()) {
+    throw new Error('Solar return year must be after the birth year');
+  }
+
+  const returnOptions = getReturnOptions(natalChart, options);
+  const returnDate = findReturnMoment('solar', getNatalLongitude(natalChart, 'solar'), searchStart, returnOptions);
+  const { coords, label } = await resolveReturnLocation(location);
+
+  log.info('Solar return found', { year, returnDate: returnDate.toISOString(), location: label, zodiacType: natalChart.zodiacType || 'tropical' });
+
+  return createReturnChart('solar', returnDate, coords, label, returnOptions);
+}
+
+/**
+ * Моменты лунаров подряд начиная с даты: не больше count и строго до endDate
+ */
+function findLunarReturnDates(natalMoon: number, startDate: Date, count: number, zodiac: ZodiacOptions, endDate?: Date): Date[] {
+  const dates: Date[] = [];
+  let searchFrom = startDate;
+  while (dates.length < count) {
+    const returnDate = findReturnMoment('lunar', natalMoon, searchFrom, zodiac);
+    if (endDate && returnDate >= endDate) break;
+    dates.push(returnDate);
+    // Следующий лунар не раньше чем через ~27 суток
+    searchFrom = new Date(returnDate.getTime() + 86400000);
+  }
+  return dates;
+}
+
+async function createLunarReturnCharts(
+  dates: Date[],
+  location: ReturnLocation,
+  options: NatalChartOptions
+): Promise<ReturnChart[]> {
+  if (dates.length === 0) return [];
+
+  // Место геокодируется один раз для всей серии
+  const { coords, label } = await resolveReturnLocation(location);
+  const returns: ReturnChart[] = [];
+  for (const returnDate of dates) {
+    returns.push(await createReturnChart('lunar', returnDate, coords, label, options));
+  }
+
+  log.info('Lunar returns calculated', { count: returns.length, first: returns[0].returnDate, location: label });
+  return returns;
+}
+
+/**
+ * Лунары подряд начиная с указанной даты (по умолчанию один — ближайший)
+ */
+export async function calculateLunarReturns(
+  natalChart: NatalChartData,
+  startDate: Date,
+  location: ReturnLocation,
+  count: number = 1,
+  options: NatalChartOptions = {}
+): Promise<ReturnChart[]> {
+  if (!Number.isInteger(count) || count < 1 || count > MAX_LUNAR_RETURNS_PER_YEAR) {
+    throw new Error(`Lunar returns count must be between 1 and ${MAX_LUNAR_RETURNS_PER_YEAR}`);
+  }
+
+  const returnOptions = getReturnOptions(natalChart, options);
+  const dates = findLunarReturnDates(getNatalLongitude(natalChart, 'lunar'), startDate, count, returnOptions);
+  return createLunarReturnCharts(dates, location, returnOptions);
+}
+
+/**
+ * Лунары, попадающие в солярный год (от соляра до следующего возвращения Солнца)
+ */
+export async function calculateLunarReturnsForSolarYear(
+  natalChart: NatalChartData,
+  solarReturn: ReturnChart,
+  location: ReturnLocation,
+  options: NatalChartOptions = {}
+): Promise<ReturnChart[]> {
+  const start = new Date(solarReturn.returnDate);
+  const returnOptions = getReturnOptions(natalChart, options);
+  // Следующий соляр ищем с запасом после ~300 дней, чтобы не найти текущий
+  const nextSolarReturn = findReturnMoment('solar', getNatalLongitude(natalChart, 'solar'), new Date(start.getTime() + 300 * 86400000), returnOptions);
+
+  const dates = findLunarReturnDates(getNatalLongitude(natalChart, 'lunar'), start, MAX_LUNAR_RETURNS_PER_YEAR, returnOptions, nextSolarReturn);
+  return createLunarReturnCharts(dates, location, returnOptions);
+}
@@ -5,7 +5,6 @@
 import axios from 'axios';
 import path from 'path';
 import tzLookup from 'tz-lookup';
-import { fromZonedTime, toZonedTime } from 'date-fns-tz';
 import * as swisseph from 'swisseph-v2';
 
 const IS_SERVER = typeof window === 'undefined';
@@ -24,7 +23,14 @@ const log = {
 };
 
 // Импортируем централизованные данные о знаках зодиака
-import { ZODIAC_SIGNS, getElementForSign as getElementForSignUtil, getRulingPlanet as getRulingPlanetUtil, getApproximateSunSignByDate, type ZodiacSign } from './zodiac-utils';
+import { ZODIAC_SIGNS, AYANAMSA_NAMES, getApproximateSunSignByDate, getNakshatra } from './zodiac-utils';
+import { calculateChartBalance } from './chart-balance';
+import { calculateAspects, type AspectBody } from './aspects-calculator';
+import { COUNTRY_NAMES, findPlace, formatPlaceName, getPlaceCacheKey, searchPlaces } from './gazetteer';
+import { db } from './db';
+import { normalizeUtcOffset, validateLatitude, validateLongitude, validateTimezone } from './validation';
+import { resolveLocalTime } from './local-time';
+import type { Aspect, Ayanamsa, ChartBalance, ChartPlanetKey, EclipseKind, EclipseType, GeocodeSource, HouseCusp, HouseSystem, LocalTimeChoice, LocalTimeWarning, LunarNodeType, MoonDayRange, NakshatraPosition, PlaceCandidate, ZodiacType } from '../types';
 
 // Планеты Swiss Ephemeris
 const PLANETS = {
@@ -38,21 +44,115 @@ const PLANETS = {
   URANUS: 7,
   NEPTUNE: 8,
   PLUTO: 9,
+  MEAN_NODE: 10,
+  TRUE_NODE: 11,
+  MEAN_APOG: 12, // Черная Луна Лилит (средний апогей)
+  CHIRON: 15, // Требует файл seas_18.se1
 };
 
-interface Coordinates {
+/**
+ * Точки, которые рассчитываются в натальной карте (узлы добавляются отдельно)
+ */
+const CHART_PLANETS: { key: ChartPlanetKey; id: number; name: string }[] = [
+  { key: 'sun', id: PLANETS.SUN, name: 'Sun' },
+  { key: 'moon', id: PLANETS.MOON, name: 'Moon' },
+  { key: 'mercury', id: PLANETS.MERCURY, name: 'Mercury' },
+  { key: 'venus', id: PLANETS.VENUS, name: 'Venus' },
+  { key: 'mars', id: PLANETS.MARS, name: 'Mars' },
+  { key: 'jupiter', id: PLANETS.JUPITER, name: 'Jupiter' },
+  { key: 'saturn', id: PLANETS.SATURN, name: 'Saturn' },
+  { key: 'uranus', id: PLANETS.URANUS, name: 'Uranus' },
+  { key: 'neptune', id: PLANETS.NEPTUNE, name: 'Neptune' },
+  { key: 'pluto', id: PLANETS.PLUTO, name: 'Pluto' },
+  { key: 'chiron', id: PLANETS.CHIRON, name: 'Chiron' },
+  { key: 'lilith', id: PLANETS.MEAN_APOG, name: 'Lilith' },
+];
+
+export const DEFAULT_NODE_TYPE: LunarNodeType = 'true';
+
+/**
+ * Коды систем домов Swiss Ephemeris
+ */
+export const HOUSE_SYSTEM_CODES: Record<HouseSystem, string> = {
+  placidus: 'P',
+  koch: 'K',
+  whole_sign: 'W',
+  equal: 'E',
+  porphyry: 'O',
+  regiomontanus: 'R',
+};
+
+export const DEFAULT_HOUSE_SYSTEM: HouseSystem = 'placidus';
+
+/**
+ * Коды аянамс Swiss Ephemeris для сидерического зодиака
+ */
+export const AYANAMSA_CODES: Record<Ayanamsa, number> = {
+  lahiri: swisseph.SE_SIDM_LAHIRI,
+  raman: swisseph.SE_SIDM_RAMAN,
+  fagan_bradley: swisseph.SE_SIDM_FAGAN_BRADLEY,
+};
+
+export const DEFAULT_ZODIAC_TYPE: ZodiacType = 'tropical';
+export const DEFAULT_AYANAMSA: Ayanamsa = 'lahiri';
+
+/**
+ * Зодиак расчета: тропический или сидерический с выбранной аянамсой
+ */
+export interface ZodiacOptions {
+  zodiacType?: ZodiacType;
+  ayanamsa?: Ayanamsa; // Только для сидерического зодиака
+}
+
+/**
+ * Системы домов, которые используются, если запрошенная не считается
+ * (Плацидус и Кох не определены за полярным кругом)
+ */
+const POLAR_FALLBACK_HOUSE_SYSTEMS: HouseSystem[] = ['porphyry', 'whole_sign'];
+
+export interface Coordinates {
   lat: number;
   lon: number;
   timezone: string;
 }
 
+/**
+ * Место рождения, заданное координатами вместо названия (геокодинг не нужен)
+ *
+ * timezone — IANA ("Europe/Moscow") или смещение от UTC ("UTC+3", "+03:00");
+ * если не задан, определяется по координатам.
+ */
+export interface BirthLocation {
+  lat: number;
+  lon: number;
+  timezone?: string;
+  name?: string;
+}
+
 interface PlanetPosition {
   planet: string;
   sign: string;
   degree: number;
+  longitude: number;
+  speed?: number;
+  isRetrograde?: boolean;
+  isStationary?: boolean;
+  house?: number;
   description: string;
 }
 
+type ChartPlanets = Partial<Record<ChartPlanetKey, PlanetPosition>>;
+
+/**
+ * Результат расчета домов: куспиды и углы карты (в абсолютных долготах)
+ */
+interface HousesData {
+  cusps: number[];
+  ascendant: number;
+  mc: number;
+  system: HouseSystem;
+}
+
 // Глобальная инициализация Swiss Ephemeris
 let sweInstance: any = null;
 let isInitialized = false;
@@ -62,7 +162,6 @@ let isInitialized = false;
  */
 function initSwissEph() {
   if (isInitialized && sweInstance) {
-    log.info('Swiss Ephemeris already initialized, reusing instance');
     return sweInstance;
   }
 
@@ -172,7 +271,10 @@ function getNativeCalculator() {
 
 /**
  * Конвертирует локальное время в UTC с учетом реального часового пояса
- * Использует date-fns-tz для точной конвертации
+ * (по истории пояса IANA, см. lib/local-time)
+ *
+ * Если время попало на перевод часов, выбирается момент по choice и
+ * возвращается предупреждение со всеми возможными моментами.
  */
 function convertLocalTimeToUTC(
   year: number,
@@ -180,19 +282,19 @@ function convertLocalTimeToUTC(
   day: number,
   hour: number,
   minute: number,
-  timezone: string
-): { utcYear: number; utcMonth: number; utcDay: number; utcHour: number; utcMinute: number; utcTimeInHours: number } {
+  timezone: string,
+  choice?: LocalTimeChoice
+): { utcYear: number; utcMonth: number; utcDay: number; utcHour: number; utcMinute: number; utcTimeInHours: number; warning?: LocalTimeWarning } {
   try {
-    const dateString = `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}T${String(hour).padStart(2, '0')}:${String(minute).padStart(2, '0')}:00`;
+    const localTime = `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}T${String(hour).padStart(2, '0')}:${String(minute).padStart(2, '0')}`;
     
     log.info('Converting local time to UTC', {
       input: { year, month, day, hour, minute },
       timezone,
-      dateString
+      localTime
     });
     
-    const utcDate = fromZonedTime(dateString, timezone);
-    const localInTimezone = toZonedTime(utcDate, timezone);
+    const { utc: utcDate, offset, warning } = resolveLocalTime(localTime, timezone, choice);
     
     const utcYear = utcDate.getUTCFullYear();
     const utcMonth = utcDate.getUTCMonth() + 1;
@@ -201,16 +303,10 @@ function convertLocalTimeToUTC(
     const utcMinute = utcDate.getUTCMinutes();
     const utcTimeInHours = utcHour + utcMinute / 60.0;
     
-    const verificationPassed = 
-      localInTimezone.getFullYear() === year &&
-      localInTimezone.getMonth() + 1 === month &&
-      localInTimezone.getDate() === day &&
-      localInTimezone.getHours() === hour &&
-      localInTimezone.getMinutes() === minute;
-    
     log.info('✓ Converted local time to UTC successfully', {
       local: { year, month, day, hour, minute },
       timezone,
+      offset,
       utc: { 
         year: utcYear, 
         month: utcMonth, 
@@ -219,28 +315,21 @@ function convertLocalTimeToUTC(
         minute: utcMinute, 
         timeInHours: utcTimeInHours.toFixed(4) 
       },
-      dateShift: (utcDay !== day || utcMonth !== month || utcYear !== year) ? 'Date shifted due to timezone' : 'Same date',
-      verification: {
-        localInTimezone: `${localInTimezone.getFullYear()}-${String(localInTimezone.getMonth() + 1).padStart(2, '0')}-${String(localInTimezone.getDate()).padStart(2, '0')} ${String(localInTimezone.getHours()).padStart(2, '0')}:${String(localInTimezone.getMinutes()).padStart(2, '0')}`,
-        desired: `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')} ${String(hour).padStart(2, '0')}:${String(minute).padStart(2, '0')}`,
-        passed: verificationPassed ? '✓ PASS' : '✗ FAIL'
-      }
+      dateShift: (utcDay !== day || utcMonth !== month || utcYear !== year) ? 'Date shifted due to timezone' : 'Same date'
     });
     
-    if (!verificationPassed) {
-      log.error('❌ CRITICAL: Timezone conversion verification failed!', {
-        expected: { year, month, day, hour, minute },
-        got: { 
-          year: localInTimezone.getFullYear(),
-          month: localInTimezone.getMonth() + 1,
-          day: localInTimezone.getDate(),
-          hour: localInTimezone.getHours(),
-          minute: localInTimezone.getMinutes()
-        }
+    if (warning) {
+      log.warn('Local time falls on a clock change', {
+        type: warning.type,
+        localTime,
+        timezone,
+        candidates: warning.candidates,
+        choice: warning.choice,
+        isDefaultChoice: warning.isDefaultChoice
       });
     }
     
-    return { utcYear, utcMonth, utcDay, utcHour, utcMinute, utcTimeInHours };
+    return { utcYear, utcMonth, utcDay, utcHour, utcMinute, utcTimeInHours, warning };
   } catch (error: any) {
     log.error('Error converting local time to UTC', { error: error.message, timezone, year, month, day, hour, minute });
     throw new Error(`Failed to convert time with timezone ${timezone}: ${error.message}`);
@@ -248,56 +337,157 @@ function convertLocalTimeToUTC(
 }
 
 /**
- * Получение координат и часового пояса по названию места через геокодинг
+ * Разрешен ли запрос к Nominatim, если места нет в офлайн-справочнике
+ * (GEOCODING_NOMINATIM_FALLBACK=false отключает сеть полностью)
+ */
+function isNominatimFallbackEnabled(): boolean {
+  return process.env.GEOCODING_NOMINATIM_FALLBACK !== 'false';
+}
+
+/**
+ * Получение координат и часового пояса по названию места
+ *
+ * Порядок: кэш геокодинга в БД (в том числе исправления администратора),
+ * точное совпадение в офлайн-справочнике (lib/gazetteer), и только потом
+ * Nominatim, если это разрешено настройками. Найденное место сохраняется в кэш.
  */
 export async function getCoordinates(placeName: string): Promise<Coordinates> {
+  const placeKey = getPlaceCacheKey(placeName);
+
+  // 1. Кэш геокодинга (ошибки БД не должны мешать расчету карты)
   try {
-    log.info('Getting coordinates and timezone for place', { placeName });
-    
-    const url = 'https://nominatim.openstreetmap.org/search';
-    
-    let response;
-    try {
-      response = await axios.get(url, {
-        params: {
-          q: placeName,
-          format: 'json',
-          limit: 1,
-          addressdetails: 1
-        },
-        headers: {
-          'User-Agent': 'AstrotApp/1.0 (https://astrot.app)',
-          'Accept': 'application/json',
-          'Accept-Language': 'en-US,en;q=0.9,ru;q=0.8'
-        },
-        timeout: 15000
-      });
-    } catch (axiosError: any) {
-      log.error('Error fetching coordinates from Nominatim', {
+    const cached = placeKey ? await db.geocodeCache.get(placeKey) : null;
+    if (cached) {
+      log.info('Coordinates found in geocode cache', {
         placeName,
-        error: axiosError.message,
-        code: axiosError.code,
-        response: axiosError.response?.data
+        placeKey,
+        source: cached.source,
+        lat: cached.lat,
+        lon: cached.lon,
+        timezone: cached.timezone
       });
-      
-      if (axiosError.code === 'ECONNABORTED' || axiosError.message?.includes('timeout')) {
-        throw new Error(`Timeout getting coordinates for location: ${placeName}. Please check your internet connection and try again.`);
-      }
-      
-      // Проверяем если это ошибка rate limit от Nominatim
-      if (axiosError.response?.status === 429) {
-        throw new Error(`Too many requests to map service. Please wait a moment and try again.`);
-      }
-      
-      throw new Error(`Network error getting coordinates for ${placeName}: ${axiosError.message}`);
+      return { lat: cached.lat, lon: cached.lon, timezone: cached.timezone };
+    }
+  } catch (cacheError: any) {
+    log.warn('Failed to read geocode cache', { placeName, error: cacheError.message });
+  }
+
+  // 2. Офлайн-справочник: только точное совпадение названия и всех уточнений,
+  // иначе в кэш под запросом пользователя попал бы чужой город
+  const match = findPlace(placeName);
+  if (match) {
+    const { lat, lon, timezone } = match.place;
+    log.info('Coordinates found in gazetteer', {
+      placeName,
+      match: formatPlaceName(match.place),
+      score: match.score,
+      lat,
+      lon,
+      timezone
+    });
+    await saveToGeocodeCache(placeKey, placeName, { lat, lon, timezone }, formatPlaceName(match.place), 'gazetteer');
+    return { lat, lon, timezone };
+  }
+
+  // 3. Nominatim
+  if (!isNominatimFallbackEnabled()) {
+    log.warn('Place not found in gazetteer, Nominatim fallback disabled', { placeName });
+    throw new Error(`Location not found: ${placeName}. Please check the spelling and try again (e.g., "Moscow, Russia" or "Москва, Россия").`);
+  }
+
+  const { coords, displayName } = await getCoordinatesFromNominatim(placeName);
+  await saveToGeocodeCache(placeKey, placeName, coords, displayName, 'nominatim');
+  return coords;
+}
+
+/**
+ * Сохраняет найденное место в кэш геокодинга (без БД ничего не делает)
+ */
+async function saveToGeocodeCache(
+  placeKey: string,
+  query: string,
+  coords: Coordinates,
+  displayName: string | undefined,
+  source: GeocodeSource
+): Promise<void> {
+  if (!placeKey || !process.env.DATABASE_URL) return;
+
+  try {
+    await db.geocodeCache.set({ placeKey, query, ...coords, displayName, source });
+  } catch (cacheError: any) {
+    log.warn('Failed to save geocode cache entry', { placeKey, error: cacheError.message });
+  }
+}
+
+/**
+ * Запрос к Nominatim: до limit результатов с адресом (ошибки сети переводятся в понятные сообщения)
+ */
+async function fetchNominatimResults(placeName: string, limit: number): Promise<any[]> {
+  const url = 'https://nominatim.openstreetmap.org/search';
+
+  try {
+    const response = await axios.get(url, {
+      params: {
+        q: placeName,
+        format: 'json',
+        limit,
+        addressdetails: 1
+      },
+      headers: {
+        'User-Agent': 'AstrotApp/1.0 (https://astrot.app)',
+        'Accept': 'application/json',
+        'Accept-Language': 'en-US,en;q=0.9,ru;q=0.8'
+      },
+      timeout: 15000
+    });
+    return Array.isArray(response.data) ? response.data : [];
+  } catch (axiosError: any) {
+    log.error('Error fetching coordinates from Nominatim', {
+      placeName,
+      error: axiosError.message,
+      code: axiosError.code,
+      response: axiosError.response?.data
+    });
+    
+    if (axiosError.code === 'ECONNABORTED' || axiosError.message?.includes('timeout')) {
+      throw new Error(`Timeout getting coordinates for location: ${placeName}. Please check your internet connection and try again.`);
+    }
+    
+    // Проверяем если это ошибка rate limit от Nominatim
+    if (axiosError.response?.status === 429) {
+      throw new Error(`Too many requests to map service. Please wait a moment and try again.`);
     }
+    
+    throw new Error(`Network error getting coordinates for ${placeName}: ${axiosError.message}`);
+  }
+}
 
-    if (!response.data || response.data.length === 0) {
-      log.warn('No location found in Nominatim response', { placeName, responseData: response.data });
+/**
+ * Часовой пояс по координатам (UTC, если определить не удалось)
+ */
+function lookupTimezone(lat: number, lon: number): string {
+  try {
+    return tzLookup(lat, lon);
+  } catch (tzError: any) {
+    log.warn('Failed to determine timezone, using UTC', { lat, lon, error: tzError.message });
+    return 'UTC';
+  }
+}
+
+/**
+ * Получение координат и часового пояса по названию места через Nominatim
+ */
+async function getCoordinatesFromNominatim(placeName: string): Promise<{ coords: Coordinates; displayName?: string }> {
+  try {
+    log.info('Getting coordinates and timezone from Nominatim', { placeName });
+
+    const results = await fetchNominatimResults(placeName, 1);
+    if (results.length === 0) {
+      log.warn('No location found in Nominatim response', { placeName });
       throw new Error(`Location not found: ${placeName}. Please check the spelling and try again (e.g., "Moscow, Russia" or "Москва, Россия").`);
     }
 
-    const location = response.data[0];
+    const location = results[0];
     const lat = parseFloat(location.lat);
     const lon = parseFloat(location.lon);
 
@@ -305,29 +495,171 @@ export async function getCoordinates(placeName: string): Promise<Coordinates> {
       throw new Error(`Invalid coordinates received for location: ${placeName}`);
     }
 
-    let timezone: string;
-    try {
-      timezone = tzLookup(lat, lon);
-      log.info('Timezone determined accurately', { lat, lon, timezone, placeName });
-    } catch (tzError: any) {
-      log.warn('Failed to determine timezone, using UTC', { error: tzError.message });
-      timezone = 'UTC';
-    }
+    const timezone = lookupTimezone(lat, lon);
 
     log.info('Coordinates and timezone found', { lat, lon, timezone, placeName, displayName: location.display_name });
 
-    return { lat, lon, timezone };
+    return { coords: { lat, lon, timezone }, displayName: location.display_name };
   } catch (error: any) {
     log.error('Error getting coordinates', error);
     throw error;
   }
 }
 
+// Кандидаты ближе этого расстояния (в градусах) считаются одним и тем же местом
+const CANDIDATE_DUPLICATE_DISTANCE = 0.1;
+
+function createNominatimCandidate(result: any): PlaceCandidate | null {
+  const lat = parseFloat(result.lat);
+  const lon = parseFloat(result.lon);
+  if (isNaN(lat) || isNaN(lon)) return null;
+
+  const address = result.address || {};
+  const countryCode = String(address.country_code || '').toUpperCase();
+  return {
+    name: result.name || address.city || address.town || address.village || String(result.display_name || '').split(',')[0],
+    displayName: result.display_name || '',
+    country: address.country || countryCode,
+    countryCode,
+    region: address.state || address.region || undefined,
+    lat,
+    lon,
+    timezone: lookupTimezone(lat, lon),
+    source: 'nominatim'
+  };
+}
+
+/**
+ * Несколько мест, подходящих под название, — для выбора пользователем
+ *
+ * Сначала офлайн-справочник, затем (если разрешено) Nominatim. Совпадающие
+ * по координатам места не дублируются. Ошибка Nominatim не мешает вернуть
+ * найденное в справочнике.
+ */
+export async function searchPlaceCandidates(
+  query: string,
+  limit: number = 5,
+  language: 'ru' | 'en' = 'en'
+): Promise<PlaceCandidate[]> {
+  if (!query || query.trim().length === 0) return [];
+
+  // 1. Офлайн-справочник
+  const candidates: PlaceCandidate[] = searchPlaces(query, limit).map(({ place }) => ({
+    name: language === 'ru' && place.nameRu ? place.nameRu : place.name,
+    displayName: formatPlaceName(place, language),
+    country: COUNTRY_NAMES[place.countryCode]?.[language] || place.countryCode,
+    countryCode: place.countryCode,
+    region: place.region || undefined,
+    lat: place.lat,
+    lon: place.lon,
+    timezone: place.timezone,
+    source: 'gazetteer'
+  }));
+
+  // 2. Nominatim дополняет список
+  if (candidates.length < limit && isNominatimFallbackEnabled()) {
+    try {
+      const results = await fetchNominatimResults(query, limit);
+      for (const result of results) {
+        const candidate = createNominatimCandidate(result);
+        if (!candidate) continue;
+        const isDuplicate = candidates.some(existing =>
+          Math.abs(existing.lat - candidate.lat) < CANDIDATE_DUPLICATE_DISTANCE &&
+          Math.abs(existing.lon - candidate.lon) < CANDIDATE_DUPLICATE_DISTANCE
+        );
+        if (!isDuplicate) candidates.push(candidate);
+        if (candidates.length >= limit) break;
+      }
+    } catch (nominatimError: any) {
+      log.warn('Nominatim search failed, returning gazetteer candidates only', { query, error: nominatimError.message });
+    }
+  }
+
+  log.info('Place candidates found', { query, count: candidates.length });
+  return candidates;
+}
+
+/**
+ * Место рождения для расчета: координаты из профиля (выбранные или введенные
+ * вручную), а если их нет или они некорректны — название места для геокодинга
+ */
+export function getBirthLocation(
+  placeName: string,
+  stored: { birthLat?: unknown; birthLon?: unknown; birthTimezone?: unknown } | null | undefined
+): string | BirthLocation {
+  if (!stored) return placeName;
+  const { birthLat, birthLon, birthTimezone } = stored;
+  if (!validateLatitude(birthLat).isValid || !validateLongitude(birthLon).isValid) return placeName;
+
+  const hasTimezone = birthTimezone !== undefined && birthTimezone !== null && birthTimezone !== '';
+  if (hasTimezone && !validateTimezone(birthTimezone).isValid) return placeName;
+
+  return {
+    lat: birthLat as number,
+    lon: birthLon as number,
+    timezone: hasTimezone ? String(birthTimezone) : undefined,
+    name: placeName || undefined
+  };
+}
+
+/**
+ * Координаты и часовой пояс для места, заданного вручную
+ *
+ * Смещение от UTC приводится к виду "+03:00" (его понимает date-fns-tz),
+ * без часового пояса он определяется по координатам.
+ */
+export function resolveBirthLocation(location: BirthLocation): Coordinates {
+  const latValidation = validateLatitude(location.lat);
+  if (!latValidation.isValid) {
+    throw new Error(`Invalid birth location: ${latValidation.error}`);
+  }
+  const lonValidation = validateLongitude(location.lon);
+  if (!lonValidation.isValid) {
+    throw new Error(`Invalid birth location: ${lonValidation.error}`);
+  }
+
+  if (!location.timezone) {
+    return { lat: location.lat, lon: location.lon, timezone: lookupTimezone(location.lat, location.lon) };
+  }
+
+  const timezoneValidation = validateTimezone(location.timezone);
+  if (!timezoneValidation.isValid) {
+    throw new Error(`Invalid birth location: ${timezoneValidation.error}`);
+  }
+
+  return {
+    lat: location.lat,
+    lon: location.lon,
+    timezone: normalizeUtcOffset(location.timezone) || location.timezone.trim()
+  };
+}
+
+/**
+ * Координаты места из getBirthLocation: сохраненные/введенные вручную или геокодинг по названию
+ */
+export async function resolveLocationCoordinates(location: string | BirthLocation): Promise<Coordinates & { name?: string }> {
+  if (typeof location === 'string') {
+    return { ...(await getCoordinates(location)), name: location };
+  }
+  return { ...resolveBirthLocation(location), name: location.name };
+}
+
+/**
+ * Подпись места для логов и описания карты
+ */
+function formatBirthLocation(location: string | BirthLocation): string {
+  if (typeof location === 'string') return location;
+  return location.name || `${location.lat.toFixed(4)}, ${location.lon.toFixed(4)}`;
+}
+
 /**
  * Определяет знак зодиака по эклиптической долготе планеты
+ *
+ * Долготы карты уже рассчитаны в ее зодиаке. Чтобы найти сидерический знак
+ * для тропической долготы, передается величина аянамсы (ayanamsaValue).
  */
-export function getZodiacSign(degree: number): string {
-  let normalizedDegree = degree % 360;
+export function getZodiacSign(degree: number, ayanamsaValue: number = 0): string {
+  let normalizedDegree = (degree - ayanamsaValue) % 360;
   if (normalizedDegree < 0) {
     normalizedDegree += 360;
   }
@@ -389,11 +721,96 @@ function getPlanetDescription(planetName: string): string {
     'Mars': 'Your drive and passion.',
     'Jupiter': 'Your growth and expansion.',
     'Saturn': 'Your discipline and responsibilities.',
-    'Ascendant': 'Your outer personality and first impressions.'
+    'Uranus': 'Your need for freedom and change.',
+    'Neptune': 'Your dreams, intuition and ideals.',
+    'Pluto': 'Your power and capacity for transformation.',
+    'North Node': 'Your direction of growth in this life.',
+    'South Node': 'Your innate talents and habits from the past.',
+    'Chiron': 'Your deepest wound and your gift for healing.',
+    'Lilith': 'Your hidden desires and suppressed instincts.',
+    'Ascendant': 'Your outer personality and first impressions.',
+    'MC': 'Your public image, career and life direction.',
+    'IC': 'Your roots, home and inner foundation.',
+    'DC': 'Your partnerships and what you seek in others.'
   };
   return descriptions[planetName] || 'Planetary influence.';
 }
 
+/**
+ * Скорость (градусов в сутки), ниже которой планета считается стационарной.
+ * Около 5% от средней суточной скорости; у Солнца, Луны и узлов станций нет.
+ */
+const STATIONARY_SPEED_THRESHOLDS: Record<string, number> = {
+  'Mercury': 0.07,
+  'Venus': 0.05,
+  'Mars': 0.03,
+  'Jupiter': 0.007,
+  'Saturn': 0.004,
+  'Uranus': 0.002,
+  'Neptune': 0.001,
+  'Pluto': 0.001,
+  'Chiron': 0.002,
+};
+
+/**
+ * Определяет, стоит ли планета на станции (разворот директное/ретроградное движение)
+ */
+export function isStationarySpeed(planetName: string, speed: number): boolean {
+  const threshold = STATIONARY_SPEED_THRESHOLDS[planetName];
+  return threshold !== undefined && Math.abs(speed) < threshold;
+}
+
+/**
+ * Формирует положение планеты по долготе и скорости
+ */
+function createPlanetPosition(planetName: string, longitude: number, speed: number, cusps?: number[]): PlanetPosition {
+  return {
+    planet: planetName,
+    sign: getZodiacSign(longitude),
+    degree: getDegreeInSign(longitude),
+    longitude,
+    speed,
+    isRetrograde: speed < 0,
+    isStationary: isStationarySpeed(planetName, speed),
+    house: cusps ? getHouseForLongitude(longitude, cusps) : undefined,
+    description: getPlanetDescription(planetName)
+  };
+}
+
+/**
+ * Флаг Swiss Ephemeris для зодиака расчета (0 — тропический)
+ *
+ * Для сидерического зодиака выставляет аянамсу. swe_set_sid_mode — глобальная
+ * настройка библиотеки, поэтому вызывается перед каждым расчетом.
+ */
+function getZodiacFlag(swe: NonNullable<typeof sweInstance>, zodiac: ZodiacOptions = {}): number {
+  const zodiacType = zodiac.zodiacType || DEFAULT_ZODIAC_TYPE;
+  if (zodiacType === 'tropical') {
+    return 0;
+  }
+  if (zodiacType !== 'sidereal') {
+    throw new Error(`Unsupported zodiac type: ${zodiacType}`);
+  }
+
+  const ayanamsa = zodiac.ayanamsa || DEFAULT_AYANAMSA;
+  if (AYANAMSA_CODES[ayanamsa] === undefined) {
+    throw new Error(`Unsupported ayanamsa: ${ayanamsa}`);
+  }
+  swe.swe_set_sid_mode(AYANAMSA_CODES[ayanamsa], 0, 0);
+  return swisseph.SEFLG_SIDEREAL;
+}
+
+/**
+ * Величина аянамсы (с нутацией) на юлианский день UT, градусы
+ *
+ * Ровно та разница, на которую сидерические долготы меньше тропических.
+ */
+export function calculateAyanamsa(julianDay: number, ayanamsa: Ayanamsa = DEFAULT_AYANAMSA): number {
+  const swe = getNativeCalculator();
+  getZodiacFlag(swe, { zodiacType: 'sidereal', ayanamsa });
+  return swe.swe_get_ayanamsa_ex_ut(julianDay, swisseph.SEFLG_SWIEPH).ayanamsa;
+}
+
 /**
  * Рассчитывает положение планеты в натальной карте используя Swiss Ephemeris
  */
@@ -401,11 +818,13 @@ function calculatePlanetPosition(
   swe: NonNullable<typeof sweInstance>,
   julday: number,
   planetId: number,
-  planetName: string
+  planetName: string,
+  cusps?: number[],
+  zodiacFlag: number = 0
 ): PlanetPosition | null {
   try {
-    // Используем флаги для точных расчетов: SEFLG_SWIEPH | SEFLG_SPEED
-    const flags = swisseph.SEFLG_SWIEPH | swisseph.SEFLG_SPEED;
+    // Используем флаги для точных расчетов: SEFLG_SWIEPH | SEFLG_SPEED (и SEFLG_SIDEREAL для сидерического зодиака)
+    const flags = swisseph.SEFLG_SWIEPH | swisseph.SEFLG_SPEED | zodiacFlag;
     const result = swe.swe_calc_ut(julday, planetId, flags);
     
     if (!result || typeof result.longitude !== 'number') {
@@ -414,23 +833,21 @@ function calculatePlanetPosition(
     }
     
     const longitude = result.longitude;
+    // Скорость по долготе (градусов в сутки), отрицательная — ретроградное движение
+    const speed = typeof result.longitudeSpeed === 'number' ? result.longitudeSpeed : 0;
     
-    const sign = getZodiacSign(longitude);
-    const degreeInSign = getDegreeInSign(longitude);
+    const position = createPlanetPosition(planetName, longitude, speed, cusps);
 
     log.info(`[PLANET] Calculated ${planetName}`, { 
       longitude: longitude.toFixed(6), 
-      sign, 
-      degreeInSign: degreeInSign.toFixed(4),
-      fullDegree: `${degreeInSign.toFixed(2)}° ${sign}`
+      speed: speed.toFixed(4),
+      sign: position.sign, 
+      degreeInSign: position.degree.toFixed(4),
+      house: position.house,
+      fullDegree: `${position.degree.toFixed(2)}° ${position.sign}`
     });
 
-    return {
-      planet: planetName,
-      sign,
-      degree: degreeInSign,
-      description: getPlanetDescription(planetName)
-    };
+    return position;
   } catch (error: any) {
     log.error(`Error calculating ${planetName}`, error);
     return null;
@@ -438,88 +855,334 @@ function calculatePlanetPosition(
 }
 
 /**
- * Рассчитывает Асцендент (Rising Sign)
+ * Переводит момент времени (UTC) в юлианский день UT
  */
-function calculateAscendant(
+export function dateToJulianDay(date: Date): number {
+  return date.getTime() / 86400000 + 2440587.5;
+}
+
+/**
+ * Переводит юлианский день UT в момент времени (UTC)
+ */
+export function julianDayToDate(julianDay: number): Date {
+  return new Date(Math.round((julianDay - 2440587.5) * 86400000));
+}
+
+/**
+ * Рассчитывает долготу и скорость точки карты на юлианский день UT.
+ * Используется для поиска транзитов, где нужно много быстрых расчетов без домов.
+ */
+export function calculateBodyState(
+  julianDay: number,
+  key: ChartPlanetKey,
+  zodiac: ZodiacOptions = {}
+): { longitude: number; speed: number } {
+  const swe = getNativeCalculator();
+  const zodiacFlag = getZodiacFlag(swe, zodiac);
+
+  if (key === 'northNode' || key === 'southNode') {
+    const node = calculateBodyStateById(swe, julianDay, PLANETS.TRUE_NODE, 'North Node', zodiacFlag);
+    return key === 'northNode'
+      ? node
+      : { longitude: normalizeLongitude(node.longitude + 180), speed: node.speed };
+  }
+
+  const body = CHART_PLANETS.find(planet => planet.key === key);
+  if (!body) {
+    throw new Error(`Unknown chart point: ${key}`);
+  }
+  return calculateBodyStateById(swe, julianDay, body.id, body.name, zodiacFlag);
+}
+
+function calculateBodyStateById(
+  swe: NonNullable<typeof sweInstance>,
+  julianDay: number,
+  planetId: number,
+  planetName: string,
+  zodiacFlag: number = 0
+): { longitude: number; speed: number } {
+  const flags = swisseph.SEFLG_SWIEPH | swisseph.SEFLG_SPEED | zodiacFlag;
+  const result = swe.swe_calc_ut(julianDay, planetId, flags);
+
+  if (!result || result.error || typeof result.longitude !== 'number') {
+    throw new Error(`Failed to calculate ${planetName}: ${result?.error || 'no data'}`);
+  }
+
+  return {
+    longitude: result.longitude,
+    speed: typeof result.longitudeSpeed === 'number' ? result.longitudeSpeed : 0
+  };
+}
+
+// Тип затмения по флагам Swiss Ephemeris (гибридное проверяется раньше полного и кольцеобразного)
+const ECLIPSE_TYPE_FLAGS: { flag: number; type: EclipseType }[] = [
+  { flag: swisseph.SE_ECL_ANNULAR_TOTAL, type: 'hybrid' },
+  { flag: swisseph.SE_ECL_TOTAL, type: 'total' },
+  { flag: swisseph.SE_ECL_ANNULAR, type: 'annular' },
+  { flag: swisseph.SE_ECL_PARTIAL, type: 'partial' },
+  { flag: swisseph.SE_ECL_PENUMBRAL, type: 'penumbral' }
+];
+
+/**
+ * Ближайшее после julianDay солнечное или лунное затмение (где-либо на Земле)
+ *
+ * Возвращает юлианский день UT максимума затмения и его тип.
+ */
+export function findNextEclipse(julianDay: number, kind: EclipseKind): { julianDay: number; type: EclipseType } {
+  const swe = getNativeCalculator();
+  const result = kind === 'solar'
+    ? swe.swe_sol_eclipse_when_glob(julianDay, swisseph.SEFLG_SWIEPH, swisseph.SE_ECL_ALLTYPES_SOLAR, 0)
+    : swe.swe_lun_eclipse_when(julianDay, swisseph.SEFLG_SWIEPH, swisseph.SE_ECL_ALLTYPES_LUNAR, 0);
+
+  if (!result || 'error' in result || typeof result.maximum !== 'number') {
+    throw new Error(`Failed to find ${kind} eclipse: ${(result as { error?: string })?.error || 'no data'}`);
+  }
+
+  const type = ECLIPSE_TYPE_FLAGS.find(({ flag }) => result.rflag & flag)?.type || 'partial';
+  return { julianDay: result.maximum, type };
+}
+
+/**
+ * Положения всех точек карты на момент времени, без домов и геокодинга
+ */
+export interface EphemerisSnapshot {
+  date: string; // ISO UTC
+  julianDay: number;
+  nodeType: LunarNodeType;
+  planets: ChartPlanets;
+}
+
+/**
+ * Рассчитывает эфемериду на момент времени (UTC)
+ *
+ * Не требует места и времени рождения: подходит для транзитов и лунного календаря.
+ * Если какую-то точку рассчитать не удалось, выбрасывает ошибку — подставных данных нет.
+ */
+export function calculateEphemeris(date: Date, options: { nodeType?: LunarNodeType } & ZodiacOptions = {}): EphemerisSnapshot {
+  if (!(date instanceof Date) || isNaN(date.getTime())) {
+    throw new Error('Invalid date for ephemeris calculation');
+  }
+
+  const swe = getNativeCalculator();
+  const julianDay = dateToJulianDay(date);
+  const nodeType = options.nodeType || DEFAULT_NODE_TYPE;
+  const zodiacFlag = getZodiacFlag(swe, options);
+  const planets: ChartPlanets = {};
+
+  for (const { key, id, name } of CHART_PLANETS) {
+    const state = calculateBodyStateById(swe, julianDay, id, name, zodiacFlag);
+    planets[key] = createPlanetPosition(name, state.longitude, state.speed);
+  }
+
+  const nodeId = nodeType === 'mean' ? PLANETS.MEAN_NODE : PLANETS.TRUE_NODE;
+  const node = calculateBodyStateById(swe, julianDay, nodeId, 'North Node', zodiacFlag);
+  planets.northNode = createPlanetPosition('North Node', node.longitude, node.speed);
+  planets.southNode = {
+    ...createPlanetPosition('South Node', normalizeLongitude(node.longitude + 180), node.speed),
+    isStationary: false
+  };
+
+  return {
+    date: date.toISOString(),
+    julianDay,
+    nodeType,
+    planets
+  };
+}
+
+/**
+ * Рассчитывает дома в одной системе, Асцендент и MC
+ */
+function calculateHousesInSystem(
   swe: NonNullable<typeof sweInstance>,
   julday: number,
   lat: number,
-  lon: number
-): PlanetPosition | null {
+  lon: number,
+  system: HouseSystem,
+  zodiacFlag: number = 0
+): HousesData | null {
   try {
-    const result = swe.swe_houses(julday, lat, lon, 'P');
+    // swe_houses считает только в тропическом зодиаке, сидерические куспиды — через swe_houses_ex
+    const result = zodiacFlag
+      ? swe.swe_houses_ex(julday, zodiacFlag, lat, lon, HOUSE_SYSTEM_CODES[system])
+      : swe.swe_houses(julday, lat, lon, HOUSE_SYSTEM_CODES[system]);
 
-    if (!result || typeof result.ascendant !== 'number') {
-      log.error('Failed to calculate ascendant', { result });
+    if (!result || result.error || typeof result.ascendant !== 'number' || !Array.isArray(result.house) || result.house.length < 12) {
+      log.warn(`Failed to calculate houses in system ${system}`, { lat, error: result?.error });
       return null;
     }
-    
-    const ascendant = result.ascendant;
-    
-    const sign = getZodiacSign(ascendant);
-    const degreeInSign = getDegreeInSign(ascendant);
 
-    log.info('Calculated Ascendant', { 
-      ascendant: ascendant.toFixed(4), 
-      sign, 
-      degreeInSign: degreeInSign.toFixed(2) 
+    const cusps = result.house.slice(0, 12) as number[];
+
+    log.info('Calculated houses', {
+      system,
+      ascendant: result.ascendant.toFixed(4),
+      mc: result.mc.toFixed(4),
+      cusps: cusps.map(c => c.toFixed(2))
     });
 
     return {
-      planet: 'Ascendant',
-      sign,
-      degree: degreeInSign,
-      description: 'Your outer personality and first impressions.'
+      cusps,
+      ascendant: result.ascendant,
+      mc: result.mc,
+      system
     };
   } catch (error: any) {
-    log.error('Error calculating ascendant', error);
+    log.error(`Error calculating houses in system ${system}`, error);
     return null;
   }
 }
 
 /**
- * Определяет доминирующий элемент (стихию) на основе положений планет
+ * Рассчитывает дома в запрошенной системе.
+ * Если система не определена для широты (Плацидус/Кох за полярным кругом),
+ * переключается на Порфирий, затем на Целые знаки.
  */
-function calculateElement(positions: PlanetPosition[]): string {
+function calculateHouses(
+  swe: NonNullable<typeof sweInstance>,
+  julday: number,
+  lat: number,
+  lon: number,
+  requestedSystem: HouseSystem = DEFAULT_HOUSE_SYSTEM,
+  zodiacFlag: number = 0
+): HousesData | null {
+  const systems = [requestedSystem, ...POLAR_FALLBACK_HOUSE_SYSTEMS.filter(s => s !== requestedSystem)];
+
+  for (const system of systems) {
+    const houses = calculateHousesInSystem(swe, julday, lat, lon, system, zodiacFlag);
+    if (houses) {
+      if (system !== requestedSystem) {
+        log.warn('House system fallback applied', { requestedSystem, usedSystem: system, lat });
+      }
+      return houses;
+    }
+  }
+
+  log.error('Failed to calculate houses in any system', { requestedSystem, lat, lon });
+  return null;
+}
+
+/**
+ * Асцендент и MC на момент юлианского дня UT для места
+ *
+ * Без куспидов и логов — для перебора множества моментов (ректификация).
+ * Оси не зависят от системы домов, поэтому берется Порфирий: он определен на любой широте.
+ */
+export function calculateAngles(
+  julianDay: number,
+  lat: number,
+  lon: number,
+  zodiac: ZodiacOptions = {}
+): { ascendant: number; mc: number } {
+  const swe = getNativeCalculator();
+  const zodiacFlag = getZodiacFlag(swe, zodiac);
+  const result = zodiacFlag
+    ? swe.swe_houses_ex(julianDay, zodiacFlag, lat, lon, HOUSE_SYSTEM_CODES.porphyry)
+    : swe.swe_houses(julianDay, lat, lon, HOUSE_SYSTEM_CODES.porphyry);
+
+  if (!result || result.error || typeof result.ascendant !== 'number' || typeof result.mc !== 'number') {
+    throw new Error(`Failed to calculate angles: ${result?.error || 'no data'}`);
+  }
 
-  const elementCounts: { [key: string]: number } = {
-    Fire: 0,
-    Earth: 0,
-    Air: 0,
-    Water: 0
+  return {
+    ascendant: normalizeLongitude(result.ascendant),
+    mc: normalizeLongitude(result.mc)
   };
+}
 
-  positions.forEach(position => {
-    const element = getElementForSignUtil(position.sign as ZodiacSign);
-    if (element) {
-      elementCounts[element]++;
-    }
-  });
+/**
+ * Нормализует долготу в диапазон 0-360
+ */
+function normalizeLongitude(longitude: number): number {
+  const normalized = longitude % 360;
+  return normalized < 0 ? normalized + 360 : normalized;
+}
+
+/**
+ * Определяет номер дома (1-12) для эклиптической долготы по куспидам
+ *
+ * Планета находится в доме N, если её долгота лежит между куспидом N
+ * и куспидом N+1 (с учетом перехода через 0° Овна).
+ */
+export function getHouseForLongitude(longitude: number, cusps: number[]): number {
+  if (cusps.length < 12) {
+    throw new Error('House cusps must contain 12 values');
+  }
 
-  let dominantElement = 'Fire';
-  let maxCount = 0;
-  for (const [element, count] of Object.entries(elementCounts)) {
-    if (count > maxCount) {
-      maxCount = count;
-      dominantElement = element;
+  const target = normalizeLongitude(longitude);
+
+  for (let i = 0; i < 12; i++) {
+    const start = normalizeLongitude(cusps[i]);
+    const end = normalizeLongitude(cusps[(i + 1) % 12]);
+    const span = normalizeLongitude(end - start);
+    const offset = normalizeLongitude(target - start);
+
+    if (offset < span) {
+      return i + 1;
     }
   }
 
-  return dominantElement;
+  return 12;
 }
 
 /**
- * Определить ожидаемый знак Солнца по дате рождения (упрощённо, для валидации)
+ * Создает точку карты (Асцендент, MC и т.п.) по абсолютной долготе
+ */
+function createChartPoint(pointName: string, longitude: number, house: number): PlanetPosition {
+  return {
+    planet: pointName,
+    sign: getZodiacSign(longitude),
+    degree: getDegreeInSign(longitude),
+    longitude: normalizeLongitude(longitude),
+    house,
+    description: getPlanetDescription(pointName)
+  };
+}
+
+/**
+ * Рассчитывает лунные узлы: Северный по эфемериде, Южный — точка напротив
+ */
+function calculateLunarNodes(
+  swe: NonNullable<typeof sweInstance>,
+  julday: number,
+  nodeType: LunarNodeType,
+  cusps: number[],
+  zodiacFlag: number = 0
+): { northNode: PlanetPosition; southNode: PlanetPosition } | null {
+  const nodeId = nodeType === 'mean' ? PLANETS.MEAN_NODE : PLANETS.TRUE_NODE;
+  const northNode = calculatePlanetPosition(swe, julday, nodeId, 'North Node', cusps, zodiacFlag);
+  if (!northNode) {
+    return null;
+  }
+
+  const southLongitude = normalizeLongitude(northNode.longitude + 180);
+  const southNode: PlanetPosition = {
+    ...createChartPoint('South Node', southLongitude, getHouseForLongitude(southLongitude, cusps)),
+    speed: northNode.speed,
+    isRetrograde: northNode.isRetrograde,
+    isStationary: false
+  };
+
+  return { northNode, southNode };
+}
+
+/**
+ * Формирует список куспидов домов в формате результата
  */
-function getExpectedSunSignByDate(year: number, month: number, day: number): string {
-  return getApproximateSunSignByDate(year, month, day);
+function createHouseCusps(cusps: number[]): HouseCusp[] {
+  return cusps.map((cusp, index) => ({
+    house: index + 1,
+    sign: getZodiacSign(cusp),
+    degree: getDegreeInSign(cusp),
+    longitude: normalizeLongitude(cusp)
+  }));
 }
 
 /**
- * Определение управляющей планеты
+ * Определить ожидаемый знак Солнца по дате рождения (упрощённо, для валидации)
  */
-function calculateRulingPlanet(sunSign: string): string {
-  return getRulingPlanetUtil(sunSign as any) || 'Sun';
+function getExpectedSunSignByDate(year: number, month: number, day: number, ayanamsaValue: number = 0): string {
+  return getApproximateSunSignByDate(year, month, day, ayanamsaValue);
 }
 
 /**
@@ -532,11 +1195,261 @@ export interface NatalChartResult {
   mercury: PlanetPosition | null;
   venus: PlanetPosition | null;
   mars: PlanetPosition | null;
+  planets: ChartPlanets;
+  nodeType: LunarNodeType;
+  julianDay: number; // Момент рождения, юлианский день UT
+  birthDateUtc: string; // Момент рождения, ISO UTC
+  timeWarning?: LocalTimeWarning; // Время рождения попало на перевод часов
+  birthTimeUnknown?: boolean; // Карта на полдень: домов нет, оси недостоверны
+  moonRange?: MoonDayRange; // Луна в начале и конце дня рождения (при неизвестном времени)
+  mc: PlanetPosition;
+  ic: PlanetPosition;
+  dc: PlanetPosition;
+  houses: HouseCusp[];
+  aspects: Aspect[];
+  houseSystem: HouseSystem;
+  requestedHouseSystem?: HouseSystem;
+  zodiacType: ZodiacType;
+  ayanamsa?: Ayanamsa; // Только для сидерического зодиака
+  ayanamsaValue?: number; // Аянамса на момент карты, градусы
+  moonNakshatra: NakshatraPosition;
   element: string;
-  rulingPlanet: string;
+  rulingPlanet: string; // Управитель карты (знака Асцендента)
+  balance: ChartBalance;
   summary: string;
 }
 
+/**
+ * Дополнительные параметры расчета натальной карты
+ */
+export interface NatalChartOptions extends ZodiacOptions {
+  houseSystem?: HouseSystem;
+  nodeType?: LunarNodeType;
+  // Какой момент взять, если время рождения попало на перевод часов
+  localTimeChoice?: LocalTimeChoice;
+}
+
+/**
+ * Строит карту (дома, планеты, углы, аспекты) на момент юлианского дня UT для заданного места
+ *
+ * Общая часть натальной карты и карт возвращений: форма результата одинакова,
+ * отличается только момент и место.
+ */
+function calculateChartAtJulianDay(
+  swe: NonNullable<typeof sweInstance>,
+  julianDay: number,
+  coords: Coordinates,
+  houseSystem: HouseSystem,
+  nodeType: LunarNodeType,
+  zodiac: ZodiacOptions = {}
+): Omit<NatalChartResult, 'summary'> {
+  // 1. Дома и положения планет (в сидерическом зодиаке все долготы сдвинуты на аянамсу)
+  const zodiacFlag = getZodiacFlag(swe, zodiac);
+  log.info('Calculating houses...');
+  const houses = calculateHouses(swe, julianDay, coords.lat, coords.lon, houseSystem, zodiacFlag);
+  if (!houses) {
+    throw new Error('Failed to calculate Ascendant');
+  }
+
+  log.info('Calculating planet positions...');
+  const planets: ChartPlanets = {};
+  const aspectBodies: AspectBody[] = [];
+  const addPlanet = (key: ChartPlanetKey, position: PlanetPosition) => {
+    planets[key] = position;
+    aspectBodies.push({ name: position.planet, longitude: position.longitude, speed: position.speed });
+  };
+
+  for (const { key, id, name: planetName } of CHART_PLANETS) {
+    const position = calculatePlanetPosition(swe, julianDay, id, planetName, houses.cusps, zodiacFlag);
+    if (position) {
+      addPlanet(key, position);
+    } else {
+      log.warn(`Skipping ${planetName}: position is unavailable`);
+    }
+  }
+
+  const nodes = calculateLunarNodes(swe, julianDay, nodeType, houses.cusps, zodiacFlag);
+  if (nodes) {
+    addPlanet('northNode', nodes.northNode);
+    addPlanet('southNode', nodes.southNode);
+  } else {
+    log.warn('Skipping lunar nodes: position is unavailable', { nodeType });
+  }
+
+  const { sun, moon, mercury, venus, mars } = planets;
+
+  // Углы карты: ASC/DC и MC/IC
+  const ascendant = createChartPoint('Ascendant', houses.ascendant, 1);
+  const dc = createChartPoint('DC', houses.ascendant + 180, 7);
+  const mc = createChartPoint('MC', houses.mc, getHouseForLongitude(houses.mc, houses.cusps));
+  const ic = createChartPoint('IC', houses.mc + 180, getHouseForLongitude(houses.mc + 180, houses.cusps));
+
+  // Аспекты между планетами и осями карты (DC и IC зеркальны ASC и MC, поэтому не включаются)
+  aspectBodies.push({ name: 'Ascendant', longitude: ascendant.longitude, speed: 0 });
+  aspectBodies.push({ name: 'MC', longitude: mc.longitude, speed: 0 });
+  const aspects = calculateAspects(aspectBodies);
+  log.info('Calculated aspects', { count: aspects.length });
+
+  // 2. Валидация результатов
+  if (!sun) {
+    throw new Error('Failed to calculate Sun position');
+  }
+  if (!moon) {
+    throw new Error('Failed to calculate Moon position');
+  }
+  // Валидация знаков зодиака
+  const validSigns = ZODIAC_SIGNS as readonly string[];
+  if (!validSigns.includes(sun.sign)) {
+    throw new Error(`Invalid Sun sign: ${sun.sign}`);
+  }
+  if (!validSigns.includes(moon.sign)) {
+    throw new Error(`Invalid Moon sign: ${moon.sign}`);
+  }
+  if (!validSigns.includes(ascendant.sign)) {
+    throw new Error(`Invalid Ascendant sign: ${ascendant.sign}`);
+  }
+
+  // 3. Дополнительные параметры: баланс стихий и крестов, управитель карты по Асценденту
+  const balance = calculateChartBalance({ sun, moon, rising: ascendant, mc, planets, aspects });
+
+  // 4. Формирование результата
+  return {
+    sun,
+    moon,
+    rising: ascendant,
+    mercury: mercury || null,
+    venus: venus || null,
+    mars: mars || null,
+    planets,
+    nodeType,
+    julianDay,
+    birthDateUtc: julianDayToDate(julianDay).toISOString(),
+    mc,
+    ic,
+    dc,
+    houses: createHouseCusps(houses.cusps),
+    aspects,
+    houseSystem: houses.system,
+    ...(houses.system !== houseSystem ? { requestedHouseSystem: houseSystem } : {}),
+    zodiacType: zodiacFlag ? 'sidereal' : 'tropical',
+    // Аянамса с нутацией — ровно та разница, на которую сдвинуты долготы
+    ...(zodiacFlag ? {
+      ayanamsa: zodiac.ayanamsa || DEFAULT_AYANAMSA,
+      ayanamsaValue: swe.swe_get_ayanamsa_ex_ut(julianDay, swisseph.SEFLG_SWIEPH).ayanamsa
+    } : {}),
+    // Накшатры сидерические: в тропической карте Луна переводится по Лахири
+    moonNakshatra: getNakshatra(zodiacFlag ? moon.longitude : moon.longitude - calculateAyanamsa(julianDay)),
+    element: balance.dominantElement,
+    rulingPlanet: balance.chartRuler,
+    balance
+  };
+}
+
+/**
+ * Рассчитывает карту на произвольный момент (UTC) для места или готовых координат
+ *
+ * Используется для карт возвращений (соляр, лунар): результат в той же форме,
+ * что и натальная карта, julianDay и birthDateUtc указывают момент карты.
+ */
+export async function calculateChartForMoment(
+  date: Date,
+  location: string | Coordinates,
+  options: NatalChartOptions = {}
+): Promise<NatalChartResult> {
+  if (!(date instanceof Date) || isNaN(date.getTime())) {
+    throw new Error('Invalid date for chart calculation');
+  }
+
+  const houseSystem = options.houseSystem || DEFAULT_HOUSE_SYSTEM;
+  if (!HOUSE_SYSTEM_CODES[houseSystem]) {
+    throw new Error(`Unsupported house system: ${houseSystem}`);
+  }
+
+  const swe = getNativeCalculator();
+  const coords = typeof location === 'string' ? await getCoordinates(location) : location;
+  const chart = calculateChartAtJulianDay(swe, dateToJulianDay(date), coords, houseSystem, options.nodeType || DEFAULT_NODE_TYPE, options);
+  const placeLabel = typeof location === 'string' ? location : `${coords.lat.toFixed(2)}, ${coords.lon.toFixed(2)}`;
+
+  return {
+    ...chart,
+    summary: `Chart for ${date.toISOString()} in ${placeLabel}: ${chart.sun.sign} Sun, ${chart.moon.sign} Moon, ${chart.rising.sign} Rising.`
+  };
+}
+
+// Оси карты, аспекты к которым при неизвестном времени рождения не считаются
+const TIME_SENSITIVE_ASPECT_POINTS = ['Ascendant', 'MC'];
+
+/**
+ * Положения Луны в 00:00 и 23:59 дня рождения по местному времени
+ *
+ * Луна проходит 12–15° в сутки, поэтому без времени рождения ее градус
+ * известен только диапазоном, а знак может смениться в течение дня.
+ */
+function calculateMoonDayRange(birthDate: string, timezone: string, zodiac: ZodiacOptions = {}): MoonDayRange {
+  const getMoonAt = (localTime: string): PlanetPosition => {
+    const { utc } = resolveLocalTime(`${birthDate}T${localTime}`, timezone);
+    const { longitude, speed } = calculateBodyState(dateToJulianDay(utc), 'moon', zodiac);
+    return createPlanetPosition('Moon', longitude, speed);
+  };
+
+  const start = getMoonAt('00:00');
+  const end = getMoonAt('23:59');
+  const changesSign = start.sign !== end.sign;
+
+  return {
+    start,
+    end,
+    signs: changesSign ? [start.sign, end.sign] : [start.sign],
+    changesSign
+  };
+}
+
+/**
+ * Убирает из карты на полдень все, что зависит от времени рождения
+ *
+ * Дома планет, куспиды и аспекты к осям удаляются, стихия считается без
+ * Асцендента. Сами оси остаются (форма карты не меняется), но помечены
+ * через birthTimeUnknown и не трактуются. Нужна и для карт, момент которых
+ * зависит от неизвестного времени рождения (Дависон).
+ */
+export function removeTimeSensitivePoints(chart: Omit<NatalChartResult, 'summary'>): Omit<NatalChartResult, 'summary'> {
+  const withoutHouse = (position: PlanetPosition): PlanetPosition => ({ ...position, house: undefined });
+
+  const planets: ChartPlanets = {};
+  for (const [key, position] of Object.entries(chart.planets)) {
+    if (position) planets[key as ChartPlanetKey] = withoutHouse(position);
+  }
+
+  const sun = withoutHouse(chart.sun);
+  const moon = withoutHouse(chart.moon);
+  const mercury = chart.mercury && withoutHouse(chart.mercury);
+  const venus = chart.venus && withoutHouse(chart.venus);
+  const mars = chart.mars && withoutHouse(chart.mars);
+  const aspects = chart.aspects.filter(aspect =>
+    !TIME_SENSITIVE_ASPECT_POINTS.includes(aspect.planet1) && !TIME_SENSITIVE_ASPECT_POINTS.includes(aspect.planet2)
+  );
+  const balance = calculateChartBalance({ sun, moon, rising: chart.rising, planets, aspects, birthTimeUnknown: true });
+
+  return {
+    ...chart,
+    sun,
+    moon,
+    mercury,
+    venus,
+    mars,
+    planets,
+    rising: withoutHouse(chart.rising),
+    mc: withoutHouse(chart.mc),
+    ic: withoutHouse(chart.ic),
+    dc: withoutHouse(chart.dc),
+    houses: [],
+    aspects,
+    element: balance.dominantElement,
+    rulingPlanet: balance.chartRuler,
+    balance
+  };
+}
+
 /**
  * ЧЕТКАЯ ЛОГИКА РАСЧЕТА НАТАЛЬНОЙ КАРТЫ:
  * 1. Валидация входных данных
@@ -548,21 +1461,34 @@ export interface NatalChartResult {
  * 7. Валидация результатов
  * 8. Расчет дополнительных параметров (элемент, управляющая планета)
  * 9. Возврат результата
+ *
+ * Пустое birthTime — время рождения неизвестно: карта строится на 12:00,
+ * дома и аспекты к осям убираются, оси помечаются birthTimeUnknown,
+ * а положение Луны дается диапазоном за весь день (moonRange).
  */
 export async function calculateNatalChart(
   name: string,
   birthDate: string,
   birthTime: string,
-  birthPlace: string
+  birthPlace: string | BirthLocation,
+  options: NatalChartOptions = {}
 ): Promise<NatalChartResult> {
   const startTime = Date.now();
+  const placeLabel = formatBirthLocation(birthPlace);
+  const houseSystem = options.houseSystem || DEFAULT_HOUSE_SYSTEM;
+  const nodeType = options.nodeType || DEFAULT_NODE_TYPE;
+  const birthTimeUnknown = !birthTime || birthTime.trim().length === 0;
   
   try {
     log.info('Starting natal chart calculation', {
       name,
       birthDate,
-      birthTime: birthTime || '12:00 (default)',
-      birthPlace
+      birthTime: birthTimeUnknown ? 'unknown (noon chart)' : birthTime,
+      birthPlace: placeLabel,
+      manualLocation: typeof birthPlace !== 'string',
+      houseSystem,
+      zodiacType: options.zodiacType || DEFAULT_ZODIAC_TYPE,
+      ayanamsa: options.zodiacType === 'sidereal' ? options.ayanamsa || DEFAULT_AYANAMSA : undefined
     });
 
     // Шаг 1: Валидация входных данных
@@ -572,9 +1498,12 @@ export async function calculateNatalChart(
     if (!birthDate || !birthDate.match(/^\d{4}-\d{2}-\d{2}$/)) {
       throw new Error('Invalid birth date format. Expected YYYY-MM-DD');
     }
-    if (!birthPlace || birthPlace.trim().length === 0) {
+    if (typeof birthPlace === 'string' ? birthPlace.trim().length === 0 : !birthPlace) {
       throw new Error('Birth place is required');
     }
+    if (!HOUSE_SYSTEM_CODES[houseSystem]) {
+      throw new Error(`Unsupported house system: ${houseSystem}`);
+    }
 
     // Шаг 2: Инициализация Swiss Ephemeris
     const swe = getNativeCalculator();
@@ -583,21 +1512,30 @@ export async function calculateNatalChart(
     }
     log.info('✓ Swiss Ephemeris initialized');
 
-    // Шаг 3: Получение координат места рождения
+    // Шаг 3: Получение координат места рождения (заданные вручную не геокодируются)
     let coords: Coordinates;
-    try {
-      coords = await getCoordinates(birthPlace);
-      log.info('✓ Coordinates obtained', {
+    if (typeof birthPlace !== 'string') {
+      coords = resolveBirthLocation(birthPlace);
+      log.info('✓ Coordinates given explicitly', {
         lat: coords.lat,
         lon: coords.lon,
         timezone: coords.timezone
       });
-    } catch (coordError: any) {
-      log.error('Failed to get coordinates', {
-        error: coordError.message,
-        birthPlace
-      });
-      throw new Error(`Location not found: ${birthPlace}. Please check the spelling (e.g., "Moscow, Russia" or "Москва, Россия").`);
+    } else {
+      try {
+        coords = await getCoordinates(birthPlace);
+        log.info('✓ Coordinates obtained', {
+          lat: coords.lat,
+          lon: coords.lon,
+          timezone: coords.timezone
+        });
+      } catch (coordError: any) {
+        log.error('Failed to get coordinates', {
+          error: coordError.message,
+          birthPlace
+        });
+        throw new Error(`Location not found: ${birthPlace}. Please check the spelling (e.g., "Moscow, Russia" or "Москва, Россия").`);
+      }
     }
 
     // Шаг 4: Парсинг и валидация даты/времени
@@ -620,7 +1558,7 @@ export async function calculateNatalChart(
     // Парсинг времени рождения
     let birthHour = 12;
     let birthMinute = 0;
-    if (birthTime && birthTime.trim().length > 0) {
+    if (!birthTimeUnknown) {
       const timeParts = birthTime.split(':');
       birthHour = parseInt(timeParts[0], 10);
       birthMinute = parseInt(timeParts[1] || '0', 10);
@@ -638,6 +1576,7 @@ export async function calculateNatalChart(
 
     // Шаг 5: Конвертация в UTC и Julian Day
     let utcYear: number, utcMonth: number, utcDay: number, utcTimeInHours: number;
+    let timeWarning: LocalTimeWarning | undefined;
     try {
       const utcData = convertLocalTimeToUTC(
         birthYear,
@@ -645,12 +1584,14 @@ export async function calculateNatalChart(
         birthDay,
         birthHour,
         birthMinute,
-        coords.timezone
+        coords.timezone,
+        options.localTimeChoice
       );
       utcYear = utcData.utcYear;
       utcMonth = utcData.utcMonth;
       utcDay = utcData.utcDay;
       utcTimeInHours = utcData.utcTimeInHours;
+      timeWarning = utcData.warning;
       
       log.info('✓ Time converted to UTC', {
         local: `${birthYear}-${birthMonth}-${birthDay} ${birthHour}:${birthMinute}`,
@@ -685,64 +1626,37 @@ export async function calculateNatalChart(
       throw new Error(`Failed to calculate Julian Day: ${julianError.message}`);
     }
 
-    // Шаг 6: Расчет положений планет
-    log.info('Calculating planet positions...');
-    const [sun, moon, mercury, venus, mars, ascendant] = await Promise.all([
-      Promise.resolve(calculatePlanetPosition(swe, julianDay, PLANETS.SUN, 'Sun')),
-      Promise.resolve(calculatePlanetPosition(swe, julianDay, PLANETS.MOON, 'Moon')),
-      Promise.resolve(calculatePlanetPosition(swe, julianDay, PLANETS.MERCURY, 'Mercury')),
-      Promise.resolve(calculatePlanetPosition(swe, julianDay, PLANETS.VENUS, 'Venus')),
-      Promise.resolve(calculatePlanetPosition(swe, julianDay, PLANETS.MARS, 'Mars')),
-      Promise.resolve(calculateAscendant(swe, julianDay, coords.lat, coords.lon))
-    ]);
-
-    // Шаг 7: Валидация результатов
-    if (!sun) {
-      throw new Error('Failed to calculate Sun position');
-    }
-    if (!moon) {
-      throw new Error('Failed to calculate Moon position');
-    }
-    if (!ascendant) {
-      throw new Error('Failed to calculate Ascendant');
-    }
+    // Шаги 6-8: Дома, планеты, аспекты и дополнительные параметры
+    const calculatedChart = calculateChartAtJulianDay(swe, julianDay, coords, houseSystem, nodeType, options);
+    const chart = birthTimeUnknown ? removeTimeSensitivePoints(calculatedChart) : calculatedChart;
+    const { sun, moon, rising: ascendant, mercury, venus, mars, planets } = chart;
 
-    // Валидация знаков зодиака
-    const validSigns = ZODIAC_SIGNS as readonly string[];
-    if (!validSigns.includes(sun.sign)) {
-      throw new Error(`Invalid Sun sign: ${sun.sign}`);
-    }
-    if (!validSigns.includes(moon.sign)) {
-      throw new Error(`Invalid Moon sign: ${moon.sign}`);
-    }
-    if (!validSigns.includes(ascendant.sign)) {
-      throw new Error(`Invalid Ascendant sign: ${ascendant.sign}`);
+    let moonRange: MoonDayRange | undefined;
+    if (birthTimeUnknown) {
+      moonRange = calculateMoonDayRange(birthDate, coords.timezone, options);
+      log.info('✓ Birth time unknown: noon chart without houses', {
+        moonSigns: moonRange.signs,
+        moonChangesSign: moonRange.changesSign
+      });
     }
 
-    // Шаг 8: Расчет дополнительных параметров
-    const positions = [sun, moon, ascendant].filter(p => p !== null) as PlanetPosition[];
-    if (mercury) positions.push(mercury);
-    if (venus) positions.push(venus);
-    if (mars) positions.push(mars);
-    
-    const element = calculateElement(positions);
-    const rulingPlanet = calculateRulingPlanet(sun.sign);
-
     // Шаг 9: Формирование результата
+    const moonSummary = moonRange?.changesSign ? `${moonRange.signs.join(' or ')} Moon` : `${moon.sign} Moon`;
+    const zodiacSummary = chart.ayanamsa
+      ? ` Sidereal zodiac, ${AYANAMSA_NAMES[chart.ayanamsa].en} ayanamsa ${chart.ayanamsaValue?.toFixed(2)}°.`
+      : '';
     const chartData: NatalChartResult = {
-      sun,
-      moon,
-      rising: ascendant,
-      mercury: mercury || null,
-      venus: venus || null,
-      mars: mars || null,
-      element,
-      rulingPlanet,
-      summary: `Natal chart for ${name}, born on ${birthDate} at ${birthTime || '12:00'} in ${birthPlace}. Your chart reveals a ${element} dominant personality with ${sun.sign} Sun, ${moon.sign} Moon, and ${ascendant.sign} Rising.`
+      ...chart,
+      ...(timeWarning && { timeWarning }),
+      ...(moonRange && { birthTimeUnknown: true, moonRange }),
+      summary: (birthTimeUnknown
+        ? `Natal chart for ${name}, born on ${birthDate} (time unknown, noon chart) in ${placeLabel}. Your chart reveals a ${chart.element} dominant personality with ${sun.sign} Sun and ${moonSummary}; Rising sign and houses require the birth time.`
+        : `Natal chart for ${name}, born on ${birthDate} at ${birthTime} in ${placeLabel}. Your chart reveals a ${chart.element} dominant personality with ${sun.sign} Sun, ${moon.sign} Moon, and ${ascendant.sign} Rising.`
+      ) + zodiacSummary
     };
 
     // Дополнительная валидация знака Солнца (для логирования)
-    const expectedSignByDate = getExpectedSunSignByDate(birthYear, birthMonth, birthDay);
+    const expectedSignByDate = getExpectedSunSignByDate(birthYear, birthMonth, birthDay, chart.ayanamsaValue);
     const signMatch = sun.sign === expectedSignByDate;
     
     if (!signMatch) {
@@ -762,12 +1676,15 @@ export async function calculateNatalChart(
       duration: `${duration}ms`,
       sunSign: sun.sign,
       moonSign: moon.sign,
-      risingSign: ascendant.sign,
-      element,
-      rulingPlanet,
+      risingSign: birthTimeUnknown ? null : ascendant.sign,
+      houseSystem: chart.houseSystem,
+      zodiacType: chart.zodiacType,
+      element: chart.element,
+      rulingPlanet: chart.rulingPlanet,
       hasMercury: !!mercury,
       hasVenus: !!venus,
-      hasMars: !!mars
+      hasMars: !!mars,
+      planetsCount: Object.keys(planets).length
     });
 
     return chartData;
@@ -777,7 +1694,7 @@ export async function calculateNatalChart(
       error: error.message,
       stack: error.stack,
       duration: `${duration}ms`,
-      input: { name, birthDate, birthTime, birthPlace }
+      input: { name, birthDate, birthTime, birthPlace: placeLabel, houseSystem }
     });
     throw error;
   }
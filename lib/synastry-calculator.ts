@@ -0,0 +1,192 @@
+/**
+ * Synastry Calculator
+ *
+ * Детерминированная синастрия двух натальных карт: аспекты между точками
+ * карт, наложения планет на дома партнера и счет совместимости по категориям.
+ * Модель только трактует эти факты, счет не придумывает.
+ */
+
+import { findAspect, DEFAULT_PLANET_ORBS } from './aspects-calculator';
+import { getHouseForLongitude } from './swisseph-calculator';
+import type { AspectType, ChartPlanetKey, HouseOverlay, NatalChartData, PlanetPosition, SynastryAspect, SynastryCategory, SynastryFacts, SynastryScore } from '../types';
+
+// Logging utility
+const log = {
+  info: (message: string, data?: any) => {
+    console.log(`[SynastryCalculator] ${message}`, data || '');
+  },
+  error: (message: string, error?: any) => {
+    console.error(`[SynastryCalculator] ERROR: ${message}`, error || '');
+  },
+};
+
+// Точки карты для синастрии: планеты и Северный узел (Южный ему всегда противоположен)
+const SYNASTRY_PLANETS: ChartPlanetKey[] = [
+  'sun', 'moon', 'mercury', 'venus', 'mars', 'jupiter', 'saturn', 'uranus', 'neptune', 'pluto', 'northNode'
+];
+
+// Орбисы в синастрии уже натальных: между картами считаются только мажорные аспекты
+const SYNASTRY_ORB_FACTOR = 0.8;
+const SYNASTRY_ORBS: Record<string, number> = Object.fromEntries(
+  Object.entries(DEFAULT_PLANET_ORBS).map(([planet, orb]) => [planet, orb * SYNASTRY_ORB_FACTOR])
+);
+
+// Гармоничность аспекта: > 0 поддерживает связь, < 0 создает напряжение
+const ASPECT_HARMONY: Partial<Record<AspectType, number>> = {
+  conjunction: 0.6,
+  sextile: 0.8,
+  trine: 1,
+  square: -0.8,
+  opposition: -0.6
+};
+
+// Соединение с этими планетами скорее давит, чем сближает
+const TENSE_CONJUNCTION_PLANETS = ['Saturn', 'Uranus', 'Pluto'];
+const TENSE_CONJUNCTION_HARMONY = -0.4;
+
+// Аспект учитывается в категории, если в нем участвует одна из её точек
+const CATEGORY_POINTS: Record<SynastryCategory, string[]> = {
+  emotional: ['Moon'],
+  attraction: ['Venus', 'Mars'],
+  communication: ['Mercury'],
+  stability: ['Saturn', 'Jupiter'],
+  core: ['Sun', 'Ascendant']
+};
+
+// Вклад категорий в общий счет (в сумме 1)
+const CATEGORY_WEIGHTS: Record<SynastryCategory, number> = {
+  emotional: 0.3,
+  attraction: 0.25,
+  communication: 0.15,
+  stability: 0.15,
+  core: 0.15
+};
+
+// Насыщение счета категории: сумма 3 дает 75, сумма -3 — 25
+const CATEGORY_SATURATION = 3;
+
+interface SynastryPoint {
+  name: string;
+  longitude: number;
+}
+
+/**
+ * Точки карты с известной долготой; оси — только если известно время рождения
+ */
+function getSynastryPoints(chart: NatalChartData): SynastryPoint[] {
+  const planets: Partial<Record<ChartPlanetKey, PlanetPosition | null>> = chart.planets || {
+    sun: chart.sun,
+    moon: chart.moon,
+    mercury: chart.mercury,
+    venus: chart.venus,
+    mars: chart.mars
+  };
+
+  const positions = SYNASTRY_PLANETS.map(key => planets[key]);
+  if (!chart.birthTimeUnknown) {
+    positions.push(chart.rising, chart.mc);
+  }
+
+  return positions
+    .filter((position): position is PlanetPosition => typeof position?.longitude === 'number')
+    .map(position => ({ name: position.planet, longitude: position.longitude! }));
+}
+
+/**
+ * Куспиды домов карты или null, если домов нет (неизвестное время рождения)
+ */
+function getHouseCusps(chart: NatalChartData): number[] | null {
+  if (chart.birthTimeUnknown || !chart.houses || chart.houses.length !== 12) {
+    return null;
+  }
+  return chart.houses.map(house => house.longitude);
+}
+
+/**
+ * Дома карты host, в которые попадают планеты карты guest
+ */
+function calculateHouseOverlays(guestPoints: SynastryPoint[], host: NatalChartData): HouseOverlay[] {
+  const cusps = getHouseCusps(host);
+  if (!cusps) {
+    return [];
+  }
+  return guestPoints
+    .filter(point => point.name !== 'Ascendant' && point.name !== 'MC')
+    .map(point => ({ planet: point.name, house: getHouseForLongitude(point.longitude, cusps) }));
+}
+
+/**
+ * Аспекты между точками двух карт (только мажорные), от самых точных
+ */
+export function calculateSynastryAspects(chart1: NatalChartData, chart2: NatalChartData): SynastryAspect[] {
+  const points1 = getSynastryPoints(chart1);
+  const points2 = getSynastryPoints(chart2);
+  const aspects: SynastryAspect[] = [];
+
+  for (const point1 of points1) {
+    for (const point2 of points2) {
+      const aspect = findAspect(point1, point2, { planetOrbs: SYNASTRY_ORBS, includeMinor: false });
+      if (aspect) {
+        // applying у двух натальных карт смысла не имеет — обе неподвижны
+        const { planet1, planet2, type, angle, orb } = aspect;
+        aspects.push({ planet1, planet2, type, angle, orb });
+      }
+    }
+  }
+
+  return aspects.sort((a, b) => a.orb - b.orb);
+}
+
+/**
+ * Вклад аспекта в счет: гармоничность × точность (точный аспект весит 1, на 10° — 0)
+ */
+function getAspectValue(aspect: SynastryAspect): number {
+  const isTenseConjunction = aspect.type === 'conjunction' &&
+    (TENSE_CONJUNCTION_PLANETS.includes(aspect.planet1) || TENSE_CONJUNCTION_PLANETS.includes(aspect.planet2));
+  const harmony = isTenseConjunction ? TENSE_CONJUNCTION_HARMONY : ASPECT_HARMONY[aspect.type] || 0;
+  return harmony * Math.max(0, 1 - aspect.orb / 10);
+}
+
+/**
+ * Счет совместимости по категориям и общий
+ *
+ * Сумма вкладов аспектов категории переводится в 0–100 так, что без аспектов
+ * получается 50, а сильный перевес гармонии или напряжения приближает к 100 или 0.
+ */
+export function calculateSynastryScore(aspects: SynastryAspect[]): SynastryScore {
+  const categories = {} as Record<SynastryCategory, number>;
+  let total = 0;
+
+  for (const category of Object.keys(CATEGORY_POINTS) as SynastryCategory[]) {
+    const points = CATEGORY_POINTS[category];
+    const sum = aspects
+      .filter(aspect => points.includes(aspect.planet1) || points.includes(aspect.planet2))
+      .reduce((acc, aspect) => acc + getAspectValue(aspect), 0);
+    categories[category] = Math.round(50 + 50 * sum / (Math.abs(sum) + CATEGORY_SATURATION));
+    total += categories[category] * CATEGORY_WEIGHTS[category];
+  }
+
+  return { total: Math.round(total), categories };
+}
+
+/**
+ * Полная синастрия двух карт: аспекты, наложения домов, счет
+ *
+ * Обе карты должны быть рассчитаны в одном зодиаке.
+ */
+export function calculateSynastry(chart1: NatalChartData, chart2: NatalChartData): SynastryFacts {
+  const aspects = calculateSynastryAspects(chart1, chart2);
+  const houseOverlays = {
+    person1InPerson2: calculateHouseOverlays(getSynastryPoints(chart1), chart2),
+    person2InPerson1: calculateHouseOverlays(getSynastryPoints(chart2), chart1)
+  };
+  const score = calculateSynastryScore(aspects);
+
+  log.info('Synastry calculated', {
+    aspects: aspects.length,
+    overlays: houseOverlays.person1InPerson2.length + houseOverlays.person2InPerson1.length,
+    score: score.total
+  });
+
+  return { aspects, houseOverlays, score };
+}
@@ -0,0 +1,261 @@
+/**
+ * Timeline Calculator
+ *
+ * Шкала событий на период (обычно ближайший год): личные транзиты к натальной
+ * карте, входы планет в знаки, ретроградные и директные станции и затмения.
+ * У каждого события точный момент UTC и местное время пользователя, а также
+ * стабильный id, по которому кэшируется трактовка события.
+ */
+
+import { formatLocalTime } from './local-time';
+import { bisect, findTransitAspects, getNatalPoints } from './transits-calculator';
+import { calculateBodyState, dateToJulianDay, findNextEclipse, getDegreeInSign, getZodiacSign, julianDayToDate, type ZodiacOptions } from './swisseph-calculator';
+import type { ChartPlanetKey, EclipseKind, NatalChartData, TimelineEvent, TransitTimeline } from '../types';
+
+// Logging utility
+const log = {
+  info: (message: string, data?: any) => {
+    console.log(`[TimelineCalculator] ${message}`, data || '');
+  },
+  error: (message: string, error?: any) => {
+    console.error(`[TimelineCalculator] ERROR: ${message}`, error || '');
+  },
+};
+
+const PLANETS: { key: ChartPlanetKey; name: string }[] = [
+  { key: 'sun', name: 'Sun' },
+  { key: 'mercury', name: 'Mercury' },
+  { key: 'venus', name: 'Venus' },
+  { key: 'mars', name: 'Mars' },
+  { key: 'jupiter', name: 'Jupiter' },
+  { key: 'saturn', name: 'Saturn' },
+  { key: 'uranus', name: 'Uranus' },
+  { key: 'neptune', name: 'Neptune' },
+  { key: 'pluto', name: 'Pluto' }
+];
+
+// Личные транзиты — только от Марса и дальше: Солнце, Меркурий и Венера
+// дают десятки аспектов в месяц и на годовой шкале превращаются в шум
+const TIMELINE_TRANSIT_PLANETS = ['Mars', 'Jupiter', 'Saturn', 'Uranus', 'Neptune', 'Pluto'];
+// Станции бывают у всех планет, кроме светил
+const STATION_PLANETS = PLANETS.filter(planet => planet.key !== 'sun');
+// Затмение считается личным, если падает на натальную точку с таким орбисом
+const ECLIPSE_NATAL_ORB = 3;
+
+const DAY = 1;
+// Вход в знак при ретроградном движении — на последней угловой минуте предыдущего знака
+const INGRESS_EPSILON = 1 / 60;
+
+export const DEFAULT_TIMELINE_DAYS = 365;
+
+/**
+ * Начало суток UTC: шаг поиска привязан к суткам, поэтому моменты событий
+ * (и id для кэша трактовок) не зависят от того, в какое время открыта шкала
+ */
+function startOfUtcDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+function createEventId(parts: (string | undefined)[], date: Date): string {
+  return [...parts.filter(Boolean), date.toISOString().slice(0, 10)].join(':');
+}
+
+/**
+ * Общие поля события: момент, местное время и положение планеты
+ * (долгота считается на момент события, если не передана)
+ */
+function createEvent(
+  type: TimelineEvent['type'],
+  idParts: (string | undefined)[],
+  date: Date,
+  planet: { key: ChartPlanetKey; name: string },
+  zodiac: ZodiacOptions,
+  timezone: string,
+  longitude: number = calculateBodyState(dateToJulianDay(date), planet.key, zodiac).longitude
+): TimelineEvent {
+  return {
+    id: createEventId([type, ...idParts], date),
+    type,
+    date: date.toISOString(),
+    ...formatLocalTime(date, timezone),
+    planet: planet.name,
+    sign: getZodiacSign(longitude),
+    degree: getDegreeInSign(longitude)
+  };
+}
+
+/**
+ * Суточные отсчеты периода (последний — конец периода)
+ */
+function getDailySamples(startJd: number, endJd: number): number[] {
+  const samples: number[] = [];
+  for (let jd = startJd; jd < endJd; jd += DAY) {
+    samples.push(jd);
+  }
+  samples.push(endJd);
+  return samples;
+}
+
+/**
+ * Входы планет в знаки (при ретроградном движении — и обратные входы)
+ *
+ * longitude — граница знака со стороны нового знака (0° при прямом движении,
+ * 29°59' при ретроградном), чтобы знак и градус события не зависели от того,
+ * по какую сторону границы остановилась бисекция.
+ */
+export function findSignIngresses(startDate: Date, endDate: Date, zodiac: ZodiacOptions = {}): { planet: ChartPlanetKey; date: Date; longitude: number; isRetrograde: boolean }[] {
+  const samples = getDailySamples(dateToJulianDay(startDate), dateToJulianDay(endDate));
+  const ingresses: { planet: ChartPlanetKey; date: Date; longitude: number; isRetrograde: boolean }[] = [];
+
+  for (const planet of PLANETS) {
+    const signIndexAt = (jd: number) => Math.floor(calculateBodyState(jd, planet.key, zodiac).longitude / 30);
+
+    for (let i = 0; i + 1 < samples.length; i++) {
+      const signBefore = signIndexAt(samples[i]);
+      if (signIndexAt(samples[i + 1]) === signBefore) continue;
+
+      const jd = bisect(samples[i], samples[i + 1], t => signIndexAt(t) === signBefore);
+      const { longitude, speed } = calculateBodyState(jd, planet.key, zodiac);
+      const boundary = Math.round(longitude / 30) * 30;
+      const isRetrograde = speed < 0;
+      ingresses.push({
+        planet: planet.key,
+        date: julianDayToDate(jd),
+        longitude: (boundary + (isRetrograde ? -INGRESS_EPSILON : 0) + 360) % 360,
+        isRetrograde
+      });
+    }
+  }
+
+  return ingresses;
+}
+
+/**
+ * Станции планет: смена направления движения (скорость по долготе меняет знак)
+ */
+export function findStations(startDate: Date, endDate: Date, zodiac: ZodiacOptions = {}): { planet: ChartPlanetKey; date: Date; direction: 'retrograde' | 'direct' }[] {
+  const samples = getDailySamples(dateToJulianDay(startDate), dateToJulianDay(endDate));
+  const stations: { planet: ChartPlanetKey; date: Date; direction: 'retrograde' | 'direct' }[] = [];
+
+  for (const planet of STATION_PLANETS) {
+    const isDirect = (jd: number) => calculateBodyState(jd, planet.key, zodiac).speed >= 0;
+
+    for (let i = 0; i + 1 < samples.length; i++) {
+      const directBefore = isDirect(samples[i]);
+      if (isDirect(samples[i + 1]) === directBefore) continue;
+
+      const jd = bisect(samples[i], samples[i + 1], isDirect);
+      stations.push({ planet: planet.key, date: julianDayToDate(jd), direction: directBefore ? 'retrograde' : 'direct' });
+    }
+  }
+
+  return stations;
+}
+
+/**
+ * Солнечные и лунные затмения периода (моменты максимума)
+ */
+export function findEclipses(startDate: Date, endDate: Date): { kind: EclipseKind; date: Date; type: TimelineEvent['eclipseType'] }[] {
+  const startJd = dateToJulianDay(startDate);
+  const endJd = dateToJulianDay(endDate);
+  const eclipses: { kind: EclipseKind; date: Date; type: TimelineEvent['eclipseType'] }[] = [];
+
+  for (const kind of ['solar', 'lunar'] as EclipseKind[]) {
+    let eclipse = findNextEclipse(startJd, kind);
+    while (eclipse.julianDay <= endJd) {
+      eclipses.push({ kind, date: julianDayToDate(eclipse.julianDay), type: eclipse.type });
+      eclipse = findNextEclipse(eclipse.julianDay + DAY, kind);
+    }
+  }
+
+  return eclipses;
+}
+
+/**
+ * Шкала событий для натальной карты
+ *
+ * Все долготы — в зодиаке натальной карты. Личные транзиты попадают на шкалу
+ * моментом точного аспекта, поэтому транзит без точного аспекта в периоде
+ * (только касание орбиса) на шкалу не выводится.
+ */
+export function calculateTransitTimeline(
+  natalChart: NatalChartData,
+  startDate: Date,
+  days: number = DEFAULT_TIMELINE_DAYS,
+  timezone: string = 'UTC'
+): TransitTimeline {
+  const start = startOfUtcDay(startDate);
+  const end = new Date(start.getTime() + days * 86400000);
+  const zodiac: ZodiacOptions = { zodiacType: natalChart.zodiacType, ayanamsa: natalChart.ayanamsa };
+  const planetByName = (name: string) => PLANETS.find(planet => planet.name === name)!;
+  const planetByKey = (key: ChartPlanetKey) => PLANETS.find(planet => planet.key === key)!;
+  const events: TimelineEvent[] = [];
+
+  // 1. Личные транзиты (момент точного аспекта)
+  for (const transit of findTransitAspects(natalChart, start, end)) {
+    if (!transit.exact || !TIMELINE_TRANSIT_PLANETS.includes(transit.transitPlanet)) continue;
+    const exact = new Date(transit.exact);
+    if (exact < start || exact > end) continue;
+
+    events.push({
+      ...createEvent('transit', [transit.transitPlanet, transit.type, transit.natalPoint], exact, planetByName(transit.transitPlanet), zodiac, timezone),
+      natalPoint: transit.natalPoint,
+      aspect: transit.type,
+      start: transit.start,
+      end: transit.end,
+      isRetrograde: transit.isRetrograde
+    });
+  }
+
+  // 2. Входы в знаки
+  for (const ingress of findSignIngresses(start, end, zodiac)) {
+    const planet = planetByKey(ingress.planet);
+    events.push({
+      ...createEvent('ingress', [planet.name, getZodiacSign(ingress.longitude)], ingress.date, planet, zodiac, timezone, ingress.longitude),
+      isRetrograde: ingress.isRetrograde
+    });
+  }
+
+  // 3. Станции
+  for (const station of findStations(start, end, zodiac)) {
+    const planet = planetByKey(station.planet);
+    events.push({
+      ...createEvent('station', [planet.name, station.direction], station.date, planet, zodiac, timezone),
+      direction: station.direction
+    });
+  }
+
+  // 4. Затмения: положение Солнца (солнечное) или Луны (лунное), личное — если падает на натальную точку
+  const natalPoints = getNatalPoints(natalChart);
+  for (const eclipse of findEclipses(start, end)) {
+    const body = eclipse.kind === 'solar' ? { key: 'sun' as ChartPlanetKey, name: 'Sun' } : { key: 'moon' as ChartPlanetKey, name: 'Moon' };
+    const longitude = calculateBodyState(dateToJulianDay(eclipse.date), body.key, zodiac).longitude;
+    const natalPoint = natalPoints.find(point => {
+      const distance = Math.abs(((longitude - point.longitude) % 360 + 540) % 360 - 180);
+      return distance <= ECLIPSE_NATAL_ORB;
+    });
+
+    events.push({
+      ...createEvent('eclipse', [eclipse.kind], eclipse.date, body, zodiac, timezone, longitude),
+      eclipseKind: eclipse.kind,
+      eclipseType: eclipse.type,
+      ...(natalPoint ? { natalPoint: natalPoint.name } : {})
+    });
+  }
+
+  events.sort((a, b) => a.date.localeCompare(b.date));
+
+  log.info('Transit timeline calculated', {
+    start: start.toISOString(),
+    end: end.toISOString(),
+    timezone,
+    count: events.length
+  });
+
+  return {
+    start: start.toISOString(),
+    end: end.toISOString(),
+    timezone,
+    events
+  };
+}
@@ -5,8 +5,11 @@
  * и их интерпретации для прогнозов
  */
 
-import { calculateNatalChart } from './swisseph-calculator';
-import { getApproximateSunSignByDate } from './zodiac-utils';
+import { calculateEphemeris, calculateBodyState, dateToJulianDay, julianDayToDate, type ZodiacOptions } from './swisseph-calculator';
+import { ZODIAC_SIGNS } from './zodiac-utils';
+import { ASPECT_DEFINITIONS } from './aspects-calculator';
+import { getMoonIllumination, getMoonPhaseName, MOON_PHASE_NAMES_RU } from './lunar-calculator';
+import type { ChartPlanetKey, NatalChartData, PlanetPosition, TransitAspect } from '../types';
 
 // Logging utility
 const log = {
@@ -28,6 +31,8 @@ export interface PlanetTransit {
   planet: string;
   sign: string;
   degree: number;
+  isRetrograde?: boolean;
+  isStationary?: boolean;
   description?: string;
 }
 
@@ -44,168 +49,105 @@ export interface CurrentTransits {
   jupiter?: PlanetTransit;
   saturn?: PlanetTransit;
   moonPhase?: string;
+  moonIllumination?: number; // Освещенность Луны в процентах
+  retrogradePlanets?: string[]; // Планеты в ретроградном движении на дату
+  isMercuryRetrograde?: boolean;
   summary?: string;
 }
 
+/**
+ * Преобразует положение из эфемериды в транзит планеты
+ */
+function toPlanetTransit(position: PlanetPosition, description: string): PlanetTransit {
+  return {
+    planet: position.planet,
+    sign: position.sign,
+    degree: position.degree ?? 0,
+    isRetrograde: position.isRetrograde,
+    isStationary: position.isStationary,
+    description
+  };
+}
+
 /**
  * Получить текущие транзиты планет
  * 
- * Использует Swiss Ephemeris для расчёта положения планет на текущую дату
+ * Использует эфемериду Swiss Ephemeris на указанный момент (UTC).
+ * Знаки даются в зодиаке zodiac (по умолчанию тропическом) — как в карте пользователя.
+ * Геокодинг не нужен; при ошибке расчета выбрасывает исключение.
  */
-export async function getCurrentTransits(date?: Date): Promise<CurrentTransits> {
+export async function getCurrentTransits(date?: Date, zodiac: ZodiacOptions = {}): Promise<CurrentTransits> {
   const targetDate = date || new Date();
   const dateString = targetDate.toISOString().split('T')[0];
   
-  log.info('Calculating current transits', { date: dateString });
+  log.info('Calculating current transits', { date: targetDate.toISOString() });
 
   try {
-    // Используем Swiss Ephemeris для расчёта текущих положений планет
-    // Передаём фиктивное имя и место, так как нам нужны только положения планет
-    const transitChart = await calculateNatalChart(
-      'Transit',
-      dateString,
-      '12:00',
-      'Greenwich, UK' // Используем Гринвич как универсальную точку
-    );
+    const { planets } = calculateEphemeris(targetDate, zodiac);
+    const { sun, moon, mercury, venus, mars, jupiter, saturn } = planets;
+    if (!sun || !moon || !mercury || !venus || !mars || !jupiter || !saturn) {
+      throw new Error('Ephemeris is missing required planets');
+    }
+
+    // Фаза Луны по элонгации Луны от Солнца
+    const phaseAngle = ((moon.longitude ?? 0) - (sun.longitude ?? 0) + 360) % 360;
+    const moonPhase = MOON_PHASE_NAMES_RU[getMoonPhaseName(phaseAngle)];
+    const moonIllumination = Math.round(getMoonIllumination(phaseAngle));
 
-    // Определяем фазу Луны (упрощённо, на основе знака)
-    const moonPhase = getMoonPhase(transitChart.moon.degree);
+    const retrogradePlanets = Object.values(planets)
+      .filter(position => position && position.isRetrograde && !position.planet.includes('Node'))
+      .map(position => position!.planet);
+    const isMercuryRetrograde = !!mercury.isRetrograde;
 
     const transits: CurrentTransits = {
       date: dateString,
-      sun: {
-        planet: 'Sun',
-        sign: transitChart.sun.sign,
-        degree: transitChart.sun.degree,
-        description: `Солнце сейчас в ${transitChart.sun.sign}, освещая темы этого знака`
-      },
-      moon: {
-        planet: 'Moon',
-        sign: transitChart.moon.sign,
-        degree: transitChart.moon.degree,
-        description: `Луна в ${transitChart.moon.sign}, влияя на эмоциональный фон`
-      },
-      mercury: transitChart.mercury ? {
-        planet: 'Mercury',
-        sign: transitChart.mercury.sign,
-        degree: transitChart.mercury.degree,
-        description: `Меркурий в ${transitChart.mercury.sign}, влияя на коммуникацию`
-      } : undefined,
-      venus: transitChart.venus ? {
-        planet: 'Venus',
-        sign: transitChart.venus.sign,
-        degree: transitChart.venus.degree,
-        description: `Венера в ${transitChart.venus.sign}, влияя на отношения`
-      } : undefined,
-      mars: transitChart.mars ? {
-        planet: 'Mars',
-        sign: transitChart.mars.sign,
-        degree: transitChart.mars.degree,
-        description: `Марс в ${transitChart.mars.sign}, влияя на энергию и действия`
-      } : undefined,
+      sun: toPlanetTransit(sun, `Солнце сейчас в ${sun.sign}, освещая темы этого знака`),
+      moon: toPlanetTransit(moon, `Луна в ${moon.sign}, влияя на эмоциональный фон`),
+      mercury: toPlanetTransit(mercury, isMercuryRetrograde
+        ? `Ретроградный Меркурий в ${mercury.sign}: пересматривай планы, перепроверяй договорённости и сообщения`
+        : `Меркурий в ${mercury.sign}, влияя на коммуникацию`),
+      venus: toPlanetTransit(venus, `Венера в ${venus.sign}, влияя на отношения`),
+      mars: toPlanetTransit(mars, `Марс в ${mars.sign}, влияя на энергию и действия`),
+      jupiter: toPlanetTransit(jupiter, `Юпитер в ${jupiter.sign}, расширяя возможности`),
+      saturn: toPlanetTransit(saturn, `Сатурн в ${saturn.sign}, требуя дисциплины`),
       moonPhase,
+      moonIllumination,
+      retrogradePlanets,
+      isMercuryRetrograde,
       summary: `Текущие астрологические влияния на ${new Date(dateString).toLocaleDateString('ru-RU')}`
     };
 
     log.info('Transits calculated successfully', {
       sunSign: transits.sun.sign,
       moonSign: transits.moon.sign,
-      moonPhase
+      moonPhase,
+      retrogradePlanets
     });
 
     return transits;
   } catch (error: any) {
     log.error('Failed to calculate transits', {
       error: error.message,
-      date: dateString
+      date: targetDate.toISOString()
     });
-
-    // Возвращаем упрощённые транзиты на основе даты
-    return getSimplifiedTransits(targetDate);
+    throw new Error(`Failed to calculate transits for ${targetDate.toISOString()}: ${error.message}`);
   }
 }
 
-/**
- * Получить упрощённые транзиты (fallback)
- * 
- * Используется когда Swiss Ephemeris недоступен
- */
-function getSimplifiedTransits(date: Date): CurrentTransits {
-  const dateString = date.toISOString().split('T')[0];
-  
-  // Упрощённое определение знака Солнца по дате
-  const sunSign = getSunSignByDate(date);
-  
-  return {
-    date: dateString,
-    sun: {
-      planet: 'Sun',
-      sign: sunSign,
-      degree: 15,
-      description: `Солнце сейчас в ${sunSign}`
-    },
-    moon: {
-      planet: 'Moon',
-      sign: 'Cancer', // Упрощённо
-      degree: 10,
-      description: 'Луна влияет на эмоциональный фон'
-    },
-    moonPhase: 'Растущая',
-    summary: `Текущие астрологические влияния на ${date.toLocaleDateString('ru-RU')}`
-  };
-}
-
-/**
- * Определить знак Солнца по дате (упрощённо)
- * 
- * Использует централизованную функцию для избежания дублирования кода.
- * 
- * @param date - Дата для определения знака
- * @returns Приблизительный знак зодиака
- */
-function getSunSignByDate(date: Date): string {
-  const month = date.getMonth() + 1;
-  const day = date.getDate();
-  const year = date.getFullYear();
-
-  // Используем централизованную функцию для избежания дублирования
-  return getApproximateSunSignByDate(year, month, day);
-}
-
-/**
- * Определить фазу Луны (упрощённо)
- */
-function getMoonPhase(moonDegree: number): string {
-  // Это упрощённая версия, в реальности нужно учитывать позиции Солнца и Луны
-  const phase = Math.floor(moonDegree / 45) % 8;
-  
-  const phases = [
-    'Новолуние',
-    'Растущий серп',
-    'Первая четверть',
-    'Растущая Луна',
-    'Полнолуние',
-    'Убывающая Луна',
-    'Последняя четверть',
-    'Убывающий серп'
-  ];
-  
-  return phases[phase] || 'Растущая';
-}
-
 /**
  * Получить транзиты на период (неделя/месяц)
  */
 export async function getTransitsForPeriod(
   startDate: Date,
-  endDate: Date
+  endDate: Date,
+  zodiac: ZodiacOptions = {}
 ): Promise<{
   startTransits: CurrentTransits;
   endTransits: CurrentTransits;
   summary: string;
 }> {
-  const startTransits = await getCurrentTransits(startDate);
-  const endTransits = await getCurrentTransits(endDate);
+  const startTransits = await getCurrentTransits(startDate, zodiac);
+  const endTransits = await getCurrentTransits(endDate, zodiac);
   
   const summary = `Период с ${startDate.toLocaleDateString('ru-RU')} по ${endDate.toLocaleDateString('ru-RU')}. ` +
     `Солнце движется через ${startTransits.sun.sign}` +
@@ -218,3 +160,258 @@ export async function getTransitsForPeriod(
     summary
   };
 }
+
+/**
+ * Транзитные планеты и их орбисы (градусы) для транзитов к натальной карте
+ */
+const TRANSIT_PLANETS: { key: ChartPlanetKey; name: string; orb: number; stepDays: number }[] = [
+  { key: 'moon', name: 'Moon', orb: 1, stepDays: 1 / 12 },
+  { key: 'sun', name: 'Sun', orb: 1.5, stepDays: 1 },
+  { key: 'mercury', name: 'Mercury', orb: 1.5, stepDays: 1 },
+  { key: 'venus', name: 'Venus', orb: 1.5, stepDays: 1 },
+  { key: 'mars', name: 'Mars', orb: 1.5, stepDays: 1 },
+  { key: 'jupiter', name: 'Jupiter', orb: 1.5, stepDays: 1 },
+  { key: 'saturn', name: 'Saturn', orb: 1.5, stepDays: 1 },
+  { key: 'uranus', name: 'Uranus', orb: 1, stepDays: 1 },
+  { key: 'neptune', name: 'Neptune', orb: 1, stepDays: 1 },
+  { key: 'pluto', name: 'Pluto', orb: 1, stepDays: 1 },
+];
+
+// Насколько далеко за границы периода ищем вход/выход из орбиса медленных планет
+const MAX_SEARCH_DAYS = 400;
+// Точность уточнения времени (в днях) — около минуты
+const TIME_PRECISION_DAYS = 1 / 1440;
+
+export interface TransitAspectOptions {
+  includeMoon?: boolean; // Луна дает много коротких транзитов, по умолчанию выключена
+}
+
+export interface NatalPoint {
+  name: string;
+  longitude: number;
+}
+
+/**
+ * Нормализует разницу долгот в диапазон (-180, 180]
+ */
+function normalizeDelta(delta: number): number {
+  let normalized = delta % 360;
+  if (normalized > 180) normalized -= 360;
+  if (normalized <= -180) normalized += 360;
+  return normalized;
+}
+
+/**
+ * Возвращает абсолютную долготу натальной точки.
+ * Для карт, сохраненных до появления поля longitude, восстанавливает её по знаку и градусу.
+ */
+export function getPointLongitude(position: PlanetPosition | null | undefined): number | null {
+  if (!position) return null;
+  if (typeof position.longitude === 'number') return position.longitude;
+
+  const signIndex = (ZODIAC_SIGNS as readonly string[]).indexOf(position.sign);
+  if (signIndex < 0 || typeof position.degree !== 'number') return null;
+  return signIndex * 30 + position.degree;
+}
+
+/**
+ * Собирает натальные точки для транзитов и прогрессий: планеты, Северный узел, Асцендент и MC
+ *
+ * Если время рождения неизвестно, оси карты недостоверны и в точки не входят.
+ */
+export function getNatalPoints(natalChart: NatalChartData): NatalPoint[] {
+  const positions: (PlanetPosition | null | undefined)[] = natalChart.planets
+    ? Object.entries(natalChart.planets)
+        // Южный узел всегда напротив Северного и дублировал бы его транзиты
+        .filter(([key]) => key !== 'southNode')
+        .map(([, position]) => position)
+    : [natalChart.sun, natalChart.moon, natalChart.mercury, natalChart.venus, natalChart.mars];
+
+  if (!natalChart.birthTimeUnknown) {
+    positions.push(
+      natalChart.rising ? { ...natalChart.rising, planet: 'Ascendant' } : null,
+      natalChart.mc
+    );
+  }
+
+  const points: NatalPoint[] = [];
+  for (const position of positions) {
+    const longitude = getPointLongitude(position);
+    if (position && longitude !== null) {
+      points.push({ name: position.planet, longitude });
+    }
+  }
+  return points;
+}
+
+/**
+ * Находит момент, когда функция меняет знак, методом бисекции между t1 и t2
+ */
+export function bisect(t1: number, t2: number, isPositive: (t: number) => boolean): number {
+  const positiveAtStart = isPositive(t1);
+  let low = t1;
+  let high = t2;
+  while (Math.abs(high - low) > TIME_PRECISION_DAYS) {
+    const mid = (low + high) / 2;
+    if (isPositive(mid) === positiveAtStart) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+  return (low + high) / 2;
+}
+
+/**
+ * Находит все транзитные аспекты к натальной карте за период
+ *
+ * Для каждой транзитной планеты долгота считается с шагом (2 часа для Луны,
+ * сутки для остальных), затем границы орбиса и момент точного аспекта
+ * уточняются бисекцией. Аспекты, которые уже действуют на начало периода или
+ * продолжаются после его конца, получают реальные даты входа и выхода из орбиса.
+ * Ретроградная петля может дать несколько отдельных событий для одной пары;
+ * если планета разворачивается внутри орбиса, каждое точное касание — отдельное
+ * событие с общими датами входа и выхода.
+ * Транзитные долготы берутся в зодиаке натальной карты (тропическом или сидерическом).
+ */
+export function findTransitAspects(
+  natalChart: NatalChartData,
+  startDate: Date,
+  endDate: Date,
+  options: TransitAspectOptions = {}
+): TransitAspect[] {
+  if (endDate.getTime() <= startDate.getTime()) {
+    throw new Error('Transit period end must be after start');
+  }
+
+  const natalPoints = getNatalPoints(natalChart);
+  if (natalPoints.length === 0) {
+    throw new Error('Natal chart has no positions with longitude');
+  }
+
+  const zodiac = { zodiacType: natalChart.zodiacType, ayanamsa: natalChart.ayanamsa };
+  const majorAspects = ASPECT_DEFINITIONS.filter(definition => definition.major);
+  const startJd = dateToJulianDay(startDate);
+  const endJd = dateToJulianDay(endDate);
+  const events: TransitAspect[] = [];
+
+  for (const transitPlanet of TRANSIT_PLANETS) {
+    if (transitPlanet.key === 'moon' && !options.includeMoon) continue;
+
+    const longitudeCache = new Map<number, number>();
+    const longitudeAt = (jd: number): number => {
+      let longitude = longitudeCache.get(jd);
+      if (longitude === undefined) {
+        longitude = calculateBodyState(jd, transitPlanet.key, zodiac).longitude;
+        longitudeCache.set(jd, longitude);
+      }
+      return longitude;
+    };
+
+    const step = transitPlanet.stepDays;
+    const samples: number[] = [];
+    for (let jd = startJd; jd < endJd; jd += step) {
+      samples.push(jd);
+    }
+    samples.push(endJd);
+
+    for (const natalPoint of natalPoints) {
+      for (const aspect of majorAspects) {
+        // Для 0° и 180° цель одна, для остальных — по обе стороны от натальной точки
+        const targets = aspect.angle === 0 || aspect.angle === 180
+          ? [natalPoint.longitude + aspect.angle]
+          : [natalPoint.longitude + aspect.angle, natalPoint.longitude - aspect.angle];
+
+        for (const target of targets) {
+          const deltaAt = (jd: number) => normalizeDelta(longitudeAt(jd) - target);
+          const isActive = (jd: number) => Math.abs(deltaAt(jd)) <= transitPlanet.orb;
+
+          let i = 0;
+          while (i < samples.length) {
+            if (!isActive(samples[i])) {
+              i++;
+              continue;
+            }
+
+            // Нашли участок, где аспект в орбисе: samples[i..j]
+            let j = i;
+            while (j + 1 < samples.length && isActive(samples[j + 1])) {
+              j++;
+            }
+
+            // Точки, по которым ищем точный аспект (включая выход за границы периода)
+            const checkpoints: number[] = [];
+
+            let startJdEvent: number;
+            if (i > 0) {
+              startJdEvent = bisect(samples[i - 1], samples[i], isActive);
+            } else {
+              let probe = samples[0] - step;
+              while (isActive(probe) && startJd - probe < MAX_SEARCH_DAYS) {
+                checkpoints.unshift(probe);
+                probe -= step;
+              }
+              startJdEvent = isActive(probe) ? probe : bisect(probe, probe + step, isActive);
+            }
+
+            checkpoints.push(...samples.slice(i, j + 1));
+
+            let endJdEvent: number;
+            if (j < samples.length - 1) {
+              endJdEvent = bisect(samples[j], samples[j + 1], isActive);
+            } else {
+              let probe = samples[j] + step;
+              while (isActive(probe) && probe - endJd < MAX_SEARCH_DAYS) {
+                checkpoints.push(probe);
+                probe += step;
+              }
+              endJdEvent = isActive(probe) ? probe : bisect(probe - step, probe, isActive);
+            }
+
+            // Все точные касания участка: при развороте планеты в орбисе их два или три
+            const points = [startJdEvent, ...checkpoints.filter(t => t > startJdEvent && t < endJdEvent), endJdEvent];
+            const exactJds: number[] = [];
+            for (let k = 0; k + 1 < points.length; k++) {
+              const d1 = deltaAt(points[k]);
+              const d2 = deltaAt(points[k + 1]);
+              if (d1 === 0) {
+                exactJds.push(points[k]);
+              } else if (d2 !== 0 && Math.sign(d1) !== Math.sign(d2)) {
+                exactJds.push(bisect(points[k], points[k + 1], t => deltaAt(t) > 0));
+              }
+            }
+
+            // Без точного касания — одно событие, иначе по событию на каждое касание
+            const exactMoments: (number | null)[] = exactJds.length > 0 ? exactJds : [null];
+            for (const exactJd of exactMoments) {
+              const referenceJd = exactJd ?? (startJdEvent + endJdEvent) / 2;
+              events.push({
+                transitPlanet: transitPlanet.name,
+                natalPoint: natalPoint.name,
+                type: aspect.type,
+                angle: aspect.angle,
+                start: julianDayToDate(startJdEvent).toISOString(),
+                exact: exactJd !== null ? julianDayToDate(exactJd).toISOString() : null,
+                end: julianDayToDate(endJdEvent).toISOString(),
+                isRetrograde: calculateBodyState(referenceJd, transitPlanet.key, zodiac).speed < 0
+              });
+            }
+
+            i = j + 1;
+          }
+        }
+      }
+    }
+  }
+
+  events.sort((a, b) => (a.exact || a.start).localeCompare(b.exact || b.start));
+
+  log.info('Transit aspects calculated', {
+    start: startDate.toISOString(),
+    end: endDate.toISOString(),
+    natalPoints: natalPoints.length,
+    count: events.length
+  });
+
+  return events;
+}
@@ -3,6 +3,8 @@
  * Использует встроенную валидацию без внешних зависимостей
  */
 
+import type { PersonRelationship } from '../types';
+
 export interface ValidationError {
   field: string;
   message: string;
@@ -120,6 +122,119 @@ export function validateBirthPlace(place: string): { isValid: boolean; error?: s
   return { isValid: true };
 }
 
+/**
+ * Валидация широты места рождения (градусы, -90..90)
+ */
+export function validateLatitude(lat: unknown): { isValid: boolean; error?: string } {
+  if (typeof lat !== 'number' || !Number.isFinite(lat)) {
+    return { isValid: false, error: 'Latitude must be a number' };
+  }
+
+  if (lat < -90 || lat > 90) {
+    return { isValid: false, error: 'Latitude must be between -90 and 90' };
+  }
+
+  return { isValid: true };
+}
+
+/**
+ * Валидация долготы места рождения (градусы, -180..180, восточная — положительная)
+ */
+export function validateLongitude(lon: unknown): { isValid: boolean; error?: string } {
+  if (typeof lon !== 'number' || !Number.isFinite(lon)) {
+    return { isValid: false, error: 'Longitude must be a number' };
+  }
+
+  if (lon < -180 || lon > 180) {
+    return { isValid: false, error: 'Longitude must be between -180 and 180' };
+  }
+
+  return { isValid: true };
+}
+
+/**
+ * Приводит смещение от UTC к виду "+03:00"
+ *
+ * Принимает "+3", "+03:00", "-0530", "UTC+3", "GMT-5:30". Возвращает null,
+ * если строка не смещение или оно вне диапазона -12:00..+14:00.
+ */
+export function normalizeUtcOffset(value: string): string | null {
+  const match = value.trim().toUpperCase().match(/^(?:UTC|GMT)?\s*([+-])(\d{1,2})(?::?(\d{2}))?$/);
+  if (!match) return null;
+
+  const [, sign, hoursText, minutesText = '00'] = match;
+  const hours = Number(hoursText);
+  const minutes = Number(minutesText);
+  if (minutes >= 60) return null;
+
+  const totalMinutes = (sign === '-' ? -1 : 1) * (hours * 60 + minutes);
+  if (totalMinutes < -12 * 60 || totalMinutes > 14 * 60) return null;
+
+  return `${sign}${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`;
+}
+
+/**
+ * Валидация часового пояса: IANA ("Europe/Moscow") или смещение от UTC ("UTC+3")
+ */
+export function validateTimezone(timezone: unknown): { isValid: boolean; error?: string } {
+  if (!timezone || typeof timezone !== 'string') {
+    return { isValid: false, error: 'Timezone is required' };
+  }
+
+  if (normalizeUtcOffset(timezone)) {
+    return { isValid: true };
+  }
+
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone.trim() });
+    return { isValid: true };
+  } catch {
+    return { isValid: false, error: 'Timezone must be an IANA name (e.g. Europe/Moscow) or a UTC offset between -12:00 and +14:00' };
+  }
+}
+
+/**
+ * Валидация координат места рождения, введенных вручную (все поля необязательны)
+ *
+ * Широта и долгота задаются только вместе; часовой пояс без координат не имеет смысла.
+ */
+function validateManualLocation(
+  lat: unknown,
+  lon: unknown,
+  timezone: unknown,
+  fieldPrefix: string
+): ValidationError[] {
+  const errors: ValidationError[] = [];
+  const isSet = (value: unknown) => value !== undefined && value !== null && value !== '';
+  const field = (name: string) => `${fieldPrefix}${name}`;
+
+  if (!isSet(lat) && !isSet(lon)) {
+    if (isSet(timezone)) {
+      errors.push({ field: field('Lat'), message: 'Coordinates are required when a timezone is given' });
+    }
+    return errors;
+  }
+
+  const latValidation = validateLatitude(lat);
+  if (!latValidation.isValid) {
+    errors.push({ field: field('Lat'), message: latValidation.error || 'Invalid latitude' });
+  }
+
+  const lonValidation = validateLongitude(lon);
+  if (!lonValidation.isValid) {
+    errors.push({ field: field('Lon'), message: lonValidation.error || 'Invalid longitude' });
+  }
+
+  if (isSet(timezone)) {
+    const timezoneValidation = validateTimezone(timezone);
+    if (!timezoneValidation.isValid) {
+      errors.push({ field: field('Timezone'), message: timezoneValidation.error || 'Invalid timezone' });
+    }
+  }
+
+  return errors;
+}
+
 /**
  * Валидация языка
  */
@@ -136,6 +251,54 @@ export function validateLanguage(language: string): { isValid: boolean; error?:
   return { isValid: true };
 }
 
+/**
+ * Валидация системы домов
+ */
+export function validateHouseSystem(houseSystem: string): { isValid: boolean; error?: string } {
+  if (!houseSystem || typeof houseSystem !== 'string') {
+    return { isValid: false, error: 'House system is required' };
+  }
+
+  const validHouseSystems = ['placidus', 'koch', 'whole_sign', 'equal', 'porphyry', 'regiomontanus'];
+  if (!validHouseSystems.includes(houseSystem)) {
+    return { isValid: false, error: `House system must be one of: ${validHouseSystems.join(', ')}` };
+  }
+
+  return { isValid: true };
+}
+
+/**
+ * Валидация типа зодиака
+ */
+export function validateZodiacType(zodiacType: string): { isValid: boolean; error?: string } {
+  if (!zodiacType || typeof zodiacType !== 'string') {
+    return { isValid: false, error: 'Zodiac type is required' };
+  }
+
+  const validZodiacTypes = ['tropical', 'sidereal'];
+  if (!validZodiacTypes.includes(zodiacType)) {
+    return { isValid: false, error: `Zodiac type must be one of: ${validZodiacTypes.join(', ')}` };
+  }
+
+  return { isValid: true };
+}
+
+/**
+ * Валидация аянамсы (сидерический зодиак)
+ */
+export function validateAyanamsa(ayanamsa: string): { isValid: boolean; error?: string } {
+  if (!ayanamsa || typeof ayanamsa !== 'string') {
+    return { isValid: false, error: 'Ayanamsa is required' };
+  }
+
+  const validAyanamsas = ['lahiri', 'raman', 'fagan_bradley'];
+  if (!validAyanamsas.includes(ayanamsa)) {
+    return { isValid: false, error: `Ayanamsa must be one of: ${validAyanamsas.join(', ')}` };
+  }
+
+  return { isValid: true };
+}
+
 /**
  * Валидация данных для расчета натальной карты
  */
@@ -144,7 +307,14 @@ export function validateNatalChartInput(data: {
   birthDate?: string;
   birthTime?: string;
   birthPlace?: string;
+  birthLat?: unknown;
+  birthLon?: unknown;
+  birthTimezone?: unknown;
+  birthTimeChoice?: unknown;
   language?: string;
+  houseSystem?: string;
+  zodiacType?: string;
+  ayanamsa?: string;
 }): ValidationResult {
   const errors: ValidationError[] = [];
 
@@ -186,6 +356,16 @@ export function validateNatalChartInput(data: {
     errors.push({ field: 'birthPlace', message: 'Birth place is required' });
   }
 
+  // Координаты и часовой пояс, введенные вручную (опционально)
+  errors.push(...validateManualLocation(data.birthLat, data.birthLon, data.birthTimezone, 'birth'));
+
+  // Выбор момента при переводе часов (опционально)
+  if (data.birthTimeChoice !== undefined && data.birthTimeChoice !== null && data.birthTimeChoice !== '') {
+    if (data.birthTimeChoice !== 'earlier' && data.birthTimeChoice !== 'later') {
+      errors.push({ field: 'birthTimeChoice', message: 'Birth time choice must be one of: earlier, later' });
+    }
+  }
+
   // Валидация языка (опционально)
   if (data.language !== undefined && data.language !== null && data.language !== '') {
     const languageValidation = validateLanguage(data.language);
@@ -194,6 +374,28 @@ export function validateNatalChartInput(data: {
     }
   }
 
+  // Валидация системы домов (опционально)
+  if (data.houseSystem !== undefined && data.houseSystem !== null && data.houseSystem !== '') {
+    const houseSystemValidation = validateHouseSystem(data.houseSystem);
+    if (!houseSystemValidation.isValid) {
+      errors.push({ field: 'houseSystem', message: houseSystemValidation.error || 'Invalid house system' });
+    }
+  }
+
+  // Валидация зодиака и аянамсы (опционально)
+  if (data.zodiacType !== undefined && data.zodiacType !== null && data.zodiacType !== '') {
+    const zodiacTypeValidation = validateZodiacType(data.zodiacType);
+    if (!zodiacTypeValidation.isValid) {
+      errors.push({ field: 'zodiacType', message: zodiacTypeValidation.error || 'Invalid zodiac type' });
+    }
+  }
+  if (data.ayanamsa !== undefined && data.ayanamsa !== null && data.ayanamsa !== '') {
+    const ayanamsaValidation = validateAyanamsa(data.ayanamsa);
+    if (!ayanamsaValidation.isValid) {
+      errors.push({ field: 'ayanamsa', message: ayanamsaValidation.error || 'Invalid ayanamsa' });
+    }
+  }
+
   return {
     isValid: errors.length === 0,
     errors
@@ -209,6 +411,9 @@ export function validateSynastryInput(data: {
   partnerDate?: string;
   partnerTime?: string;
   partnerPlace?: string;
+  partnerLat?: unknown;
+  partnerLon?: unknown;
+  partnerTimezone?: unknown;
   language?: string;
 }): ValidationResult {
   const errors: ValidationError[] = [];
@@ -257,6 +462,9 @@ export function validateSynastryInput(data: {
     }
   }
 
+  // Координаты и часовой пояс партнера, введенные вручную (опционально)
+  errors.push(...validateManualLocation(data.partnerLat, data.partnerLon, data.partnerTimezone, 'partner'));
+
   // Валидация языка (опционально)
   if (data.language !== undefined && data.language !== null && data.language !== '') {
     const languageValidation = validateLanguage(data.language);
@@ -271,6 +479,180 @@ export function validateSynastryInput(data: {
   };
 }
 
+// Ограничения ректификации: число событий и шаг перебора времени в минутах
+export const MAX_RECTIFICATION_EVENTS = 20;
+export const MIN_RECTIFICATION_STEP = 1;
+export const MAX_RECTIFICATION_STEP = 30;
+
+const RECTIFICATION_EVENT_TYPES = ['relationship', 'career', 'home', 'child', 'loss', 'health', 'move', 'other'];
+
+/**
+ * Валидация данных для ректификации: окно времени и список событий жизни
+ */
+export function validateRectificationInput(data: {
+  birthDate?: string;
+  timeFrom?: unknown;
+  timeTo?: unknown;
+  events?: unknown;
+  stepMinutes?: unknown;
+}): ValidationResult {
+  const errors: ValidationError[] = [];
+
+  // Окно времени рождения (в пределах суток)
+  const fromValidation = validateTime(data.timeFrom as string);
+  if (!fromValidation.isValid) {
+    errors.push({ field: 'timeFrom', message: fromValidation.error || 'Invalid time' });
+  }
+  const toValidation = validateTime(data.timeTo as string);
+  if (!toValidation.isValid) {
+    errors.push({ field: 'timeTo', message: toValidation.error || 'Invalid time' });
+  }
+  if (fromValidation.isValid && toValidation.isValid && (data.timeFrom as string) > (data.timeTo as string)) {
+    errors.push({ field: 'timeTo', message: 'timeTo must not be earlier than timeFrom' });
+  }
+
+  // Шаг перебора (опционально)
+  if (data.stepMinutes !== undefined && data.stepMinutes !== null) {
+    const step = data.stepMinutes;
+    if (typeof step !== 'number' || !Number.isInteger(step) || step < MIN_RECTIFICATION_STEP || step > MAX_RECTIFICATION_STEP) {
+      errors.push({
+        field: 'stepMinutes',
+        message: `stepMinutes must be an integer between ${MIN_RECTIFICATION_STEP} and ${MAX_RECTIFICATION_STEP}`
+      });
+    }
+  }
+
+  // События: дата после рождения, тип из списка, описание — короткая строка
+  if (!Array.isArray(data.events) || data.events.length === 0) {
+    errors.push({ field: 'events', message: 'At least one life event is required' });
+  } else if (data.events.length > MAX_RECTIFICATION_EVENTS) {
+    errors.push({ field: 'events', message: `No more than ${MAX_RECTIFICATION_EVENTS} events are allowed` });
+  } else {
+    data.events.forEach((event: any, index: number) => {
+      const field = `events[${index}]`;
+      const dateValidation = validateDate(event?.date);
+      if (!dateValidation.isValid) {
+        errors.push({ field: `${field}.date`, message: dateValidation.error || 'Invalid date' });
+      } else if (data.birthDate && event.date <= data.birthDate) {
+        errors.push({ field: `${field}.date`, message: 'Event date must be after the birth date' });
+      }
+      if (event?.type !== undefined && !RECTIFICATION_EVENT_TYPES.includes(event.type)) {
+        errors.push({ field: `${field}.type`, message: `Event type must be one of: ${RECTIFICATION_EVENT_TYPES.join(', ')}` });
+      }
+      if (event?.description !== undefined && (typeof event.description !== 'string' || event.description.length > 200)) {
+        errors.push({ field: `${field}.description`, message: 'Event description must be a string up to 200 characters' });
+      }
+    });
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors
+  };
+}
+
+// Сохраненные люди пользователя: сколько можно хранить и кем они приходятся
+export const MAX_PEOPLE_PER_USER = 50;
+
+export const PERSON_RELATIONSHIPS: PersonRelationship[] = ['partner', 'spouse', 'child', 'parent', 'sibling', 'friend', 'colleague', 'other'];
+
+/**
+ * Валидация данных сохраненного человека: имя, кем приходится, данные рождения
+ */
+export function validatePersonInput(data: {
+  name?: unknown;
+  relationship?: unknown;
+  birthDate?: unknown;
+  birthTime?: unknown;
+  birthPlace?: unknown;
+  birthLat?: unknown;
+  birthLon?: unknown;
+  birthTimezone?: unknown;
+}): ValidationResult {
+  const errors: ValidationError[] = [];
+
+  const nameValidation = validateName(data.name as string);
+  if (!nameValidation.isValid) {
+    errors.push({ field: 'name', message: nameValidation.error || 'Invalid name' });
+  }
+
+  if (!PERSON_RELATIONSHIPS.includes(data.relationship as PersonRelationship)) {
+    errors.push({ field: 'relationship', message: `Relationship must be one of: ${PERSON_RELATIONSHIPS.join(', ')}` });
+  }
+
+  const dateValidation = validateDate(data.birthDate as string);
+  if (!dateValidation.isValid) {
+    errors.push({ field: 'birthDate', message: dateValidation.error || 'Invalid birth date' });
+  }
+
+  // Время рождения необязательно: без него карта строится на полдень
+  if (data.birthTime !== undefined && data.birthTime !== null && data.birthTime !== '') {
+    const timeValidation = validateTime(data.birthTime as string);
+    if (!timeValidation.isValid) {
+      errors.push({ field: 'birthTime', message: timeValidation.error || 'Invalid birth time' });
+    }
+  }
+
+  const placeValidation = validateBirthPlace(data.birthPlace as string);
+  if (!placeValidation.isValid) {
+    errors.push({ field: 'birthPlace', message: placeValidation.error || 'Invalid birth place' });
+  }
+
+  errors.push(...validateManualLocation(data.birthLat, data.birthLon, data.birthTimezone, 'birth'));
+
+  return {
+    isValid: errors.length === 0,
+    errors
+  };
+}
+
+// Групповая совместимость: сколько человек сравнивается (вместе с пользователем, если он участвует)
+export const MIN_GROUP_SIZE = 3;
+export const MAX_GROUP_SIZE = 8;
+
+/**
+ * Валидация запроса групповой совместимости: профиль и сохраненные люди
+ */
+export function validateGroupInput(data: {
+  profile?: any;
+  personIds?: unknown;
+  includeSelf?: unknown;
+}): ValidationResult {
+  const errors: ValidationError[] = [];
+
+  if (!data.profile) {
+    errors.push({ field: 'profile', message: 'Profile is required' });
+  } else {
+    if (!data.profile.id) {
+      errors.push({ field: 'profile.id', message: 'Profile id is required to load saved people' });
+    }
+    if (!data.profile.birthDate) {
+      errors.push({ field: 'profile.birthDate', message: 'Profile birth date is required' });
+    }
+    if (!data.profile.birthPlace) {
+      errors.push({ field: 'profile.birthPlace', message: 'Profile birth place is required' });
+    }
+  }
+
+  const personIds = data.personIds;
+  if (!Array.isArray(personIds) || personIds.some(id => typeof id !== 'string' || !/^\d+$/.test(id))) {
+    errors.push({ field: 'personIds', message: 'personIds must be an array of saved person IDs' });
+  } else {
+    if (new Set(personIds).size !== personIds.length) {
+      errors.push({ field: 'personIds', message: 'personIds must not contain duplicates' });
+    }
+    const size = personIds.length + (data.includeSelf ? 1 : 0);
+    if (size < MIN_GROUP_SIZE || size > MAX_GROUP_SIZE) {
+      errors.push({ field: 'personIds', message: `Group must have from ${MIN_GROUP_SIZE} to ${MAX_GROUP_SIZE} people` });
+    }
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors
+  };
+}
+
 /**
  * Форматирует ошибки валидации в понятное сообщение для пользователя
  */
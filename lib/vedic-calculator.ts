@@ -0,0 +1,210 @@
+/**
+ * Vedic Calculator
+ *
+ * Ведическая (джйотиш) часть карты: сидерические положения девяти грах,
+ * накшатры, Вимшоттари-даша (махадаши и антардаши) и навамша (D9).
+ * Все расчеты детерминированы: зависят только от момента рождения и аянамсы.
+ */
+
+import { calculateAyanamsa, DEFAULT_AYANAMSA, julianDayToDate } from './swisseph-calculator';
+import { ZODIAC_SIGNS, getNakshatra, NAKSHATRA_SPAN } from './zodiac-utils';
+import type { ChartPlanetKey, DashaPeriod, DashaPlanet, Mahadasha, NatalChartData, PlanetPosition, VedicChart, VedicPlanetPosition, VimshottariDasha } from '../types';
+
+// Logging utility
+const log = {
+  info: (message: string, data?: any) => {
+    console.log(`[VedicCalculator] ${message}`, data || '');
+  },
+  error: (message: string, error?: any) => {
+    console.error(`[VedicCalculator] ERROR: ${message}`, error || '');
+  },
+};
+
+/**
+ * Длительность махадаш Вимшоттари в годах (в сумме 120 лет)
+ */
+export const VIMSHOTTARI_YEARS: Record<DashaPlanet, number> = {
+  Ketu: 7,
+  Venus: 20,
+  Sun: 6,
+  Moon: 10,
+  Mars: 7,
+  Rahu: 18,
+  Jupiter: 16,
+  Saturn: 19,
+  Mercury: 17
+};
+
+// Порядок даш — тот же, что у управителей накшатр от Ашвини
+const VIMSHOTTARI_ORDER: DashaPlanet[] = ['Ketu', 'Venus', 'Sun', 'Moon', 'Mars', 'Rahu', 'Jupiter', 'Saturn', 'Mercury'];
+
+const VIMSHOTTARI_TOTAL_YEARS = 120;
+
+// Год даши — юлианский (365.25 суток), как в большинстве программ джйотиша
+const DASHA_YEAR_MS = 365.25 * 86400000;
+
+// Девять грах: узлы в джйотише — Раху (северный) и Кету (южный)
+const GRAHAS: { key: ChartPlanetKey; name: string }[] = [
+  { key: 'sun', name: 'Sun' },
+  { key: 'moon', name: 'Moon' },
+  { key: 'mars', name: 'Mars' },
+  { key: 'mercury', name: 'Mercury' },
+  { key: 'jupiter', name: 'Jupiter' },
+  { key: 'venus', name: 'Venus' },
+  { key: 'saturn', name: 'Saturn' },
+  { key: 'northNode', name: 'Rahu' },
+  { key: 'southNode', name: 'Ketu' }
+];
+
+function normalizeAngle(angle: number): number {
+  const normalized = angle % 360;
+  return normalized < 0 ? normalized + 360 : normalized;
+}
+
+/**
+ * Долгота в навамше (D9): каждый знак делится на 9 частей по 3°20',
+ * и каждая часть растягивается на целый знак
+ *
+ * @example
+ * getNavamsaLongitude(30) // 270 — 0° Тельца в навамше попадает в Козерог
+ */
+export function getNavamsaLongitude(siderealLongitude: number): number {
+  return normalizeAngle(normalizeAngle(siderealLongitude) * 9);
+}
+
+function createPeriod(planet: DashaPlanet, startMs: number, years: number): DashaPeriod {
+  return {
+    planet,
+    start: new Date(Math.round(startMs)).toISOString(),
+    end: new Date(Math.round(startMs + years * DASHA_YEAR_MS)).toISOString(),
+    years
+  };
+}
+
+function findPeriodAt<T extends DashaPeriod>(periods: T[], time: number): T | undefined {
+  return periods.find(period => Date.parse(period.start) <= time && time < Date.parse(period.end));
+}
+
+/**
+ * Вимшоттари-даша по сидерической долготе Луны
+ *
+ * Первая махадаша — управитель накшатры Луны; пройденная Луной доля накшатры
+ * считается уже прожитой до рождения. Антардаши внутри махадаши идут в том же
+ * порядке, начиная с её планеты, и длятся пропорционально своим годам.
+ */
+export function calculateVimshottariDasha(moonSiderealLongitude: number, birthDate: Date, date: Date = new Date()): VimshottariDasha {
+  if (isNaN(birthDate.getTime())) {
+    throw new Error('Invalid birth date for dasha calculation');
+  }
+
+  // 1. Остаток первой махадаши на момент рождения
+  const nakshatra = getNakshatra(moonSiderealLongitude);
+  const elapsed = nakshatra.degreeInNakshatra / NAKSHATRA_SPAN;
+  const firstIndex = VIMSHOTTARI_ORDER.indexOf(nakshatra.lord);
+  const balanceAtBirth = (1 - elapsed) * VIMSHOTTARI_YEARS[nakshatra.lord];
+
+  // 2. Полный цикл из девяти махадаш, начиная до рождения
+  let startMs = birthDate.getTime() - elapsed * VIMSHOTTARI_YEARS[nakshatra.lord] * DASHA_YEAR_MS;
+  const mahadashas: Mahadasha[] = [];
+  for (let i = 0; i < VIMSHOTTARI_ORDER.length; i++) {
+    const planet = VIMSHOTTARI_ORDER[(firstIndex + i) % VIMSHOTTARI_ORDER.length];
+    const years = VIMSHOTTARI_YEARS[planet];
+
+    // 3. Антардаши: годы махадаши × годы подпериода / 120
+    const antardashas: DashaPeriod[] = [];
+    let subStartMs = startMs;
+    for (let j = 0; j < VIMSHOTTARI_ORDER.length; j++) {
+      const subPlanet = VIMSHOTTARI_ORDER[(firstIndex + i + j) % VIMSHOTTARI_ORDER.length];
+      const subYears = years * VIMSHOTTARI_YEARS[subPlanet] / VIMSHOTTARI_TOTAL_YEARS;
+      antardashas.push(createPeriod(subPlanet, subStartMs, subYears));
+      subStartMs += subYears * DASHA_YEAR_MS;
+    }
+
+    mahadashas.push({ ...createPeriod(planet, startMs, years), antardashas });
+    startMs += years * DASHA_YEAR_MS;
+  }
+
+  // 4. Текущие периоды на дату расчета
+  const mahadasha = findPeriodAt(mahadashas, date.getTime());
+  const antardasha = mahadasha && findPeriodAt(mahadasha.antardashas, date.getTime());
+
+  return {
+    balanceAtBirth,
+    mahadashas,
+    ...(mahadasha && antardasha ? {
+      current: {
+        mahadasha: { planet: mahadasha.planet, start: mahadasha.start, end: mahadasha.end, years: mahadasha.years },
+        antardasha
+      }
+    } : {})
+  };
+}
+
+function createVedicPosition(planet: string, siderealLongitude: number): VedicPlanetPosition {
+  const longitude = normalizeAngle(siderealLongitude);
+  return {
+    planet,
+    sign: ZODIAC_SIGNS[Math.floor(longitude / 30) % 12],
+    degree: longitude % 30,
+    longitude,
+    nakshatra: getNakshatra(longitude),
+    navamsaSign: ZODIAC_SIGNS[Math.floor(getNavamsaLongitude(longitude) / 30) % 12]
+  };
+}
+
+/**
+ * Ведическая карта для натальной карты
+ *
+ * Сидерическая карта берется как есть (со своей аянамсой), тропическая
+ * переводится в сидерический зодиак по Лахири. Лагна (Асцендент) включается,
+ * только если время рождения известно. Текущие даши — на дату date.
+ */
+export function calculateVedicChart(natalChart: NatalChartData, date: Date = new Date()): VedicChart {
+  if (!natalChart.julianDay) {
+    throw new Error('Natal chart has no birth moment (julianDay), recalculate the chart');
+  }
+
+  // 1. Аянамса и сдвиг долгот к сидерическому зодиаку
+  const isSidereal = natalChart.zodiacType === 'sidereal';
+  const ayanamsa = isSidereal ? natalChart.ayanamsa || DEFAULT_AYANAMSA : DEFAULT_AYANAMSA;
+  const ayanamsaValue = isSidereal && typeof natalChart.ayanamsaValue === 'number'
+    ? natalChart.ayanamsaValue
+    : calculateAyanamsa(natalChart.julianDay, ayanamsa);
+  const shift = isSidereal ? 0 : ayanamsaValue;
+
+  // 2. Грахи и Лагна в раши, накшатрах и навамше
+  const points: Partial<Record<ChartPlanetKey, PlanetPosition>> = natalChart.planets || {
+    sun: natalChart.sun,
+    moon: natalChart.moon
+  };
+  const planets = GRAHAS
+    .filter(({ key }) => typeof points[key]?.longitude === 'number')
+    .map(({ key, name }) => createVedicPosition(name, points[key]!.longitude! - shift));
+  if (!natalChart.birthTimeUnknown && typeof natalChart.rising.longitude === 'number') {
+    planets.push(createVedicPosition('Ascendant', natalChart.rising.longitude - shift));
+  }
+
+  const moon = planets.find(planet => planet.planet === 'Moon');
+  if (!moon) {
+    throw new Error('Failed to calculate Moon position for Vedic chart');
+  }
+
+  // 3. Даши от момента рождения
+  const birthDate = natalChart.birthDateUtc ? new Date(natalChart.birthDateUtc) : julianDayToDate(natalChart.julianDay);
+  const dasha = calculateVimshottariDasha(moon.longitude, birthDate, date);
+
+  log.info('Vedic chart calculated', {
+    ayanamsa,
+    ayanamsaValue: ayanamsaValue.toFixed(4),
+    moonNakshatra: `${moon.nakshatra.name} ${moon.nakshatra.pada}`,
+    currentDasha: dasha.current ? `${dasha.current.mahadasha.planet}/${dasha.current.antardasha.planet}` : null
+  });
+
+  return {
+    ayanamsa,
+    ayanamsaValue,
+    planets,
+    moonNakshatra: moon.nakshatra,
+    dasha
+  };
+}
@@ -3,6 +3,8 @@
  * Централизованное хранение данных о знаках для избежания дублирования
  */
 
+import type { Ayanamsa, DashaPlanet, Language, Modality, NakshatraPosition, ZodiacType } from '../types';
+
 /**
  * Все знаки зодиака в порядке следования
  * 
@@ -15,6 +17,114 @@ export const ZODIAC_SIGNS = [
 
 export type ZodiacSign = typeof ZODIAC_SIGNS[number];
 
+/**
+ * Названия аянамс сидерического зодиака
+ */
+export const AYANAMSA_NAMES: Record<Ayanamsa, { ru: string; en: string }> = {
+  lahiri: { ru: 'Лахири', en: 'Lahiri' },
+  raman: { ru: 'Раман', en: 'Raman' },
+  fagan_bradley: { ru: 'Фаган-Брэдли', en: 'Fagan-Bradley' }
+};
+
+/**
+ * Аянамса на 1 января 2000 года (J2000) в градусах, по Swiss Ephemeris
+ */
+const AYANAMSA_AT_J2000: Record<Ayanamsa, number> = {
+  lahiri: 23.857,
+  raman: 22.411,
+  fagan_bradley: 24.74
+};
+
+// Прецессия точки весеннего равноденствия, градусов в год
+const PRECESSION_PER_YEAR = 0.01397;
+
+// Среднее суточное движение Солнца, градусов
+const SUN_DAILY_MOTION = 0.9856;
+
+/**
+ * Приблизительная величина аянамсы на год (без Swiss Ephemeris)
+ *
+ * Точность — сотые доли градуса в пределах 1900–2100 годов: достаточно
+ * для подписи и валидации, но не для расчета карты.
+ *
+ * @example
+ * getApproximateAyanamsa(1990, 'lahiri') // ~23.72
+ */
+export function getApproximateAyanamsa(year: number, ayanamsa: Ayanamsa): number {
+  return AYANAMSA_AT_J2000[ayanamsa] + (year - 2000) * PRECESSION_PER_YEAR;
+}
+
+/**
+ * Название зодиака для подписи: "тропический" или "сидерический (Лахири)"
+ */
+export function getZodiacLabel(zodiacType: ZodiacType = 'tropical', ayanamsa: Ayanamsa = 'lahiri', language: Language = 'ru'): string {
+  if (zodiacType !== 'sidereal') {
+    return language === 'ru' ? 'тропический' : 'tropical';
+  }
+  return language === 'ru'
+    ? `сидерический (${AYANAMSA_NAMES[ayanamsa].ru})`
+    : `sidereal (${AYANAMSA_NAMES[ayanamsa].en})`;
+}
+
+/**
+ * 27 накшатр (лунных стоянок) по 13°20' сидерической долготы, начиная с 0° Овна
+ *
+ * Управители идут циклом Вимшоттари: Кету, Венера, Солнце, Луна, Марс,
+ * Раху, Юпитер, Сатурн, Меркурий — и повторяются трижды.
+ */
+export const NAKSHATRAS: ReadonlyArray<{ name: string; lord: DashaPlanet }> = [
+  { name: 'Ashwini', lord: 'Ketu' },
+  { name: 'Bharani', lord: 'Venus' },
+  { name: 'Krittika', lord: 'Sun' },
+  { name: 'Rohini', lord: 'Moon' },
+  { name: 'Mrigashira', lord: 'Mars' },
+  { name: 'Ardra', lord: 'Rahu' },
+  { name: 'Punarvasu', lord: 'Jupiter' },
+  { name: 'Pushya', lord: 'Saturn' },
+  { name: 'Ashlesha', lord: 'Mercury' },
+  { name: 'Magha', lord: 'Ketu' },
+  { name: 'Purva Phalguni', lord: 'Venus' },
+  { name: 'Uttara Phalguni', lord: 'Sun' },
+  { name: 'Hasta', lord: 'Moon' },
+  { name: 'Chitra', lord: 'Mars' },
+  { name: 'Swati', lord: 'Rahu' },
+  { name: 'Vishakha', lord: 'Jupiter' },
+  { name: 'Anuradha', lord: 'Saturn' },
+  { name: 'Jyeshtha', lord: 'Mercury' },
+  { name: 'Mula', lord: 'Ketu' },
+  { name: 'Purva Ashadha', lord: 'Venus' },
+  { name: 'Uttara Ashadha', lord: 'Sun' },
+  { name: 'Shravana', lord: 'Moon' },
+  { name: 'Dhanishta', lord: 'Mars' },
+  { name: 'Shatabhisha', lord: 'Rahu' },
+  { name: 'Purva Bhadrapada', lord: 'Jupiter' },
+  { name: 'Uttara Bhadrapada', lord: 'Saturn' },
+  { name: 'Revati', lord: 'Mercury' }
+];
+
+// Размер накшатры, градусов (13°20')
+export const NAKSHATRA_SPAN = 360 / 27;
+
+/**
+ * Накшатра и пада (четверть) для сидерической долготы
+ *
+ * @example
+ * getNakshatra(45) // { index: 4, name: 'Rohini', lord: 'Moon', pada: 2, degreeInNakshatra: 5 }
+ */
+export function getNakshatra(siderealLongitude: number): NakshatraPosition {
+  const longitude = ((siderealLongitude % 360) + 360) % 360;
+  // min — защита от округления на самом 360°
+  const index = Math.min(Math.floor(longitude / NAKSHATRA_SPAN), NAKSHATRAS.length - 1);
+  const degreeInNakshatra = longitude - index * NAKSHATRA_SPAN;
+  return {
+    index: index + 1,
+    name: NAKSHATRAS[index].name,
+    lord: NAKSHATRAS[index].lord,
+    pada: Math.min(Math.floor(degreeInNakshatra / (NAKSHATRA_SPAN / 4)), 3) + 1,
+    degreeInNakshatra
+  };
+}
+
 /**
  * Управляющие планеты для каждого знака зодиака
  */
@@ -51,6 +161,24 @@ export const SIGN_ELEMENTS: Record<ZodiacSign, 'Fire' | 'Earth' | 'Air' | 'Water
   'Pisces': 'Water'
 } as const;
 
+/**
+ * Кресты (модальности) для каждого знака зодиака
+ */
+export const SIGN_MODALITIES: Record<ZodiacSign, Modality> = {
+  'Aries': 'cardinal',
+  'Taurus': 'fixed',
+  'Gemini': 'mutable',
+  'Cancer': 'cardinal',
+  'Leo': 'fixed',
+  'Virgo': 'mutable',
+  'Libra': 'cardinal',
+  'Scorpio': 'fixed',
+  'Sagittarius': 'mutable',
+  'Capricorn': 'cardinal',
+  'Aquarius': 'fixed',
+  'Pisces': 'mutable'
+} as const;
+
 /**
  * Приблизительные даты входа Солнца в знаки зодиака
  * 
@@ -91,13 +219,22 @@ export const APPROXIMATE_SUN_SIGN_DATES: Record<ZodiacSign, { startMonth: number
  * @param year - Год рождения
  * @param month - Месяц рождения (1-12)
  * @param day - День рождения (1-31)
+ * @param ayanamsaValue - Аянамса в градусах для сидерического зодиака (0 — тропический)
  * @returns Приблизительный знак зодиака
  * 
  * @example
  * getApproximateSunSignByDate(1990, 5, 15) // 'Taurus'
  * getApproximateSunSignByDate(1990, 7, 23) // 'Leo'
+ * getApproximateSunSignByDate(1990, 5, 5, 23.72) // 'Aries' (сидерический)
  */
-export function getApproximateSunSignByDate(year: number, month: number, day: number): ZodiacSign {
+export function getApproximateSunSignByDate(year: number, month: number, day: number, ayanamsaValue: number = 0): ZodiacSign {
+  // В сидерическом зодиаке Солнце входит в знак позже на аянамсу (~24 дня),
+  // поэтому знак определяется по дате, сдвинутой назад на это время
+  if (ayanamsaValue) {
+    const shifted = new Date(Date.UTC(year, month - 1, day - Math.round(ayanamsaValue / SUN_DAILY_MOTION)));
+    return getApproximateSunSignByDate(shifted.getUTCFullYear(), shifted.getUTCMonth() + 1, shifted.getUTCDate());
+  }
+
   // Проверяем каждый знак по порядку
   for (const sign of ZODIAC_SIGNS) {
     const dates = APPROXIMATE_SUN_SIGN_DATES[sign];
@@ -150,3 +287,13 @@ export function getRulingPlanet(sign: ZodiacSign): string {
 export function getElementForSign(sign: ZodiacSign): 'Fire' | 'Earth' | 'Air' | 'Water' {
   return SIGN_ELEMENTS[sign];
 }
+
+/**
+ * Получает крест (модальность) для знака зодиака
+ * 
+ * @param sign - Знак зодиака
+ * @returns Крест знака ('cardinal', 'fixed' или 'mutable')
+ */
+export function getModalityForSign(sign: ZodiacSign): Modality {
+  return SIGN_MODALITIES[sign];
+}
@@ -0,0 +1,87 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getBirthLocation, getCoordinates, resolveBirthLocation, type Coordinates } from '../../../lib/swisseph-calculator';
+import { resolveLocalTime } from '../../../lib/local-time';
+import { validateDate, validateTime, validateBirthPlace, formatValidationErrors } from '../../../lib/validation';
+
+// Logging utility
+const log = {
+  info: (message: string, data?: any) => {
+    console.log(`[API/astrology/birth-time-check] ${message}`, data || '');
+  },
+  error: (message: string, error?: any) => {
+    console.error(`[API/astrology/birth-time-check] ERROR: ${message}`, error || '');
+  },
+};
+
+/**
+ * Проверка времени рождения на перевод часов (до расчета карты)
+ *
+ * POST { birthDate, birthTime, birthPlace, birthLat?, birthLon?, birthTimezone? }
+ * Возвращает { timezone, warning }: warning (LocalTimeWarning) есть, только если
+ * время было дважды или его не было — тогда пользователь выбирает момент.
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { birthDate, birthTime, birthPlace, birthLat, birthLon, birthTimezone, language } = req.body || {};
+  const userLanguage = language === 'en' ? 'en' : 'ru';
+
+  const errors = [
+    { field: 'birthDate', validation: validateDate(birthDate) },
+    { field: 'birthTime', validation: validateTime(birthTime) },
+    { field: 'birthPlace', validation: validateBirthPlace(birthPlace) }
+  ]
+    .filter(({ validation }) => !validation.isValid)
+    .map(({ field, validation }) => ({ field, message: validation.error || `Invalid ${field}` }));
+
+  if (errors.length > 0) {
+    return res.status(400).json({
+      error: 'Validation failed',
+      message: formatValidationErrors(errors, userLanguage),
+      errors
+    });
+  }
+
+  try {
+    const location = getBirthLocation(birthPlace, { birthLat, birthLon, birthTimezone });
+
+    let coords: Coordinates;
+    try {
+      coords = typeof location === 'string' ? await getCoordinates(location) : resolveBirthLocation(location);
+    } catch (coordError: any) {
+      log.error('Failed to resolve birth place', { birthPlace, error: coordError.message });
+      return res.status(400).json({
+        error: 'Location not found',
+        message: coordError.message
+      });
+    }
+
+    const { warning } = resolveLocalTime(`${birthDate}T${birthTime}`, coords.timezone);
+
+    log.info('Birth time checked', {
+      birthDate,
+      birthTime,
+      timezone: coords.timezone,
+      warning: warning?.type || null
+    });
+
+    return res.status(200).json({ timezone: coords.timezone, warning: warning || null });
+  } catch (error: any) {
+    log.error('Error checking birth time', {
+      error: error.message,
+      stack: error.stack
+    });
+    return res.status(500).json({
+      error: 'Birth time check failed',
+      message: userLanguage === 'ru'
+        ? 'Не удалось проверить время рождения. Пожалуйста, попробуйте позже.'
+        : 'Failed to check birth time. Please try again later.',
+      details: process.env.NODE_ENV === 'development' ? error.message : undefined
+    });
+  }
+}
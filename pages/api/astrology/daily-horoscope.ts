@@ -131,7 +131,8 @@ export default async function handler(
     // Получаем текущие транзиты для точного прогноза
     let transits = null;
     try {
-      transits = await getCurrentTransits();
+      // Знаки транзитов — в зодиаке натальной карты
+      transits = await getCurrentTransits(undefined, { zodiacType: chartData.zodiacType, ayanamsa: chartData.ayanamsa });
       log.info('Transits calculated for daily horoscope', {
          sunSign: transits?.sun?.sign,
          moonSign: transits?.moon?.sign
@@ -1,6 +1,8 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
 import OpenAI from 'openai';
-import { SYSTEM_PROMPT_ASTRA, createDeepDivePrompt, addLanguageInstruction } from '../../../lib/prompts';
+import { SYSTEM_PROMPT_ASTRA, createDeepDivePrompt, createVedicAnalysisPrompt, addLanguageInstruction, VEDIC_DEEP_DIVE_TOPICS } from '../../../lib/prompts';
+import { calculateVedicChart } from '../../../lib/vedic-calculator';
+import type { VedicChart } from '../../../types';
 
 // Logging utility
 const log = {
@@ -42,6 +44,32 @@ export default async function handler(
       language: lang ? 'ru' : 'en'
     });
 
+    // Ведическая тема — только для премиум, накшатры и даши считаются на сервере
+    const isVedicTopic = VEDIC_DEEP_DIVE_TOPICS.includes(topic);
+    let vedicChart: VedicChart | null = null;
+    if (isVedicTopic) {
+      if (!profile.isPremium) {
+        return res.status(403).json({
+          error: 'Premium required',
+          message: lang
+            ? 'Ведический анализ доступен только для премиум-пользователей'
+            : 'Vedic analysis is available only for premium users'
+        });
+      }
+
+      try {
+        vedicChart = calculateVedicChart(chartData);
+      } catch (vedicError: any) {
+        log.error('Failed to calculate Vedic chart', { error: vedicError.message });
+        return res.status(400).json({
+          error: 'Vedic chart unavailable',
+          message: lang
+            ? 'Для ведического анализа пересчитайте натальную карту'
+            : 'Please recalculate your natal chart for the Vedic analysis'
+        });
+      }
+    }
+
     // Проверяем наличие API ключа
     if (!process.env.OPENAI_API_KEY) {
       log.error('OpenAI API key not configured, using fallback');
@@ -52,7 +80,9 @@ export default async function handler(
     }
 
     // Создаём промпт с использованием нашей системы промптов
-    const userPrompt = createDeepDivePrompt(chartData, profile, topic);
+    const userPrompt = vedicChart
+      ? createVedicAnalysisPrompt(chartData, profile, vedicChart)
+      : createDeepDivePrompt(chartData, profile, topic);
     const promptWithLang = addLanguageInstruction(userPrompt, lang ? 'ru' : 'en');
 
     log.info('Sending request to OpenAI', {
@@ -0,0 +1,186 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import OpenAI from 'openai';
+import { db } from '../../../lib/db';
+import { SYSTEM_PROMPT_ASTRA, createGroupCompatibilityPrompt, addLanguageInstruction, GroupCompatibilityAIResponse } from '../../../lib/prompts';
+import { validateGroupInput, formatValidationErrors } from '../../../lib/validation';
+import { calculateNatalChart, getBirthLocation, resolveLocationCoordinates } from '../../../lib/swisseph-calculator';
+import { calculateGroupCompatibility, type GroupChartInput } from '../../../lib/group-calculator';
+import { getPersonChart } from '../../../lib/people';
+import type { GroupCompatibilityResult, GroupInterpretation } from '../../../types';
+
+// Logging utility
+const log = {
+  info: (message: string, data?: any) => {
+    console.log(`[API/astrology/group] ${message}`, data || '');
+  },
+  error: (message: string, error?: any) => {
+    console.error(`[API/astrology/group] ERROR: ${message}`, error || '');
+  },
+};
+
+// Initialize OpenAI client
+const openai = new OpenAI({
+  apiKey: process.env.OPENAI_API_KEY,
+});
+
+/**
+ * API endpoint для групповой совместимости
+ *
+ * POST { profile, personIds, includeSelf?, language?, groupType? }
+ * Сравниваются сохраненные люди пользователя (и он сам, если includeSelf) —
+ * от 3 до 8 человек; карты берутся в зодиаке и системе домов пользователя.
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const { profile, personIds, includeSelf, language, groupType } = req.body || {};
+    const userLanguage = language || profile?.language || 'ru';
+    const lang = userLanguage === 'ru';
+
+    const validation = validateGroupInput({ profile, personIds, includeSelf });
+    if (!validation.isValid) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        message: formatValidationErrors(validation.errors, lang ? 'ru' : 'en'),
+        errors: validation.errors
+      });
+    }
+
+    log.info('Group compatibility request received', {
+      userId: profile.id,
+      people: personIds.length,
+      includeSelf: !!includeSelf,
+      language: lang ? 'ru' : 'en'
+    });
+
+    // 1. Сохраненные люди пользователя в порядке запроса
+    const savedPeople = await db.people.list(String(profile.id));
+    const people = (personIds as string[]).map(id => savedPeople.find(person => person.id === id));
+    if (people.some(person => !person)) {
+      return res.status(404).json({
+        error: 'Person not found',
+        message: lang ? 'Некоторые люди не найдены среди сохраненных' : 'Some people were not found among saved people'
+      });
+    }
+
+    let group;
+    try {
+      // 2. Карты в зодиаке и системе домов пользователя
+      const chartOptions = {
+        houseSystem: profile.houseSystem || undefined,
+        zodiacType: profile.zodiacType || undefined,
+        ayanamsa: profile.ayanamsa || undefined
+      };
+      const inputs: GroupChartInput[] = [];
+
+      if (includeSelf) {
+        const userPlace = await resolveLocationCoordinates(getBirthLocation(profile.birthPlace, profile));
+        const userChart = await calculateNatalChart(
+          profile.name,
+          profile.birthDate,
+          profile.birthTime || '',
+          userPlace,
+          { ...chartOptions, localTimeChoice: profile.birthTimeChoice || undefined }
+        );
+        inputs.push({ id: 'self', name: profile.name, chart: userChart });
+      }
+
+      for (const person of people) {
+        inputs.push({
+          id: person!.id,
+          name: person!.name,
+          relationship: person!.relationship,
+          chart: await getPersonChart(person!, chartOptions)
+        });
+      }
+
+      // 3. Синастрия пар, сильные и напряженные пары, баланс группы
+      group = calculateGroupCompatibility(inputs);
+    } catch (calcError: any) {
+      log.error('Failed to calculate group compatibility', { error: calcError.message });
+      return res.status(400).json({
+        error: 'Group analysis unavailable',
+        message: calcError.message
+      });
+    }
+
+    // 4. Трактовка (без ключа OpenAI — только рассчитанные факты)
+    if (!process.env.OPENAI_API_KEY) {
+      log.error('OpenAI API key not configured, returning group facts without interpretation');
+      const result: GroupCompatibilityResult = { group, interpretation: null };
+      return res.status(200).json(result);
+    }
+
+    const userPrompt = createGroupCompatibilityPrompt(group, groupType || 'семья');
+    const promptWithLang = addLanguageInstruction(userPrompt, lang ? 'ru' : 'en');
+
+    log.info('Sending request to OpenAI', {
+      model: 'gpt-4o',
+      promptLength: promptWithLang.length
+    });
+
+    const startTime = Date.now();
+    const completion = await openai.chat.completions.create({
+      model: 'gpt-4o',
+      messages: [
+        { role: 'system', content: SYSTEM_PROMPT_ASTRA },
+        { role: 'user', content: promptWithLang }
+      ],
+      response_format: { type: "json_object" },
+      temperature: 0.7,
+      max_tokens: 2500,
+    });
+
+    const duration = Date.now() - startTime;
+    const responseText = completion.choices[0]?.message?.content || '{}';
+
+    log.info('OpenAI response received', {
+      duration: `${duration}ms`,
+      tokensUsed: completion.usage?.total_tokens
+    });
+
+    let aiResponse: GroupCompatibilityAIResponse;
+    try {
+      aiResponse = JSON.parse(responseText);
+    } catch (parseError: any) {
+      log.error('Failed to parse JSON response', { error: parseError.message });
+      return res.status(500).json({
+        error: 'AI response parsing failed',
+        message: lang
+          ? 'Не удалось обработать ответ от AI. Пожалуйста, попробуйте позже.'
+          : 'Failed to process AI response. Please try again later.'
+      });
+    }
+
+    const interpretation: GroupInterpretation = {
+      theme: aiResponse.theme || '',
+      dynamics: aiResponse.dynamics || '',
+      strongest: aiResponse.strongest || '',
+      strained: aiResponse.strained || '',
+      advice: Array.isArray(aiResponse.advice) ? aiResponse.advice : []
+    };
+
+    const result: GroupCompatibilityResult = { group, interpretation };
+    return res.status(200).json(result);
+  } catch (error: any) {
+    log.error('Error in group compatibility handler', {
+      error: error.message,
+      stack: error.stack
+    });
+
+    const lang = (req.body?.language || req.body?.profile?.language) === 'ru';
+    return res.status(500).json({
+      error: 'Group analysis failed',
+      message: lang
+        ? 'Не удалось рассчитать совместимость группы. Пожалуйста, попробуйте позже.'
+        : 'Failed to analyze group compatibility. Please try again later.',
+      details: process.env.NODE_ENV === 'development' ? error.message : undefined
+    });
+  }
+}
@@ -0,0 +1,65 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getLunarCalendar, getMoonPhaseInfo } from '../../../lib/lunar-calculator';
+
+// Logging utility
+const log = {
+  info: (message: string, data?: any) => {
+    console.log(`[API/astrology/lunar-calendar] ${message}`, data || '');
+  },
+  error: (message: string, error?: any) => {
+    console.error(`[API/astrology/lunar-calendar] ERROR: ${message}`, error || '');
+  },
+};
+
+/**
+ * Лунный календарь на месяц и текущая фаза Луны
+ *
+ * GET /api/astrology/lunar-calendar?year=2025&month=3
+ * Без параметров возвращает текущий месяц (UTC). Ключи внешних API не нужны.
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const now = new Date();
+  const year = req.query.year !== undefined ? Number(req.query.year) : now.getUTCFullYear();
+  const month = req.query.month !== undefined ? Number(req.query.month) : now.getUTCMonth() + 1;
+
+  if (!Number.isInteger(year) || year < 1800 || year > 2399 || !Number.isInteger(month) || month < 1 || month > 12) {
+    return res.status(400).json({
+      error: 'Bad request',
+      message: 'year must be an integer between 1800 and 2399, month between 1 and 12'
+    });
+  }
+
+  try {
+    const startTime = Date.now();
+    const calendar = getLunarCalendar(year, month);
+    const today = getMoonPhaseInfo(now);
+
+    log.info('Lunar calendar calculated', {
+      year,
+      month,
+      duration: `${Date.now() - startTime}ms`
+    });
+
+    // Календарь на месяц детерминирован, но текущая фаза меняется — кэшируем на час
+    res.setHeader('Cache-Control', 'public, s-maxage=3600, stale-while-revalidate=600');
+    return res.status(200).json({ ...calendar, today });
+  } catch (error: any) {
+    log.error('Error calculating lunar calendar', {
+      error: error.message,
+      stack: error.stack
+    });
+
+    return res.status(500).json({
+      error: 'Lunar calendar calculation failed',
+      message: 'Failed to calculate lunar calendar. Please try again later.',
+      details: process.env.NODE_ENV === 'development' ? error.message : undefined
+    });
+  }
+}
@@ -1,5 +1,5 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
-import { calculateNatalChart } from '../../../lib/swisseph-calculator';
+import { calculateNatalChart, getBirthLocation } from '../../../lib/swisseph-calculator';
 import { validateNatalChartInput, formatValidationErrors } from '../../../lib/validation';
 import { withRateLimit, RATE_LIMIT_CONFIGS } from '../../../lib/rateLimit';
 
@@ -41,7 +41,7 @@ async function handler(
   }
 
   try {
-    const { name, birthDate, birthTime, birthPlace, language } = req.body;
+    const { name, birthDate, birthTime, birthPlace, language, houseSystem, zodiacType, ayanamsa, birthLat, birthLon, birthTimezone, birthTimeChoice } = req.body;
 
     // Шаг 2: Строгая валидация входных данных
     const validation = validateNatalChartInput({
@@ -49,7 +49,14 @@ async function handler(
       birthDate,
       birthTime,
       birthPlace,
-      language: language || 'ru'
+      birthLat,
+      birthLon,
+      birthTimezone,
+      birthTimeChoice,
+      language: language || 'ru',
+      houseSystem,
+      zodiacType,
+      ayanamsa
     });
 
     if (!validation.isValid) {
@@ -72,9 +79,11 @@ async function handler(
     log.info('Calculating natal chart with Swiss Ephemeris', {
       name,
       birthDate,
-      birthTime: birthTime || '12:00 (default)',
+      birthTime: birthTime || 'unknown',
       birthPlace,
-      language: language || 'ru'
+      language: language || 'ru',
+      houseSystem: houseSystem || 'placidus',
+      zodiacType: zodiacType || 'tropical'
     });
 
     // Шаг 3: Расчет натальной карты
@@ -84,8 +93,14 @@ async function handler(
       const chartData = await calculateNatalChart(
         name,
         birthDate,
-        birthTime || '12:00',
-        birthPlace
+        birthTime || '',
+        getBirthLocation(birthPlace, { birthLat, birthLon, birthTimezone }),
+        {
+          houseSystem: houseSystem || undefined,
+          zodiacType: zodiacType || undefined,
+          ayanamsa: ayanamsa || undefined,
+          localTimeChoice: birthTimeChoice || undefined
+        }
       );
 
       const duration = Date.now() - startTime;
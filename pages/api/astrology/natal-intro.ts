@@ -88,13 +88,17 @@ function generateFallbackIntro(profile: any, chartData: any): string {
   const moonSign = chartData.moon?.sign || 'Unknown';
   const rising = chartData.rising?.sign || 'Unknown';
   const element = chartData.element || 'Fire';
+  // Без времени рождения Асцендент недостоверен и не упоминается
+  const timeUnknown = !!chartData.birthTimeUnknown;
   
   if (lang) {
     return `**Привет, ${name}!**
 
 Я изучила твою натальную карту, и вот что я вижу:
 
-Твоё Солнце в ${sunSign}, Луна в ${moonSign}, а Асцендент в ${rising}. Это создаёт уникальное сочетание качеств — ты одновременно ${sunSign.toLowerCase()} в своей сути, ${moonSign.toLowerCase()} в эмоциях, и ${rising.toLowerCase()} в том, как мир тебя видит.
+${timeUnknown
+  ? `Твоё Солнце в ${sunSign}, а Луна в ${moonSign}. Это создаёт уникальное сочетание качеств — ты одновременно ${sunSign.toLowerCase()} в своей сути и ${moonSign.toLowerCase()} в эмоциях.`
+  : `Твоё Солнце в ${sunSign}, Луна в ${moonSign}, а Асцендент в ${rising}. Это создаёт уникальное сочетание качеств — ты одновременно ${sunSign.toLowerCase()} в своей сути, ${moonSign.toLowerCase()} в эмоциях, и ${rising.toLowerCase()} в том, как мир тебя видит.`}
 
 **Твои суперсилы:**
 • Твоя стихия ${element} даёт тебе особый подход к жизни
@@ -112,7 +116,9 @@ function generateFallbackIntro(profile: any, chartData: any): string {
 
 I've studied your natal chart, and here's what I see:
 
-Your Sun is in ${sunSign}, Moon in ${moonSign}, and Ascendant in ${rising}. This creates a unique combination of qualities — you're ${sunSign.toLowerCase()} at your core, ${moonSign.toLowerCase()} in emotions, and ${rising.toLowerCase()} in how the world sees you.
+${timeUnknown
+  ? `Your Sun is in ${sunSign} and Moon in ${moonSign}. This creates a unique combination of qualities — you're ${sunSign.toLowerCase()} at your core and ${moonSign.toLowerCase()} in emotions.`
+  : `Your Sun is in ${sunSign}, Moon in ${moonSign}, and Ascendant in ${rising}. This creates a unique combination of qualities — you're ${sunSign.toLowerCase()} at your core, ${moonSign.toLowerCase()} in emotions, and ${rising.toLowerCase()} in how the world sees you.`}
 
 **Your superpowers:**
 • Your ${element} element gives you a special approach to life
@@ -0,0 +1,174 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import OpenAI from 'openai';
+import { SYSTEM_PROMPT_ASTRA, createProgressionsPrompt, addLanguageInstruction } from '../../../lib/prompts';
+import { validateNatalChartInput, formatValidationErrors } from '../../../lib/validation';
+import { calculateNatalChart, getBirthLocation } from '../../../lib/swisseph-calculator';
+import { calculateProgressions } from '../../../lib/progressions-calculator';
+
+// Logging utility
+const log = {
+  info: (message: string, data?: any) => {
+    console.log(`[API/astrology/progressions] ${message}`, data || '');
+  },
+  error: (message: string, error?: any) => {
+    console.error(`[API/astrology/progressions] ERROR: ${message}`, error || '');
+  },
+};
+
+// Initialize OpenAI client
+const openai = new OpenAI({
+  apiKey: process.env.OPENAI_API_KEY,
+});
+
+/**
+ * API endpoint для вторичных прогрессий и дирекций солнечной дуги (премиум)
+ *
+ * Натальная карта пересчитывается на сервере, чтобы получить точный момент рождения в UT.
+ * targetDate (YYYY-MM-DD) — дата, на которую строятся прогрессии, по умолчанию сегодня.
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const { profile, targetDate } = req.body;
+    const lang = profile?.language === 'ru';
+
+    if (!profile) {
+      return res.status(400).json({
+        error: 'Bad request',
+        message: 'Profile is required'
+      });
+    }
+
+    if (!profile.isPremium) {
+      return res.status(403).json({
+        error: 'Premium required',
+        message: lang
+          ? 'Прогрессии доступны только для премиум-пользователей'
+          : 'Progressions are available only for premium users'
+      });
+    }
+
+    const validation = validateNatalChartInput({
+      name: profile.name,
+      birthDate: profile.birthDate,
+      birthTime: profile.birthTime,
+      birthPlace: profile.birthPlace,
+      birthLat: profile.birthLat,
+      birthLon: profile.birthLon,
+      birthTimezone: profile.birthTimezone,
+      birthTimeChoice: profile.birthTimeChoice,
+      language: profile.language || 'ru',
+      houseSystem: profile.houseSystem,
+      zodiacType: profile.zodiacType,
+      ayanamsa: profile.ayanamsa
+    });
+    if (!validation.isValid) {
+      return res.status(400).json({
+        error: 'Invalid profile data',
+        message: formatValidationErrors(validation.errors, lang ? 'ru' : 'en'),
+        errors: validation.errors
+      });
+    }
+
+    if (targetDate !== undefined && (typeof targetDate !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(targetDate))) {
+      return res.status(400).json({
+        error: 'Bad request',
+        message: 'targetDate must be in YYYY-MM-DD format'
+      });
+    }
+    const target = targetDate ? new Date(`${targetDate}T12:00:00Z`) : new Date();
+    if (isNaN(target.getTime())) {
+      return res.status(400).json({
+        error: 'Bad request',
+        message: 'targetDate is not a valid date'
+      });
+    }
+
+    log.info('Progressions request received', {
+      userId: profile.id,
+      targetDate: target.toISOString(),
+      language: lang ? 'ru' : 'en'
+    });
+
+    // Натальная карта и прогрессии
+    const chartData = await calculateNatalChart(
+      profile.name,
+      profile.birthDate,
+      profile.birthTime || '',
+      getBirthLocation(profile.birthPlace, profile),
+      {
+        houseSystem: profile.houseSystem || undefined,
+        zodiacType: profile.zodiacType || undefined,
+        ayanamsa: profile.ayanamsa || undefined,
+        localTimeChoice: profile.birthTimeChoice || undefined
+      }
+    );
+
+    let progressions;
+    try {
+      progressions = calculateProgressions(chartData, target);
+    } catch (calcError: any) {
+      log.error('Failed to calculate progressions', { error: calcError.message });
+      return res.status(400).json({
+        error: 'Progressions calculation failed',
+        message: calcError.message
+      });
+    }
+
+    // Проверяем наличие API ключа
+    if (!process.env.OPENAI_API_KEY) {
+      log.error('OpenAI API key not configured, returning progressions without interpretation');
+      return res.status(200).json({ progressions, interpretation: null });
+    }
+
+    const userPrompt = createProgressionsPrompt(chartData, profile, progressions);
+    const promptWithLang = addLanguageInstruction(userPrompt, lang ? 'ru' : 'en');
+
+    log.info('Sending request to OpenAI', {
+      model: 'gpt-4o',
+      promptLength: promptWithLang.length
+    });
+
+    const startTime = Date.now();
+    const completion = await openai.chat.completions.create({
+      model: 'gpt-4o',
+      messages: [
+        { role: 'system', content: SYSTEM_PROMPT_ASTRA },
+        { role: 'user', content: promptWithLang }
+      ],
+      temperature: 0.7,
+      max_tokens: 2000,
+    });
+
+    const duration = Date.now() - startTime;
+    const interpretation = completion.choices[0]?.message?.content || null;
+
+    log.info('OpenAI response received', {
+      duration: `${duration}ms`,
+      interpretationLength: interpretation?.length || 0,
+      tokensUsed: completion.usage?.total_tokens
+    });
+
+    return res.status(200).json({ progressions, interpretation });
+  } catch (error: any) {
+    log.error('Error in progressions handler', {
+      error: error.message,
+      stack: error.stack
+    });
+
+    const lang = req.body?.profile?.language === 'ru';
+    return res.status(500).json({
+      error: 'Progressions failed',
+      message: lang
+        ? 'Не удалось рассчитать прогрессии. Пожалуйста, попробуйте позже.'
+        : 'Failed to calculate progressions. Please try again later.',
+      details: process.env.NODE_ENV === 'development' ? error.message : undefined
+    });
+  }
+}
@@ -0,0 +1,114 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { validateRectificationInput, validateBirthPlace, validateDate, formatValidationErrors } from '../../../lib/validation';
+import { getBirthLocation, resolveLocationCoordinates, type Coordinates } from '../../../lib/swisseph-calculator';
+import { rectifyBirthTime } from '../../../lib/rectification-calculator';
+import type { RectificationEvent } from '../../../types';
+
+// Logging utility
+const log = {
+  info: (message: string, data?: any) => {
+    console.log(`[API/astrology/rectification] ${message}`, data || '');
+  },
+  error: (message: string, error?: any) => {
+    console.error(`[API/astrology/rectification] ERROR: ${message}`, error || '');
+  },
+};
+
+/**
+ * API endpoint для ректификации времени рождения (премиум)
+ *
+ * POST { profile, timeFrom, timeTo, events: [{ date, type?, description? }], stepMinutes? }
+ * Перебирает время рождения в окне timeFrom–timeTo (местное время места рождения)
+ * и возвращает наиболее вероятные градусы Асцендента с оценкой уверенности.
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const { profile, timeFrom, timeTo, events, stepMinutes } = req.body || {};
+    const lang = profile?.language === 'ru';
+
+    if (!profile) {
+      return res.status(400).json({
+        error: 'Bad request',
+        message: 'Profile is required'
+      });
+    }
+
+    if (!profile.isPremium) {
+      return res.status(403).json({
+        error: 'Premium required',
+        message: lang
+          ? 'Ректификация доступна только для премиум-пользователей'
+          : 'Birth time rectification is available only for premium users'
+      });
+    }
+
+    const errors = [
+      { field: 'profile.birthDate', validation: validateDate(profile.birthDate) },
+      { field: 'profile.birthPlace', validation: validateBirthPlace(profile.birthPlace) }
+    ]
+      .filter(({ validation }) => !validation.isValid)
+      .map(({ field, validation }) => ({ field, message: validation.error || `Invalid ${field}` }));
+    const validation = validateRectificationInput({ birthDate: profile.birthDate, timeFrom, timeTo, events, stepMinutes });
+    errors.push(...validation.errors);
+
+    if (errors.length > 0) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        message: formatValidationErrors(errors, lang ? 'ru' : 'en'),
+        errors
+      });
+    }
+
+    // Место рождения: сохраненные координаты или геокодинг
+    let coords: Coordinates;
+    try {
+      coords = await resolveLocationCoordinates(getBirthLocation(profile.birthPlace, profile));
+    } catch (coordError: any) {
+      log.error('Failed to resolve birth place', { birthPlace: profile.birthPlace, error: coordError.message });
+      return res.status(400).json({
+        error: 'Location not found',
+        message: coordError.message
+      });
+    }
+
+    log.info('Rectification request received', {
+      userId: profile.id,
+      timeFrom,
+      timeTo,
+      events: events.length
+    });
+
+    const result = rectifyBirthTime({
+      birthDate: profile.birthDate,
+      timeFrom,
+      timeTo,
+      location: coords,
+      events: (events as RectificationEvent[]).map(({ date, type, description }) => ({ date, type, description })),
+      stepMinutes: stepMinutes ?? undefined,
+      zodiac: { zodiacType: profile.zodiacType || undefined, ayanamsa: profile.ayanamsa || undefined }
+    });
+
+    return res.status(200).json(result);
+  } catch (error: any) {
+    log.error('Error in rectification handler', {
+      error: error.message,
+      stack: error.stack
+    });
+
+    const lang = req.body?.profile?.language === 'ru';
+    return res.status(500).json({
+      error: 'Rectification failed',
+      message: lang
+        ? 'Не удалось выполнить ректификацию. Пожалуйста, попробуйте позже.'
+        : 'Failed to rectify birth time. Please try again later.',
+      details: process.env.NODE_ENV === 'development' ? error.message : undefined
+    });
+  }
+}
@@ -9,8 +9,10 @@ import {
   createCareerAnalysisPrompt,
   createChallengesAnalysisPrompt,
   createKarmaAnalysisPrompt,
+  createVedicAnalysisPrompt,
   addLanguageInstruction 
 } from '../../../lib/prompts';
+import { calculateVedicChart } from '../../../lib/vedic-calculator';
 import { withRateLimit, RATE_LIMIT_CONFIGS } from '../../../lib/rateLimit';
 
 // Logging utility
@@ -141,6 +143,9 @@ async function regenerateDeepDive(profile: any, chartData: any, topic: string):
     case 'karma':
       userPrompt = createKarmaAnalysisPrompt(chartData, profile);
       break;
+    case 'vedic':
+      userPrompt = createVedicAnalysisPrompt(chartData, profile, calculateVedicChart(chartData));
+      break;
     default:
       throw new Error(`Unknown topic: ${topic}`);
   }
@@ -278,6 +283,7 @@ async function handler(
         case 'deep_dive_career':
         case 'deep_dive_weakness':
         case 'deep_dive_karma':
+        case 'deep_dive_vedic':
           if (!chartData) {
             throw new Error('chartData required for deep_dive regeneration');
           }
@@ -292,7 +298,7 @@ async function handler(
         default:
           return res.status(400).json({
             error: 'Invalid content type',
-            message: `Unsupported content type: ${contentType}. Supported: natal_intro, deep_dive_personality, deep_dive_love, deep_dive_career, deep_dive_weakness, deep_dive_karma`
+            message: `Unsupported content type: ${contentType}. Supported: natal_intro, deep_dive_personality, deep_dive_love, deep_dive_career, deep_dive_weakness, deep_dive_karma, deep_dive_vedic`
           });
       }
 
@@ -0,0 +1,239 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import OpenAI from 'openai';
+import { db } from '../../../lib/db';
+import { SYSTEM_PROMPT_ASTRA, createRelationshipChartsPrompt, addLanguageInstruction, RelationshipChartsAIResponse } from '../../../lib/prompts';
+import { validateSynastryInput, formatValidationErrors } from '../../../lib/validation';
+import { calculateNatalChart, getBirthLocation, resolveLocationCoordinates } from '../../../lib/swisseph-calculator';
+import { calculateRelationshipCharts } from '../../../lib/relationship-calculator';
+import type { RelationshipChartsInterpretation, RelationshipChartsResult } from '../../../types';
+
+// Logging utility
+const log = {
+  info: (message: string, data?: any) => {
+    console.log(`[API/astrology/relationship-charts] ${message}`, data || '');
+  },
+  error: (message: string, error?: any) => {
+    console.error(`[API/astrology/relationship-charts] ERROR: ${message}`, error || '');
+  },
+};
+
+// Initialize OpenAI client
+const openai = new OpenAI({
+  apiKey: process.env.OPENAI_API_KEY,
+});
+
+/**
+ * API endpoint для карт отношений: композит и Дависон (премиум)
+ *
+ * POST { profile, partnerName, partnerDate, partnerTime?, partnerPlace?, partnerLat?, partnerLon?, partnerTimezone?, language?, relationshipType? }
+ * Обе карты строятся из натальных карт пары в зодиаке пользователя и кэшируются
+ * в synastry_cache по данным партнера вместе с трактовкой.
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const { profile, partnerName, partnerDate, partnerTime, partnerPlace, partnerLat, partnerLon, partnerTimezone, language, relationshipType } = req.body || {};
+    const userLanguage = language || profile?.language || 'ru';
+    const lang = userLanguage === 'ru';
+
+    const validation = validateSynastryInput({
+      profile,
+      partnerName,
+      partnerDate,
+      partnerTime,
+      partnerPlace,
+      partnerLat,
+      partnerLon,
+      partnerTimezone,
+      language: userLanguage
+    });
+    if (!validation.isValid) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        message: formatValidationErrors(validation.errors, lang ? 'ru' : 'en'),
+        errors: validation.errors
+      });
+    }
+
+    if (!profile.isPremium) {
+      return res.status(403).json({
+        error: 'Premium required',
+        message: lang
+          ? 'Композит и карта Дависона доступны только для премиум-пользователей'
+          : 'Composite and Davison charts are available only for premium users'
+      });
+    }
+
+    // Ключ кэша: карты зависят от данных обоих партнеров и зодиака, трактовка — от языка
+    const partnerData = {
+      name: partnerName,
+      date: partnerDate,
+      time: partnerTime || '',
+      place: partnerPlace || '',
+      lat: partnerLat ?? null,
+      lon: partnerLon ?? null,
+      timezone: partnerTimezone ?? null,
+      user: {
+        birthDate: profile.birthDate,
+        birthTime: profile.birthTime || '',
+        birthPlace: profile.birthPlace,
+        birthLat: profile.birthLat ?? null,
+        birthLon: profile.birthLon ?? null,
+        birthTimezone: profile.birthTimezone ?? null,
+        birthTimeChoice: profile.birthTimeChoice ?? null
+      },
+      houseSystem: profile.houseSystem || null,
+      zodiacType: profile.zodiacType || null,
+      ayanamsa: profile.ayanamsa || null,
+      language: lang ? 'ru' : 'en'
+    };
+
+    if (profile.id) {
+      try {
+        const cached = await db.synastryCache.get(String(profile.id), partnerData);
+        if (cached?.relationshipCharts) {
+          log.info('Using cached relationship charts', { userId: profile.id, partnerName });
+          return res.status(200).json(cached.relationshipCharts);
+        }
+      } catch (cacheError: any) {
+        log.error('Error checking synastry cache, will calculate charts', { error: cacheError.message });
+      }
+    }
+
+    log.info('Relationship charts request received', {
+      userId: profile.id,
+      partnerName,
+      partnerDate,
+      language: lang ? 'ru' : 'en'
+    });
+
+    // 1. Места рождения: без места и координат партнера берется место рождения пользователя
+    const userLocation = getBirthLocation(profile.birthPlace, profile);
+    const partnerLocation = partnerPlace || partnerLat !== undefined
+      ? getBirthLocation(partnerPlace || '', { birthLat: partnerLat, birthLon: partnerLon, birthTimezone: partnerTimezone })
+      : userLocation;
+
+    let result: RelationshipChartsResult;
+    try {
+      const userPlace = await resolveLocationCoordinates(userLocation);
+      const partnerPlaceCoords = await resolveLocationCoordinates(partnerLocation);
+
+      // 2. Натальные карты в зодиаке и системе домов пользователя
+      const chartOptions = {
+        houseSystem: profile.houseSystem || undefined,
+        zodiacType: profile.zodiacType || undefined,
+        ayanamsa: profile.ayanamsa || undefined
+      };
+      const userChart = await calculateNatalChart(
+        profile.name,
+        profile.birthDate,
+        profile.birthTime || '',
+        userPlace,
+        { ...chartOptions, localTimeChoice: profile.birthTimeChoice || undefined }
+      );
+      const partnerChart = await calculateNatalChart(partnerName, partnerDate, partnerTime || '', partnerPlaceCoords, chartOptions);
+
+      // 3. Композит и Дависон
+      const charts = await calculateRelationshipCharts(userChart, partnerChart, userPlace, partnerPlaceCoords);
+      result = { ...charts, interpretation: null };
+    } catch (calcError: any) {
+      log.error('Failed to calculate relationship charts', { error: calcError.message });
+      return res.status(400).json({
+        error: 'Relationship charts unavailable',
+        message: calcError.message
+      });
+    }
+
+    // 4. Трактовка (без ключа OpenAI — только карты)
+    if (!process.env.OPENAI_API_KEY) {
+      log.error('OpenAI API key not configured, returning charts without interpretation');
+      return res.status(200).json(result);
+    }
+
+    const userPrompt = createRelationshipChartsPrompt(
+      profile,
+      partnerName,
+      result.composite,
+      result.davison,
+      relationshipType || 'романтические отношения'
+    );
+    const promptWithLang = addLanguageInstruction(userPrompt, lang ? 'ru' : 'en');
+
+    log.info('Sending request to OpenAI', {
+      model: 'gpt-4o',
+      promptLength: promptWithLang.length
+    });
+
+    const startTime = Date.now();
+    const completion = await openai.chat.completions.create({
+      model: 'gpt-4o',
+      messages: [
+        { role: 'system', content: SYSTEM_PROMPT_ASTRA },
+        { role: 'user', content: promptWithLang }
+      ],
+      response_format: { type: "json_object" },
+      temperature: 0.7,
+      max_tokens: 2500,
+    });
+
+    const duration = Date.now() - startTime;
+    const responseText = completion.choices[0]?.message?.content || '{}';
+
+    log.info('OpenAI response received', {
+      duration: `${duration}ms`,
+      tokensUsed: completion.usage?.total_tokens
+    });
+
+    let aiResponse: RelationshipChartsAIResponse;
+    try {
+      aiResponse = JSON.parse(responseText);
+    } catch (parseError: any) {
+      log.error('Failed to parse JSON response', { error: parseError.message });
+      return res.status(500).json({
+        error: 'AI response parsing failed',
+        message: lang
+          ? 'Не удалось обработать ответ от AI. Пожалуйста, попробуйте позже.'
+          : 'Failed to process AI response. Please try again later.'
+      });
+    }
+
+    const interpretation: RelationshipChartsInterpretation = {
+      theme: aiResponse.theme || '',
+      composite: aiResponse.composite || '',
+      davison: aiResponse.davison || '',
+      advice: Array.isArray(aiResponse.advice) ? aiResponse.advice : []
+    };
+    result = { ...result, interpretation };
+
+    // 5. Кэш по партнеру: карты и трактовка не меняются, пока не изменились данные
+    if (profile.id) {
+      try {
+        await db.synastryCache.set(String(profile.id), partnerData, undefined, undefined, result);
+      } catch (cacheError: any) {
+        log.error('Failed to cache relationship charts', { error: cacheError.message });
+      }
+    }
+
+    return res.status(200).json(result);
+  } catch (error: any) {
+    log.error('Error in relationship charts handler', {
+      error: error.message,
+      stack: error.stack
+    });
+
+    const lang = (req.body?.language || req.body?.profile?.language) === 'ru';
+    return res.status(500).json({
+      error: 'Relationship charts failed',
+      message: lang
+        ? 'Не удалось построить карты отношений. Пожалуйста, попробуйте позже.'
+        : 'Failed to build relationship charts. Please try again later.',
+      details: process.env.NODE_ENV === 'development' ? error.message : undefined
+    });
+  }
+}
@@ -0,0 +1,218 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import OpenAI from 'openai';
+import { SYSTEM_PROMPT_ASTRA, createSolarReturnForecastPrompt, addLanguageInstruction, SolarReturnForecastAIResponse } from '../../../lib/prompts';
+import { validateNatalChartInput, formatValidationErrors } from '../../../lib/validation';
+import { calculateNatalChart, getBirthLocation, resolveBirthLocation } from '../../../lib/swisseph-calculator';
+import { calculateSolarReturn, calculateLunarReturnsForSolarYear, ReturnLocation } from '../../../lib/returns-calculator';
+import type { ReturnChart, SolarReturnForecast } from '../../../types';
+
+// Logging utility
+const log = {
+  info: (message: string, data?: any) => {
+    console.log(`[API/astrology/solar-return] ${message}`, data || '');
+  },
+  error: (message: string, error?: any) => {
+    console.error(`[API/astrology/solar-return] ERROR: ${message}`, error || '');
+  },
+};
+
+// Initialize OpenAI client
+const openai = new OpenAI({
+  apiKey: process.env.OPENAI_API_KEY,
+});
+
+/**
+ * Год последнего наступившего дня рождения (по дате рождения YYYY-MM-DD)
+ */
+function getCurrentSolarYear(birthDate: string, now: Date): number {
+  const [, month, day] = birthDate.split('-').map(Number);
+  const birthdayThisYear = Date.UTC(now.getUTCFullYear(), month - 1, day);
+  return now.getTime() >= birthdayThisYear ? now.getUTCFullYear() : now.getUTCFullYear() - 1;
+}
+
+/**
+ * API endpoint для соляра, лунаров и прогноза на год (премиум)
+ *
+ * year — год соляра (по умолчанию год последнего дня рождения),
+ * location — место, на которое строятся карты (по умолчанию место рождения),
+ * includeLunarReturns — добавить лунары солярного года (по умолчанию true).
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const { profile, year, location, includeLunarReturns } = req.body;
+    const lang = profile?.language === 'ru';
+
+    if (!profile) {
+      return res.status(400).json({
+        error: 'Bad request',
+        message: 'Profile is required'
+      });
+    }
+
+    if (!profile.isPremium) {
+      return res.status(403).json({
+        error: 'Premium required',
+        message: lang
+          ? 'Прогноз на год по соляру доступен только для премиум-пользователей'
+          : 'Solar return forecast is available only for premium users'
+      });
+    }
+
+    const validation = validateNatalChartInput({
+      name: profile.name,
+      birthDate: profile.birthDate,
+      birthTime: profile.birthTime,
+      birthPlace: profile.birthPlace,
+      birthLat: profile.birthLat,
+      birthLon: profile.birthLon,
+      birthTimezone: profile.birthTimezone,
+      birthTimeChoice: profile.birthTimeChoice,
+      language: profile.language || 'ru',
+      houseSystem: profile.houseSystem,
+      zodiacType: profile.zodiacType,
+      ayanamsa: profile.ayanamsa
+    });
+    if (!validation.isValid) {
+      return res.status(400).json({
+        error: 'Invalid profile data',
+        message: formatValidationErrors(validation.errors, lang ? 'ru' : 'en'),
+        errors: validation.errors
+      });
+    }
+
+    if (year !== undefined && !Number.isInteger(year)) {
+      return res.status(400).json({
+        error: 'Bad request',
+        message: 'year must be an integer'
+      });
+    }
+    if (location !== undefined && (typeof location !== 'string' || location.trim().length === 0)) {
+      return res.status(400).json({
+        error: 'Bad request',
+        message: 'location must be a non-empty string'
+      });
+    }
+
+    const solarYear: number = year ?? getCurrentSolarYear(profile.birthDate, new Date());
+    // Без явного места карты строятся на сохраненных координатах рождения,
+    // а не на повторном геокодинге названия
+    const birthLocation = getBirthLocation(profile.birthPlace, profile);
+    const returnLocation: ReturnLocation = location?.trim() ||
+      (typeof birthLocation === 'string' ? birthLocation : { ...resolveBirthLocation(birthLocation), name: birthLocation.name });
+    const chartOptions = {
+      houseSystem: profile.houseSystem || undefined,
+      zodiacType: profile.zodiacType || undefined,
+      ayanamsa: profile.ayanamsa || undefined
+    };
+
+    log.info('Solar return request received', {
+      userId: profile.id,
+      year: solarYear,
+      location: typeof returnLocation === 'string' ? returnLocation : returnLocation.name,
+      language: lang ? 'ru' : 'en'
+    });
+
+    // Натальная карта, соляр и лунары
+    const chartData = await calculateNatalChart(
+      profile.name,
+      profile.birthDate,
+      profile.birthTime || '',
+      birthLocation,
+      { ...chartOptions, localTimeChoice: profile.birthTimeChoice || undefined }
+    );
+
+    let solarReturn: ReturnChart;
+    let lunarReturns: ReturnChart[] = [];
+    try {
+      solarReturn = await calculateSolarReturn(chartData, solarYear, returnLocation, chartOptions);
+      if (includeLunarReturns !== false) {
+        lunarReturns = await calculateLunarReturnsForSolarYear(chartData, solarReturn, returnLocation, chartOptions);
+      }
+    } catch (calcError: any) {
+      log.error('Failed to calculate return charts', { error: calcError.message });
+      return res.status(400).json({
+        error: 'Return calculation failed',
+        message: calcError.message
+      });
+    }
+
+    // Проверяем наличие API ключа
+    if (!process.env.OPENAI_API_KEY) {
+      log.error('OpenAI API key not configured, returning charts without forecast');
+      return res.status(200).json({ solarReturn, lunarReturns, forecast: null });
+    }
+
+    const userPrompt = createSolarReturnForecastPrompt(chartData, profile, solarReturn, lunarReturns);
+    const promptWithLang = addLanguageInstruction(userPrompt, lang ? 'ru' : 'en');
+
+    log.info('Sending request to OpenAI', {
+      model: 'gpt-4o',
+      promptLength: promptWithLang.length
+    });
+
+    const startTime = Date.now();
+    const completion = await openai.chat.completions.create({
+      model: 'gpt-4o',
+      messages: [
+        { role: 'system', content: SYSTEM_PROMPT_ASTRA },
+        { role: 'user', content: promptWithLang }
+      ],
+      response_format: { type: "json_object" },
+      temperature: 0.7,
+      max_tokens: 3000,
+    });
+
+    const duration = Date.now() - startTime;
+    const responseText = completion.choices[0]?.message?.content || '{}';
+
+    log.info('OpenAI response received', {
+      duration: `${duration}ms`,
+      tokensUsed: completion.usage?.total_tokens
+    });
+
+    let aiResponse: SolarReturnForecastAIResponse;
+    try {
+      aiResponse = JSON.parse(responseText);
+    } catch (parseError: any) {
+      log.error('Failed to parse JSON response', { error: parseError.message });
+      return res.status(500).json({
+        error: 'AI response parsing failed',
+        message: lang
+          ? 'Не удалось обработать ответ от AI. Пожалуйста, попробуйте позже.'
+          : 'Failed to process AI response. Please try again later.'
+      });
+    }
+
+    const forecast: SolarReturnForecast = {
+      year: solarYear,
+      returnDate: solarReturn.returnDate,
+      location: solarReturn.location,
+      theme: aiResponse.theme || '',
+      content: aiResponse.content || '',
+      lunarReturns: Array.isArray(aiResponse.lunarReturns) ? aiResponse.lunarReturns : []
+    };
+
+    return res.status(200).json({ solarReturn, lunarReturns, forecast });
+  } catch (error: any) {
+    log.error('Error in solar return handler', {
+      error: error.message,
+      stack: error.stack
+    });
+
+    const lang = req.body?.profile?.language === 'ru';
+    return res.status(500).json({
+      error: 'Solar return failed',
+      message: lang
+        ? 'Не удалось рассчитать соляр. Пожалуйста, попробуйте позже.'
+        : 'Failed to calculate solar return. Please try again later.',
+      details: process.env.NODE_ENV === 'development' ? error.message : undefined
+    });
+  }
+}
@@ -1,6 +1,7 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
 import OpenAI from 'openai';
-import { calculateNatalChart } from '../../../lib/swisseph-calculator';
+import { calculateNatalChart, getBirthLocation } from '../../../lib/swisseph-calculator';
+import { calculateSynastry } from '../../../lib/synastry-calculator';
 import { SYSTEM_PROMPT_ASTRA, createFullSynastryPrompt, addLanguageInstruction, FullSynastryAIResponse } from '../../../lib/prompts';
 
 // Logging utility
@@ -32,7 +33,7 @@ export default async function handler(
   }
 
   try {
-    const { profile, partnerName, partnerDate, partnerTime, partnerPlace, language, relationshipType } = req.body;
+    const { profile, partnerName, partnerDate, partnerTime, partnerPlace, partnerLat, partnerLon, partnerTimezone, language, relationshipType } = req.body;
 
     if (!profile || !partnerName || !partnerDate) {
       return res.status(400).json({ 
@@ -59,18 +60,30 @@ export default async function handler(
 
     const lang = language === 'ru';
 
+    // Обе карты считаются в зодиаке и системе домов пользователя, иначе межкартовые аспекты
+    // несравнимы, а наложения домов не совпадут с его натальной картой
+    const chartOptions = {
+      houseSystem: profile.houseSystem || undefined,
+      zodiacType: profile.zodiacType || undefined,
+      ayanamsa: profile.ayanamsa || undefined
+    };
+
     // Получаем натальную карту пользователя
+    // Если карта не посчиталась, трактовка строится по запасной карте, но синастрия по ней не считается
+    let chartsCalculated = true;
     let userChartData;
     try {
       userChartData = await calculateNatalChart(
         profile.name,
         profile.birthDate,
-        profile.birthTime || '12:00',
-        profile.birthPlace
+        profile.birthTime || '',
+        getBirthLocation(profile.birthPlace, profile),
+        { ...chartOptions, localTimeChoice: profile.birthTimeChoice || undefined }
       );
     } catch (error: any) {
       log.error('Failed to calculate user natal chart', { error: error.message });
       // Используем fallback данные
+      chartsCalculated = false;
       userChartData = {
         sun: { planet: 'Sun', sign: 'Leo', degree: 15, description: '' },
         moon: { planet: 'Moon', sign: 'Cancer', degree: 10, description: '' },
@@ -90,12 +103,17 @@ export default async function handler(
       partnerChartData = await calculateNatalChart(
         partnerName,
         partnerDate,
-        partnerTime || '12:00',
-        partnerPlace || profile.birthPlace
+        partnerTime || '',
+        // Без места и координат партнера карта строится на место рождения пользователя
+        partnerPlace || partnerLat !== undefined
+          ? getBirthLocation(partnerPlace || '', { birthLat: partnerLat, birthLon: partnerLon, birthTimezone: partnerTimezone })
+          : getBirthLocation(profile.birthPlace, profile),
+        chartOptions
       );
     } catch (error: any) {
       log.error('Failed to calculate partner natal chart', { error: error.message });
       // Используем fallback данные
+      chartsCalculated = false;
       partnerChartData = {
         sun: { planet: 'Sun', sign: 'Aries', degree: 20, description: '' },
         moon: { planet: 'Moon', sign: 'Pisces', degree: 5, description: '' },
@@ -114,10 +132,16 @@ export default async function handler(
       partnerSun: partnerChartData.sun?.sign
     });
 
+    // Аспекты между картами, наложения домов и счет совместимости считаются без модели —
+    // только по настоящим картам: счет по запасным данным был бы выдумкой
+    const synastry = chartsCalculated ? calculateSynastry(userChartData, partnerChartData) : undefined;
+    const synastryFields = synastry ? { compatibilityScore: synastry.score.total, synastry } : {};
+
     // Проверяем наличие API ключа
     if (!process.env.OPENAI_API_KEY) {
       log.error('OpenAI API key not configured, using fallback');
       const fallbackResult = {
+        ...synastryFields,
         fullAnalysis: {
           generalTheme: lang 
             ? `Ваша связь с ${partnerName} создаёт особую атмосферу взаимного роста и понимания. Это отношения, которые учат вас обоих быть более открытыми и принимающими.`
@@ -160,7 +184,8 @@ export default async function handler(
       profile, 
       partnerChartData, 
       partnerName,
-      relationshipType || 'романтические отношения'
+      relationshipType || 'романтические отношения',
+      synastry
     );
     const promptWithLang = addLanguageInstruction(userPrompt, lang ? 'ru' : 'en');
 
@@ -198,6 +223,7 @@ export default async function handler(
       log.info('Full synastry calculated successfully');
 
       const result = {
+        ...synastryFields,
         fullAnalysis: fullSynastry,
         summary: fullSynastry.generalTheme
       };
@@ -0,0 +1,172 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import OpenAI from 'openai';
+import { db } from '../../../lib/db';
+import { SYSTEM_PROMPT_ASTRA, createTimelineEventPrompt, addLanguageInstruction, TimelineEventAIResponse } from '../../../lib/prompts';
+import type { TimelineEvent, TimelineEventInterpretation } from '../../../types';
+
+// Logging utility
+const log = {
+  info: (message: string, data?: any) => {
+    console.log(`[API/astrology/timeline-event] ${message}`, data || '');
+  },
+  error: (message: string, error?: any) => {
+    console.error(`[API/astrology/timeline-event] ERROR: ${message}`, error || '');
+  },
+};
+
+// Initialize OpenAI client
+const openai = new OpenAI({
+  apiKey: process.env.OPENAI_API_KEY,
+});
+
+const TIMELINE_EVENT_TYPES: TimelineEvent['type'][] = ['transit', 'ingress', 'station', 'eclipse'];
+
+/**
+ * API endpoint для трактовки события шкалы транзитов
+ *
+ * POST { profile, chartData, event, language? }
+ * Трактовка кэшируется по пользователю, id события, языку и данным карты:
+ * повторное открытие того же события не обращается к OpenAI.
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const { profile, chartData, event, language } = req.body || {};
+    const lang = (language || profile?.language) === 'ru';
+    const languageCode = lang ? 'ru' : 'en';
+
+    // Валидация
+    if (!profile || !chartData) {
+      return res.status(400).json({
+        error: 'Bad request',
+        message: 'Profile and chartData are required'
+      });
+    }
+
+    if (!event || typeof event.id !== 'string' || !event.id ||
+        !TIMELINE_EVENT_TYPES.includes(event.type) || isNaN(new Date(event.date).getTime())) {
+      return res.status(400).json({
+        error: 'Bad request',
+        message: `Event must have an id, a type (${TIMELINE_EVENT_TYPES.join(', ')}) and a valid date`
+      });
+    }
+
+    // Ключ карты: трактовка написана для конкретной натальной карты и устаревает,
+    // если изменились данные рождения, зодиак или система домов
+    const chartKey = {
+      birthDate: profile.birthDate,
+      birthTime: profile.birthTime || '',
+      birthPlace: profile.birthPlace,
+      birthLat: profile.birthLat ?? null,
+      birthLon: profile.birthLon ?? null,
+      birthTimezone: profile.birthTimezone ?? null,
+      birthTimeChoice: profile.birthTimeChoice ?? null,
+      houseSystem: profile.houseSystem || null,
+      zodiacType: profile.zodiacType || null,
+      ayanamsa: profile.ayanamsa || null
+    };
+
+    // 1. Кэш трактовки события
+    if (profile.id) {
+      try {
+        const cached = await db.timelineInterpretations.get(String(profile.id), event.id, languageCode, chartKey);
+        if (cached) {
+          log.info('Using cached timeline interpretation', { userId: profile.id, eventId: event.id });
+          return res.status(200).json({ eventId: event.id, interpretation: cached });
+        }
+      } catch (cacheError: any) {
+        log.error('Error checking timeline interpretation cache, will generate', { error: cacheError.message });
+      }
+    }
+
+    log.info('Timeline event interpretation request received', {
+      userId: profile.id,
+      eventId: event.id,
+      language: languageCode
+    });
+
+    // 2. Без ключа OpenAI трактовки нет — событие остается на шкале без текста
+    if (!process.env.OPENAI_API_KEY) {
+      log.error('OpenAI API key not configured, returning event without interpretation');
+      return res.status(200).json({ eventId: event.id, interpretation: null });
+    }
+
+    const userPrompt = createTimelineEventPrompt(chartData, profile, event);
+    const promptWithLang = addLanguageInstruction(userPrompt, languageCode);
+
+    log.info('Sending request to OpenAI', {
+      model: 'gpt-4o',
+      promptLength: promptWithLang.length
+    });
+
+    const startTime = Date.now();
+    const completion = await openai.chat.completions.create({
+      model: 'gpt-4o',
+      messages: [
+        { role: 'system', content: SYSTEM_PROMPT_ASTRA },
+        { role: 'user', content: promptWithLang }
+      ],
+      response_format: { type: "json_object" },
+      temperature: 0.7,
+      max_tokens: 1200,
+    });
+
+    const duration = Date.now() - startTime;
+    const responseText = completion.choices[0]?.message?.content || '{}';
+
+    log.info('OpenAI response received', {
+      duration: `${duration}ms`,
+      tokensUsed: completion.usage?.total_tokens
+    });
+
+    let aiResponse: TimelineEventAIResponse;
+    try {
+      aiResponse = JSON.parse(responseText);
+    } catch (parseError: any) {
+      log.error('Failed to parse JSON response', { error: parseError.message });
+      return res.status(500).json({
+        error: 'AI response parsing failed',
+        message: lang
+          ? 'Не удалось обработать ответ от AI. Пожалуйста, попробуйте позже.'
+          : 'Failed to process AI response. Please try again later.'
+      });
+    }
+
+    const interpretation: TimelineEventInterpretation = {
+      title: aiResponse.title || '',
+      interpretation: aiResponse.interpretation || '',
+      advice: Array.isArray(aiResponse.advice) ? aiResponse.advice : []
+    };
+
+    // 3. Кэш по событию и карте: id стабилен, пока событие остается на шкале
+    if (profile.id) {
+      try {
+        await db.timelineInterpretations.set(String(profile.id), event.id, languageCode, chartKey, interpretation);
+      } catch (cacheError: any) {
+        log.error('Failed to cache timeline interpretation', { error: cacheError.message });
+      }
+    }
+
+    return res.status(200).json({ eventId: event.id, interpretation });
+  } catch (error: any) {
+    log.error('Error in timeline event handler', {
+      error: error.message,
+      stack: error.stack
+    });
+
+    const lang = (req.body?.language || req.body?.profile?.language) === 'ru';
+    return res.status(500).json({
+      error: 'Timeline event interpretation failed',
+      message: lang
+        ? 'Не удалось получить трактовку события. Пожалуйста, попробуйте позже.'
+        : 'Failed to interpret the event. Please try again later.',
+      details: process.env.NODE_ENV === 'development' ? error.message : undefined
+    });
+  }
+}
@@ -1,7 +1,8 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
 import OpenAI from 'openai';
 import { SYSTEM_PROMPT_ASTRA, createTransitForecastPrompt, addLanguageInstruction } from '../../../lib/prompts';
-import { getCurrentTransits, getTransitsForPeriod } from '../../../lib/transits-calculator';
+import { getCurrentTransits, getTransitsForPeriod, findTransitAspects } from '../../../lib/transits-calculator';
+import type { TransitAspect } from '../../../types';
 
 // Logging utility
 const log = {
@@ -60,23 +61,31 @@ export default async function handler(
     // Рассчитываем транзиты для нужного периода
     let transits: any;
     const today = new Date();
+    const periodDays = period === 'day' ? 1 : period === 'week' ? 7 : 30;
+    const endDate = new Date(today.getTime() + periodDays * 24 * 60 * 60 * 1000);
+    // Знаки транзитов — в зодиаке натальной карты
+    const zodiac = { zodiacType: chartData.zodiacType, ayanamsa: chartData.ayanamsa };
 
     if (period === 'day') {
       // Текущие транзиты на сегодня
-      transits = await getCurrentTransits(today);
-    } else if (period === 'week') {
-      // Транзиты на неделю (сегодня + 7 дней)
-      const endDate = new Date(today.getTime() + 7 * 24 * 60 * 60 * 1000);
-      transits = await getTransitsForPeriod(today, endDate);
+      transits = await getCurrentTransits(today, zodiac);
     } else {
-      // Транзиты на месяц (сегодня + 30 дней)
-      const endDate = new Date(today.getTime() + 30 * 24 * 60 * 60 * 1000);
-      transits = await getTransitsForPeriod(today, endDate);
+      // Транзиты на неделю/месяц
+      transits = await getTransitsForPeriod(today, endDate, zodiac);
+    }
+
+    // Персональные транзиты к натальной карте (Луна учитывается только в дневном прогнозе)
+    let transitAspects: TransitAspect[] = [];
+    try {
+      transitAspects = findTransitAspects(chartData, today, endDate, { includeMoon: period === 'day' });
+    } catch (transitError: any) {
+      log.error('Failed to calculate personal transits', { error: transitError.message });
     }
 
     log.info('Transits calculated', {
       period,
-      sunSign: transits.sun?.sign || transits.startTransits?.sun?.sign
+      sunSign: transits.sun?.sign || transits.startTransits?.sun?.sign,
+      transitAspects: transitAspects.length
     });
 
     // Проверяем наличие API ключа
@@ -93,7 +102,8 @@ export default async function handler(
       chartData,
       profile,
       transits,
-      period as 'day' | 'week' | 'month'
+      period as 'day' | 'week' | 'month',
+      transitAspects
     );
     const promptWithLang = addLanguageInstruction(userPrompt, lang ? 'ru' : 'en');
 
@@ -0,0 +1,94 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { calculateTransitTimeline, DEFAULT_TIMELINE_DAYS } from '../../../lib/timeline-calculator';
+import { normalizeUtcOffset, validateTimezone } from '../../../lib/validation';
+
+// Logging utility
+const log = {
+  info: (message: string, data?: any) => {
+    console.log(`[API/astrology/transit-timeline] ${message}`, data || '');
+  },
+  error: (message: string, error?: any) => {
+    console.error(`[API/astrology/transit-timeline] ERROR: ${message}`, error || '');
+  },
+};
+
+// Больше года шкала не строится: расчет станций и транзитов растет с длиной периода
+const MAX_TIMELINE_DAYS = 366;
+
+/**
+ * API endpoint для шкалы транзитов на ближайший год
+ *
+ * POST { profile, chartData, timezone?, days? }
+ * Возвращает личные транзиты, входы в знаки, станции и затмения с точным
+ * временем в часовом поясе пользователя (по умолчанию — пояс места рождения).
+ * Шкала считается без AI: трактовка события запрашивается отдельно.
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const { profile, chartData, timezone, days } = req.body || {};
+
+    // Валидация
+    if (!profile || !chartData) {
+      return res.status(400).json({
+        error: 'Bad request',
+        message: 'Profile and chartData are required'
+      });
+    }
+
+    const periodDays = days ?? DEFAULT_TIMELINE_DAYS;
+    if (!Number.isInteger(periodDays) || periodDays < 1 || periodDays > MAX_TIMELINE_DAYS) {
+      return res.status(400).json({
+        error: 'Bad request',
+        message: `Days must be an integer between 1 and ${MAX_TIMELINE_DAYS}`
+      });
+    }
+
+    const requestedTimezone = timezone || profile.birthTimezone || 'UTC';
+    const timezoneValidation = validateTimezone(requestedTimezone);
+    if (!timezoneValidation.isValid) {
+      return res.status(400).json({
+        error: 'Bad request',
+        message: timezoneValidation.error
+      });
+    }
+    const userTimezone = normalizeUtcOffset(requestedTimezone) || requestedTimezone.trim();
+
+    log.info('Transit timeline request received', {
+      userId: profile.id,
+      timezone: userTimezone,
+      days: periodDays
+    });
+
+    try {
+      const timeline = calculateTransitTimeline(chartData, new Date(), periodDays, userTimezone);
+      return res.status(200).json(timeline);
+    } catch (calcError: any) {
+      log.error('Failed to calculate transit timeline', { error: calcError.message });
+      return res.status(400).json({
+        error: 'Transit timeline unavailable',
+        message: calcError.message
+      });
+    }
+  } catch (error: any) {
+    log.error('Error in transit timeline handler', {
+      error: error.message,
+      stack: error.stack
+    });
+
+    const lang = req.body?.profile?.language === 'ru';
+    return res.status(500).json({
+      error: 'Transit timeline failed',
+      message: lang
+        ? 'Не удалось построить шкалу транзитов. Пожалуйста, попробуйте позже.'
+        : 'Failed to build the transit timeline. Please try again later.',
+      details: process.env.NODE_ENV === 'development' ? error.message : undefined
+    });
+  }
+}
@@ -2,6 +2,8 @@ import type { NextApiRequest, NextApiResponse } from 'next';
 import OpenAI from 'openai';
 import { SYSTEM_PROMPT_ASTRA, createWeeklyForecastPrompt, addLanguageInstruction, WeeklyForecastAIResponse } from '../../../lib/prompts';
 import { CACHE_CONFIGS } from '../../../lib/cache';
+import { findTransitAspects } from '../../../lib/transits-calculator';
+import type { TransitAspect } from '../../../types';
 
 // Logging utility
 const log = {
@@ -60,8 +62,19 @@ export default async function handler(
       return res.status(200).json(fallbackHoroscope);
     }
 
+    // Персональные транзиты к натальной карте на период
+    let transitAspects: TransitAspect[] = [];
+    try {
+      const periodStart = new Date();
+      const periodEnd = new Date(periodStart.getTime() + 7 * 24 * 60 * 60 * 1000);
+      transitAspects = findTransitAspects(chartData, periodStart, periodEnd);
+      log.info('Personal transits calculated', { count: transitAspects.length });
+    } catch (transitError: any) {
+      log.error('Failed to calculate personal transits', { error: transitError.message });
+    }
+
     // Создаём промпт
-    const userPrompt = createWeeklyForecastPrompt(chartData, profile, weekRange);
+    const userPrompt = createWeeklyForecastPrompt(chartData, profile, weekRange, transitAspects);
     const promptWithLang = addLanguageInstruction(userPrompt, lang ? 'ru' : 'en');
 
     log.info('Sending request to OpenAI', {
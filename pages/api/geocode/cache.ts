@@ -0,0 +1,115 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import tzLookup from 'tz-lookup';
+import { db } from '../../../lib/db';
+import { getPlaceCacheKey } from '../../../lib/gazetteer';
+
+// Logging utility
+const log = {
+  info: (message: string, data?: any) => {
+    console.log(`[API/geocode/cache] ${message}`, data || '');
+  },
+  error: (message: string, error?: any) => {
+    console.error(`[API/geocode/cache] ERROR: ${message}`, error || '');
+  },
+};
+
+function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * API endpoint для просмотра и исправления кэша геокодинга (только для администраторов)
+ *
+ * GET ?adminId&search&limit — список записей,
+ * PUT { adminId, place, lat, lon, timezone?, displayName? } — исправить место
+ * (часовой пояс по умолчанию определяется по координатам),
+ * DELETE ?adminId&place — удалить запись, чтобы место геокодировалось заново.
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'GET' && req.method !== 'PUT' && req.method !== 'DELETE') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const rawAdminId = req.method === 'PUT' ? req.body?.adminId : req.query.adminId;
+  const adminId = Array.isArray(rawAdminId) ? rawAdminId[0] : rawAdminId;
+
+  if (!adminId) {
+    return res.status(400).json({ error: 'Admin ID is required' });
+  }
+
+  try {
+    const admin = await db.users.get(String(adminId));
+    if (!admin?.is_admin) {
+      log.info('Access denied', { adminId });
+      return res.status(403).json({ error: 'Admin access required' });
+    }
+
+    if (req.method === 'GET') {
+      const search = typeof req.query.search === 'string' && req.query.search.trim()
+        ? req.query.search.trim()
+        : undefined;
+      const limit = Math.min(Math.max(parseInt(String(req.query.limit || '100'), 10) || 100, 1), 500);
+
+      const entries = await db.geocodeCache.list(search, limit);
+      return res.status(200).json({ entries });
+    }
+
+    if (req.method === 'DELETE') {
+      const place = Array.isArray(req.query.place) ? req.query.place[0] : req.query.place;
+      const placeKey = place ? getPlaceCacheKey(place) : '';
+      if (!placeKey) {
+        return res.status(400).json({ error: 'Bad request', message: 'place is required' });
+      }
+
+      const result = await db.geocodeCache.delete(placeKey);
+      log.info('Geocode cache entry deleted', { adminId, placeKey, deleted: result.deleted });
+      return res.status(200).json({ success: true, deleted: result.deleted, placeKey });
+    }
+
+    // PUT — исправление записи
+    const { place, lat, lon, timezone, displayName } = req.body;
+    const placeKey = typeof place === 'string' ? getPlaceCacheKey(place) : '';
+    if (!placeKey) {
+      return res.status(400).json({ error: 'Bad request', message: 'place is required' });
+    }
+    if (typeof lat !== 'number' || !Number.isFinite(lat) || lat < -90 || lat > 90) {
+      return res.status(400).json({ error: 'Bad request', message: 'lat must be a number between -90 and 90' });
+    }
+    if (typeof lon !== 'number' || !Number.isFinite(lon) || lon < -180 || lon > 180) {
+      return res.status(400).json({ error: 'Bad request', message: 'lon must be a number between -180 and 180' });
+    }
+    if (timezone !== undefined && (typeof timezone !== 'string' || !isValidTimezone(timezone))) {
+      return res.status(400).json({ error: 'Bad request', message: 'timezone must be a valid IANA timezone' });
+    }
+
+    const entry = await db.geocodeCache.correct({
+      placeKey,
+      query: place,
+      lat,
+      lon,
+      timezone: timezone || tzLookup(lat, lon),
+      displayName: typeof displayName === 'string' && displayName.trim() ? displayName.trim() : undefined
+    });
+
+    log.info('Geocode cache entry corrected', { adminId, placeKey, lat, lon, timezone: entry.timezone });
+    return res.status(200).json({ entry });
+  } catch (error: any) {
+    log.error('Error in geocode cache handler', {
+      error: error.message,
+      stack: error.stack
+    });
+    return res.status(500).json({
+      error: 'Geocode cache operation failed',
+      message: 'Failed to process geocode cache request',
+      details: process.env.NODE_ENV === 'development' ? error.message : undefined
+    });
+  }
+}
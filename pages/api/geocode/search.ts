@@ -0,0 +1,57 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { searchPlaceCandidates } from '../../../lib/swisseph-calculator';
+
+// Logging utility
+const log = {
+  info: (message: string, data?: any) => {
+    console.log(`[API/geocode/search] ${message}`, data || '');
+  },
+  error: (message: string, error?: any) => {
+    console.error(`[API/geocode/search] ERROR: ${message}`, error || '');
+  },
+};
+
+const MAX_CANDIDATES = 10;
+
+/**
+ * Поиск мест по названию для выбора места рождения
+ *
+ * GET /api/geocode/search?q=Springfield&limit=5&lang=ru
+ * Возвращает до limit кандидатов со страной, регионом, координатами и часовым поясом.
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const rawQuery = Array.isArray(req.query.q) ? req.query.q[0] : req.query.q;
+  const query = typeof rawQuery === 'string' ? rawQuery.trim() : '';
+  if (query.length < 2 || query.length > 200) {
+    return res.status(400).json({
+      error: 'Bad request',
+      message: 'q must be between 2 and 200 characters'
+    });
+  }
+
+  const limit = Math.min(Math.max(parseInt(String(req.query.limit || '5'), 10) || 5, 1), MAX_CANDIDATES);
+  const language = req.query.lang === 'ru' ? 'ru' : 'en';
+
+  try {
+    const candidates = await searchPlaceCandidates(query, limit, language);
+    log.info('Place search completed', { query, count: candidates.length });
+    return res.status(200).json({ candidates });
+  } catch (error: any) {
+    log.error('Error searching places', {
+      error: error.message,
+      stack: error.stack
+    });
+    return res.status(500).json({
+      error: 'Place search failed',
+      message: 'Failed to search places',
+      details: process.env.NODE_ENV === 'development' ? error.message : undefined
+    });
+  }
+}
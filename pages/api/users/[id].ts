@@ -65,6 +65,13 @@ export default async function handler(
         evolution: user.evolution,
         generatedContent: user.generated_content,
         weatherCity: user.weather_city && user.weather_city.trim() ? user.weather_city.trim() : undefined,
+        houseSystem: user.house_system || undefined,
+        birthLat: user.birth_lat ?? undefined,
+        birthLon: user.birth_lon ?? undefined,
+        birthTimezone: user.birth_timezone || undefined,
+        birthTimeChoice: user.birth_time_choice || undefined,
+        zodiacType: user.zodiac_type || undefined,
+        ayanamsa: user.ayanamsa || undefined,
       };
 
       return res.status(200).json(clientUser);
@@ -173,6 +180,14 @@ export default async function handler(
         evolution: userData.evolution || null,
         generated_content: dbGeneratedContent, // Передаем объект, lib/db.ts сериализует его
         weather_city: weatherCityToSave,
+        house_system: userData.houseSystem,
+        zodiac_type: userData.zodiacType,
+        ayanamsa: userData.ayanamsa,
+        // Координаты меняются вместе с местом рождения: без них место геокодируется по названию
+        birth_lat: typeof userData.birthLat === 'number' ? userData.birthLat : null,
+        birth_lon: typeof userData.birthLon === 'number' ? userData.birthLon : null,
+        birth_timezone: userData.birthTimezone || null,
+        birth_time_choice: userData.birthTimeChoice === 'earlier' || userData.birthTimeChoice === 'later' ? userData.birthTimeChoice : null,
       };
       
       log.info(`[${req.method}] dbUser.generated_content type:`, typeof dbUser.generated_content);
@@ -216,6 +231,13 @@ export default async function handler(
         evolution: savedUser.evolution,
         generatedContent: savedUser.generated_content,
         weatherCity: savedUser.weather_city && savedUser.weather_city.trim() ? savedUser.weather_city.trim() : undefined,
+        houseSystem: savedUser.house_system || undefined,
+        birthLat: savedUser.birth_lat ?? undefined,
+        birthLon: savedUser.birth_lon ?? undefined,
+        birthTimezone: savedUser.birth_timezone || undefined,
+        birthTimeChoice: savedUser.birth_time_choice || undefined,
+        zodiacType: savedUser.zodiac_type || undefined,
+        ayanamsa: savedUser.ayanamsa || undefined,
       };
 
       return res.status(200).json(clientUser);
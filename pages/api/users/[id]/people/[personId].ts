@@ -0,0 +1,130 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { db } from '../../../../../lib/db';
+import { buildPersonRecord } from '../../../../../lib/people';
+import { validatePersonInput, formatValidationErrors } from '../../../../../lib/validation';
+import type { PersonInput } from '../../../../../types';
+
+// Logging utility
+const log = {
+  info: (message: string, data?: any) => {
+    console.log(`[API/users/[id]/people/[personId]] ${message}`, data || '');
+  },
+  error: (message: string, error?: any) => {
+    console.error(`[API/users/[id]/people/[personId]] ERROR: ${message}`, error || '');
+  },
+};
+
+/**
+ * API endpoint для одного сохраненного человека
+ *
+ * GET — человек с картой
+ * PUT — изменение данных (частичное): карта пересчитывается, место
+ * геокодируется заново, только если оно изменилось
+ * DELETE — удаление
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  const { id, personId: personIdParam } = req.query;
+  const userId = Array.isArray(id) ? id[0] : id;
+  const personId = Array.isArray(personIdParam) ? personIdParam[0] : personIdParam;
+
+  if (!userId) {
+    return res.status(400).json({ error: 'User ID is required' });
+  }
+  if (!personId || !/^\d+$/.test(personId)) {
+    return res.status(400).json({ error: 'Valid person ID is required' });
+  }
+
+  log.info('Request received', { method: req.method, userId, personId });
+
+  try {
+    if (req.method === 'GET') {
+      const person = await db.people.get(userId, personId);
+      if (!person) {
+        return res.status(404).json({ error: 'Person not found' });
+      }
+      return res.status(200).json(person);
+    }
+
+    if (req.method === 'PUT') {
+      const existing = await db.people.get(userId, personId);
+      if (!existing) {
+        return res.status(404).json({ error: 'Person not found' });
+      }
+
+      // 1. Новые поля поверх сохраненных; координаты — только введенные заново
+      const body: Partial<PersonInput> = req.body || {};
+      const input: PersonInput = {
+        name: body.name ?? existing.name,
+        relationship: body.relationship ?? existing.relationship,
+        birthDate: body.birthDate ?? existing.birthDate,
+        birthTime: body.birthTime !== undefined ? body.birthTime : existing.birthTime,
+        birthPlace: body.birthPlace ?? existing.birthPlace,
+        birthLat: body.birthLat,
+        birthLon: body.birthLon,
+        birthTimezone: body.birthTimezone
+      };
+
+      const validation = validatePersonInput(input);
+      if (!validation.isValid) {
+        return res.status(400).json({
+          error: 'Validation failed',
+          message: formatValidationErrors(validation.errors, 'en'),
+          errors: validation.errors
+        });
+      }
+
+      const user = await db.users.get(userId);
+      if (!user) {
+        return res.status(404).json({ error: 'User not found' });
+      }
+
+      // 2. Карта пересчитывается: могли измениться данные рождения или настройки пользователя
+      let record;
+      try {
+        record = await buildPersonRecord(input, {
+          houseSystem: user.house_system || undefined,
+          zodiacType: user.zodiac_type || undefined,
+          ayanamsa: user.ayanamsa || undefined
+        }, existing);
+      } catch (calcError: any) {
+        log.error('Failed to calculate person chart', { error: calcError.message });
+        return res.status(400).json({
+          error: 'Chart calculation failed',
+          message: calcError.message
+        });
+      }
+
+      const person = await db.people.update(userId, personId, record);
+      if (!person) {
+        return res.status(404).json({ error: 'Person not found' });
+      }
+      log.info('Person updated', { userId, personId });
+      return res.status(200).json(person);
+    }
+
+    if (req.method === 'DELETE') {
+      const result = await db.people.delete(userId, personId);
+      if (!result.deleted) {
+        return res.status(404).json({ error: 'Person not found' });
+      }
+      log.info('Person deleted', { userId, personId });
+      return res.status(200).json(result);
+    }
+
+    return res.status(405).json({ error: 'Method not allowed' });
+  } catch (error: any) {
+    log.error('Error processing request', {
+      error: error.message,
+      stack: error.stack,
+      userId,
+      personId
+    });
+    return res.status(500).json({
+      error: 'Internal server error',
+      message: error.message
+    });
+  }
+}
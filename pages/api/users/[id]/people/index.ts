@@ -0,0 +1,100 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { db } from '../../../../../lib/db';
+import { buildPersonRecord } from '../../../../../lib/people';
+import { validatePersonInput, formatValidationErrors, MAX_PEOPLE_PER_USER } from '../../../../../lib/validation';
+import type { PersonInput } from '../../../../../types';
+
+// Logging utility
+const log = {
+  info: (message: string, data?: any) => {
+    console.log(`[API/users/[id]/people] ${message}`, data || '');
+  },
+  error: (message: string, error?: any) => {
+    console.error(`[API/users/[id]/people] ERROR: ${message}`, error || '');
+  },
+};
+
+/**
+ * API endpoint для сохраненных людей пользователя
+ *
+ * GET — список людей с картами
+ * POST { name, relationship, birthDate, birthTime?, birthPlace, birthLat?, birthLon?, birthTimezone? }
+ * Координаты разрешаются, а карта рассчитывается один раз при сохранении —
+ * в зодиаке и системе домов пользователя.
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  const { id } = req.query;
+  const userId = Array.isArray(id) ? id[0] : id;
+
+  if (!userId) {
+    return res.status(400).json({ error: 'User ID is required' });
+  }
+
+  log.info('Request received', { method: req.method, userId });
+
+  try {
+    if (req.method === 'GET') {
+      const people = await db.people.list(userId);
+      return res.status(200).json({ people });
+    }
+
+    if (req.method === 'POST') {
+      const input: PersonInput = req.body || {};
+      const validation = validatePersonInput(input);
+      if (!validation.isValid) {
+        return res.status(400).json({
+          error: 'Validation failed',
+          message: formatValidationErrors(validation.errors, 'en'),
+          errors: validation.errors
+        });
+      }
+
+      const user = await db.users.get(userId);
+      if (!user) {
+        return res.status(404).json({ error: 'User not found' });
+      }
+
+      const count = await db.people.count(userId);
+      if (count >= MAX_PEOPLE_PER_USER) {
+        return res.status(400).json({
+          error: 'Too many people',
+          message: `You can save up to ${MAX_PEOPLE_PER_USER} people`
+        });
+      }
+
+      let record;
+      try {
+        record = await buildPersonRecord(input, {
+          houseSystem: user.house_system || undefined,
+          zodiacType: user.zodiac_type || undefined,
+          ayanamsa: user.ayanamsa || undefined
+        });
+      } catch (calcError: any) {
+        log.error('Failed to calculate person chart', { error: calcError.message });
+        return res.status(400).json({
+          error: 'Chart calculation failed',
+          message: calcError.message
+        });
+      }
+
+      const person = await db.people.create(userId, record);
+      log.info('Person created', { userId, personId: person.id, relationship: person.relationship });
+      return res.status(201).json(person);
+    }
+
+    return res.status(405).json({ error: 'Method not allowed' });
+  } catch (error: any) {
+    log.error('Error processing request', {
+      error: error.message,
+      stack: error.stack,
+      userId
+    });
+    return res.status(500).json({
+      error: 'Internal server error',
+      message: error.message
+    });
+  }
+}
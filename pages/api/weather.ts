@@ -1,4 +1,5 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
+import { getMoonPhaseInfo, MOON_PHASE_NAMES_EN } from '../../lib/lunar-calculator';
 
 interface WeatherApiResponse {
   location: {
@@ -19,12 +20,6 @@ interface WeatherApiResponse {
     feelslike_c: number;
     feelslike_f: number;
   };
-  astronomy: {
-    astro: {
-      moon_phase: string;
-      moon_illumination: string;
-    };
-  };
 }
 
 interface WeatherResponse {
@@ -70,21 +65,15 @@ export default async function handler(
   }
 
   try {
-    // WeatherAPI.com endpoint для текущей погоды и астрономии
+    // WeatherAPI.com endpoint для текущей погоды
     const weatherUrl = `https://api.weatherapi.com/v1/current.json?key=${apiKey}&q=${encodeURIComponent(city)}&aqi=no`;
-    const astronomyUrl = `https://api.weatherapi.com/v1/astronomy.json?key=${apiKey}&q=${encodeURIComponent(city)}`;
 
-    // Запрашиваем погоду и астрономию параллельно с таймаутом
-    let weatherResponse, astronomyResponse;
+    // Запрашиваем погоду с таймаутом
+    let weatherResponse;
     try {
-      [weatherResponse, astronomyResponse] = await Promise.all([
-        fetch(weatherUrl, { 
-          signal: AbortSignal.timeout(10000) // 10 секунд таймаут
-        }),
-        fetch(astronomyUrl, { 
-          signal: AbortSignal.timeout(10000) 
-        })
-      ]);
+      weatherResponse = await fetch(weatherUrl, { 
+        signal: AbortSignal.timeout(10000) // 10 секунд таймаут
+      });
     } catch (fetchError: any) {
       console.error('[Weather API] Fetch error:', fetchError);
       if (fetchError.name === 'AbortError' || fetchError.name === 'TimeoutError') {
@@ -125,22 +114,17 @@ export default async function handler(
 
     const weatherData: WeatherApiResponse = await weatherResponse.json();
     
-    // Пытаемся получить данные о луне, но не критично если не получится
+    // Фаза Луны считается по эфемериде, не критично если не получится
     let moonPhase: { phase: string; illumination: number } | undefined;
-    if (astronomyResponse.ok) {
-      try {
-        const astronomyData = await astronomyResponse.json();
-        if (astronomyData?.astronomy?.astro) {
-          const illumination = parseFloat(astronomyData.astronomy.astro.moon_illumination || '0');
-          moonPhase = {
-            phase: astronomyData.astronomy.astro.moon_phase || 'Unknown',
-            illumination: Math.round(illumination)
-          };
-        }
-      } catch (error) {
-        console.warn('[Weather API] Failed to parse astronomy data:', error);
-        // Не критично, продолжаем без данных о луне
-      }
+    try {
+      const moonInfo = getMoonPhaseInfo();
+      moonPhase = {
+        phase: MOON_PHASE_NAMES_EN[moonInfo.phase],
+        illumination: Math.round(moonInfo.illumination)
+      };
+    } catch (error) {
+      console.warn('[Weather API] Failed to calculate moon phase:', error);
+      // Не критично, продолжаем без данных о луне
     }
 
     const result = {
@@ -1,6 +1,6 @@
-import { UserProfile, NatalChartData, DailyHoroscope, SynastryResult, UserContext, UserEvolution } from "../types";
+import { UserProfile, NatalChartData, ChartBalance, Modality, DailyHoroscope, SynastryResult, RelationshipChartsResult, GroupCompatibilityResult, TransitTimeline, TimelineEvent, TimelineEventInterpretation, UserContext, UserEvolution, LunarCalendar, PlaceCandidate, LocalTimeWarning } from "../types";
 import { SYSTEM_INSTRUCTION_ASTRA } from "../constants";
-import { getElementForSign, SIGN_ELEMENTS } from "../lib/zodiac-utils";
+import { calculateChartBalance } from "../lib/chart-balance";
 
 // Helper to select language prompt
 const getLangPrompt = (lang: string) => lang === 'ru' ? "Response must be in Russian." : "Response must be in English.";
@@ -41,7 +41,14 @@ export const calculateNatalChart = async (profile: UserProfile): Promise<NatalCh
       birthDate: profile.birthDate,
       birthTime: profile.birthTime,
       birthPlace: profile.birthPlace,
-      language: profile.language
+      language: profile.language,
+      houseSystem: profile.houseSystem,
+      zodiacType: profile.zodiacType,
+      ayanamsa: profile.ayanamsa,
+      birthLat: profile.birthLat,
+      birthLon: profile.birthLon,
+      birthTimezone: profile.birthTimezone,
+      birthTimeChoice: profile.birthTimeChoice
     };
 
     log.info(`[calculateNatalChart] Sending POST request to: ${url}`);
@@ -204,7 +211,8 @@ export const calculateBriefSynastry = async (
   partnerDate: string,
   partnerTime?: string,
   partnerPlace?: string,
-  relationshipType?: string
+  relationshipType?: string,
+  partnerLocation?: PlaceCandidate
 ): Promise<SynastryResult> => {
   const url = `${API_BASE_URL}/api/astrology/synastry-brief`;
   log.info('[calculateBriefSynastry] Starting calculation', { partnerName, partnerDate });
@@ -221,6 +229,9 @@ export const calculateBriefSynastry = async (
         partnerDate,
         partnerTime,
         partnerPlace,
+        partnerLat: partnerLocation?.lat,
+        partnerLon: partnerLocation?.lon,
+        partnerTimezone: partnerLocation?.timezone,
         language: profile.language,
         relationshipType
       })
@@ -265,7 +276,8 @@ export const calculateFullSynastry = async (
   partnerDate: string,
   partnerTime?: string,
   partnerPlace?: string,
-  relationshipType?: string
+  relationshipType?: string,
+  partnerLocation?: PlaceCandidate
 ): Promise<SynastryResult> => {
   const url = `${API_BASE_URL}/api/astrology/synastry-full`;
   log.info('[calculateFullSynastry] Starting calculation', { partnerName, partnerDate });
@@ -282,6 +294,9 @@ export const calculateFullSynastry = async (
         partnerDate,
         partnerTime,
         partnerPlace,
+        partnerLat: partnerLocation?.lat,
+        partnerLon: partnerLocation?.lon,
+        partnerTimezone: partnerLocation?.timezone,
         language: profile.language,
         relationshipType
       })
@@ -317,6 +332,106 @@ export const calculateFullSynastry = async (
   }
 };
 
+/**
+ * Карты отношений (премиум): композит и Дависон с трактовкой
+ */
+export const calculateRelationshipCharts = async (
+  profile: UserProfile,
+  partnerName: string,
+  partnerDate: string,
+  partnerTime?: string,
+  partnerPlace?: string,
+  relationshipType?: string,
+  partnerLocation?: PlaceCandidate
+): Promise<RelationshipChartsResult> => {
+  const url = `${API_BASE_URL}/api/astrology/relationship-charts`;
+  log.info('[calculateRelationshipCharts] Starting calculation', { partnerName, partnerDate });
+
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        profile,
+        partnerName,
+        partnerDate,
+        partnerTime,
+        partnerPlace,
+        partnerLat: partnerLocation?.lat,
+        partnerLon: partnerLocation?.lon,
+        partnerTimezone: partnerLocation?.timezone,
+        language: profile.language,
+        relationshipType
+      })
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text().catch(() => 'Unable to read error response');
+      log.error(`[calculateRelationshipCharts] Server returned error status ${response.status}`, {
+        status: response.status,
+        errorBody: errorText
+      });
+      throw new Error(`Failed to calculate relationship charts: ${response.status} ${response.statusText}`);
+    }
+
+    const result = await response.json() as RelationshipChartsResult;
+    log.info('[calculateRelationshipCharts] Successfully calculated relationship charts');
+    return result;
+  } catch (error: any) {
+    log.error('[calculateRelationshipCharts] Error occurred', {
+      error: error.message,
+      stack: error.stack
+    });
+    throw error;
+  }
+};
+
+/**
+ * Групповая совместимость: сохраненные люди (и сам пользователь, если includeSelf), от 3 до 8 человек
+ */
+export const calculateGroupCompatibility = async (
+  profile: UserProfile,
+  personIds: string[],
+  includeSelf: boolean = true,
+  groupType?: string
+): Promise<GroupCompatibilityResult> => {
+  const url = `${API_BASE_URL}/api/astrology/group`;
+  log.info('[calculateGroupCompatibility] Starting calculation', { people: personIds.length, includeSelf });
+
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        profile,
+        personIds,
+        includeSelf,
+        language: profile.language,
+        groupType
+      })
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text().catch(() => 'Unable to read error response');
+      log.error(`[calculateGroupCompatibility] Server returned error status ${response.status}`, {
+        status: response.status,
+        errorBody: errorText
+      });
+      throw new Error(`Failed to calculate group compatibility: ${response.status} ${response.statusText}`);
+    }
+
+    const result = await response.json() as GroupCompatibilityResult;
+    log.info('[calculateGroupCompatibility] Successfully calculated group compatibility');
+    return result;
+  } catch (error: any) {
+    log.error('[calculateGroupCompatibility] Error occurred', {
+      error: error.message,
+      stack: error.stack
+    });
+    throw error;
+  }
+};
+
 
 export const getDailyHoroscope = async (profile: UserProfile, chartData: NatalChartData, context?: UserContext): Promise<DailyHoroscope> => {
   const url = `${API_BASE_URL}/api/astrology/daily-horoscope`;
@@ -361,6 +476,181 @@ export const getDailyHoroscope = async (profile: UserProfile, chartData: NatalCh
   }
 };
 
+/**
+ * Шкала транзитов на ближайший год во времени браузера пользователя
+ */
+export const getTransitTimeline = async (profile: UserProfile, chartData: NatalChartData): Promise<TransitTimeline> => {
+  const url = `${API_BASE_URL}/api/astrology/transit-timeline`;
+  // Пояс браузера: пользователь живет не обязательно там, где родился
+  const timezone = Intl.DateTimeFormat().resolvedOptions().timeZone || profile.birthTimezone;
+  log.info('[getTransitTimeline] Starting request', { userId: profile.id, timezone });
+
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ profile, chartData, timezone })
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text().catch(() => 'Unable to read error response');
+      log.error(`[getTransitTimeline] Server returned error status ${response.status}`, {
+        status: response.status,
+        errorBody: errorText
+      });
+      throw new Error(`Failed to get transit timeline: ${response.status} ${response.statusText}`);
+    }
+
+    const result = await response.json() as TransitTimeline;
+    log.info('[getTransitTimeline] Successfully received timeline', { events: result.events.length });
+    return result;
+  } catch (error: any) {
+    log.error('[getTransitTimeline] Error occurred', {
+      error: error.message
+    });
+    throw error;
+  }
+};
+
+/**
+ * Трактовка события шкалы транзитов (кэшируется на сервере по событию)
+ */
+export const getTimelineEventInterpretation = async (
+  profile: UserProfile,
+  chartData: NatalChartData,
+  event: TimelineEvent
+): Promise<TimelineEventInterpretation | null> => {
+  const url = `${API_BASE_URL}/api/astrology/timeline-event`;
+  log.info('[getTimelineEventInterpretation] Starting request', { eventId: event.id });
+
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ profile, chartData, event, language: profile.language })
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text().catch(() => 'Unable to read error response');
+      log.error(`[getTimelineEventInterpretation] Server returned error status ${response.status}`, {
+        status: response.status,
+        errorBody: errorText
+      });
+      throw new Error(`Failed to get timeline event interpretation: ${response.status} ${response.statusText}`);
+    }
+
+    const result = await response.json() as { eventId: string; interpretation: TimelineEventInterpretation | null };
+    return result.interpretation;
+  } catch (error: any) {
+    log.error('[getTimelineEventInterpretation] Error occurred', {
+      error: error.message
+    });
+    throw error;
+  }
+};
+
+/**
+ * Лунный календарь на месяц (по умолчанию текущий) — не требует ключа погодного API
+ */
+export const getLunarCalendar = async (year?: number, month?: number): Promise<LunarCalendar> => {
+  const params = new URLSearchParams();
+  if (year !== undefined) params.set('year', String(year));
+  if (month !== undefined) params.set('month', String(month));
+  const query = params.toString();
+  const url = `${API_BASE_URL}/api/astrology/lunar-calendar${query ? `?${query}` : ''}`;
+  log.info('[getLunarCalendar] Starting request', { year, month });
+
+  try {
+    const response = await fetch(url);
+
+    if (!response.ok) {
+      const errorText = await response.text().catch(() => 'Unable to read error response');
+      log.error(`[getLunarCalendar] Server returned error status ${response.status}`, {
+        status: response.status,
+        errorBody: errorText
+      });
+      throw new Error(`Failed to get lunar calendar: ${response.status} ${response.statusText}`);
+    }
+
+    return await response.json() as LunarCalendar;
+  } catch (error: any) {
+    log.error('[getLunarCalendar] Error occurred', {
+      error: error.message
+    });
+    throw error;
+  }
+};
+
+/**
+ * Места, подходящие под название, — для выбора места рождения
+ */
+export const searchBirthPlaces = async (query: string, language: string = 'ru', limit: number = 5): Promise<PlaceCandidate[]> => {
+  const params = new URLSearchParams({ q: query, lang: language, limit: String(limit) });
+  const url = `${API_BASE_URL}/api/geocode/search?${params.toString()}`;
+  log.info('[searchBirthPlaces] Starting request', { query });
+
+  try {
+    const response = await fetch(url);
+
+    if (!response.ok) {
+      const errorText = await response.text().catch(() => 'Unable to read error response');
+      log.error(`[searchBirthPlaces] Server returned error status ${response.status}`, {
+        status: response.status,
+        errorBody: errorText
+      });
+      throw new Error(`Failed to search places: ${response.status} ${response.statusText}`);
+    }
+
+    const data = await response.json();
+    return Array.isArray(data.candidates) ? data.candidates as PlaceCandidate[] : [];
+  } catch (error: any) {
+    log.error('[searchBirthPlaces] Error occurred', {
+      error: error.message
+    });
+    throw error;
+  }
+};
+
+/**
+ * Проверка времени рождения на перевод часов: warning, если время было дважды или его не было
+ */
+export const checkBirthTime = async (profile: UserProfile): Promise<{ timezone: string; warning: LocalTimeWarning | null }> => {
+  const url = `${API_BASE_URL}/api/astrology/birth-time-check`;
+  log.info('[checkBirthTime] Starting request', { birthDate: profile.birthDate, birthTime: profile.birthTime });
+
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        birthDate: profile.birthDate,
+        birthTime: profile.birthTime,
+        birthPlace: profile.birthPlace,
+        birthLat: profile.birthLat,
+        birthLon: profile.birthLon,
+        birthTimezone: profile.birthTimezone,
+        language: profile.language
+      })
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text().catch(() => 'Unable to read error response');
+      log.error(`[checkBirthTime] Server returned error status ${response.status}`, {
+        status: response.status,
+        errorBody: errorText
+      });
+      throw new Error(`Failed to check birth time: ${response.status} ${response.statusText}`);
+    }
+
+    return await response.json();
+  } catch (error: any) {
+    log.error('[checkBirthTime] Error occurred', {
+      error: error.message
+    });
+    throw error;
+  }
+};
+
 export const updateUserEvolution = async (profile: UserProfile, chartData?: NatalChartData): Promise<UserEvolution> => {
   // If no evolution exists, initialize with personalized values based on natal chart
   if (!profile.evolution) {
@@ -415,44 +705,30 @@ function calculateInitialStats(profile: UserProfile, chartData?: NatalChartData)
     };
   }
 
-  // Используем централизованные данные о знаках для избежания дублирования
+  // Баланс карты: сохранен вместе с картой или считается на лету для старых карт
+  const balance = chartData.balance || calculateChartBalance(chartData);
+  const topPlanets = balance.planetScores.slice(0, 3).map(score => score.planet);
 
-  // Интуиция зависит от Луны и водных знаков
-  let intuition = 50;
-  const moonSign = chartData.moon?.sign;
-  const moonElement = moonSign ? getElementForSign(moonSign as any) : null;
-  if (moonElement === 'Water') {
-    intuition += 15;
-  } else if (moonElement === 'Air') {
-    intuition += 10;
-  }
-
-  // Уверенность зависит от Солнца и огненных знаков
-  let confidence = 50;
-  const sunSign = chartData.sun?.sign;
-  const sunElement = sunSign ? getElementForSign(sunSign as any) : null;
-  if (sunElement === 'Fire') {
-    confidence += 15;
-  } else if (sunElement === 'Earth') {
-    confidence += 10;
-  }
+  // Стат = 35 + доля стихии × 0.6 + доля креста × 0.2 + бонус ключевой планеты
+  // (+10 — доминанта, +5 — в тройке сильнейших), в пределах 20–95
+  const calculateStat = (element: ChartBalance['dominantElement'], modality: Modality, planet: string): number => {
+    const planetBonus = balance.dominantPlanet === planet ? 10 : topPlanets.includes(planet) ? 5 : 0;
+    const stat = 35 + balance.elements[element] * 0.6 + balance.modalities[modality] * 0.2 + planetBonus;
+    return Math.max(20, Math.min(95, Math.round(stat)));
+  };
 
-  // Осознанность зависит от элемента и Меркурия
-  let awareness = 50;
-  const element = chartData.element;
-  if (element === 'Air') {
-    awareness += 15;
-  } else if (element === 'Earth') {
-    awareness += 12;
-  } else if (element === 'Water') {
-    awareness += 8;
-  }
+  // Интуиция — Вода, мутабельный крест и Луна
+  const intuition = calculateStat('Water', 'mutable', 'Moon');
+  // Уверенность — Огонь, кардинальный крест и Солнце
+  const confidence = calculateStat('Fire', 'cardinal', 'Sun');
+  // Осознанность — Воздух, фиксированный крест и Меркурий
+  const awareness = calculateStat('Air', 'fixed', 'Mercury');
 
   log.info('[updateUserEvolution] Calculated personalized initial stats', {
     userId: profile.id,
-    sunSign,
-    moonSign,
-    element,
+    elements: balance.elements,
+    modalities: balance.modalities,
+    dominantPlanet: balance.dominantPlanet,
     stats: { intuition, confidence, awareness }
   });
 
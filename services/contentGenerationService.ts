@@ -1,4 +1,4 @@
-import { UserProfile, NatalChartData, UserGeneratedContent, DailyHoroscope } from "../types";
+import { UserProfile, NatalChartData, UserGeneratedContent, DailyHoroscope, PlaceCandidate, Person } from "../types";
 import { getNatalIntro, getDailyHoroscope, getDeepDiveAnalysis } from "./astrologyService";
 import { saveProfile } from "./storageService";
 
@@ -258,7 +258,7 @@ export const updateContentIfNeeded = async (profile: UserProfile, chartData: Nat
 export const getOrGenerateDeepDive = async (
   profile: UserProfile,
   chartData: NatalChartData,
-  topic: 'personality' | 'love' | 'career' | 'weakness' | 'karma'
+  topic: 'personality' | 'love' | 'career' | 'weakness' | 'karma' | 'vedic'
 ): Promise<string> => {
   log.info(`[getOrGenerateDeepDive] Getting Deep Dive for topic: ${topic}`, {
     userId: profile.id,
@@ -278,7 +278,8 @@ export const getOrGenerateDeepDive = async (
     love: profile.language === 'ru' ? 'Любовь' : 'Love',
     career: profile.language === 'ru' ? 'Карьера' : 'Career',
     weakness: profile.language === 'ru' ? 'Слабости' : 'Weakness',
-    karma: profile.language === 'ru' ? 'Карма' : 'Karma'
+    karma: profile.language === 'ru' ? 'Карма' : 'Karma',
+    vedic: profile.language === 'ru' ? 'Ведическая карта' : 'Vedic Chart'
   }[topic];
 
   try {
@@ -384,6 +385,9 @@ export const getOrGenerateHoroscope = async (
 
 /**
  * Получает или генерирует синастрию для конкретного партнера
+ *
+ * Для сохраненного человека (person) синастрия кэшируется по его id
+ * и пересчитывается, если его данные изменились.
  */
 export const getOrGenerateSynastry = async (
   profile: UserProfile,
@@ -392,21 +396,26 @@ export const getOrGenerateSynastry = async (
   partnerTime?: string,
   partnerPlace?: string,
   relationshipType?: string,
-  mode: 'brief' | 'full' = 'brief'
+  mode: 'brief' | 'full' = 'brief',
+  partnerLocation?: PlaceCandidate,
+  person?: Person
 ): Promise<any> => {
   log.info(`[getOrGenerateSynastry] Getting synastry for partner: ${partnerName}`, {
     userId: profile.id,
     mode,
+    personId: person?.id,
     hasGeneratedContent: !!profile.generatedContent
   });
 
-  // Создаем уникальный ключ для партнера (на основе имени и даты рождения)
-  const partnerId = `${partnerName.toLowerCase().trim()}_${partnerDate}`;
+  // Создаем уникальный ключ для партнера (сохраненный человек или имя и дата рождения)
+  const partnerId = person ? `person_${person.id}` : `${partnerName.toLowerCase().trim()}_${partnerDate}`;
 
-  // Проверяем, есть ли уже сохраненная синастрия
+  // Проверяем, есть ли уже сохраненная синастрия (для человека — по актуальным данным)
   const cachedSynastry = profile.generatedContent?.synastries?.[partnerId];
+  const personUpdatedAt = person?.updatedAt ? String(person.updatedAt) : undefined;
+  const isCacheCurrent = !person || cachedSynastry?.personUpdatedAt === personUpdatedAt;
   
-  if (cachedSynastry) {
+  if (cachedSynastry && isCacheCurrent) {
     if (mode === 'brief' && cachedSynastry.briefResult) {
       log.info(`[getOrGenerateSynastry] Using cached brief synastry for ${partnerName}`);
       return cachedSynastry.briefResult;
@@ -431,7 +440,8 @@ export const getOrGenerateSynastry = async (
         partnerDate,
         partnerTime,
         partnerPlace,
-        relationshipType
+        relationshipType,
+        partnerLocation
       );
     } else {
       result = await calculateFullSynastry(
@@ -440,7 +450,8 @@ export const getOrGenerateSynastry = async (
         partnerDate,
         partnerTime,
         partnerPlace,
-        relationshipType
+        relationshipType,
+        partnerLocation
       );
     }
 
@@ -455,10 +466,11 @@ export const getOrGenerateSynastry = async (
     if (!profile.generatedContent.synastries) {
       profile.generatedContent.synastries = {};
     }
-    if (!profile.generatedContent.synastries[partnerId]) {
+    if (!profile.generatedContent.synastries[partnerId] || !isCacheCurrent) {
       profile.generatedContent.synastries[partnerId] = {
         partnerName,
         partnerDate,
+        ...(person ? { personId: person.id, personUpdatedAt } : {}),
         timestamp: Date.now()
       };
     }
@@ -1,4 +1,4 @@
-import { UserProfile, NatalChartData } from "../types";
+import { UserProfile, NatalChartData, GeocodeCacheEntry, Person, PersonInput } from "../types";
 
 // Next.js API base URL - используем локальные API routes
 const API_BASE_URL = typeof window !== 'undefined' ? '' : process.env.NEXT_PUBLIC_API_URL || '';
@@ -352,3 +352,150 @@ export const getAllUsers = async (): Promise<UserProfile[]> => {
   log.warn('[getAllUsers] Returning empty list due to fetch failure');
   return [];
 };
+
+/**
+ * Get geocode cache entries for Admin Panel
+ */
+export const getGeocodeCache = async (adminId: string, search?: string): Promise<GeocodeCacheEntry[]> => {
+  log.info('[getGeocodeCache] Fetching geocode cache', { adminId, search });
+
+  try {
+    const params = new URLSearchParams({ adminId });
+    if (search) params.set('search', search);
+
+    const response = await fetch(`${API_BASE_URL}/api/geocode/cache?${params.toString()}`);
+    if (response.ok) {
+      const { entries } = await response.json() as { entries: GeocodeCacheEntry[] };
+      log.info(`[getGeocodeCache] Loaded ${entries.length} entries`);
+      return entries;
+    }
+
+    const errorText = await response.text().catch(() => 'Unable to read error response');
+    log.error(`[getGeocodeCache] Server returned error status ${response.status}`, { errorBody: errorText });
+  } catch (error: any) {
+    log.error('[getGeocodeCache] Error occurred during fetch', { error: error.message });
+  }
+
+  return [];
+};
+
+/**
+ * Correct a geocode cache entry (admin only). Timezone is derived from coordinates when omitted.
+ */
+export const correctGeocodeCacheEntry = async (
+  adminId: string,
+  correction: { place: string; lat: number; lon: number; timezone?: string; displayName?: string }
+): Promise<GeocodeCacheEntry> => {
+  log.info('[correctGeocodeCacheEntry] Saving correction', { adminId, place: correction.place });
+
+  const response = await fetch(`${API_BASE_URL}/api/geocode/cache`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ adminId, ...correction })
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    log.error(`[correctGeocodeCacheEntry] Server returned error status ${response.status}`, errorData);
+    throw new Error(errorData.message || `Failed to correct geocode entry: ${response.status}`);
+  }
+
+  const { entry } = await response.json() as { entry: GeocodeCacheEntry };
+  return entry;
+};
+
+/**
+ * Delete a geocode cache entry so the place is geocoded again (admin only)
+ */
+export const deleteGeocodeCacheEntry = async (adminId: string, place: string): Promise<void> => {
+  log.info('[deleteGeocodeCacheEntry] Deleting entry', { adminId, place });
+
+  const params = new URLSearchParams({ adminId, place });
+  const response = await fetch(`${API_BASE_URL}/api/geocode/cache?${params.toString()}`, { method: 'DELETE' });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    log.error(`[deleteGeocodeCacheEntry] Server returned error status ${response.status}`, errorData);
+    throw new Error(errorData.message || `Failed to delete geocode entry: ${response.status}`);
+  }
+};
+
+/**
+ * Get saved people (partner, children, friends) with their calculated charts
+ */
+export const getPeople = async (userId: string): Promise<Person[]> => {
+  log.info('[getPeople] Fetching people', { userId });
+
+  try {
+    const response = await fetch(`${API_BASE_URL}/api/users/${userId}/people`);
+    if (response.ok) {
+      const { people } = await response.json() as { people: Person[] };
+      log.info(`[getPeople] Loaded ${people.length} people`);
+      return people;
+    }
+
+    const errorText = await response.text().catch(() => 'Unable to read error response');
+    log.error(`[getPeople] Server returned error status ${response.status}`, { errorBody: errorText });
+  } catch (error: any) {
+    log.error('[getPeople] Error occurred during fetch', { error: error.message });
+  }
+
+  return [];
+};
+
+/**
+ * Save a person. Coordinates are resolved and the chart is calculated on the server.
+ */
+export const createPerson = async (userId: string, input: PersonInput): Promise<Person> => {
+  log.info('[createPerson] Saving person', { userId, relationship: input.relationship });
+
+  const response = await fetch(`${API_BASE_URL}/api/users/${userId}/people`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(input)
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    log.error(`[createPerson] Server returned error status ${response.status}`, errorData);
+    throw new Error(errorData.message || `Failed to save person: ${response.status}`);
+  }
+
+  return await response.json() as Person;
+};
+
+/**
+ * Update a saved person (partial). The chart is recalculated on the server.
+ */
+export const updatePerson = async (userId: string, personId: string, input: Partial<PersonInput>): Promise<Person> => {
+  log.info('[updatePerson] Updating person', { userId, personId });
+
+  const response = await fetch(`${API_BASE_URL}/api/users/${userId}/people/${personId}`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(input)
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    log.error(`[updatePerson] Server returned error status ${response.status}`, errorData);
+    throw new Error(errorData.message || `Failed to update person: ${response.status}`);
+  }
+
+  return await response.json() as Person;
+};
+
+/**
+ * Delete a saved person
+ */
+export const deletePerson = async (userId: string, personId: string): Promise<void> => {
+  log.info('[deletePerson] Deleting person', { userId, personId });
+
+  const response = await fetch(`${API_BASE_URL}/api/users/${userId}/people/${personId}`, { method: 'DELETE' });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    log.error(`[deletePerson] Server returned error status ${response.status}`, errorData);
+    throw new Error(errorData.message || `Failed to delete person: ${response.status}`);
+  }
+};
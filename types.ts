@@ -1,6 +1,9 @@
 
 export type Language = 'ru' | 'en';
 export type Theme = 'dark' | 'light';
+export type HouseSystem = 'placidus' | 'koch' | 'whole_sign' | 'equal' | 'porphyry' | 'regiomontanus';
+export type ZodiacType = 'tropical' | 'sidereal';
+export type Ayanamsa = 'lahiri' | 'raman' | 'fagan_bradley'; // Аянамса сидерического (ведического) зодиака
 
 export interface UserEvolution {
   level: number;
@@ -37,7 +40,7 @@ export interface UserProfile {
   id?: string; // Telegram ID
   name: string;
   birthDate: string; // YYYY-MM-DD
-  birthTime: string; // HH:MM
+  birthTime: string; // HH:MM, пустая строка — время рождения неизвестно
   birthPlace: string;
   isSetup: boolean;
   language: Language;
@@ -48,6 +51,15 @@ export interface UserProfile {
   lastContext?: UserContext;
   starsBalance?: number; // Баланс звёзд для платных регенераций
   weatherCity?: string; // Город для погоды (например, "Moscow" или "Москва")
+  houseSystem?: HouseSystem; // Система домов (по умолчанию Плацидус)
+  zodiacType?: ZodiacType; // Зодиак (по умолчанию тропический)
+  ayanamsa?: Ayanamsa; // Аянамса для сидерического зодиака (по умолчанию Лахири)
+  // Координаты места рождения (выбранное место или введенные вручную): если заданы, карта не геокодируется
+  birthLat?: number;
+  birthLon?: number;
+  birthTimezone?: string; // IANA ("Europe/Moscow") или смещение от UTC ("UTC+3")
+  // Какой момент выбран, если время рождения попало на перевод часов (см. LocalTimeWarning)
+  birthTimeChoice?: LocalTimeChoice;
   
   // Все генерации пользователя (кэшируются)
   generatedContent?: UserGeneratedContent;
@@ -71,10 +83,191 @@ export enum ZodiacSign {
 export interface PlanetPosition {
   planet: string;
   sign: string;
-  house?: string;
+  degree?: number; // Градус внутри знака
+  longitude?: number; // Абсолютная эклиптическая долгота 0-360
+  speed?: number; // Скорость по долготе, градусов в сутки
+  isRetrograde?: boolean;
+  isStationary?: boolean; // Планета на станции (меняет направление движения)
+  house?: number; // Номер дома 1-12
   description: string;
 }
 
+// Ключи точек в карте планет (расширяемый список)
+export type ChartPlanetKey =
+  | 'sun' | 'moon' | 'mercury' | 'venus' | 'mars'
+  | 'jupiter' | 'saturn' | 'uranus' | 'neptune' | 'pluto'
+  | 'northNode' | 'southNode' | 'chiron' | 'lilith';
+
+export type PlanetsMap = Partial<Record<ChartPlanetKey, PlanetPosition>>;
+
+// Истинный или средний лунный узел
+export type LunarNodeType = 'true' | 'mean';
+
+// Аспекты между точками карты
+export type AspectType =
+  | 'conjunction' | 'sextile' | 'square' | 'trine' | 'opposition'
+  | 'semisextile' | 'semisquare' | 'sesquiquadrate' | 'quincunx' | 'quintile' | 'biquintile';
+
+export interface Aspect {
+  planet1: string;
+  planet2: string;
+  type: AspectType;
+  angle: number; // Точный угол аспекта (0, 60, 90...)
+  orb: number; // Отклонение от точного угла в градусах
+  applying: boolean; // true — аспект сходящийся, false — расходящийся
+}
+
+// Транзитный аспект к натальной карте за период
+export interface TransitAspect {
+  transitPlanet: string;
+  natalPoint: string;
+  type: AspectType;
+  angle: number;
+  start: string; // ISO UTC: вход в орбис
+  exact: string | null; // ISO UTC: точный аспект (null — не доходит до точного)
+  end: string; // ISO UTC: выход из орбиса
+  isRetrograde: boolean; // Транзитная планета ретроградна в середине аспекта
+}
+
+// Вторичные прогрессии (день за год) или дирекции солнечной дуги
+export type ProgressionMethod = 'secondary' | 'solar_arc';
+
+export interface ProgressedChart {
+  method: ProgressionMethod;
+  progressedDate: string; // ISO UTC: момент эфемериды «день за год» для целевой даты
+  solarArc: number; // Солнечная дуга в градусах на целевую дату
+  planets: PlanetsMap; // house — номер натального дома
+  rising: PlanetPosition;
+  mc: PlanetPosition;
+  aspectsToNatal: Aspect[]; // planet1 — прогрессивная точка, planet2 — натальная
+}
+
+// Смена знака прогрессивной Луной
+export interface ProgressedMoonIngress {
+  date: string; // ISO UTC: календарная дата смены знака
+  sign: string;
+  previousSign: string;
+}
+
+export interface ProgressionsResult {
+  targetDate: string; // ISO UTC
+  age: number; // Полных лет с рождения, с дробной частью
+  secondary: ProgressedChart;
+  solarArc: ProgressedChart;
+  progressedMoonIngresses: ProgressedMoonIngress[];
+}
+
+// Карты возвращений: соляр (Солнце) и лунар (Луна) к натальной долготе
+export type ReturnChartType = 'solar' | 'lunar';
+
+export interface ReturnChart {
+  type: ReturnChartType;
+  returnDate: string; // ISO UTC: точный момент возвращения
+  location: string; // Место, на которое построена карта
+  chart: NatalChartData; // Полная карта в форме натальной
+}
+
+// Карты отношений пары: композит (середины точек двух карт) и Дависон (карта на середину по времени и месту)
+export type RelationshipChartType = 'composite' | 'davison';
+
+export interface RelationshipChart {
+  type: RelationshipChartType;
+  date?: string; // Только Дависон: ISO UTC середины между моментами рождения
+  location?: { lat: number; lon: number }; // Только Дависон: середина между местами рождения
+  chart: NatalChartData; // Без домов и осей, если у кого-то неизвестно время рождения
+}
+
+export interface RelationshipChartsInterpretation {
+  theme: string; // Тема пары, 2-5 слов
+  composite: string;
+  davison: string;
+  advice: string[];
+}
+
+export interface RelationshipChartsResult {
+  composite: RelationshipChart;
+  davison: RelationshipChart;
+  interpretation: RelationshipChartsInterpretation | null; // null — трактовка недоступна (нет ключа OpenAI)
+}
+
+// Фазы Луны по элонгации Луны от Солнца
+export type MoonPhaseName =
+  | 'new_moon' | 'waxing_crescent' | 'first_quarter' | 'waxing_gibbous'
+  | 'full_moon' | 'waning_gibbous' | 'last_quarter' | 'waning_crescent';
+
+// Главные лунации: новолуние, четверти, полнолуние
+export type LunationType = 'new_moon' | 'first_quarter' | 'full_moon' | 'last_quarter';
+
+export interface LunationEvent {
+  type: LunationType;
+  date: string; // ISO UTC: точный момент лунации
+  sign: string; // Знак Луны в момент лунации
+  degree: number; // Градус Луны внутри знака
+}
+
+export interface MoonPhaseInfo {
+  date: string; // ISO UTC
+  phase: MoonPhaseName;
+  phaseAngle: number; // Элонгация Луны от Солнца 0-360
+  illumination: number; // Освещенность диска в процентах 0-100
+  isWaxing: boolean;
+  moonSign: string;
+  nextNewMoon: LunationEvent;
+  nextFirstQuarter: LunationEvent;
+  nextFullMoon: LunationEvent;
+  nextLastQuarter: LunationEvent;
+}
+
+export interface LunarCalendarDay {
+  date: string; // YYYY-MM-DD
+  phase: MoonPhaseName;
+  phaseAngle: number; // На полдень UTC
+  illumination: number;
+  moonSign: string;
+  lunation?: LunationEvent; // Лунация, приходящаяся на этот день (UTC)
+}
+
+export interface LunarCalendar {
+  year: number;
+  month: number; // 1-12
+  days: LunarCalendarDay[];
+  lunations: LunationEvent[];
+  today?: MoonPhaseInfo; // Текущая фаза, добавляется API-эндпоинтом
+}
+
+export interface HouseCusp {
+  house: number; // 1-12
+  sign: string;
+  degree: number; // Градус внутри знака
+  longitude: number; // Абсолютная эклиптическая долгота 0-360
+}
+
+// Баланс карты: стихии и кресты с весами точек, достоинства, управитель карты и доминанта
+export type Modality = 'cardinal' | 'fixed' | 'mutable';
+export type DignityType = 'domicile' | 'exaltation' | 'detriment' | 'fall';
+
+export interface PlanetDignity {
+  planet: string;
+  sign: string;
+  dignity: DignityType;
+}
+
+export interface PlanetScore {
+  planet: string;
+  score: number;
+}
+
+export interface ChartBalance {
+  elements: Record<'Fire' | 'Earth' | 'Air' | 'Water', number>; // Проценты, в сумме 100
+  modalities: Record<Modality, number>; // Проценты, в сумме 100
+  dominantElement: 'Fire' | 'Earth' | 'Air' | 'Water';
+  dominantModality: Modality;
+  dignities: PlanetDignity[]; // Только планеты в обители, экзальтации, изгнании или падении
+  chartRuler: string; // Управитель знака Асцендента
+  planetScores: PlanetScore[]; // Сила планет по убыванию
+  dominantPlanet: string;
+}
+
 export interface NatalChartData {
   sun: PlanetPosition;
   moon: PlanetPosition;
@@ -82,10 +275,39 @@ export interface NatalChartData {
   mercury: PlanetPosition | null;
   venus: PlanetPosition | null;
   mars: PlanetPosition | null;
+
+  // Все рассчитанные точки: планеты до Плутона, узлы, Хирон, Лилит
+  planets?: PlanetsMap;
+  nodeType?: LunarNodeType;
+
+  // Момент рождения в UT — нужен для прогрессий и возвращений
+  julianDay?: number;
+  birthDateUtc?: string; // ISO UTC
+  timeWarning?: LocalTimeWarning; // Время рождения попало на перевод часов
+
+  // Время рождения неизвестно: карта на полдень, домов нет, углы (rising/mc/ic/dc) недостоверны
+  birthTimeUnknown?: boolean;
+  moonRange?: MoonDayRange; // Только при неизвестном времени
+
+  // Углы карты и куспиды домов
+  mc?: PlanetPosition;
+  ic?: PlanetPosition;
+  dc?: PlanetPosition;
+  houses?: HouseCusp[];
+  aspects?: Aspect[];
+  houseSystem?: HouseSystem; // Фактически использованная система домов
+  requestedHouseSystem?: HouseSystem; // Запрошенная система, если сработал полярный fallback
+
+  // Зодиак карты: в сидерическом долготы уже сдвинуты на аянамсу
+  zodiacType?: ZodiacType;
+  ayanamsa?: Ayanamsa;
+  ayanamsaValue?: number; // Величина аянамсы на момент карты, градусы
+  moonNakshatra?: NakshatraPosition; // Накшатра Луны (для тропической карты — по Лахири)
   
   // New Personalization Fields
-  element: string; // Fire, Water, Air, Earth
-  rulingPlanet: string; // e.g. Mars for Aries
+  element: string; // Fire, Water, Air, Earth — преобладающая по весам стихия
+  rulingPlanet: string; // Управитель карты (знака Асцендента), e.g. Mars for Aries Rising
+  balance?: ChartBalance;
   
   summary: string; 
   keywords?: {
@@ -104,6 +326,7 @@ export interface UserGeneratedContent {
   dailyHoroscope?: DailyHoroscope;
   weeklyHoroscope?: WeeklyHoroscope;
   monthlyHoroscope?: MonthlyHoroscope;
+  solarReturnForecast?: SolarReturnForecast; // Прогноз на год по соляру (премиум)
   
   // Deep Dive анализы - полные секции натальной карты (премиум)
   deepDiveAnalyses?: {
@@ -112,6 +335,7 @@ export interface UserGeneratedContent {
     career?: string;        // Карьера и самореализация
     weakness?: string;      // Зоны роста и вызовы
     karma?: string;         // Кармическая задача
+    vedic?: string;         // Ведическая карта: накшатры, даши, навамша
   };
   
   // История синастрий (кэшируется по партнерам)
@@ -119,6 +343,8 @@ export interface UserGeneratedContent {
     [partnerId: string]: {
       partnerName: string;
       partnerDate: string;
+      personId?: string;        // Сохраненный человек (ключ person_<id>)
+      personUpdatedAt?: string; // Версия его данных: после изменения синастрия пересчитывается
       briefResult?: SynastryResult;
       fullResult?: SynastryResult;
       timestamp: number;
@@ -131,12 +357,44 @@ export interface UserGeneratedContent {
     dailyHoroscopeGenerated?: number;
     weeklyHoroscopeGenerated?: number;
     monthlyHoroscopeGenerated?: number;
+    solarReturnForecastGenerated?: number;
     deepDiveGenerated?: number;
   };
 }
 
+// Рассчитанная синастрия: межкартовые аспекты, наложения домов и счет совместимости
+export interface SynastryAspect {
+  planet1: string; // Точка карты первого человека
+  planet2: string; // Точка карты второго человека
+  type: AspectType;
+  angle: number;
+  orb: number;
+}
+
+export interface HouseOverlay {
+  planet: string;
+  house: number; // Дом в карте другого человека, 1-12
+}
+
+export type SynastryCategory = 'emotional' | 'attraction' | 'communication' | 'stability' | 'core';
+
+export interface SynastryScore {
+  total: number; // 0-100, взвешенное среднее категорий
+  categories: Record<SynastryCategory, number>; // 0-100, 50 — нейтрально
+}
+
+export interface SynastryFacts {
+  aspects: SynastryAspect[]; // От самых точных к менее точным
+  houseOverlays: {
+    person1InPerson2: HouseOverlay[]; // Пусто, если у второго неизвестно время рождения
+    person2InPerson1: HouseOverlay[];
+  };
+  score: SynastryScore;
+}
+
 export interface SynastryResult {
-  compatibilityScore?: number; // 0-100 (опционально для краткого режима)
+  compatibilityScore?: number; // 0-100, рассчитывается по синастрии (synastry.score.total)
+  synastry?: SynastryFacts;
   
   // Краткий режим (бесплатный) - тизер
   briefOverview?: {
@@ -187,6 +445,19 @@ export interface MonthlyHoroscope {
   content: string;
 }
 
+// Прогноз на год по соляру (премиум): от одного дня рождения до следующего
+export interface SolarReturnForecast {
+  year: number;
+  returnDate: string; // ISO UTC: точный момент возвращения Солнца
+  location: string; // Место, на которое построен соляр
+  theme: string;
+  content: string;
+  lunarReturns?: {
+    date: string; // ISO UTC: момент лунара
+    focus: string; // Главная тема месяца
+  }[];
+}
+
 export interface ChatMessage {
   id: string;
   role: 'user' | 'model';
@@ -194,7 +465,7 @@ export interface ChatMessage {
   timestamp: number;
 }
 
-export type ViewState = 'onboarding' | 'hook' | 'paywall' | 'dashboard' | 'chart' | 'horoscope' | 'synastry' | 'oracle' | 'settings' | 'admin';
+export type ViewState = 'onboarding' | 'hook' | 'paywall' | 'dashboard' | 'chart' | 'horoscope' | 'synastry' | 'group' | 'oracle' | 'settings' | 'admin';
 
 // Cached text types
 export interface CachedText<T = any> {
@@ -224,4 +495,264 @@ export interface RegenerationResponse {
   data?: any;
   error?: string;
   newBalance?: number;
-}
\ No newline at end of file
+}
+// Geocode cache types
+export type GeocodeSource = 'gazetteer' | 'nominatim' | 'admin';
+
+export interface GeocodeCacheEntry {
+  placeKey: string; // Нормализованное название места (латиница, нижний регистр)
+  query: string; // Исходный запрос, по которому место было найдено
+  lat: number;
+  lon: number;
+  timezone: string; // IANA, например "Europe/Moscow"
+  displayName?: string;
+  source: GeocodeSource;
+  isManual: boolean; // Исправлено администратором, геокодинг не перезаписывает
+  updatedAt?: Date | string;
+}
+
+// Кандидат при выборе места рождения (одно название — несколько мест)
+export interface PlaceCandidate {
+  name: string;
+  displayName: string; // "Город, Регион, Страна"
+  country: string;
+  countryCode: string;
+  region?: string;
+  lat: number;
+  lon: number;
+  timezone: string;
+  source: 'gazetteer' | 'nominatim' | 'manual'; // manual — координаты введены пользователем
+}
+
+// Местное время на переводе часов
+export type LocalTimeChoice = 'earlier' | 'later'; // Какой из возможных моментов UTC (по порядку) взят
+
+export interface LocalTimeCandidate {
+  utc: string; // ISO UTC
+  offset: string; // Смещение от UTC в этот момент, "+04:00"
+  localTime: string; // Фактическое местное время этого момента, "HH:MM"
+}
+
+export interface LocalTimeWarning {
+  // ambiguous — время было дважды (часы переведены назад), nonexistent — его не было (часы переведены вперед)
+  type: 'ambiguous' | 'nonexistent';
+  localTime: string; // Введенное время, "YYYY-MM-DDTHH:MM"
+  timezone: string;
+  candidates: LocalTimeCandidate[]; // Возможные моменты UTC по возрастанию
+  choice: LocalTimeChoice; // Какой момент использован в расчете
+  isDefaultChoice: boolean; // true — пользователь не выбирал, взят момент по умолчанию
+}
+
+// Положения Луны за день рождения (при неизвестном времени рождения)
+export interface MoonDayRange {
+  start: PlanetPosition; // 00:00 местного времени
+  end: PlanetPosition; // 23:59 местного времени
+  signs: string[]; // Знаки, которые Луна прошла за день, по порядку
+  changesSign: boolean; // true — знак Луны зависит от времени рождения
+}
+
+// Ректификация времени рождения по событиям жизни
+export type RectificationEventType = 'relationship' | 'career' | 'home' | 'child' | 'loss' | 'health' | 'move' | 'other';
+
+export interface RectificationEvent {
+  date: string; // YYYY-MM-DD
+  type?: RectificationEventType;
+  description?: string;
+}
+
+// Техника, которой событие связано с осью карты
+export type RectificationTechnique = 'transit' | 'solar_arc' | 'progressed_moon';
+
+export interface RectificationHit {
+  eventDate: string; // YYYY-MM-DD
+  technique: RectificationTechnique;
+  point: string; // Транзитная, дирекционная или прогрессивная точка
+  target: string; // Натальная точка: ось кандидата или планета
+  type: AspectType;
+  orb: number;
+  score: number;
+}
+
+export interface RectificationCandidate {
+  time: string; // Местное время рождения, "HH:MM"
+  birthDateUtc: string; // ISO UTC
+  ascendant: PlanetPosition;
+  mc: PlanetPosition;
+  score: number;
+  confidence: number; // 0–1: доля среди лучших вариантов с учетом объясненных событий
+  matchedEvents: number; // Сколько событий совпало хотя бы одним аспектом
+  hits: RectificationHit[];
+}
+
+export interface RectificationResult {
+  birthDate: string; // YYYY-MM-DD
+  timeFrom: string; // "HH:MM"
+  timeTo: string; // "HH:MM"
+  timezone: string;
+  stepMinutes: number;
+  checkedTimes: number; // Сколько моментов перебрано
+  eventsCount: number;
+  candidates: RectificationCandidate[]; // Лучшие варианты по убыванию score
+}
+
+// Ведическая астрология: накшатры, Вимшоттари-даша, навамша (D9)
+export type DashaPlanet = 'Ketu' | 'Venus' | 'Sun' | 'Moon' | 'Mars' | 'Rahu' | 'Jupiter' | 'Saturn' | 'Mercury';
+
+export interface NakshatraPosition {
+  index: number; // 1–27, от Ашвини
+  name: string;
+  lord: DashaPlanet; // Управитель накшатры — с него начинается Вимшоттари-даша
+  pada: number; // 1–4, четверть накшатры
+  degreeInNakshatra: number; // 0–13.33
+}
+
+export interface DashaPeriod {
+  planet: DashaPlanet;
+  start: string; // ISO UTC
+  end: string; // ISO UTC
+  years: number; // Длительность в годах (365.25 дней)
+}
+
+export interface Mahadasha extends DashaPeriod {
+  antardashas: DashaPeriod[];
+}
+
+export interface VimshottariDasha {
+  balanceAtBirth: number; // Сколько лет первой махадаши оставалось при рождении
+  mahadashas: Mahadasha[]; // Полный цикл 120 лет; первая начинается до рождения
+  current?: { mahadasha: DashaPeriod; antardasha: DashaPeriod }; // На дату расчета, если она внутри цикла
+}
+
+// Сидерическое положение грахи (или Лагны) в раши и навамше
+export interface VedicPlanetPosition {
+  planet: string;
+  sign: string;
+  degree: number;
+  longitude: number; // Сидерическая долгота 0–360
+  nakshatra: NakshatraPosition;
+  navamsaSign: string; // Знак в D9
+}
+
+export interface VedicChart {
+  ayanamsa: Ayanamsa;
+  ayanamsaValue: number;
+  planets: VedicPlanetPosition[]; // Девять грах: Солнце–Сатурн, Раху, Кету; Лагна — если время известно
+  moonNakshatra: NakshatraPosition;
+  dasha: VimshottariDasha;
+}
+
+// Сохраненные люди пользователя: партнер, дети, друзья — с данными рождения и картой
+export type PersonRelationship = 'partner' | 'spouse' | 'child' | 'parent' | 'sibling' | 'friend' | 'colleague' | 'other';
+
+export interface Person {
+  id: string;
+  name: string;
+  relationship: PersonRelationship;
+  birthDate: string; // YYYY-MM-DD
+  birthTime?: string; // HH:MM; нет — время рождения неизвестно
+  birthPlace: string;
+  // Координаты и часовой пояс, на которые рассчитана карта (выбранные вручную или найденные геокодингом)
+  birthLat: number;
+  birthLon: number;
+  birthTimezone: string;
+  chart: NatalChartData; // В зодиаке и системе домов пользователя на момент сохранения
+  createdAt?: Date | string;
+  updatedAt?: Date | string;
+}
+
+// Данные для создания или изменения человека; координаты необязательны — без них место геокодируется
+export interface PersonInput {
+  name: string;
+  relationship: PersonRelationship;
+  birthDate: string;
+  birthTime?: string;
+  birthPlace: string;
+  birthLat?: number;
+  birthLon?: number;
+  birthTimezone?: string;
+}
+
+// Групповая совместимость: попарная синастрия от 3 до 8 человек
+export interface GroupMember {
+  id: string; // id сохраненного человека или 'self' для пользователя
+  name: string;
+  relationship?: PersonRelationship;
+  sunSign: string;
+  dominantElement: ChartBalance['dominantElement'];
+}
+
+export interface GroupPair {
+  member1: string; // id участника
+  member2: string;
+  score: SynastryScore;
+  topAspects: SynastryAspect[]; // Самые точные аспекты пары
+}
+
+export interface GroupCompatibility {
+  members: GroupMember[];
+  matrix: (number | null)[][]; // Общий счет пар по порядку members; на диагонали null
+  pairs: GroupPair[];
+  strongestPairs: GroupPair[]; // От самой гармоничной пары
+  strainedPairs: GroupPair[]; // От самой напряженной пары
+  averageScore: number;
+  balance: {
+    elements: ChartBalance['elements']; // Средние проценты по участникам
+    modalities: ChartBalance['modalities'];
+    dominantElement: ChartBalance['dominantElement'];
+    weakestElement: ChartBalance['dominantElement'];
+  };
+}
+
+export interface GroupInterpretation {
+  theme: string;
+  dynamics: string;
+  strongest: string;
+  strained: string;
+  advice: string[];
+}
+
+export interface GroupCompatibilityResult {
+  group: GroupCompatibility;
+  interpretation: GroupInterpretation | null;
+}
+
+// Шкала транзитов: события ближайшего года с точным временем
+export type TimelineEventType = 'transit' | 'ingress' | 'station' | 'eclipse';
+export type EclipseKind = 'solar' | 'lunar';
+export type EclipseType = 'total' | 'annular' | 'hybrid' | 'partial' | 'penumbral';
+
+export interface TimelineEvent {
+  id: string; // Стабильный ключ события (тип, точки, момент) — по нему кэшируется трактовка
+  type: TimelineEventType;
+  date: string; // ISO UTC: точный аспект, вход в знак, станция или максимум затмения
+  localTime: string; // "YYYY-MM-DDTHH:MM" в часовом поясе пользователя
+  offset: string; // Смещение пояса в этот момент, "+03:00"
+  planet: string; // Транзитная планета; для затмения — Sun или Moon
+  sign: string; // Знак планеты в момент события
+  degree: number;
+  // transit
+  natalPoint?: string;
+  aspect?: AspectType;
+  start?: string; // ISO UTC, вход в орбис
+  end?: string; // ISO UTC, выход из орбиса
+  // ingress и transit
+  isRetrograde?: boolean;
+  // station
+  direction?: 'retrograde' | 'direct';
+  // eclipse
+  eclipseKind?: EclipseKind;
+  eclipseType?: EclipseType;
+}
+
+export interface TransitTimeline {
+  start: string; // ISO UTC
+  end: string;
+  timezone: string;
+  events: TimelineEvent[]; // По времени
+}
+
+export interface TimelineEventInterpretation {
+  title: string;
+  interpretation: string;
+  advice: string[];
+}
@@ -13,6 +13,17 @@ declare module 'swisseph-v2' {
   export const SEFLG_SWIEPH: number;
   export const SEFLG_SPEED: number;
   export const SE_GREG_CAL: number;
+  export const SEFLG_SIDEREAL: number;
+  export const SE_SIDM_FAGAN_BRADLEY: number;
+  export const SE_SIDM_LAHIRI: number;
+  export const SE_SIDM_RAMAN: number;
+  export const SE_ECL_TOTAL: number;
+  export const SE_ECL_ANNULAR: number;
+  export const SE_ECL_PARTIAL: number;
+  export const SE_ECL_ANNULAR_TOTAL: number;
+  export const SE_ECL_PENUMBRAL: number;
+  export const SE_ECL_ALLTYPES_SOLAR: number;
+  export const SE_ECL_ALLTYPES_LUNAR: number;
 
   // Functions
   export function swe_set_ephe_path(path: string): void;
@@ -57,5 +68,60 @@ declare module 'swisseph-v2' {
     polarAscendant: number;
   };
 
+  export function swe_houses_ex(
+    tjd: number,
+    iflag: number,
+    geolat: number,
+    geolon: number,
+    hsys: string
+  ): {
+    house: number[];
+    ascendant: number;
+    mc: number;
+    armc: number;
+    vertex: number;
+    equatorialAscendant: number;
+    coAscendantKoch: number;
+    coAscendantMunkasey: number;
+    polarAscendant: number;
+  };
+
+  export function swe_set_sid_mode(sidMode: number, t0: number, ayanT0: number): void;
+
+  export function swe_get_ayanamsa_ex_ut(tjd: number, iflag: number): { ayanamsa: number; error?: string };
+
+  export function swe_sol_eclipse_when_glob(
+    tjd_start: number,
+    ifl: number,
+    ifltype: number,
+    backward: 0 | 1
+  ): {
+    rflag: number;
+    maximum: number;
+    noon: number;
+    begin: number;
+    end: number;
+    totalBegin: number;
+    totalEnd: number;
+    centerBegin: number;
+    centerEnd: number;
+  } | { error: string };
+
+  export function swe_lun_eclipse_when(
+    tjd_start: number,
+    ifl: number,
+    ifltype: number,
+    backward: 0 | 1
+  ): {
+    rflag: number;
+    maximum: number;
+    partialBegin: number;
+    partialEnd: number;
+    totalBegin: number;
+    totalEnd: number;
+    penumbralBegin: number;
+    penumbralEnd: number;
+  } | { error: string };
+
   export function swe_close(): void;
 }
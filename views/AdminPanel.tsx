@@ -1,7 +1,7 @@
 
 import React, { useEffect, useState } from 'react';
-import { UserProfile } from '../types';
-import { saveProfile, getAllUsers } from '../services/storageService';
+import { UserProfile, GeocodeCacheEntry } from '../types';
+import { saveProfile, getAllUsers, getGeocodeCache, correctGeocodeCacheEntry, deleteGeocodeCacheEntry } from '../services/storageService';
 import { getRecentErrors } from '../lib/errorTracking';
 
 interface AdminPanelProps {
@@ -10,7 +10,15 @@ interface AdminPanelProps {
     onClose: () => void;
 }
 
-type TabType = 'users' | 'stats' | 'errors' | 'settings';
+type TabType = 'users' | 'stats' | 'errors' | 'places' | 'settings';
+
+interface PlaceCorrection {
+    place: string;
+    lat: string;
+    lon: string;
+    timezone: string;
+    displayName: string;
+}
 
 export const AdminPanel: React.FC<AdminPanelProps> = ({ profile, onUpdate, onClose }) => {
     const [users, setUsers] = useState<UserProfile[]>([]);
@@ -18,6 +26,10 @@ export const AdminPanel: React.FC<AdminPanelProps> = ({ profile, onUpdate, onClo
     const [searchTerm, setSearchTerm] = useState("");
     const [activeTab, setActiveTab] = useState<TabType>('users');
     const [errors, setErrors] = useState<any[]>([]);
+    const [places, setPlaces] = useState<GeocodeCacheEntry[]>([]);
+    const [placeSearch, setPlaceSearch] = useState("");
+    const [placeCorrection, setPlaceCorrection] = useState<PlaceCorrection | null>(null);
+    const [placeError, setPlaceError] = useState<string | null>(null);
 
     useEffect(() => {
         const fetchData = async () => {
@@ -110,6 +122,66 @@ export const AdminPanel: React.FC<AdminPanelProps> = ({ profile, onUpdate, onClo
         }
     };
 
+    const loadPlaces = async (search?: string) => {
+        if (!profile.id) return;
+        const entries = await getGeocodeCache(profile.id, search);
+        setPlaces(entries);
+    };
+
+    useEffect(() => {
+        if (activeTab === 'places') {
+            loadPlaces();
+        }
+    }, [activeTab]);
+
+    const handleEditPlace = (entry: GeocodeCacheEntry) => {
+        setPlaceError(null);
+        setPlaceCorrection({
+            place: entry.query,
+            lat: String(entry.lat),
+            lon: String(entry.lon),
+            timezone: entry.timezone,
+            displayName: entry.displayName || ''
+        });
+    };
+
+    const handleSavePlace = async () => {
+        if (!placeCorrection || !profile.id) return;
+        const lat = parseFloat(placeCorrection.lat);
+        const lon = parseFloat(placeCorrection.lon);
+        if (isNaN(lat) || isNaN(lon)) {
+            setPlaceError('Latitude and longitude must be numbers');
+            return;
+        }
+
+        try {
+            console.log('[AdminPanel] Correcting geocode entry:', placeCorrection.place);
+            await correctGeocodeCacheEntry(profile.id, {
+                place: placeCorrection.place,
+                lat,
+                lon,
+                // Пустой часовой пояс — определить по координатам
+                timezone: placeCorrection.timezone.trim() || undefined,
+                displayName: placeCorrection.displayName.trim() || undefined
+            });
+            setPlaceCorrection(null);
+            await loadPlaces(placeSearch || undefined);
+        } catch (error: any) {
+            console.error('[AdminPanel] Failed to correct geocode entry:', error);
+            setPlaceError(error.message);
+        }
+    };
+
+    const handleDeletePlace = async (entry: GeocodeCacheEntry) => {
+        if (!profile.id) return;
+        try {
+            await deleteGeocodeCacheEntry(profile.id, entry.query);
+            setPlaces(places.filter(p => p.placeKey !== entry.placeKey));
+        } catch (error) {
+            console.error('[AdminPanel] Failed to delete geocode entry:', error);
+        }
+    };
+
     const filteredUsers = users.filter(u => 
         u.name.toLowerCase().includes(searchTerm.toLowerCase()) || 
         (u.id && u.id.toString().includes(searchTerm))
@@ -137,7 +209,7 @@ export const AdminPanel: React.FC<AdminPanelProps> = ({ profile, onUpdate, onClo
                 
                 {/* Tabs */}
                 <div className="flex gap-2">
-                    {(['users', 'stats', 'errors', 'settings'] as TabType[]).map((tab) => (
+                    {(['users', 'stats', 'errors', 'places', 'settings'] as TabType[]).map((tab) => (
                         <button
                             key={tab}
                             onClick={() => setActiveTab(tab)}
@@ -393,6 +465,115 @@ export const AdminPanel: React.FC<AdminPanelProps> = ({ profile, onUpdate, onClo
                     </div>
                 )}
 
+                {/* Places Tab - кэш геокодинга */}
+                {activeTab === 'places' && (
+                    <div className="bg-astro-card rounded-xl border border-astro-border overflow-hidden">
+                        <div className="p-5 border-b border-astro-border flex justify-between items-center">
+                            <div>
+                                <h3 className="text-lg font-serif text-astro-text">📍 Места рождения</h3>
+                                <p className="text-xs text-astro-subtext mt-1">Кэш геокодинга: исправленные записи не перезаписываются</p>
+                            </div>
+                            <input
+                                type="text"
+                                placeholder="Search place..."
+                                value={placeSearch}
+                                onChange={(e) => setPlaceSearch(e.target.value)}
+                                onKeyDown={(e) => e.key === 'Enter' && loadPlaces(placeSearch || undefined)}
+                                className="bg-astro-bg border border-astro-border rounded-lg px-4 py-2 text-sm text-astro-text outline-none focus:border-astro-highlight w-64"
+                            />
+                        </div>
+
+                        {placeCorrection && (
+                            <div className="p-5 border-b border-astro-border bg-astro-bg/50 space-y-3">
+                                <p className="text-sm font-bold text-astro-text">{placeCorrection.place}</p>
+                                <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                                    {(['lat', 'lon', 'timezone', 'displayName'] as const).map((field) => (
+                                        <input
+                                            key={field}
+                                            type="text"
+                                            placeholder={field === 'timezone' ? 'timezone (auto)' : field}
+                                            value={placeCorrection[field]}
+                                            onChange={(e) => setPlaceCorrection({ ...placeCorrection, [field]: e.target.value })}
+                                            className="bg-astro-bg border border-astro-border rounded-lg px-3 py-2 text-xs text-astro-text outline-none focus:border-astro-highlight"
+                                        />
+                                    ))}
+                                </div>
+                                {placeError && <p className="text-xs text-red-500">{placeError}</p>}
+                                <div className="flex gap-2">
+                                    <button
+                                        onClick={handleSavePlace}
+                                        className="px-3 py-1 rounded text-[10px] uppercase font-bold tracking-wider border border-astro-highlight text-astro-highlight hover:bg-astro-highlight hover:text-white transition-colors"
+                                    >
+                                        Save
+                                    </button>
+                                    <button
+                                        onClick={() => setPlaceCorrection(null)}
+                                        className="px-3 py-1 rounded text-[10px] uppercase font-bold tracking-wider border border-astro-subtext text-astro-subtext hover:bg-astro-text hover:text-astro-bg transition-colors"
+                                    >
+                                        Cancel
+                                    </button>
+                                </div>
+                            </div>
+                        )}
+
+                        <div className="overflow-x-auto">
+                            <table className="w-full text-left border-collapse">
+                                <thead>
+                                    <tr className="bg-astro-bg/50 text-astro-subtext text-[10px] uppercase tracking-widest">
+                                        <th className="p-4 font-bold">Query</th>
+                                        <th className="p-4 font-bold">Coordinates</th>
+                                        <th className="p-4 font-bold">Timezone</th>
+                                        <th className="p-4 font-bold">Source</th>
+                                        <th className="p-4 font-bold text-right">Actions</th>
+                                    </tr>
+                                </thead>
+                                <tbody className="text-sm text-astro-text">
+                                    {places.map((entry) => (
+                                        <tr key={entry.placeKey} className="border-b border-astro-border hover:bg-astro-highlight/5 transition-colors">
+                                            <td className="p-4">
+                                                <div className="font-bold">{entry.query}</div>
+                                                {entry.displayName && (
+                                                    <div className="text-xs text-astro-subtext">{entry.displayName}</div>
+                                                )}
+                                            </td>
+                                            <td className="p-4 font-mono text-xs">
+                                                {entry.lat.toFixed(4)}, {entry.lon.toFixed(4)}
+                                            </td>
+                                            <td className="p-4 text-xs">{entry.timezone}</td>
+                                            <td className="p-4 text-xs">
+                                                {entry.isManual ? (
+                                                    <span className="px-2 py-1 bg-red-500/10 text-red-500 rounded text-[10px] uppercase font-bold border border-red-500/20">
+                                                        Manual
+                                                    </span>
+                                                ) : (
+                                                    <span className="text-astro-subtext">{entry.source}</span>
+                                                )}
+                                            </td>
+                                            <td className="p-4 text-right space-x-2">
+                                                <button
+                                                    onClick={() => handleEditPlace(entry)}
+                                                    className="px-3 py-1 rounded text-[10px] uppercase font-bold tracking-wider transition-colors border border-astro-highlight text-astro-highlight hover:bg-astro-highlight hover:text-white"
+                                                >
+                                                    Fix
+                                                </button>
+                                                <button
+                                                    onClick={() => handleDeletePlace(entry)}
+                                                    className="px-3 py-1 rounded text-[10px] uppercase font-bold tracking-wider transition-colors border border-red-500/50 text-red-500 hover:bg-red-500 hover:text-white"
+                                                >
+                                                    Reset
+                                                </button>
+                                            </td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                            {places.length === 0 && (
+                                <div className="p-12 text-center text-astro-subtext text-xs uppercase tracking-widest">No cached places</div>
+                            )}
+                        </div>
+                    </div>
+                )}
+
                 {/* Settings Tab */}
                 {activeTab === 'settings' && (
                     <div className="bg-astro-card rounded-xl border border-astro-border p-6">
@@ -12,6 +12,7 @@ import { motion } from 'framer-motion';
 import { CosmicPassport } from '../components/Dashboard/CosmicPassport';
 import { SoulEvolution } from '../components/Dashboard/SoulEvolution';
 import { WeatherWidget } from '../components/Dashboard/WeatherWidget';
+import { LunarCalendarWidget } from '../components/Dashboard/LunarCalendarWidget';
 
 interface DashboardProps {
     profile: UserProfile;
@@ -362,6 +363,9 @@ export const Dashboard = memo<DashboardProps>(({ profile, chartData, requestPrem
                 </button>
             )}
 
+            {/* 5.5. LUNAR CALENDAR (Layer 3: Context, без погодного API) */}
+            <LunarCalendarWidget language={language} />
+
             {/* 6. SECONDARY ACTIONS */}
             <div className="grid grid-cols-2 gap-4">
                 
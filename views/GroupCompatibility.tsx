@@ -0,0 +1,290 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { UserProfile, Person, GroupCompatibilityResult, GroupPair } from '../types';
+import { calculateGroupCompatibility } from '../services/astrologyService';
+import { getPeople } from '../services/storageService';
+import { getText, getZodiacSign, getElement } from '../constants';
+import { motion } from 'framer-motion';
+import { Loading } from '../components/ui/Loading';
+import { MIN_GROUP_SIZE, MAX_GROUP_SIZE } from '../lib/validation';
+
+const ELEMENTS = ['Fire', 'Earth', 'Air', 'Water'] as const;
+
+interface GroupCompatibilityProps {
+    profile: UserProfile;
+}
+
+export const GroupCompatibility: React.FC<GroupCompatibilityProps> = ({ profile }) => {
+    const [people, setPeople] = useState<Person[]>([]);
+    const [selectedIds, setSelectedIds] = useState<string[]>([]);
+    const [includeSelf, setIncludeSelf] = useState(true);
+    const [result, setResult] = useState<GroupCompatibilityResult | null>(null);
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    // Сохраненные люди пользователя
+    useEffect(() => {
+        if (!profile.id) return;
+        getPeople(profile.id).then(setPeople);
+    }, [profile.id]);
+
+    const groupSize = selectedIds.length + (includeSelf ? 1 : 0);
+    const canCalculate = groupSize >= MIN_GROUP_SIZE && groupSize <= MAX_GROUP_SIZE;
+
+    // Имена участников результата по id
+    const memberNames = useMemo(() => {
+        const names: Record<string, string> = {};
+        result?.group.members.forEach(member => { names[member.id] = member.name; });
+        return names;
+    }, [result]);
+
+    const togglePerson = (personId: string) => {
+        setSelectedIds(prev => {
+            if (prev.includes(personId)) return prev.filter(id => id !== personId);
+            // Больше максимума выбрать нельзя
+            if (prev.length + (includeSelf ? 1 : 0) >= MAX_GROUP_SIZE) return prev;
+            return [...prev, personId];
+        });
+    };
+
+    const handleCalculate = async () => {
+        if (!canCalculate) return;
+
+        setLoading(true);
+        setError(null);
+        try {
+            const data = await calculateGroupCompatibility(profile, selectedIds, includeSelf);
+            setResult(data);
+        } catch (e) {
+            console.error('[GroupCompatibility] Error calculating group compatibility:', e);
+            setError(profile.language === 'ru'
+                ? 'Не удалось рассчитать совместимость группы. Попробуйте позже.'
+                : 'Failed to analyze the group. Please try again later.');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const renderPairs = (pairs: GroupPair[]) => (
+        <div className="space-y-2">
+            {pairs.map(pair => (
+                <div key={`${pair.member1}-${pair.member2}`} className="flex justify-between text-[17px] text-astro-text">
+                    <span>{memberNames[pair.member1]} & {memberNames[pair.member2]}</span>
+                    <span className="text-astro-highlight">{pair.score.total}%</span>
+                </div>
+            ))}
+        </div>
+    );
+
+    if (loading) {
+        return <Loading message={getText(profile.language, 'group.loading')} />;
+    }
+
+    return (
+        <div className="min-h-screen px-6 py-8 max-w-2xl mx-auto pb-32">
+            {/* Заголовок страницы */}
+            <h1 className="text-[32px] font-bold text-astro-text text-center mb-4 leading-tight">
+                {getText(profile.language, 'group.title')}
+            </h1>
+            <p className="text-sm text-astro-subtext text-center mb-12">
+                {getText(profile.language, 'group.desc')}
+            </p>
+
+            {!result ? (
+                /* ВЫБОР УЧАСТНИКОВ */
+                <div className="space-y-8">
+                    {people.length + 1 < MIN_GROUP_SIZE ? (
+                        <p className="text-base text-astro-subtext text-center">
+                            {getText(profile.language, 'group.need_people')}
+                        </p>
+                    ) : (
+                        <>
+                            <div>
+                                <p className="text-base font-medium text-astro-text mb-3">
+                                    {getText(profile.language, 'group.select')} ({groupSize}/{MAX_GROUP_SIZE})
+                                </p>
+                                <label className="flex items-center gap-3 text-base text-astro-text mb-4">
+                                    <input
+                                        type="checkbox"
+                                        checked={includeSelf}
+                                        onChange={(e) => setIncludeSelf(e.target.checked)}
+                                        disabled={!includeSelf && selectedIds.length >= MAX_GROUP_SIZE}
+                                    />
+                                    {getText(profile.language, 'group.include_self')}
+                                </label>
+                                <div className="flex flex-wrap gap-2">
+                                    {people.map(person => (
+                                        <button
+                                            key={person.id}
+                                            onClick={() => togglePerson(person.id)}
+                                            className={`px-4 py-2 rounded-full border-2 text-sm text-astro-text transition-colors ${selectedIds.includes(person.id) ? 'border-astro-highlight' : 'border-astro-border'}`}
+                                        >
+                                            {person.name}
+                                            <span className="text-astro-subtext"> · {getZodiacSign(profile.language, person.chart.sun.sign)}</span>
+                                        </button>
+                                    ))}
+                                </div>
+                            </div>
+
+                            {error && (
+                                <p className="text-sm text-red-400 text-center">{error}</p>
+                            )}
+
+                            <button
+                                onClick={handleCalculate}
+                                disabled={!canCalculate}
+                                className="w-full bg-astro-highlight text-white py-5 rounded-full text-base font-semibold disabled:opacity-40 hover:opacity-90 transition-opacity"
+                            >
+                                {getText(profile.language, 'group.calc_btn')}
+                            </button>
+                        </>
+                    )}
+                </div>
+            ) : (
+                /* РЕЗУЛЬТАТ ГРУППЫ */
+                <motion.div
+                    initial={{ opacity: 0 }}
+                    animate={{ opacity: 1 }}
+                    className="space-y-8"
+                >
+                    {/* Кнопка нового расчета */}
+                    <div className="text-center">
+                        <button
+                            onClick={() => setResult(null)}
+                            className="text-sm text-astro-subtext hover:text-astro-text transition-colors"
+                        >
+                            {getText(profile.language, 'group.new_calc')}
+                        </button>
+                    </div>
+
+                    {result.interpretation?.theme && (
+                        <p className="text-xl font-serif text-astro-highlight text-center">
+                            {result.interpretation.theme}
+                        </p>
+                    )}
+
+                    {/* Средний счет и матрица пар */}
+                    <div className="bg-astro-card rounded-3xl p-6 border border-astro-border">
+                        <h3 className="text-lg font-semibold text-astro-text mb-2 text-center">
+                            {getText(profile.language, 'group.average')}
+                        </h3>
+                        <p className="text-4xl font-serif text-astro-highlight text-center mb-5">
+                            {result.group.averageScore}%
+                        </p>
+                        <h4 className="text-base font-semibold text-astro-text mb-3 text-center">
+                            {getText(profile.language, 'group.matrix')}
+                        </h4>
+                        <div className="overflow-x-auto">
+                            <table className="mx-auto text-sm text-astro-text">
+                                <thead>
+                                    <tr>
+                                        <th></th>
+                                        {result.group.members.map(member => (
+                                            <th key={member.id} className="px-2 py-1 font-medium text-astro-subtext">
+                                                {member.name.charAt(0).toUpperCase()}
+                                            </th>
+                                        ))}
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {result.group.members.map((member, row) => (
+                                        <tr key={member.id}>
+                                            <td className="pr-2 py-1 text-astro-subtext">{member.name}</td>
+                                            {result.group.matrix[row].map((score, column) => (
+                                                <td key={column} className="px-2 py-1 text-center">
+                                                    {score === null ? '—' : score}
+                                                </td>
+                                            ))}
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                    </div>
+
+                    {/* Стихии группы */}
+                    <div className="bg-astro-card rounded-3xl p-6 border border-astro-border">
+                        <h3 className="text-lg font-semibold text-astro-text mb-4 text-center">
+                            {getText(profile.language, 'group.balance')}
+                        </h3>
+                        <div className="space-y-3">
+                            {ELEMENTS.map(element => (
+                                <div key={element}>
+                                    <div className="flex justify-between text-sm text-astro-subtext mb-1">
+                                        <span>{getElement(profile.language, element)}</span>
+                                        <span>{result.group.balance.elements[element]}%</span>
+                                    </div>
+                                    <div className="h-2 rounded-full bg-astro-bg overflow-hidden">
+                                        <div
+                                            className="h-full rounded-full bg-astro-highlight"
+                                            style={{ width: `${result.group.balance.elements[element]}%` }}
+                                        />
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+                        <p className="text-sm text-astro-subtext text-center mt-4">
+                            {getText(profile.language, 'group.dominant')}: {getElement(profile.language, result.group.balance.dominantElement)}
+                            {' · '}
+                            {getText(profile.language, 'group.weakest')}: {getElement(profile.language, result.group.balance.weakestElement)}
+                        </p>
+                    </div>
+
+                    {result.interpretation?.dynamics && (
+                        <div>
+                            <h3 className="text-xl font-semibold text-astro-text mb-4 text-center">
+                                {getText(profile.language, 'group.dynamics')}
+                            </h3>
+                            <p className="text-[18px] leading-relaxed text-astro-text text-center whitespace-pre-wrap">
+                                {result.interpretation.dynamics}
+                            </p>
+                        </div>
+                    )}
+
+                    {/* Сильные связи */}
+                    <div className="bg-astro-card rounded-3xl p-6 border border-astro-border space-y-4">
+                        <h3 className="text-lg font-semibold text-astro-text text-center">
+                            {getText(profile.language, 'group.strongest')}
+                        </h3>
+                        {renderPairs(result.group.strongestPairs)}
+                        {result.interpretation?.strongest && (
+                            <p className="text-[17px] leading-relaxed text-astro-text text-center whitespace-pre-wrap">
+                                {result.interpretation.strongest}
+                            </p>
+                        )}
+                    </div>
+
+                    {/* Напряжения */}
+                    <div className="bg-astro-card rounded-3xl p-6 border border-astro-border space-y-4">
+                        <h3 className="text-lg font-semibold text-astro-text text-center">
+                            {getText(profile.language, 'group.strained')}
+                        </h3>
+                        {renderPairs(result.group.strainedPairs)}
+                        {result.interpretation?.strained && (
+                            <p className="text-[17px] leading-relaxed text-astro-text text-center whitespace-pre-wrap">
+                                {result.interpretation.strained}
+                            </p>
+                        )}
+                    </div>
+
+                    {result.interpretation && result.interpretation.advice.length > 0 && (
+                        <div className="bg-astro-card rounded-3xl p-6 border border-astro-border">
+                            <h3 className="text-lg font-semibold text-astro-text mb-4 text-center">
+                                {getText(profile.language, 'group.advice')}
+                            </h3>
+                            <div className="space-y-4">
+                                {result.interpretation.advice.map((tip, index) => (
+                                    <p
+                                        key={index}
+                                        className="text-[17px] leading-relaxed text-astro-text text-center"
+                                    >
+                                        {tip}
+                                    </p>
+                                ))}
+                            </div>
+                        </div>
+                    )}
+                </motion.div>
+            )}
+        </div>
+    );
+};
@@ -4,6 +4,7 @@ import { getOrGenerateHoroscope } from '../services/contentGenerationService';
 import { Loading } from '../components/ui/Loading';
 import { ZodiacHeader } from '../components/Horoscope/ZodiacHeader';
 import { HoroscopeContent } from '../components/Horoscope/HoroscopeContent';
+import { TransitTimeline } from '../components/Horoscope/TransitTimeline';
 
 interface HoroscopeProps {
     profile: UserProfile;
@@ -120,6 +121,9 @@ export const Horoscope = memo<HoroscopeProps>(({ profile, chartData, onUpdatePro
                 language={language}
             />
 
+            {/* Шкала транзитов на год */}
+            <TransitTimeline profile={profile} chartData={chartData} />
+
             {/* Нижний отступ для безопасной зоны */}
             <div className="h-20"></div>
         </div>
@@ -1,6 +1,7 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { NatalChartData, UserProfile } from '../types';
 import { getText } from '../constants';
+import { getZodiacLabel } from '../lib/zodiac-utils';
 import { getOrGenerateDeepDive, getOrGenerateHoroscope } from '../services/contentGenerationService';
 import { getNatalIntro } from '../services/astrologyService';
 import { saveProfile } from '../services/storageService';
@@ -107,6 +108,14 @@ const PlanetIcon: React.FC<{ type: string; className?: string }> = ({ type, clas
                 <circle cx="12" cy="12" r="3" fill="currentColor" opacity="0.8"/>
             </svg>
         ),
+        vedic: (
+            <svg viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg" className={className}>
+                <circle cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="1.5" fill="none" opacity="0.3"/>
+                <path d="M12 4 L20 12 L12 20 L4 12 Z" stroke="currentColor" strokeWidth="1.5" fill="none" opacity="0.7"/>
+                <path d="M4 12 L20 12 M12 4 L12 20" stroke="currentColor" strokeWidth="1" opacity="0.5"/>
+                <circle cx="12" cy="12" r="2" fill="currentColor" opacity="0.8"/>
+            </svg>
+        ),
         forecast: (
             <svg viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg" className={className}>
                 <path d="M12 2 L15 8 L22 9 L17 14 L18 21 L12 18 L6 21 L7 14 L2 9 L9 8 Z" 
@@ -154,6 +163,10 @@ const SectionCard: React.FC<{
         'karma': {
             ru: 'Узнай свою кармическую задачу!',
             en: 'Discover your karmic mission!'
+        },
+        'vedic': {
+            ru: 'Накшатры, даши и навамша!',
+            en: 'Nakshatras, dashas and navamsa!'
         }
     };
     
@@ -389,12 +402,13 @@ export const NatalChart: React.FC<NatalChartProps> = ({ data, profile, requestPr
         }
         
         // Шаг 2: Маппинг ключа на тему
-        const topicMap: Record<string, 'personality' | 'love' | 'career' | 'weakness' | 'karma'> = {
+        const topicMap: Record<string, 'personality' | 'love' | 'career' | 'weakness' | 'karma' | 'vedic'> = {
             'section_personality': 'personality',
             'section_love': 'love',
             'section_career': 'career',
             'section_weakness': 'weakness',
-            'section_karma': 'karma'
+            'section_karma': 'karma',
+            'section_vedic': 'vedic'
         };
         
         const topic = topicMap[topicKey];
@@ -496,7 +510,8 @@ export const NatalChart: React.FC<NatalChartProps> = ({ data, profile, requestPr
         { key: 'section_love', icon: 'love' },
         { key: 'section_career', icon: 'career' },
         { key: 'section_weakness', icon: 'weakness' },
-        { key: 'section_karma', icon: 'karma' }
+        { key: 'section_karma', icon: 'karma' },
+        { key: 'section_vedic', icon: 'vedic' }
     ];
 
     return (
@@ -527,6 +542,11 @@ export const NatalChart: React.FC<NatalChartProps> = ({ data, profile, requestPr
                     </p>
                     <span className="text-astro-highlight">●</span>
                 </div>
+                {data.zodiacType === 'sidereal' && (
+                    <p className="mt-2 text-[10px] uppercase tracking-wider text-astro-subtext">
+                        {profile.language === 'ru' ? 'Зодиак' : 'Zodiac'}: {getZodiacLabel(data.zodiacType, data.ayanamsa, profile.language)}
+                    </p>
+                )}
             </motion.div>
 
             {/* ВСТУПЛЕНИЕ: ТИЗЕР ДЛЯ ВСЕХ (Cosmic Passport) */}
@@ -542,12 +562,13 @@ export const NatalChart: React.FC<NatalChartProps> = ({ data, profile, requestPr
                 <div className="flex overflow-x-auto gap-3 pb-4 px-1 scrollbar-hide snap-x">
                     {[
                         { id: 'sun', sign: data.sun?.sign, name: getPlanetFunName('sun', profile.language) },
-                        { id: 'moon', sign: data.moon?.sign, name: getPlanetFunName('moon', profile.language) },
-                        { id: 'rising', sign: data.rising?.sign, name: getPlanetFunName('rising', profile.language) },
-                        { id: 'mercury', sign: data.mercury?.sign, name: getPlanetFunName('mercury', profile.language) },
-                        { id: 'venus', sign: data.venus?.sign, name: getPlanetFunName('venus', profile.language) },
-                        { id: 'mars', sign: data.mars?.sign, name: getPlanetFunName('mars', profile.language) },
-                    ].map((planet, idx) => (
+                        // Без времени рождения: Луна — знаки за весь день, Асцендент неизвестен
+                        { id: 'moon', sign: data.moonRange?.changesSign ? data.moonRange.signs.join(' / ') : data.moon?.sign, name: getPlanetFunName('moon', profile.language) },
+                        { id: 'rising', sign: data.birthTimeUnknown ? undefined : data.rising?.sign, name: getPlanetFunName('rising', profile.language) },
+                        { id: 'mercury', sign: data.mercury?.sign, name: getPlanetFunName('mercury', profile.language), isRetrograde: data.mercury?.isRetrograde },
+                        { id: 'venus', sign: data.venus?.sign, name: getPlanetFunName('venus', profile.language), isRetrograde: data.venus?.isRetrograde },
+                        { id: 'mars', sign: data.mars?.sign, name: getPlanetFunName('mars', profile.language), isRetrograde: data.mars?.isRetrograde },
+                    ].map((planet: { id: string; sign?: string; name: string; isRetrograde?: boolean }, idx) => (
                         <motion.div
                             key={planet.id}
                             initial={{ opacity: 0, scale: 0.8, rotate: -10 }}
@@ -565,7 +586,17 @@ export const NatalChart: React.FC<NatalChartProps> = ({ data, profile, requestPr
                             </motion.div>
                             <div className="text-center">
                                 <p className="text-[10px] text-astro-subtext uppercase tracking-wider font-bold">{planet.name}</p>
-                                <p className="text-base font-bold text-astro-text mt-1">{planet.sign || '?'}</p>
+                                <p className="text-base font-bold text-astro-text mt-1">
+                                    {planet.sign || '?'}
+                                    {planet.isRetrograde && (
+                                        <span
+                                            className="ml-1 text-sm text-astro-highlight"
+                                            title={profile.language === 'ru' ? 'Ретроградная' : 'Retrograde'}
+                                        >
+                                            ℞
+                                        </span>
+                                    )}
+                                </p>
                             </div>
                         </motion.div>
                     ))}
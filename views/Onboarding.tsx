@@ -1,9 +1,11 @@
 
 import React, { useState, useEffect, useMemo } from 'react';
-import { UserProfile } from '../types';
+import { LocalTimeChoice, LocalTimeWarning, PlaceCandidate, UserProfile } from '../types';
 import { motion } from 'framer-motion';
 import { getApproximateSunSignByDate } from '../lib/zodiac-utils';
 import { getZodiacSign } from '../constants';
+import { PlacePicker } from '../components/PlacePicker';
+import { checkBirthTime } from '../services/astrologyService';
 
 interface OnboardingProps {
     onComplete: (profile: UserProfile) => void;
@@ -14,8 +16,17 @@ export const Onboarding: React.FC<OnboardingProps> = ({ onComplete }) => {
     const [name, setName] = useState("");
     const [date, setDate] = useState("");
     const [time, setTime] = useState("");
+    // Время рождения неизвестно: карта строится на полдень, без Асцендента и домов
+    const [timeUnknown, setTimeUnknown] = useState(false);
     const [place, setPlace] = useState("");
+    const [selectedPlace, setSelectedPlace] = useState<PlaceCandidate | null>(null);
+    const [placeNeedsChoice, setPlaceNeedsChoice] = useState(false);
     const [rememberData, setRememberData] = useState(true);
+    // Время рождения на переводе часов: профиль ждет, пока пользователь выберет момент
+    const [timeWarning, setTimeWarning] = useState<LocalTimeWarning | null>(null);
+    const [timeChoice, setTimeChoice] = useState<LocalTimeChoice | null>(null);
+    const [pendingProfile, setPendingProfile] = useState<UserProfile | null>(null);
+    const [checkingTime, setCheckingTime] = useState(false);
     
     // Вычисляем предполагаемый знак зодиака на основе выбранной даты
     const predictedZodiacSign = useMemo(() => {
@@ -41,7 +52,7 @@ export const Onboarding: React.FC<OnboardingProps> = ({ onComplete }) => {
         tg?.expand();
     }, []);
 
-    const handleNext = () => {
+    const handleNext = async () => {
         // Валидация на каждом шаге
         if (step === 1) {
             if (!name || name.trim() === '') {
@@ -54,8 +65,8 @@ export const Onboarding: React.FC<OnboardingProps> = ({ onComplete }) => {
                 alert('Пожалуйста, выберите дату рождения');
                 return;
             }
-            if (!time) {
-                alert('Пожалуйста, выберите время рождения');
+            if (!time && !timeUnknown) {
+                alert('Пожалуйста, выберите время рождения или отметьте, что оно неизвестно');
                 return;
             }
             setStep(3);
@@ -64,17 +75,27 @@ export const Onboarding: React.FC<OnboardingProps> = ({ onComplete }) => {
                 alert('Пожалуйста, введите место рождения');
                 return;
             }
+            if (!selectedPlace && placeNeedsChoice) {
+                alert('Выберите место из списка или проверьте введенные координаты');
+                return;
+            }
             
             // Создаем профиль с валидированными данными
             const profile: UserProfile = {
                 name: name.trim(),
                 birthDate: date,
-                birthTime: time,
+                birthTime: timeUnknown ? '' : time,
                 birthPlace: place.trim(),
                 isSetup: rememberData, // Сохранять только если галочка отмечена
                 language: 'ru', // Default to Russian
                 theme: 'dark', // Default to Dark/Strict
-                isPremium: false
+                isPremium: false,
+                // Выбранное место фиксирует координаты, чтобы пересчеты карты не зависели от геокодинга
+                ...(selectedPlace && {
+                    birthLat: selectedPlace.lat,
+                    birthLon: selectedPlace.lon,
+                    birthTimezone: selectedPlace.timezone
+                })
             };
             
             console.log('[Onboarding] Submitting profile:', {
@@ -82,10 +103,45 @@ export const Onboarding: React.FC<OnboardingProps> = ({ onComplete }) => {
                 birthDate: profile.birthDate,
                 birthTime: profile.birthTime,
                 birthPlace: profile.birthPlace,
+                birthLat: profile.birthLat,
+                birthLon: profile.birthLon,
+                birthTimezone: profile.birthTimezone,
                 isSetup: profile.isSetup
             });
             
+            // Без времени рождения проверять перевод часов нечего
+            if (timeUnknown) {
+                onComplete(profile);
+                return;
+            }
+            
+            // Проверяем, не попало ли время на перевод часов (ошибка проверки не мешает расчету)
+            setCheckingTime(true);
+            try {
+                const { warning } = await checkBirthTime(profile);
+                if (warning) {
+                    console.log('[Onboarding] Birth time falls on a clock change:', warning);
+                    setTimeWarning(warning);
+                    setTimeChoice(null);
+                    setPendingProfile(profile);
+                    setStep(4);
+                    return;
+                }
+            } catch (error) {
+                console.error('[Onboarding] Birth time check failed:', error);
+            } finally {
+                setCheckingTime(false);
+            }
+            
             onComplete(profile);
+        } else if (step === 4 && pendingProfile) {
+            if (!timeChoice) {
+                alert('Пожалуйста, выберите, какое время вы имеете в виду');
+                return;
+            }
+            
+            console.log('[Onboarding] Birth time choice:', timeChoice);
+            onComplete({ ...pendingProfile, birthTimeChoice: timeChoice });
         }
     };
 
@@ -159,8 +215,26 @@ export const Onboarding: React.FC<OnboardingProps> = ({ onComplete }) => {
                                     type="time" 
                                     value={time} 
                                     onChange={(e) => setTime(e.target.value)}
-                                    className="w-full bg-transparent border-b border-astro-border py-3 text-xl text-astro-text focus:border-astro-highlight outline-none font-serif"
+                                    disabled={timeUnknown}
+                                    className="w-full bg-transparent border-b border-astro-border py-3 text-xl text-astro-text focus:border-astro-highlight outline-none font-serif disabled:opacity-30"
                                 />
+                                <div className="flex items-center gap-3 pt-4">
+                                    <input 
+                                        type="checkbox" 
+                                        id="timeUnknown"
+                                        checked={timeUnknown}
+                                        onChange={(e) => setTimeUnknown(e.target.checked)}
+                                        className="w-5 h-5 rounded border-astro-border bg-transparent text-astro-highlight focus:ring-astro-highlight focus:ring-2 cursor-pointer"
+                                    />
+                                    <label htmlFor="timeUnknown" className="text-sm text-astro-text cursor-pointer">
+                                        Не знаю время рождения
+                                    </label>
+                                </div>
+                                {timeUnknown && (
+                                    <p className="mt-2 text-xs text-astro-subtext">
+                                        Карта будет рассчитана на полдень: без Асцендента и домов, а знак Луны — с учетом всего дня.
+                                    </p>
+                                )}
                             </div>
                         </motion.div>
                     )}
@@ -171,11 +245,14 @@ export const Onboarding: React.FC<OnboardingProps> = ({ onComplete }) => {
                                 <label className="block text-[10px] uppercase tracking-widest font-bold text-astro-subtext mb-3">
                                     Место Рождения
                                 </label>
-                                <input 
-                                    type="text" 
-                                    value={place} 
-                                    onChange={(e) => setPlace(e.target.value)}
-                                    className="w-full bg-transparent border-b border-astro-border py-3 text-xl text-astro-text focus:border-astro-highlight outline-none font-serif placeholder-astro-subtext/20"
+                                <PlacePicker
+                                    value={place}
+                                    onChange={setPlace}
+                                    selected={selectedPlace}
+                                    onSelect={setSelectedPlace}
+                                    onNeedsChoiceChange={setPlaceNeedsChoice}
+                                    language="ru"
+                                    inputClassName="w-full bg-transparent border-b border-astro-border py-3 text-xl text-astro-text focus:border-astro-highlight outline-none font-serif placeholder-astro-subtext/20"
                                     placeholder="Москва, Россия"
                                 />
                             </div>
@@ -194,11 +271,47 @@ export const Onboarding: React.FC<OnboardingProps> = ({ onComplete }) => {
                         </motion.div>
                     )}
 
+                    {step === 4 && timeWarning && (
+                        <motion.div initial={{ x: 20, opacity: 0 }} animate={{ x: 0, opacity: 1 }} className="space-y-6">
+                            <div>
+                                <label className="block text-[10px] uppercase tracking-widest font-bold text-astro-subtext mb-3">
+                                    Уточните Время
+                                </label>
+                                <p className="text-sm text-astro-text">
+                                    {timeWarning.type === 'ambiguous'
+                                        ? `В эту ночь часы перевели назад, и ${time} было дважды. Какое из них ваше?`
+                                        : `В эту ночь часы перевели вперед, и времени ${time} не было. По каким часам указано время?`}
+                                </p>
+                            </div>
+                            <div className="space-y-3">
+                                {timeWarning.candidates.map((candidate, index) => {
+                                    const choice: LocalTimeChoice = index === 0 ? 'earlier' : 'later';
+                                    return (
+                                        <button
+                                            key={candidate.utc}
+                                            type="button"
+                                            onClick={() => setTimeChoice(choice)}
+                                            className={`w-full text-left p-4 rounded-xl border transition-colors ${timeChoice === choice ? 'border-astro-highlight' : 'border-astro-border hover:border-astro-highlight'}`}
+                                        >
+                                            <div className="text-lg text-astro-text font-serif">
+                                                {candidate.localTime} <span className="text-sm text-astro-subtext">(UTC{candidate.offset})</span>
+                                            </div>
+                                            <div className="text-xs text-astro-subtext mt-1">
+                                                {index === 0 ? 'До перевода часов' : 'После перевода часов'}
+                                            </div>
+                                        </button>
+                                    );
+                                })}
+                            </div>
+                        </motion.div>
+                    )}
+
                     <button 
                         onClick={handleNext}
+                        disabled={checkingTime}
                         className="mt-12 w-full bg-astro-text text-astro-bg font-bold py-4 rounded-xl shadow-lg hover:opacity-90 transition-all active:scale-[0.98] tracking-widest uppercase text-[10px]"
                     >
-                        {step === 3 ? "Рассчитать Карту" : "Продолжить"}
+                        {checkingTime ? "Проверяем..." : step >= 3 ? "Рассчитать Карту" : "Продолжить"}
                     </button>
                 </div>
                 
@@ -1,24 +1,46 @@
 
 import React, { useState } from 'react';
-import { UserProfile, Language, Theme } from '../types';
+import { UserProfile, Language, Theme, HouseSystem, NatalChartData, ZodiacType, Ayanamsa } from '../types';
 import { getText } from '../constants';
-import { saveProfile } from '../services/storageService';
+import { saveProfile, saveChartData } from '../services/storageService';
+import { calculateNatalChart } from '../services/astrologyService';
 import { requestStarsPayment } from '../services/telegramService';
+import { AYANAMSA_NAMES } from '../lib/zodiac-utils';
 
 interface SettingsProps {
     profile: UserProfile;
     onUpdate: (profile: UserProfile) => void;
     onShowPremiumPreview?: () => void;
     onOpenAdmin?: () => void;
+    onChartUpdate?: (chart: NatalChartData) => void;
 }
 
-export const Settings: React.FC<SettingsProps> = ({ profile, onUpdate, onShowPremiumPreview, onOpenAdmin }) => {
+const HOUSE_SYSTEMS: { id: HouseSystem; ru: string; en: string }[] = [
+    { id: 'placidus', ru: 'Плацидус', en: 'Placidus' },
+    { id: 'koch', ru: 'Кох', en: 'Koch' },
+    { id: 'whole_sign', ru: 'Целые знаки', en: 'Whole Sign' },
+    { id: 'equal', ru: 'Равнодомная', en: 'Equal' },
+    { id: 'porphyry', ru: 'Порфирий', en: 'Porphyry' },
+    { id: 'regiomontanus', ru: 'Региомонтан', en: 'Regiomontanus' },
+];
+
+// Тропический зодиак и сидерический (ведический) с разными аянамсами
+const ZODIAC_OPTIONS: { zodiacType: ZodiacType; ayanamsa?: Ayanamsa }[] = [
+    { zodiacType: 'tropical' },
+    { zodiacType: 'sidereal', ayanamsa: 'lahiri' },
+    { zodiacType: 'sidereal', ayanamsa: 'raman' },
+    { zodiacType: 'sidereal', ayanamsa: 'fagan_bradley' },
+];
+
+export const Settings: React.FC<SettingsProps> = ({ profile, onUpdate, onShowPremiumPreview, onOpenAdmin, onChartUpdate }) => {
     const [editing, setEditing] = useState(false);
     const [tempName, setTempName] = useState(profile.name);
     const [tempPlace, setTempPlace] = useState(profile.birthPlace);
     const [editingWeather, setEditingWeather] = useState(false);
     const [tempWeatherCity, setTempWeatherCity] = useState(profile.weatherCity || '');
     const [weatherLoading, setWeatherLoading] = useState(false);
+    const [houseSystemLoading, setHouseSystemLoading] = useState(false);
+    const [zodiacLoading, setZodiacLoading] = useState(false);
 
     const handleLanguageToggle = () => {
         const newLang: Language = profile.language === 'ru' ? 'en' : 'ru';
@@ -39,6 +61,67 @@ export const Settings: React.FC<SettingsProps> = ({ profile, onUpdate, onShowPre
         });
     };
 
+    const handleHouseSystemChange = async (houseSystem: HouseSystem) => {
+        const current = profile.houseSystem || 'placidus';
+        if (houseSystem === current || houseSystemLoading) return;
+
+        console.log('[Settings] House system changed to:', houseSystem);
+        const updated = { ...profile, houseSystem };
+        setHouseSystemLoading(true);
+
+        try {
+            // Пересчитываем карту в новой системе домов и сохраняем её вместе с профилем
+            const chart = await calculateNatalChart(updated);
+            await saveChartData(chart);
+            await saveProfile(updated);
+            onUpdate(updated);
+            onChartUpdate?.(chart);
+
+            if (chart.requestedHouseSystem) {
+                console.warn('[Settings] House system fallback applied:', chart.houseSystem);
+                alert(profile.language === 'ru'
+                    ? 'Для вашей широты выбранная система домов не определена, использована система Порфирия или Целых знаков.'
+                    : 'The selected house system is undefined at your latitude, Porphyry or Whole Sign was used instead.');
+            }
+        } catch (error) {
+            console.error('[Settings] Failed to change house system:', error);
+            alert(profile.language === 'ru'
+                ? 'Не удалось пересчитать карту. Попробуйте ещё раз.'
+                : 'Failed to recalculate the chart. Please try again.');
+        } finally {
+            setHouseSystemLoading(false);
+        }
+    };
+
+    const isCurrentZodiac = (option: { zodiacType: ZodiacType; ayanamsa?: Ayanamsa }) => {
+        if ((profile.zodiacType || 'tropical') !== option.zodiacType) return false;
+        return option.zodiacType === 'tropical' || (profile.ayanamsa || 'lahiri') === option.ayanamsa;
+    };
+
+    const handleZodiacChange = async (option: { zodiacType: ZodiacType; ayanamsa?: Ayanamsa }) => {
+        if (isCurrentZodiac(option) || zodiacLoading) return;
+
+        console.log('[Settings] Zodiac changed to:', option);
+        const updated = { ...profile, zodiacType: option.zodiacType, ayanamsa: option.ayanamsa };
+        setZodiacLoading(true);
+
+        try {
+            // Пересчитываем карту в новом зодиаке и сохраняем её вместе с профилем
+            const chart = await calculateNatalChart(updated);
+            await saveChartData(chart);
+            await saveProfile(updated);
+            onUpdate(updated);
+            onChartUpdate?.(chart);
+        } catch (error) {
+            console.error('[Settings] Failed to change zodiac:', error);
+            alert(profile.language === 'ru'
+                ? 'Не удалось пересчитать карту. Попробуйте ещё раз.'
+                : 'Failed to recalculate the chart. Please try again.');
+        } finally {
+            setZodiacLoading(false);
+        }
+    };
+
     const handlePremiumPurchase = async () => {
         if (profile.isPremium) return;
         
@@ -61,6 +144,13 @@ export const Settings: React.FC<SettingsProps> = ({ profile, onUpdate, onShowPre
 
     const handleSaveProfile = () => {
         const updated = { ...profile, name: tempName, birthPlace: tempPlace };
+        // Координаты и выбор момента на переводе часов относились к прежнему месту — теперь место геокодируется по названию
+        if (tempPlace !== profile.birthPlace) {
+            delete updated.birthLat;
+            delete updated.birthLon;
+            delete updated.birthTimezone;
+            delete updated.birthTimeChoice;
+        }
         console.log('[Settings] Saving profile changes:', {
             name: tempName,
             birthPlace: tempPlace
@@ -276,6 +366,60 @@ export const Settings: React.FC<SettingsProps> = ({ profile, onUpdate, onShowPre
                 </button>
             </div>
 
+            {/* House System */}
+            <div className="bg-astro-card border border-astro-border rounded-xl p-5 shadow-sm">
+                <div className="mb-4">
+                    <h3 className="text-astro-text font-medium font-serif">
+                        {profile.language === 'ru' ? 'Система домов' : 'House System'}
+                    </h3>
+                    <p className="text-[10px] uppercase tracking-wider text-astro-subtext mt-1">
+                        {houseSystemLoading
+                            ? (profile.language === 'ru' ? 'Пересчёт карты...' : 'Recalculating chart...')
+                            : (profile.language === 'ru' ? 'Используется для расчёта домов карты' : 'Used to calculate chart houses')}
+                    </p>
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                    {HOUSE_SYSTEMS.map(system => (
+                        <button
+                            key={system.id}
+                            onClick={() => handleHouseSystemChange(system.id)}
+                            disabled={houseSystemLoading}
+                            className={`py-2 px-3 rounded-lg text-xs font-medium border transition-colors disabled:opacity-50 ${(profile.houseSystem || 'placidus') === system.id ? 'bg-astro-text text-astro-bg border-astro-text' : 'border-astro-border text-astro-text hover:bg-astro-bg'}`}
+                        >
+                            {profile.language === 'ru' ? system.ru : system.en}
+                        </button>
+                    ))}
+                </div>
+            </div>
+
+            {/* Zodiac */}
+            <div className="bg-astro-card border border-astro-border rounded-xl p-5 shadow-sm">
+                <div className="mb-4">
+                    <h3 className="text-astro-text font-medium font-serif">
+                        {profile.language === 'ru' ? 'Зодиак' : 'Zodiac'}
+                    </h3>
+                    <p className="text-[10px] uppercase tracking-wider text-astro-subtext mt-1">
+                        {zodiacLoading
+                            ? (profile.language === 'ru' ? 'Пересчёт карты...' : 'Recalculating chart...')
+                            : (profile.language === 'ru' ? 'Сидерический — ведическая астрология (джйотиш)' : 'Sidereal is used in Vedic astrology (Jyotish)')}
+                    </p>
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                    {ZODIAC_OPTIONS.map(option => (
+                        <button
+                            key={option.ayanamsa || option.zodiacType}
+                            onClick={() => handleZodiacChange(option)}
+                            disabled={zodiacLoading}
+                            className={`py-2 px-3 rounded-lg text-xs font-medium border transition-colors disabled:opacity-50 ${isCurrentZodiac(option) ? 'bg-astro-text text-astro-bg border-astro-text' : 'border-astro-border text-astro-text hover:bg-astro-bg'}`}
+                        >
+                            {option.ayanamsa
+                                ? `${profile.language === 'ru' ? 'Сидер.' : 'Sidereal'} · ${AYANAMSA_NAMES[option.ayanamsa][profile.language]}`
+                                : (profile.language === 'ru' ? 'Тропический' : 'Tropical')}
+                        </button>
+                    ))}
+                </div>
+            </div>
+
             {/* Weather Settings */}
             <div className="bg-astro-card border border-astro-border rounded-xl p-6 shadow-sm">
                 <div className="flex justify-between items-center mb-4">
@@ -396,7 +540,7 @@ export const Settings: React.FC<SettingsProps> = ({ profile, onUpdate, onShowPre
                     <div>
                          <label className="block text-[10px] uppercase tracking-widest text-astro-subtext mb-2">Date & Time</label>
                          <p className="text-sm text-astro-text font-serif opacity-70">
-                             {profile.birthDate} • {profile.birthTime}
+                             {profile.birthDate} • {profile.birthTime || (profile.language === 'ru' ? 'время неизвестно' : 'time unknown')}
                          </p>
                     </div>
 
@@ -1,25 +1,141 @@
-import React, { useState, useMemo } from 'react';
-import { UserProfile, SynastryResult } from '../types';
+import React, { useState, useMemo, useEffect } from 'react';
+import { UserProfile, SynastryResult, SynastryCategory, PlaceCandidate, RelationshipChart, RelationshipChartsResult, Person, PersonRelationship } from '../types';
 import { getOrGenerateSynastry } from '../services/contentGenerationService';
+import { calculateRelationshipCharts } from '../services/astrologyService';
+import { getPeople, createPerson, deletePerson } from '../services/storageService';
 import { getText, getZodiacSign } from '../constants';
 import { motion } from 'framer-motion';
 import { Loading } from '../components/ui/Loading';
 import { getApproximateSunSignByDate } from '../lib/zodiac-utils';
+import { PlacePicker } from '../components/PlacePicker';
+
+// Категории рассчитанного счета совместимости
+const SCORE_CATEGORIES: { key: SynastryCategory; ru: string; en: string }[] = [
+    { key: 'emotional', ru: 'Эмоции', en: 'Emotions' },
+    { key: 'attraction', ru: 'Притяжение', en: 'Attraction' },
+    { key: 'communication', ru: 'Общение', en: 'Communication' },
+    { key: 'stability', ru: 'Устойчивость', en: 'Stability' },
+    { key: 'core', ru: 'Суть личностей', en: 'Core selves' }
+];
+
+// Кем сохраненный человек приходится пользователю
+const PERSON_RELATIONSHIPS: { key: PersonRelationship; ru: string; en: string }[] = [
+    { key: 'partner', ru: 'Партнер', en: 'Partner' },
+    { key: 'spouse', ru: 'Супруг(а)', en: 'Spouse' },
+    { key: 'child', ru: 'Ребенок', en: 'Child' },
+    { key: 'parent', ru: 'Родитель', en: 'Parent' },
+    { key: 'sibling', ru: 'Брат или сестра', en: 'Sibling' },
+    { key: 'friend', ru: 'Друг', en: 'Friend' },
+    { key: 'colleague', ru: 'Коллега', en: 'Colleague' },
+    { key: 'other', ru: 'Другое', en: 'Other' }
+];
+
+// Сохраненное место человека — уже разрешенные координаты, геокодинг не нужен
+function getPersonLocation(person: Person): PlaceCandidate {
+    return {
+        name: person.birthPlace,
+        displayName: person.birthPlace,
+        country: '',
+        countryCode: '',
+        lat: person.birthLat,
+        lon: person.birthLon,
+        timezone: person.birthTimezone,
+        source: 'manual'
+    };
+}
 
 interface SynastryProps {
     profile: UserProfile;
     requestPremium: () => void;
+    onOpenGroup: () => void;
 }
 
-export const Synastry: React.FC<SynastryProps> = ({ profile, requestPremium }) => {
+export const Synastry: React.FC<SynastryProps> = ({ profile, requestPremium, onOpenGroup }) => {
     const [partnerName, setPartnerName] = useState("");
     const [partnerDate, setPartnerDate] = useState("");
     const [partnerTime, setPartnerTime] = useState("");
     const [partnerPlace, setPartnerPlace] = useState("");
+    const [partnerLocation, setPartnerLocation] = useState<PlaceCandidate | null>(null);
+    const [partnerPlaceNeedsChoice, setPartnerPlaceNeedsChoice] = useState(false);
     const [relationshipType, setRelationshipType] = useState("романтика");
     const [result, setResult] = useState<SynastryResult | null>(null);
     const [loading, setLoading] = useState(false);
     const [analysisMode, setAnalysisMode] = useState<'brief' | 'full'>('brief');
+    const [relationshipCharts, setRelationshipCharts] = useState<RelationshipChartsResult | null>(null);
+    const [relationshipLoading, setRelationshipLoading] = useState(false);
+    const [people, setPeople] = useState<Person[]>([]);
+    const [selectedPerson, setSelectedPerson] = useState<Person | null>(null);
+    const [savePerson, setSavePerson] = useState(false);
+    const [personRelationship, setPersonRelationship] = useState<PersonRelationship>('partner');
+
+    // Сохраненные люди пользователя
+    useEffect(() => {
+        if (!profile.id) return;
+        getPeople(profile.id).then(setPeople);
+    }, [profile.id]);
+
+    // Выбранный человек используется, пока его данные в форме не изменены
+    const activePerson = useMemo(() => {
+        if (!selectedPerson) return null;
+        const unchanged = selectedPerson.name === partnerName
+            && selectedPerson.birthDate === partnerDate
+            && (selectedPerson.birthTime || '') === partnerTime
+            && selectedPerson.birthPlace === partnerPlace;
+        return unchanged ? selectedPerson : null;
+    }, [selectedPerson, partnerName, partnerDate, partnerTime, partnerPlace]);
+
+    const handleSelectPerson = (person: Person) => {
+        setSelectedPerson(person);
+        setPartnerName(person.name);
+        setPartnerDate(person.birthDate);
+        setPartnerTime(person.birthTime || '');
+        setPartnerPlace(person.birthPlace);
+        setPartnerLocation(getPersonLocation(person));
+        setPartnerPlaceNeedsChoice(false);
+        setSavePerson(false);
+    };
+
+    const handleDeletePerson = async (person: Person) => {
+        if (!profile.id) return;
+        try {
+            await deletePerson(profile.id, person.id);
+            setPeople(prev => prev.filter(p => p.id !== person.id));
+            if (selectedPerson?.id === person.id) setSelectedPerson(null);
+        } catch (e) {
+            console.error('[Synastry] Error deleting person:', e);
+        }
+    };
+
+    /**
+     * Человек для расчета: выбранный из сохраненных или только что сохраненный
+     * (если сохранить не удалось, синастрия считается по данным формы)
+     */
+    const resolvePerson = async (): Promise<Person | null> => {
+        if (activePerson) return activePerson;
+        if (!savePerson || !profile.id) return null;
+
+        try {
+            const person = await createPerson(profile.id, {
+                name: partnerName,
+                relationship: personRelationship,
+                birthDate: partnerDate,
+                birthTime: partnerTime || undefined,
+                birthPlace: partnerLocation?.displayName || partnerPlace || profile.birthPlace,
+                ...(partnerLocation ? {
+                    birthLat: partnerLocation.lat,
+                    birthLon: partnerLocation.lon,
+                    birthTimezone: partnerLocation.timezone
+                } : {})
+            });
+            setPeople(prev => [...prev, person]);
+            setSelectedPerson(person);
+            setSavePerson(false);
+            return person;
+        } catch (e) {
+            console.error('[Synastry] Error saving person:', e);
+            return null;
+        }
+    };
     
     // Вычисляем предполагаемый знак зодиака партнера
     const partnerZodiacSign = useMemo(() => {
@@ -35,8 +151,11 @@ export const Synastry: React.FC<SynastryProps> = ({ profile, requestPremium }) =
         }
     }, [partnerDate, profile.language]);
 
+    // Несколько мест с таким названием или неполные координаты — пока место не определено, расчет недоступен
+    const partnerPlaceUnresolved = !partnerLocation && partnerPlaceNeedsChoice;
+
     const handleCalculate = async (mode: 'brief' | 'full') => {
-        if (!partnerName || !partnerDate) return;
+        if (!partnerName || !partnerDate || partnerPlaceUnresolved) return;
         
         // Проверяем премиум статус для полного анализа
         if (mode === 'full' && !profile.isPremium) {
@@ -48,6 +167,8 @@ export const Synastry: React.FC<SynastryProps> = ({ profile, requestPremium }) =
         setAnalysisMode(mode);
         
         try {
+            const person = await resolvePerson();
+
             // Используем новый сервис с кэшированием
             const data = await getOrGenerateSynastry(
                 profile,
@@ -56,7 +177,9 @@ export const Synastry: React.FC<SynastryProps> = ({ profile, requestPremium }) =
                 partnerTime || undefined,
                 partnerPlace || undefined,
                 relationshipType,
-                mode
+                mode,
+                partnerLocation || undefined,
+                person || undefined
             );
             
             setResult(data);
@@ -67,6 +190,45 @@ export const Synastry: React.FC<SynastryProps> = ({ profile, requestPremium }) =
         }
     };
 
+    const handleRelationshipCharts = async () => {
+        if (!profile.isPremium) {
+            requestPremium();
+            return;
+        }
+
+        setRelationshipLoading(true);
+        try {
+            const data = await calculateRelationshipCharts(
+                profile,
+                partnerName,
+                partnerDate,
+                partnerTime || undefined,
+                partnerPlace || undefined,
+                relationshipType,
+                partnerLocation || undefined
+            );
+            setRelationshipCharts(data);
+        } catch (e) {
+            console.error('[Synastry] Error calculating relationship charts:', e);
+        } finally {
+            setRelationshipLoading(false);
+        }
+    };
+
+    // Солнце, Луна и Асцендент карты отношений (Асцендент — только при известном времени у обоих)
+    const formatChartSigns = (relationshipChart: RelationshipChart) => {
+        const { chart } = relationshipChart;
+        const ru = profile.language === 'ru';
+        const points = [
+            `${ru ? 'Солнце' : 'Sun'}: ${getZodiacSign(profile.language, chart.sun.sign)}`,
+            `${ru ? 'Луна' : 'Moon'}: ${getZodiacSign(profile.language, chart.moon.sign)}`
+        ];
+        if (!chart.birthTimeUnknown) {
+            points.push(`${ru ? 'Асцендент' : 'Ascendant'}: ${getZodiacSign(profile.language, chart.rising.sign)}`);
+        }
+        return points.join(' · ');
+    };
+
     if (loading) {
         const loadingMessage = profile.language === 'ru' 
             ? 'Анализируем совместимость...' 
@@ -84,6 +246,50 @@ export const Synastry: React.FC<SynastryProps> = ({ profile, requestPremium }) =
             {!result ? (
                 /* ФОРМА ВВОДА ДАННЫХ */
                 <div className="space-y-8">
+                    {/* Сохраненные люди */}
+                    {people.length > 0 && (
+                        <div>
+                            <p className="text-base font-medium text-astro-text mb-3">
+                                {getText(profile.language, 'synastry.people_title')}
+                            </p>
+                            <div className="flex flex-wrap gap-2">
+                                {people.map(person => (
+                                    <div
+                                        key={person.id}
+                                        className={`flex items-center rounded-full border-2 transition-colors ${activePerson?.id === person.id ? 'border-astro-highlight' : 'border-astro-border'}`}
+                                    >
+                                        <button
+                                            onClick={() => handleSelectPerson(person)}
+                                            className="pl-4 pr-2 py-2 text-sm text-astro-text"
+                                        >
+                                            {person.name}
+                                            <span className="text-astro-subtext">
+                                                {' · '}{PERSON_RELATIONSHIPS.find(r => r.key === person.relationship)?.[profile.language === 'ru' ? 'ru' : 'en']}
+                                            </span>
+                                        </button>
+                                        <button
+                                            onClick={() => handleDeletePerson(person)}
+                                            aria-label={getText(profile.language, 'synastry.delete_person')}
+                                            className="pr-3 py-2 text-sm text-astro-subtext hover:text-astro-text transition-colors"
+                                        >
+                                            ×
+                                        </button>
+                                    </div>
+                                ))}
+                            </div>
+                        </div>
+                    )}
+
+                    {/* Групповая совместимость: от двух сохраненных людей вместе с пользователем */}
+                    {people.length >= 2 && (
+                        <button
+                            onClick={onOpenGroup}
+                            className="w-full text-sm text-astro-highlight hover:opacity-80 transition-opacity"
+                        >
+                            {getText(profile.language, 'group.open_btn')} →
+                        </button>
+                    )}
+
                     {/* Минималистичная форма */}
                     <div className="space-y-6">
                         {/* Имя партнера */}
@@ -140,6 +346,13 @@ export const Synastry: React.FC<SynastryProps> = ({ profile, requestPremium }) =
                                         onChange={(e) => setPartnerTime(e.target.value)}
                                         className="w-full bg-astro-card border-2 border-astro-border rounded-2xl p-4 outline-none focus:border-astro-highlight transition-colors text-astro-text text-lg"
                                     />
+                                    {!partnerTime && (
+                                        <p className="mt-2 text-xs text-astro-subtext">
+                                            {profile.language === 'ru'
+                                                ? 'Без времени Асцендент и дома партнёра не учитываются'
+                                                : "Without the time, the partner's Rising sign and houses are not used"}
+                                        </p>
+                                    )}
                                 </div>
 
                                 {/* Место рождения */}
@@ -147,12 +360,15 @@ export const Synastry: React.FC<SynastryProps> = ({ profile, requestPremium }) =
                                     <label className="block text-base font-medium text-astro-text mb-3">
                                         {profile.language === 'ru' ? 'Место рождения' : 'Birth Place'}
                                     </label>
-                                    <input 
-                                        type="text" 
+                                    <PlacePicker
                                         value={partnerPlace}
-                                        onChange={(e) => setPartnerPlace(e.target.value)}
+                                        onChange={setPartnerPlace}
+                                        selected={partnerLocation}
+                                        onSelect={setPartnerLocation}
+                                        onNeedsChoiceChange={setPartnerPlaceNeedsChoice}
+                                        language={profile.language}
                                         placeholder={profile.language === 'ru' ? 'Город, страна' : 'City, country'}
-                                        className="w-full bg-astro-card border-2 border-astro-border rounded-2xl p-4 outline-none focus:border-astro-highlight transition-colors text-astro-text text-lg"
+                                        inputClassName="w-full bg-astro-card border-2 border-astro-border rounded-2xl p-4 outline-none focus:border-astro-highlight transition-colors text-astro-text text-lg"
                                     />
                                 </div>
 
@@ -171,6 +387,31 @@ export const Synastry: React.FC<SynastryProps> = ({ profile, requestPremium }) =
                                         <option value="работа">{profile.language === 'ru' ? 'Деловое партнёрство' : 'Business'}</option>
                                     </select>
                                 </div>
+
+                                {/* Сохранить в мои люди */}
+                                {profile.id && !activePerson && (
+                                    <div className="space-y-3">
+                                        <label className="flex items-center gap-3 text-base text-astro-text">
+                                            <input
+                                                type="checkbox"
+                                                checked={savePerson}
+                                                onChange={(e) => setSavePerson(e.target.checked)}
+                                            />
+                                            {getText(profile.language, 'synastry.save_person')}
+                                        </label>
+                                        {savePerson && (
+                                            <select
+                                                value={personRelationship}
+                                                onChange={(e) => setPersonRelationship(e.target.value as PersonRelationship)}
+                                                className="w-full bg-astro-card border-2 border-astro-border rounded-2xl p-4 outline-none focus:border-astro-highlight transition-colors text-astro-text text-lg"
+                                            >
+                                                {PERSON_RELATIONSHIPS.map(r => (
+                                                    <option key={r.key} value={r.key}>{profile.language === 'ru' ? r.ru : r.en}</option>
+                                                ))}
+                                            </select>
+                                        )}
+                                    </div>
+                                )}
                             </div>
                         </div>
                     </div>
@@ -180,7 +421,7 @@ export const Synastry: React.FC<SynastryProps> = ({ profile, requestPremium }) =
                         {/* Краткий анализ (бесплатный) */}
                         <button 
                             onClick={() => handleCalculate('brief')}
-                            disabled={!partnerName || !partnerDate}
+                            disabled={!partnerName || !partnerDate || partnerPlaceUnresolved}
                             className="w-full bg-astro-highlight text-white py-5 rounded-full text-base font-semibold disabled:opacity-40 hover:opacity-90 transition-opacity"
                         >
                             {profile.language === 'ru' ? 'Краткий обзор (Бесплатно)' : 'Brief Overview (Free)'}
@@ -189,7 +430,7 @@ export const Synastry: React.FC<SynastryProps> = ({ profile, requestPremium }) =
                         {/* Полный анализ (премиум) */}
                         <button 
                             onClick={() => handleCalculate('full')}
-                            disabled={!partnerName || !partnerDate}
+                            disabled={!partnerName || !partnerDate || partnerPlaceUnresolved}
                             className="w-full bg-astro-card border-2 border-astro-border text-astro-text py-5 rounded-full text-base font-semibold disabled:opacity-40 hover:border-astro-highlight transition-colors"
                         >
                             {profile.language === 'ru' ? 'Глубокий разбор' : 'Deep Analysis'}
@@ -209,10 +450,13 @@ export const Synastry: React.FC<SynastryProps> = ({ profile, requestPremium }) =
                         <button 
                             onClick={() => {
                                 setResult(null);
+                                setRelationshipCharts(null);
                                 setPartnerName("");
                                 setPartnerDate("");
                                 setPartnerTime("");
                                 setPartnerPlace("");
+                                setPartnerLocation(null);
+                                setSelectedPerson(null);
                             }} 
                             className="text-sm text-astro-subtext hover:text-astro-text transition-colors"
                         >
@@ -254,6 +498,34 @@ export const Synastry: React.FC<SynastryProps> = ({ profile, requestPremium }) =
 
                     {/* Результаты анализа */}
                     <div className="max-w-[85%] mx-auto space-y-8">
+                        {result.synastry && (
+                            /* Рассчитанный счет совместимости */
+                            <div className="bg-astro-card rounded-3xl p-6 border border-astro-border">
+                                <h3 className="text-lg font-semibold text-astro-text mb-2 text-center">
+                                    {getText(profile.language, 'synastry.score')}
+                                </h3>
+                                <p className="text-4xl font-serif text-astro-highlight text-center mb-5">
+                                    {result.synastry.score.total}%
+                                </p>
+                                <div className="space-y-3">
+                                    {SCORE_CATEGORIES.map(category => (
+                                        <div key={category.key}>
+                                            <div className="flex justify-between text-sm text-astro-subtext mb-1">
+                                                <span>{profile.language === 'ru' ? category.ru : category.en}</span>
+                                                <span>{result.synastry!.score.categories[category.key]}</span>
+                                            </div>
+                                            <div className="h-2 rounded-full bg-astro-bg overflow-hidden">
+                                                <div
+                                                    className="h-full rounded-full bg-astro-highlight"
+                                                    style={{ width: `${result.synastry!.score.categories[category.key]}%` }}
+                                                />
+                                            </div>
+                                        </div>
+                                    ))}
+                                </div>
+                            </div>
+                        )}
+
                         {result.briefOverview && (
                             /* КРАТКИЙ РЕЖИМ (бесплатный) */
                             <>
@@ -385,6 +657,92 @@ export const Synastry: React.FC<SynastryProps> = ({ profile, requestPremium }) =
                                 </div>
                             </>
                         )}
+
+                        {/* Карты отношений: композит и Дависон (премиум) */}
+                        <div className="bg-astro-card rounded-3xl p-6 border border-astro-border space-y-5">
+                            <div className="text-center">
+                                <h3 className="text-lg font-semibold text-astro-text mb-2">
+                                    {getText(profile.language, 'synastry.relationship_title')}
+                                </h3>
+                                <p className="text-sm text-astro-subtext">
+                                    {getText(profile.language, 'synastry.relationship_desc')}
+                                </p>
+                            </div>
+
+                            {!relationshipCharts ? (
+                                <div className="text-center">
+                                    <button
+                                        onClick={handleRelationshipCharts}
+                                        disabled={relationshipLoading}
+                                        className="bg-astro-highlight text-white px-8 py-4 rounded-full text-base font-semibold hover:opacity-90 transition-opacity disabled:opacity-50"
+                                    >
+                                        {relationshipLoading
+                                            ? getText(profile.language, 'synastry.loading')
+                                            : getText(profile.language, 'synastry.relationship_btn')}
+                                        {!profile.isPremium && ' (Premium)'}
+                                    </button>
+                                </div>
+                            ) : (
+                                <>
+                                    {relationshipCharts.interpretation?.theme && (
+                                        <p className="text-xl font-serif text-astro-highlight text-center">
+                                            {relationshipCharts.interpretation.theme}
+                                        </p>
+                                    )}
+
+                                    {/* Композит */}
+                                    <div>
+                                        <h4 className="text-base font-semibold text-astro-text mb-1 text-center">
+                                            {getText(profile.language, 'synastry.composite')}
+                                        </h4>
+                                        <p className="text-sm text-astro-subtext text-center mb-3">
+                                            {formatChartSigns(relationshipCharts.composite)}
+                                        </p>
+                                        {relationshipCharts.interpretation?.composite && (
+                                            <p className="text-[17px] leading-relaxed text-astro-text text-center whitespace-pre-wrap">
+                                                {relationshipCharts.interpretation.composite}
+                                            </p>
+                                        )}
+                                    </div>
+
+                                    {/* Дависон */}
+                                    <div>
+                                        <h4 className="text-base font-semibold text-astro-text mb-1 text-center">
+                                            {getText(profile.language, 'synastry.davison')}
+                                        </h4>
+                                        <p className="text-sm text-astro-subtext text-center mb-3">
+                                            {relationshipCharts.davison.date && new Date(relationshipCharts.davison.date).toLocaleDateString(profile.language === 'ru' ? 'ru-RU' : 'en-US')}
+                                            {' · '}
+                                            {formatChartSigns(relationshipCharts.davison)}
+                                        </p>
+                                        {relationshipCharts.interpretation?.davison && (
+                                            <p className="text-[17px] leading-relaxed text-astro-text text-center whitespace-pre-wrap">
+                                                {relationshipCharts.interpretation.davison}
+                                            </p>
+                                        )}
+                                    </div>
+
+                                    {/* Советы паре */}
+                                    {relationshipCharts.interpretation && relationshipCharts.interpretation.advice.length > 0 && (
+                                        <div>
+                                            <h4 className="text-base font-semibold text-astro-text mb-3 text-center">
+                                                {getText(profile.language, 'synastry.relationship_advice')}
+                                            </h4>
+                                            <div className="space-y-3">
+                                                {relationshipCharts.interpretation.advice.map((advice, index) => (
+                                                    <p
+                                                        key={index}
+                                                        className="text-[17px] leading-relaxed text-astro-text text-center"
+                                                    >
+                                                        {advice}
+                                                    </p>
+                                                ))}
+                                            </div>
+                                        </div>
+                                    )}
+                                </>
+                            )}
+                        </div>
                     </div>
                 </motion.div>
             )}